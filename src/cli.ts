@@ -2,11 +2,31 @@
 /**
  * CLI entry point for running pipelines
  */
-import { Effect, Logger, LogLevel } from "effect";
+import { Deferred, Effect, Fiber, Logger, LogLevel } from "effect";
+import type { Tracer } from "effect";
 import { NodeRuntime } from "@effect/platform-node";
-import { loadConfig } from "./core/config-loader.js";
+import {
+  loadConfig,
+  loadStreamConfigs,
+  type PipelineConfig,
+} from "./core/config-loader.js";
 import { buildPipeline } from "./core/pipeline-builder.js";
-import { run } from "./core/pipeline.js";
+import { run, type PipelineStatus } from "./core/pipeline.js";
+import {
+  createAdminServer,
+  type AdminServer,
+  type AdminServerError,
+} from "./core/admin-server.js";
+import {
+  createOtlpTracer,
+  type OtlpTracer,
+  type OtlpTracerError,
+} from "./core/otlp-tracer.js";
+import {
+  runStreams,
+  streamFromConfig,
+  type StreamResult,
+} from "./core/streams.js";
 import { runYamlTests, formatTestResults } from "./testing/yaml-test-runner.js";
 import { readFileSync } from "node:fs";
 import { fileURLToPath } from "node:url";
@@ -34,6 +54,7 @@ Usage:
 
 Commands:
   run <config-file>    Run a pipeline from a YAML configuration file
+  streams <directory>  Run every pipeline configuration in a directory
   test <pattern>       Run YAML tests matching the glob pattern
 
 Options:
@@ -44,11 +65,120 @@ Options:
 Examples:
   effect-connect run configs/example-pipeline.yaml
   effect-connect run my-pipeline.yaml --debug
+  cat events.jsonl | effect-connect run transform.yaml > out.jsonl
+  effect-connect streams configs/streams/
   effect-connect test "tests/**/*.yaml"
   effect-connect test tests/processors/uppercase.test.yaml
 `);
 }
 
+/**
+ * Start the admin servers configured by the pipelines' `http` blocks;
+ * pipelines configuring the same address share one server
+ */
+const startAdminServers = (
+  pipelines: ReadonlyArray<{ name: string; config: PipelineConfig }>,
+) =>
+  Effect.gen(function* () {
+    const byAddress = new Map<string, AdminServer>();
+    const byPipeline = new Map<string, AdminServer>();
+
+    for (const { name, config } of pipelines) {
+      if (!config.http || config.http.enabled === false) {
+        continue;
+      }
+      const address = config.http.address ?? "0.0.0.0:4195";
+      let server = byAddress.get(address);
+      if (!server) {
+        server = yield* Effect.try({
+          try: () => createAdminServer({ address, version: appVersion }),
+          catch: (error) => error as AdminServerError,
+        });
+        yield* server.start();
+        byAddress.set(address, server);
+      }
+      byPipeline.set(name, server);
+    }
+
+    return {
+      track: (name: string, status: Effect.Effect<PipelineStatus>) =>
+        byPipeline.get(name)?.track(status) ?? Effect.void,
+      close: Effect.forEach(byAddress.values(), (server) => server.close(), {
+        discard: true,
+      }),
+    };
+  });
+
+/**
+ * Create the OTLP tracers configured by the pipelines' `tracing` blocks;
+ * pipelines with the same tracing configuration share one tracer
+ */
+const startTracers = (
+  pipelines: ReadonlyArray<{ name: string; config: PipelineConfig }>,
+) =>
+  Effect.gen(function* () {
+    const byConfig = new Map<string, OtlpTracer>();
+    const byPipeline = new Map<string, OtlpTracer>();
+
+    for (const { name, config } of pipelines) {
+      if (!config.tracing || config.tracing.enabled === false) {
+        continue;
+      }
+      const key = JSON.stringify(config.tracing);
+      let otlp = byConfig.get(key);
+      if (!otlp) {
+        const tracing = config.tracing;
+        otlp = yield* Effect.try({
+          try: () =>
+            createOtlpTracer({
+              endpoint: tracing.endpoint,
+              serviceName: tracing.service_name,
+              headers: tracing.headers,
+              exportInterval: tracing.export_interval,
+              exportTimeout: tracing.export_timeout,
+              samplingRatio: tracing.sampling_ratio,
+            }),
+          catch: (error) => error as OtlpTracerError,
+        });
+        yield* Effect.log(
+          `Exporting traces to ${tracing.endpoint ?? "http://localhost:4318"}`,
+        );
+        byConfig.set(key, otlp);
+      }
+      byPipeline.set(name, otlp);
+    }
+
+    return {
+      tracer: (name: string): Tracer.Tracer | undefined =>
+        byPipeline.get(name)?.tracer,
+      // Export the spans still queued
+      close: Effect.forEach(byConfig.values(), (otlp) => otlp.close(), {
+        discard: true,
+      }),
+    };
+  });
+
+/**
+ * Log the combined result of every stream
+ */
+const reportStreams = (results: ReadonlyArray<StreamResult>) =>
+  Effect.gen(function* () {
+    yield* Effect.log("Streams stopped:");
+    for (const result of results) {
+      const restarts =
+        result.restarts > 0 ? `, ${result.restarts} restarts` : "";
+      const summary = `${result.name}: ${result.stats.processed} processed, ${result.stats.failed} failed, ${result.stats.filtered} filtered in ${result.stats.duration}ms${restarts}`;
+      if (result.success) {
+        yield* Effect.log(`  ✓ ${summary}`);
+      } else {
+        yield* Effect.logError(`  ✗ ${summary}`);
+        for (const error of result.errors ?? []) {
+          yield* Effect.logError(`    - ${error}`);
+        }
+      }
+    }
+  });
+
 /**
  * Main CLI function
  */
@@ -98,6 +228,53 @@ const main = Effect.gen(function* () {
     return;
   }
 
+  // Handle streams command
+  if (args[0] === "streams") {
+    const dir = args.find((arg) => !arg.startsWith("--") && arg !== "streams");
+    if (!dir) {
+      console.error("Error: Missing config directory argument");
+      console.error("Usage: effect-connect streams <directory>");
+      yield* Effect.fail(new Error("Missing config directory"));
+      return;
+    }
+
+    yield* Effect.log(`Loading stream configurations from: ${dir}`);
+    const configs = yield* loadStreamConfigs(dir);
+    yield* Effect.log(
+      `Loaded ${configs.length} streams: ${configs.map((c) => c.name).join(", ")}`,
+    );
+
+    const admin = yield* startAdminServers(configs);
+    const tracers = yield* startTracers(configs);
+
+    // SIGINT/SIGTERM stop every stream gracefully; the results are still
+    // reported before exiting
+    const stop = yield* Deferred.make<void>();
+    const streamsFiber = yield* Effect.forkDaemon(
+      runStreams(
+        configs.map((config) => ({
+          ...streamFromConfig(config, debugMode),
+          tracer: tracers.tracer(config.name),
+        })),
+        { stop: Deferred.await(stop), onStart: admin.track },
+      ).pipe(Effect.ensuring(admin.close), Effect.ensuring(tracers.close)),
+    );
+    const results = yield* Fiber.join(streamsFiber).pipe(
+      Effect.onInterrupt(() =>
+        Deferred.succeed(stop, undefined).pipe(
+          Effect.zipRight(Fiber.join(streamsFiber)),
+          Effect.flatMap(reportStreams),
+        ),
+      ),
+    );
+
+    yield* reportStreams(results);
+    if (results.some((result) => !result.success)) {
+      yield* Effect.fail(new Error("Some streams failed"));
+    }
+    return;
+  }
+
   // Check for run command
   if (args[0] !== "run") {
     console.error(`Error: Unknown command '${args[0]}'`);
@@ -133,15 +310,26 @@ const main = Effect.gen(function* () {
     `Pipeline built successfully with ${pipeline.processors.length} processors`,
   );
 
-  // Run the pipeline
+  // Run the pipeline (SIGINT/SIGTERM interrupt it, which drains in-flight
+  // messages and closes input/output before exiting)
+  const admin = yield* startAdminServers([{ name: pipeline.name, config }]);
+  const tracers = yield* startTracers([{ name: pipeline.name, config }]);
+  const tracer = tracers.tracer(pipeline.name);
   yield* Effect.log("Starting pipeline execution...");
-  const result = yield* run(pipeline);
+  const result = yield* run(pipeline, {
+    onStart: (status) => admin.track(pipeline.name, status),
+  }).pipe(
+    (effect) => (tracer ? Effect.withTracer(effect, tracer) : effect),
+    Effect.ensuring(admin.close),
+    Effect.ensuring(tracers.close),
+  );
 
   // Display results
   if (result.success) {
     yield* Effect.log("✓ Pipeline completed successfully!");
     yield* Effect.log(`  Processed: ${result.stats.processed} messages`);
     yield* Effect.log(`  Failed: ${result.stats.failed} messages`);
+    yield* Effect.log(`  Filtered: ${result.stats.filtered} messages`);
     yield* Effect.log(`  Duration: ${result.stats.duration}ms`);
   } else {
     yield* Effect.logError("✗ Pipeline failed!");
@@ -174,7 +362,9 @@ const main = Effect.gen(function* () {
             // Extract the useful part from the validation error
             if (msg.includes("Schema validation failed:")) {
               const parts = msg.split("Schema validation failed:");
-              errorMessage = `Configuration validation failed\n${parts[1]?.trim() || ""}`;
+              // Configs loaded from a directory are prefixed with their path
+              const file = parts[0].trim().replace(/:$/, "");
+              errorMessage = `Configuration validation failed${file ? ` in ${file}` : ""}\n${parts[1]?.trim() || ""}`;
             } else {
               errorMessage = `Configuration validation failed: ${msg}`;
             }
@@ -221,5 +411,13 @@ const debugMode = process.argv.includes("--debug");
 NodeRuntime.runMain(
   main.pipe(
     Logger.withMinimumLogLevel(debugMode ? LogLevel.Debug : LogLevel.Info),
+    // Logs go to stderr so stdout only carries pipeline output (stdout output)
+    Effect.provide(
+      Logger.replace(
+        Logger.defaultLogger,
+        Logger.prettyLogger({ stderr: true }),
+      ),
+    ),
   ) as Effect.Effect<void>,
+  { disablePrettyLogger: true },
 );
@@ -0,0 +1,229 @@
+/**
+ * Admin Server - HTTP endpoints to check running pipelines
+ *
+ * - `GET /ping`: Liveness, always `pong`
+ * - `GET /ready`: 200 once every pipeline runs with its input connected and
+ *   its output reachable, 503 otherwise
+ * - `GET /stats`: Live message counts and component metrics per pipeline
+ * - `GET /metrics`: All metrics in the Prometheus text format
+ * - `GET /version`: Version of effect-connect
+ *
+ * Components without connection tracking count as connected while their
+ * pipeline runs.
+ */
+import { Effect } from "effect";
+import * as Schema from "effect/Schema";
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import { ComponentError, type ErrorCategory } from "./errors.js";
+import { validate, NonEmptyString } from "./validation.js";
+import type { PipelineStatus } from "./pipeline.js";
+import {
+  PROMETHEUS_CONTENT_TYPE,
+  renderPrometheusMetrics,
+} from "./prometheus.js";
+
+export interface AdminServerConfig {
+  readonly address?: string; // host:port to listen on (default: "0.0.0.0:4195")
+  readonly version?: string; // Reported by /version
+}
+
+export class AdminServerError extends ComponentError {
+  readonly _tag = "AdminServerError";
+
+  constructor(
+    message: string,
+    readonly category: ErrorCategory,
+    cause?: unknown,
+  ) {
+    super(message, cause);
+  }
+}
+
+/**
+ * Validation schema for Admin Server configuration
+ */
+export const AdminServerConfigSchema = Schema.Struct({
+  address: Schema.optional(
+    NonEmptyString.pipe(
+      Schema.pattern(/^[^\s:]*:\d{1,5}$/, {
+        message: () => "Address must be host:port, e.g. 0.0.0.0:4195",
+      }),
+    ),
+  ),
+  version: Schema.optional(NonEmptyString),
+});
+
+/**
+ * Admin server tracking the pipelines of this process
+ */
+export interface AdminServer {
+  /**
+   * Track a pipeline by the status effect `run` passes to `onStart`;
+   * a restarted pipeline replaces its previous run
+   */
+  readonly track: (
+    status: Effect.Effect<PipelineStatus>,
+  ) => Effect.Effect<void>;
+  readonly start: () => Effect.Effect<void, AdminServerError>;
+  readonly close: () => Effect.Effect<void>;
+}
+
+/**
+ * Why a pipeline is not ready, undefined once it is
+ */
+const notReadyReason = (status: PipelineStatus): string | undefined => {
+  if (!status.running) {
+    return "pipeline is not running";
+  }
+  if (status.input?.connection && !status.input.connection.connected) {
+    return "input is not connected";
+  }
+  if (status.output?.connection && !status.output.connection.connected) {
+    return "output is not reachable";
+  }
+  return undefined;
+};
+
+const sendJson = (res: ServerResponse, statusCode: number, body: unknown) => {
+  res.writeHead(statusCode, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Create an admin server
+ *
+ * @example
+ * ```typescript
+ * const admin = createAdminServer({ address: "0.0.0.0:4195" })
+ * yield* admin.start()
+ * const result = yield* run(pipeline, { onStart: admin.track }).pipe(
+ *   Effect.ensuring(admin.close()),
+ * )
+ * ```
+ */
+export const createAdminServer = (config: AdminServerConfig): AdminServer => {
+  // Validate configuration synchronously at creation time
+  Effect.runSync(
+    validate(
+      AdminServerConfigSchema,
+      config,
+      "Admin Server configuration",
+    ).pipe(
+      Effect.catchAll((error) =>
+        Effect.fail(new AdminServerError(error.message, error.category, error)),
+      ),
+    ),
+  );
+
+  const address = config.address ?? "0.0.0.0:4195";
+  const separator = address.lastIndexOf(":");
+  const host = address.slice(0, separator) || "0.0.0.0";
+  const port = Number(address.slice(separator + 1));
+  const startTime = Date.now();
+
+  // Status of every tracked pipeline by name
+  const pipelines = new Map<string, Effect.Effect<PipelineStatus>>();
+
+  const statuses = () => Effect.runPromise(Effect.all([...pipelines.values()]));
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    try {
+      if (req.method !== "GET") {
+        res.writeHead(405, { "Content-Type": "text/plain" });
+        res.end("Method Not Allowed");
+        return;
+      }
+
+      switch (new URL(req.url ?? "/", "http://localhost").pathname) {
+        case "/ping":
+          res.writeHead(200, { "Content-Type": "text/plain" });
+          res.end("pong");
+          return;
+
+        case "/version":
+          sendJson(res, 200, { version: config.version ?? "unknown" });
+          return;
+
+        case "/stats":
+          sendJson(res, 200, {
+            uptime: Date.now() - startTime,
+            pipelines: await statuses(),
+          });
+          return;
+
+        case "/metrics":
+          res.writeHead(200, { "Content-Type": PROMETHEUS_CONTENT_TYPE });
+          res.end(renderPrometheusMetrics());
+          return;
+
+        case "/ready": {
+          const reasons = Object.fromEntries(
+            (await statuses()).flatMap((status) => {
+              const reason = notReadyReason(status);
+              return reason ? [[status.name, reason]] : [];
+            }),
+          );
+          if (pipelines.size === 0) {
+            sendJson(res, 503, { ready: false, reason: "no pipeline started" });
+          } else if (Object.keys(reasons).length > 0) {
+            sendJson(res, 503, { ready: false, pipelines: reasons });
+          } else {
+            sendJson(res, 200, { ready: true });
+          }
+          return;
+        }
+
+        default:
+          res.writeHead(404, { "Content-Type": "text/plain" });
+          res.end("Not Found");
+      }
+    } catch (error) {
+      res.writeHead(500, { "Content-Type": "text/plain" });
+      res.end("Internal Server Error");
+      Effect.runSync(Effect.logError(`Admin server error: ${error}`));
+    }
+  };
+
+  const server = createServer(handleRequest);
+
+  return {
+    track: (status) =>
+      Effect.flatMap(status, ({ name }) =>
+        Effect.sync(() => void pipelines.set(name, status)),
+      ),
+
+    start: () =>
+      Effect.async<void, AdminServerError>((resume) => {
+        const onError = (error: NodeJS.ErrnoException) =>
+          resume(
+            Effect.fail(
+              new AdminServerError(
+                `Failed to listen on ${address}: ${error.message}`,
+                "fatal",
+                error,
+              ),
+            ),
+          );
+        server.once("error", onError);
+        server.listen(port, host, () => {
+          server.off("error", onError);
+          resume(Effect.log(`Admin server listening on ${host}:${port}`));
+        });
+      }),
+
+    close: () =>
+      Effect.async<void>((resume) => {
+        if (!server.listening) {
+          resume(Effect.void);
+          return;
+        }
+        server.close(() => resume(Effect.void));
+        // Don't wait for idle keep-alive connections
+        server.closeIdleConnections();
+      }),
+  };
+};
@@ -0,0 +1,133 @@
+/**
+ * Batcher - Collects items from concurrent senders into batches
+ *
+ * A batch is sent once it holds `maxBatchSize` items or `batchTimeout` ms
+ * after its first item. `add` completes when the batch holding its item
+ * was sent and fails with the batch's error, so outputs built on it only
+ * report success for delivered messages.
+ */
+import { Deferred, Effect, Either, Fiber } from "effect";
+
+export interface BatcherConfig<A, E> {
+  readonly maxBatchSize: number;
+  readonly batchTimeout: number; // Max ms a batch waits to fill up
+  readonly send: (items: A[]) => Effect.Effect<void, E>;
+}
+
+export interface Batcher<A, E> {
+  /**
+   * Add an item and wait until its batch was sent
+   */
+  readonly add: (item: A) => Effect.Effect<void, E>;
+
+  /**
+   * Send the current batch without waiting for it to fill up
+   */
+  readonly flush: Effect.Effect<void>;
+}
+
+interface Entry<A, E> {
+  readonly item: A;
+  readonly done: Deferred.Deferred<void, E>;
+}
+
+/**
+ * Create a batcher
+ *
+ * @example
+ * ```typescript
+ * const batcher = createBatcher({
+ *   maxBatchSize: 50,
+ *   batchTimeout: 100,
+ *   send: (rows) => insertRows(rows),
+ * })
+ * yield* batcher.add(row)
+ * ```
+ */
+export const createBatcher = <A, E>(
+  config: BatcherConfig<A, E>,
+): Batcher<A, E> => {
+  const lock = Effect.unsafeMakeSemaphore(1);
+  let batch: Entry<A, E>[] = [];
+  let timeoutFiber: Fiber.RuntimeFiber<void> | undefined;
+
+  /**
+   * Send a batch and complete the senders with its result
+   */
+  const sendBatch = (entries: Entry<A, E>[]) =>
+    entries.length === 0
+      ? Effect.void
+      : Effect.either(config.send(entries.map(({ item }) => item))).pipe(
+          Effect.flatMap((result) =>
+            Effect.forEach(entries, ({ done }) =>
+              Either.isLeft(result)
+                ? Deferred.fail(done, result.left)
+                : Deferred.succeed(done, undefined),
+            ),
+          ),
+          Effect.asVoid,
+        );
+
+  /**
+   * Take the current batch and cancel its timeout; call holding the lock
+   */
+  const takeBatch = Effect.gen(function* () {
+    const fiber = timeoutFiber;
+    timeoutFiber = undefined;
+    if (fiber) {
+      yield* Fiber.interrupt(fiber);
+    }
+    const taken = batch;
+    batch = [];
+    return taken;
+  });
+
+  /**
+   * Send whatever is batched once `batchTimeout` passed
+   */
+  const startBatchTimeout = Effect.forkDaemon(
+    Effect.sleep(config.batchTimeout).pipe(
+      Effect.zipRight(
+        lock.withPermits(1)(
+          Effect.sync(() => {
+            // Cleared first, so a full batch never interrupts a running send
+            timeoutFiber = undefined;
+            const taken = batch;
+            batch = [];
+            return taken;
+          }),
+        ),
+      ),
+      Effect.flatMap(sendBatch),
+    ),
+  ).pipe(
+    Effect.map((fiber) => {
+      timeoutFiber = fiber;
+    }),
+  );
+
+  return {
+    add: (item: A) =>
+      Effect.gen(function* () {
+        const done = yield* Deferred.make<void, E>();
+
+        // The sender that fills the batch sends it
+        const full = yield* lock.withPermits(1)(
+          Effect.gen(function* () {
+            batch.push({ item, done });
+            if (batch.length >= config.maxBatchSize) {
+              return yield* takeBatch;
+            }
+            if (batch.length === 1) {
+              yield* startBatchTimeout;
+            }
+            return [];
+          }),
+        );
+
+        yield* sendBatch(full);
+        yield* Deferred.await(done);
+      }),
+    flush: lock.withPermits(1)(takeBatch).pipe(Effect.flatMap(sendBatch)),
+  };
+};
@@ -5,6 +5,7 @@ import { Effect, pipe } from "effect";
 import * as S from "effect/Schema";
 import * as yaml from "yaml";
 import * as fs from "node:fs/promises";
+import { join } from "node:path";
 
 /**
  * Custom errors for config loading
@@ -103,6 +104,153 @@ const RedisListInputSchema = S.Struct({
   enable_offline_queue: S.optional(S.Boolean),
 });
 
+/**
+ * Schema for File Input configuration (Bento style)
+ */
+const FileInputSchema = S.Struct({
+  paths: S.Union(S.String, S.Array(S.String)),
+  codec: S.optional(
+    S.Union(
+      S.Literal("lines"),
+      S.Literal("json_array"),
+      S.Literal("csv"),
+      S.Literal("all_bytes"),
+    ),
+  ),
+  delimiter: S.optional(S.String),
+  tail: S.optional(S.Boolean),
+  poll_interval: S.optional(S.Number),
+  checkpoint_path: S.optional(S.String),
+});
+
+/**
+ * Schema for Stdin Input configuration (Bento style)
+ */
+const StdinInputSchema = S.Struct({
+  codec: S.optional(S.Union(S.Literal("lines"), S.Literal("json_stream"))),
+});
+
+/**
+ * Schema for Kafka SASL authentication (shared by input and output)
+ */
+const KafkaSaslSchema = S.Struct({
+  mechanism: S.Union(
+    S.Literal("plain"),
+    S.Literal("scram-sha-256"),
+    S.Literal("scram-sha-512"),
+  ),
+  username: S.String,
+  password: S.String,
+});
+
+/**
+ * Schema for Kafka Input configuration (Bento style)
+ */
+const KafkaInputSchema = S.Struct({
+  brokers: S.Array(S.String),
+  topics: S.Array(S.String),
+  consumer_group: S.String,
+  client_id: S.optional(S.String),
+  from_beginning: S.optional(S.Boolean),
+  commit_interval: S.optional(S.Number),
+  queue_size: S.optional(S.Number),
+  ssl: S.optional(S.Boolean),
+  sasl: S.optional(KafkaSaslSchema),
+  connection_timeout: S.optional(S.Number),
+});
+
+/**
+ * Schema for SQL Select Input configuration (Bento style)
+ */
+const SqlSelectInputSchema = S.Struct({
+  driver: S.Union(S.Literal("postgres"), S.Literal("sqlite")),
+  dsn: S.String,
+  max_connections: S.optional(S.Number),
+  table: S.String,
+  columns: S.optional(S.Array(S.String)),
+  cursor_column: S.String,
+  key_column: S.optional(S.String),
+  where: S.optional(S.String),
+  initial_cursor: S.optional(S.Union(S.String, S.Number)),
+  batch_size: S.optional(S.Number),
+  poll_interval: S.optional(S.Number),
+  cursor_path: S.optional(S.String),
+});
+
+/**
+ * Schema for WebSocket Input configuration (Bento style)
+ */
+const WebSocketInputSchema = S.Struct({
+  mode: S.optional(S.Union(S.Literal("client"), S.Literal("server"))),
+  url: S.optional(S.String),
+  headers: S.optional(S.Record({ key: S.String, value: S.String })),
+  open_message: S.optional(S.String),
+  connection_timeout: S.optional(S.Number),
+  reconnect_delay: S.optional(S.Number),
+  max_reconnect_delay: S.optional(S.Number),
+  port: S.optional(S.Number),
+  host: S.optional(S.String),
+  path: S.optional(S.String),
+  queue_size: S.optional(S.Number),
+});
+
+/**
+ * Schema for MQTT Input configuration (Bento style)
+ */
+const MqttInputSchema = S.Struct({
+  url: S.String,
+  client_id: S.optional(S.String),
+  username: S.optional(S.String),
+  password: S.optional(S.String),
+  keepalive: S.optional(S.Number),
+  connection_timeout: S.optional(S.Number),
+  reconnect_delay: S.optional(S.Number),
+  topics: S.Array(S.String),
+  qos: S.optional(S.Union(S.Literal(0), S.Literal(1), S.Literal(2))),
+  clean_session: S.optional(S.Boolean),
+  queue_size: S.optional(S.Number),
+});
+
+/**
+ * Connection fields shared by the NATS schemas (Bento style)
+ */
+const natsConnectionFields = {
+  urls: S.Array(S.String),
+  name: S.optional(S.String),
+  user: S.optional(S.String),
+  password: S.optional(S.String),
+  token: S.optional(S.String),
+  tls: S.optional(S.Boolean),
+  connection_timeout: S.optional(S.Number),
+  reconnect_delay: S.optional(S.Number),
+};
+
+/**
+ * Schema for NATS Input configuration (Bento style)
+ */
+const NatsInputSchema = S.Struct({
+  ...natsConnectionFields,
+  subjects: S.Array(S.String),
+  queue_group: S.optional(S.String),
+  queue_size: S.optional(S.Number),
+});
+
+/**
+ * Schema for NATS JetStream Input configuration (Bento style)
+ */
+const NatsJetStreamInputSchema = S.Struct({
+  ...natsConnectionFields,
+  stream: S.String,
+  durable: S.String,
+  filter_subjects: S.optional(S.Array(S.String)),
+  deliver_policy: S.optional(
+    S.Union(S.Literal("all"), S.Literal("new"), S.Literal("last")),
+  ),
+  ack_wait: S.optional(S.Number),
+  max_deliver: S.optional(S.Number),
+  batch_size: S.optional(S.Number),
+});
+
 /**
  * Schema for Generate Input (testing utility)
  */
@@ -114,18 +262,41 @@ const GenerateInputSchema = S.Struct({
 });
 
 /**
- * Input configuration - detects type by key
+ * Input fields shared by top-level and nested inputs (broker children)
  */
-const InputConfigSchema = S.Struct({
+const inputFields = {
   aws_sqs: S.optional(AwsSqsInputSchema),
   redis_streams: S.optional(RedisStreamsInputSchema),
   redis_pubsub: S.optional(RedisPubSubInputSchema),
   redis_list: S.optional(RedisListInputSchema),
   http: S.optional(HttpInputSchema),
+  file: S.optional(FileInputSchema),
+  stdin: S.optional(StdinInputSchema),
+  kafka: S.optional(KafkaInputSchema),
+  sql_select: S.optional(SqlSelectInputSchema),
+  websocket: S.optional(WebSocketInputSchema),
+  mqtt: S.optional(MqttInputSchema),
+  nats: S.optional(NatsInputSchema),
+  nats_jetstream: S.optional(NatsJetStreamInputSchema),
   generate: S.optional(GenerateInputSchema),
-  // Future inputs can be added here:
-  // kafka: S.optional(KafkaInputSchema),
-});
+};
+
+/**
+ * Input configuration - detects type by key
+ * Recursive through broker children
+ */
+interface InputConfigSchema extends S.Schema<InputConfig> {}
+const InputConfigSchema: InputConfigSchema = S.suspend(
+  (): S.Schema<InputConfig> =>
+    S.Struct({
+      ...inputFields,
+      broker: S.optional(
+        S.Struct({
+          inputs: S.Array(InputConfigSchema),
+        }),
+      ),
+    }),
+);
 
 /**
  * Schema for Metadata Processor (Bento style)
@@ -164,6 +335,41 @@ const MappingProcessorSchema = S.Struct({
   expression: S.String,
 });
 
+/**
+ * Schema for Filter Processor
+ */
+const FilterProcessorSchema = S.Struct({
+  check: S.String,
+});
+
+/**
+ * Schema for Split Processor
+ */
+const SplitProcessorSchema = S.Struct({
+  path: S.optional(S.String),
+  format: S.optional(
+    S.Union(S.Literal("array"), S.Literal("lines"), S.Literal("csv")),
+  ),
+  delimiter: S.optional(S.String),
+  batch_size: S.optional(S.Number),
+});
+
+/**
+ * Schema for Window Processor
+ */
+const WindowProcessorSchema = S.Struct({
+  type: S.Union(
+    S.Literal("tumbling"),
+    S.Literal("sliding"),
+    S.Literal("count"),
+  ),
+  size: S.optional(S.Number), // ms
+  slide: S.optional(S.Number), // ms
+  count: S.optional(S.Number),
+  key: S.optional(S.String),
+  aggregate: S.optional(S.String),
+});
+
 /**
  * Schema for HTTP Processor (API enrichment and validation)
  */
@@ -193,6 +399,19 @@ const HttpProcessorSchema = S.Struct({
   ),
 });
 
+/**
+ * Schema for SQL Select Processor (Bento style)
+ */
+const SqlSelectProcessorSchema = S.Struct({
+  driver: S.Union(S.Literal("postgres"), S.Literal("sqlite")),
+  dsn: S.String,
+  query: S.String,
+  args_mapping: S.optional(S.String),
+  result_key: S.optional(S.String),
+  max_connections: S.optional(S.Number),
+  max_retries: S.optional(S.Number),
+});
+
 /**
  * Schema for Assert Processor (testing utility)
  */
@@ -201,6 +420,25 @@ const AssertProcessorSchema = S.Struct({
   expected: S.Unknown,
 });
 
+/**
+ * Schema for processor error policy (per processor or pipeline-wide)
+ */
+const ErrorPolicySchema = S.Struct({
+  action: S.optional(
+    S.Union(
+      S.Literal("drop"),
+      S.Literal("skip"),
+      S.Literal("error_output"),
+      S.Literal("fail"),
+    ),
+  ),
+  max_retries: S.optional(S.Int.pipe(S.nonNegative())),
+  retry_schedule: S.optional(
+    S.Union(S.Literal("exponential"), S.Literal("fixed")),
+  ),
+  retry_delay: S.optional(S.Int.pipe(S.positive())), // Base delay in ms (default: 1000)
+});
+
 /**
  * Processor configuration - recursive to support nested processors (branch, switch)
  * Uses S.suspend for recursive schema definition
@@ -213,7 +451,11 @@ const ProcessorConfigSchema: ProcessorConfigSchema = S.suspend(
       uppercase: S.optional(UppercaseProcessorSchema),
       log: S.optional(LogProcessorSchema),
       mapping: S.optional(MappingProcessorSchema),
+      filter: S.optional(FilterProcessorSchema),
+      split: S.optional(SplitProcessorSchema),
+      window: S.optional(WindowProcessorSchema),
       http: S.optional(HttpProcessorSchema),
+      sql_select: S.optional(SqlSelectProcessorSchema),
       branch: S.optional(
         S.Struct({
           processors: S.Array(S.suspend(() => ProcessorConfigSchema)),
@@ -231,6 +473,10 @@ const ProcessorConfigSchema: ProcessorConfigSchema = S.suspend(
       ),
       // Testing utilities
       assert: S.optional(AssertProcessorSchema),
+      // Error handling for this processor
+      on_error: S.optional(ErrorPolicySchema),
+      // Label of a rate_limit_resources entry to wait for per message
+      rate_limit: S.optional(S.String),
     }),
 );
 
@@ -251,7 +497,9 @@ const AwsSqsOutputSchema = S.Struct({
   region: S.optional(S.String),
   endpoint: S.optional(S.String),
   max_batch_size: S.optional(S.Number),
+  batch_timeout: S.optional(S.Number),
   delay_seconds: S.optional(S.Number),
+  max_retries: S.optional(S.Number),
 });
 
 /**
@@ -275,6 +523,44 @@ const HttpOutputSchema = S.Struct({
   ),
 });
 
+/**
+ * Schema for File Output configuration (Bento style)
+ */
+const FileOutputSchema = S.Struct({
+  path: S.String,
+  format: S.optional(S.Union(S.Literal("lines"), S.Literal("json_array"))),
+  compression: S.optional(S.Union(S.Literal("none"), S.Literal("gzip"))),
+  max_size: S.optional(S.Number),
+  max_age: S.optional(S.Number),
+});
+
+/**
+ * Schema for Stdout Output configuration (Bento style)
+ */
+const StdoutOutputSchema = S.Struct({
+  format: S.optional(
+    S.Union(S.Literal("compact"), S.Literal("pretty"), S.Literal("raw")),
+  ),
+});
+
+/**
+ * Schema for Kafka Output configuration (Bento style)
+ */
+const KafkaOutputSchema = S.Struct({
+  brokers: S.Array(S.String),
+  topic: S.String,
+  key: S.optional(S.String),
+  client_id: S.optional(S.String),
+  max_batch_size: S.optional(S.Number),
+  batch_timeout: S.optional(S.Number),
+  acks: S.optional(S.Union(S.Literal(-1), S.Literal(0), S.Literal(1))),
+  compression: S.optional(S.Union(S.Literal("none"), S.Literal("gzip"))),
+  max_retries: S.optional(S.Number),
+  ssl: S.optional(S.Boolean),
+  sasl: S.optional(KafkaSaslSchema),
+  connection_timeout: S.optional(S.Number),
+});
+
 /**
  * Schema for Redis Pub/Sub Output configuration (Bento style)
  */
@@ -321,38 +607,305 @@ const CaptureOutputSchema = S.Struct({
 });
 
 /**
- * Output configuration - detects type by key
+ * Schema for SQL Insert Output configuration (Bento style)
+ */
+const SqlInsertOutputSchema = S.Struct({
+  driver: S.Union(S.Literal("postgres"), S.Literal("sqlite")),
+  dsn: S.String,
+  max_connections: S.optional(S.Number),
+  table: S.String,
+  columns: S.Array(S.String),
+  args_mapping: S.optional(S.String),
+  on_conflict: S.optional(
+    S.Struct({
+      columns: S.Array(S.String),
+      action: S.optional(S.Union(S.Literal("update"), S.Literal("nothing"))),
+      update: S.optional(S.Array(S.String)),
+    }),
+  ),
+  max_batch_size: S.optional(S.Number),
+  batch_timeout: S.optional(S.Number),
+  max_retries: S.optional(S.Number),
+});
+
+/**
+ * Schema for WebSocket Output configuration (Bento style)
+ */
+const WebSocketOutputSchema = S.Struct({
+  url: S.String,
+  headers: S.optional(S.Record({ key: S.String, value: S.String })),
+  format: S.optional(S.Union(S.Literal("json"), S.Literal("raw"))),
+  connection_timeout: S.optional(S.Number),
+  max_retries: S.optional(S.Number),
+});
+
+/**
+ * Schema for MQTT Output configuration (Bento style)
+ */
+const MqttOutputSchema = S.Struct({
+  url: S.String,
+  client_id: S.optional(S.String),
+  username: S.optional(S.String),
+  password: S.optional(S.String),
+  keepalive: S.optional(S.Number),
+  connection_timeout: S.optional(S.Number),
+  reconnect_delay: S.optional(S.Number),
+  topic: S.String,
+  qos: S.optional(S.Union(S.Literal(0), S.Literal(1), S.Literal(2))),
+  retain: S.optional(S.Boolean),
+  max_retries: S.optional(S.Number),
+});
+
+/**
+ * Schema for NATS Output configuration (Bento style)
  */
-const OutputConfigSchema = S.Struct({
+const NatsOutputSchema = S.Struct({
+  ...natsConnectionFields,
+  subject: S.String,
+  request: S.optional(S.Boolean),
+  request_timeout: S.optional(S.Number),
+  max_retries: S.optional(S.Number),
+});
+
+/**
+ * Schema for NATS JetStream Output configuration (Bento style)
+ */
+const NatsJetStreamOutputSchema = S.Struct({
+  ...natsConnectionFields,
+  subject: S.String,
+  ack_timeout: S.optional(S.Number),
+  max_retries: S.optional(S.Number),
+});
+
+/**
+ * Output fields shared by top-level and nested outputs (broker children)
+ */
+const outputFields = {
   redis_streams: S.optional(RedisStreamsOutputSchema),
   redis_pubsub: S.optional(RedisPubSubOutputSchema),
   redis_list: S.optional(RedisListOutputSchema),
   aws_sqs: S.optional(AwsSqsOutputSchema),
   http: S.optional(HttpOutputSchema),
+  file: S.optional(FileOutputSchema),
+  stdout: S.optional(StdoutOutputSchema),
+  kafka: S.optional(KafkaOutputSchema),
+  sql_insert: S.optional(SqlInsertOutputSchema),
+  websocket: S.optional(WebSocketOutputSchema),
+  mqtt: S.optional(MqttOutputSchema),
+  nats: S.optional(NatsOutputSchema),
+  nats_jetstream: S.optional(NatsJetStreamOutputSchema),
   capture: S.optional(CaptureOutputSchema),
-  // Future outputs can be added here:
-  // postgres: S.optional(PostgresOutputSchema),
+  // Label of a rate_limit_resources entry to wait for before every send
+  rate_limit: S.optional(S.String),
+};
+
+/**
+ * Broker child - any output, optionally wrapped in its own DLQ
+ */
+interface BrokerChildConfigSchema extends S.Schema<BrokerChildConfig> {}
+const BrokerChildConfigSchema: BrokerChildConfigSchema = S.suspend(
+  (): S.Schema<BrokerChildConfig> =>
+    S.Struct({
+      ...outputFields,
+      broker: S.optional(BrokerConfigSchema),
+      switch: S.optional(SwitchConfigSchema),
+      dlq: S.optional(DLQConfigSchema),
+    }),
+);
+
+/**
+ * Schema for Broker Output - sends to several outputs with a pattern
+ */
+const BrokerConfigSchema: S.Schema<BrokerConfig> = S.Struct({
+  pattern: S.optional(
+    S.Union(
+      S.Literal("fan_out"),
+      S.Literal("fan_out_sequential"),
+      S.Literal("round_robin"),
+      S.Literal("greedy"),
+    ),
+  ),
+  outputs: S.Array(BrokerChildConfigSchema),
+});
+
+/**
+ * Schema for Switch Output - routes to the output of each matching case
+ */
+const SwitchConfigSchema: S.Schema<SwitchConfig> = S.Struct({
+  cases: S.Array(
+    S.Struct({
+      check: S.String,
+      output: S.suspend(() => OutputConfigSchema),
+      continue: S.optional(S.Boolean),
+    }),
+  ),
+});
+
+/**
+ * Output configuration - detects type by key
+ * Recursive through broker children and switch cases
+ */
+const OutputConfigSchema: S.Schema<OutputConfig> = S.Struct({
+  ...outputFields,
+  broker: S.optional(BrokerConfigSchema),
+  switch: S.optional(SwitchConfigSchema),
+});
+
+/**
+ * Dead letter queue configuration - wraps the output with retries
+ */
+const DLQConfigSchema = S.Struct({
+  output: OutputConfigSchema,
+  max_retries: S.optional(S.Int.pipe(S.nonNegative())),
+  retry_schedule: S.optional(
+    S.Union(S.Literal("exponential"), S.Literal("fixed")),
+  ),
+  retry_delay: S.optional(S.Int.pipe(S.positive())), // Base delay in ms (default: 1000)
+});
+
+/**
+ * Backpressure configuration - concurrency limits for the pipeline runner
+ */
+const BackpressureConfigSchema = S.Struct({
+  max_concurrent_messages: S.optional(S.Int.pipe(S.positive())),
+  max_concurrent_outputs: S.optional(S.Int.pipe(S.positive())),
+});
+
+/**
+ * Graceful shutdown configuration - drain window on SIGINT/SIGTERM
+ */
+const ShutdownConfigSchema = S.Struct({
+  drain_timeout: S.optional(S.Int.pipe(S.positive())), // ms (default: 30000)
+});
+
+/**
+ * Restart policy - how `effect-connect streams` restarts a stopped pipeline
+ */
+const RestartConfigSchema = S.Struct({
+  policy: S.Literal("never", "on_failure", "always"),
+  max_restarts: S.optional(S.Int.pipe(S.nonNegative())), // default: unlimited
+  restart_schedule: S.optional(
+    S.Union(S.Literal("exponential"), S.Literal("fixed")),
+  ),
+  restart_delay: S.optional(S.Int.pipe(S.positive())), // Base delay in ms (default: 1000)
+  restart_max_delay: S.optional(S.Int.pipe(S.positive())), // Cap of exponential delays in ms (default: 60000)
+  restart_reset_after: S.optional(S.Int.pipe(S.positive())), // ms a run must stay up to reset the delay (default: 60000)
+});
+
+/**
+ * Admin HTTP server - health, readiness and live stats endpoints
+ */
+const HttpServerConfigSchema = S.Struct({
+  enabled: S.optional(S.Boolean), // default: true
+  address: S.optional(S.String), // host:port (default: "0.0.0.0:4195")
+});
+
+/**
+ * Span export to an OpenTelemetry collector over OTLP/HTTP
+ */
+const TracingConfigSchema = S.Struct({
+  enabled: S.optional(S.Boolean), // default: true
+  endpoint: S.optional(S.String), // Collector URL (default: "http://localhost:4318")
+  service_name: S.optional(S.String), // default: "effect-connect"
+  headers: S.optional(S.Record({ key: S.String, value: S.String })),
+  export_interval: S.optional(S.Int.pipe(S.positive())), // ms (default: 5000)
+  export_timeout: S.optional(S.Int.pipe(S.positive())), // ms (default: 10000)
+  sampling_ratio: S.optional(S.Number.pipe(S.between(0, 1))), // default: 1
+});
+
+/**
+ * Named rate limit, referenced by processors and outputs through `rate_limit`
+ */
+const RateLimitResourceSchema = S.Struct({
+  label: S.String,
+  algorithm: S.optional(S.Literal("token_bucket", "fixed_window")), // default: "token_bucket"
+  count: S.Int.pipe(S.positive()), // Requests per interval
+  interval: S.Int.pipe(S.positive()), // ms
+  burst: S.optional(S.Int.pipe(S.positive())), // Token bucket capacity (default: count)
+  redis: S.optional(
+    S.Struct({
+      url: S.optional(S.String), // default: "redis://localhost:6379"
+      key: S.optional(S.String), // default: "effect-connect:rate-limit:<label>"
+    }),
+  ),
 });
 
 /**
  * Complete pipeline configuration schema (Bento style)
  */
 export const PipelineConfigSchema = S.Struct({
+  name: S.optional(S.String), // default: "<input>-to-<output>", e.g. "kafka-to-http"
   input: InputConfigSchema,
   pipeline: S.optional(
     S.Struct({
       processors: S.optional(S.Array(ProcessorConfigSchema)),
+      on_error: S.optional(ErrorPolicySchema),
     }),
   ),
   output: OutputConfigSchema,
+  error_output: S.optional(OutputConfigSchema),
+  dlq: S.optional(DLQConfigSchema),
+  backpressure: S.optional(BackpressureConfigSchema),
+  shutdown: S.optional(ShutdownConfigSchema),
+  restart: S.optional(RestartConfigSchema),
+  http: S.optional(HttpServerConfigSchema),
+  tracing: S.optional(TracingConfigSchema),
+  rate_limit_resources: S.optional(S.Array(RateLimitResourceSchema)),
 });
 
 /**
  * TypeScript type inferred from schema
  */
 export type PipelineConfig = S.Schema.Type<typeof PipelineConfigSchema>;
-export type InputConfig = S.Schema.Type<typeof InputConfigSchema>;
-export type OutputConfig = S.Schema.Type<typeof OutputConfigSchema>;
+export type DLQPipelineConfig = S.Schema.Type<typeof DLQConfigSchema>;
+export type ErrorPolicyConfig = S.Schema.Type<typeof ErrorPolicySchema>;
+export type RestartPipelineConfig = S.Schema.Type<typeof RestartConfigSchema>;
+export type TracingPipelineConfig = S.Schema.Type<typeof TracingConfigSchema>;
+export type RateLimitResourceConfig = S.Schema.Type<
+  typeof RateLimitResourceSchema
+>;
+export type BackpressurePipelineConfig = S.Schema.Type<
+  typeof BackpressureConfigSchema
+>;
+
+/**
+ * InputConfig type - manually defined as recursive (broker children)
+ */
+export interface InputConfig extends S.Schema.Type<
+  S.Struct<typeof inputFields>
+> {
+  readonly broker?: {
+    readonly inputs: readonly InputConfig[];
+  };
+}
+
+/**
+ * OutputConfig type - manually defined as recursive (broker, switch)
+ */
+export interface OutputConfig extends S.Schema.Type<
+  S.Struct<typeof outputFields>
+> {
+  readonly broker?: BrokerConfig;
+  readonly switch?: SwitchConfig;
+}
+
+export interface BrokerConfig {
+  readonly pattern?:
+    "fan_out" | "fan_out_sequential" | "round_robin" | "greedy";
+  readonly outputs: readonly BrokerChildConfig[];
+}
+
+export interface BrokerChildConfig extends OutputConfig {
+  readonly dlq?: DLQPipelineConfig;
+}
+
+export interface SwitchConfig {
+  readonly cases: readonly {
+    readonly check: string;
+    readonly output: OutputConfig;
+    readonly continue?: boolean;
+  }[];
+}
 
 /**
  * ProcessorConfig type - manually defined as recursive
@@ -372,6 +925,23 @@ export type ProcessorConfig = {
   readonly mapping?: {
     readonly expression: string;
   };
+  readonly filter?: {
+    readonly check: string;
+  };
+  readonly split?: {
+    readonly path?: string;
+    readonly format?: "array" | "lines" | "csv";
+    readonly delimiter?: string;
+    readonly batch_size?: number;
+  };
+  readonly window?: {
+    readonly type: "tumbling" | "sliding" | "count";
+    readonly size?: number;
+    readonly slide?: number;
+    readonly count?: number;
+    readonly key?: string;
+    readonly aggregate?: string;
+  };
   readonly http?: {
     readonly url: string;
     readonly method?: "GET" | "POST" | "PUT" | "PATCH";
@@ -388,6 +958,15 @@ export type ProcessorConfig = {
       readonly token?: string;
     };
   };
+  readonly sql_select?: {
+    readonly driver: "postgres" | "sqlite";
+    readonly dsn: string;
+    readonly query: string;
+    readonly args_mapping?: string;
+    readonly result_key?: string;
+    readonly max_connections?: number;
+    readonly max_retries?: number;
+  };
   readonly branch?: {
     readonly processors: readonly ProcessorConfig[];
   };
@@ -402,6 +981,15 @@ export type ProcessorConfig = {
     readonly expression: string;
     readonly expected: unknown;
   };
+  // Error handling for this processor
+  readonly on_error?: {
+    readonly action?: "drop" | "skip" | "error_output" | "fail";
+    readonly max_retries?: number;
+    readonly retry_schedule?: "exponential" | "fixed";
+    readonly retry_delay?: number;
+  };
+  // Label of a rate_limit_resources entry to wait for per message
+  readonly rate_limit?: string;
 };
 
 /**
@@ -467,3 +1055,54 @@ export const loadConfig = (
     return config;
   });
 };
+
+/**
+ * A pipeline configuration loaded from a directory, named after its file
+ */
+export interface StreamConfig {
+  readonly name: string;
+  readonly path: string;
+  readonly config: PipelineConfig;
+}
+
+/**
+ * Load every YAML configuration file (*.yaml, *.yml) in a directory
+ */
+export const loadStreamConfigs = (
+  dir: string,
+): Effect.Effect<
+  ReadonlyArray<StreamConfig>,
+  FileReadError | YamlParseError | ConfigValidationError
+> =>
+  Effect.gen(function* () {
+    const files = yield* Effect.tryPromise({
+      try: () => fs.readdir(dir),
+      catch: (error) => new FileReadError(dir, error),
+    });
+
+    const configFiles = files.filter((file) => /\.ya?ml$/.test(file)).sort();
+    if (configFiles.length === 0) {
+      return yield* Effect.fail(
+        new ConfigValidationError(`No pipeline configurations found in ${dir}`),
+      );
+    }
+
+    return yield* Effect.forEach(configFiles, (file) => {
+      const path = join(dir, file);
+      return loadConfig(path).pipe(
+        // Say which of the files is invalid
+        Effect.mapError((error) =>
+          error._tag === "ConfigValidationError"
+            ? new ConfigValidationError(`${path}: ${error.message}`)
+            : error._tag === "YamlParseError"
+              ? new YamlParseError(`${error.message} in ${path}`, error.cause)
+              : error,
+        ),
+        Effect.map((config) => ({
+          name: file.replace(/\.ya?ml$/, ""),
+          path,
+          config,
+        })),
+      );
+    });
+  });
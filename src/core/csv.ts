@@ -0,0 +1,72 @@
+/**
+ * Minimal CSV parsing shared by components that read delimited text
+ * Supports quoted fields, escaped quotes ("") and newlines inside quotes
+ */
+
+/**
+ * Parse CSV text into rows of fields
+ * Empty lines are skipped
+ */
+export const parseCsvRows = (text: string, delimiter = ","): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    // Skip empty lines
+    if (row.length > 1 || row[0] !== "") {
+      rows.push(row);
+    }
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n") {
+      endRow();
+    } else if (char !== "\r") {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+/**
+ * Parse CSV text with a header row into records keyed by column name
+ */
+export const parseCsvRecords = (
+  text: string,
+  delimiter = ",",
+): Record<string, string>[] => {
+  const [header, ...rows] = parseCsvRows(text, delimiter);
+  if (!header) {
+    return [];
+  }
+
+  return rows.map((row) =>
+    Object.fromEntries(header.map((column, i) => [column, row[i] ?? ""])),
+  );
+};
@@ -22,7 +22,7 @@ export interface DLQConfig<E> {
   readonly output: Output<E>; // Primary output
   readonly dlq?: Output<any>; // Dead letter queue output
   readonly maxRetries?: number; // Max retries before DLQ (default: 3)
-  readonly retrySchedule?: Schedule.Schedule<number>; // Custom retry schedule
+  readonly retrySchedule?: Schedule.Schedule<unknown>; // Custom retry schedule
 }
 
 /**
@@ -101,7 +101,16 @@ export const withDLQ = <E>(config: DLQConfig<E>): Output<E | DLQError> => {
           ),
         );
       }),
-    close: config.output.close,
+    close: () =>
+      Effect.gen(function* () {
+        if (config.output.close) {
+          yield* config.output.close();
+        }
+        if (config.dlq?.close) {
+          yield* config.dlq.close();
+        }
+      }),
+    metrics: config.output.metrics,
   };
 };
 
@@ -129,5 +138,6 @@ export const withBackpressure = <E>(
         yield* config.output.send(msg);
       }),
     close: config.output.close,
+    metrics: config.output.metrics,
   };
 };
@@ -0,0 +1,130 @@
+/**
+ * Processor error policies
+ * Decide what happens to a message when a processor fails, based on the
+ * error category:
+ * - intermittent: retried with a schedule, then handled by the policy action
+ * - logical: handled by the policy action (uncategorized errors count as logical)
+ * - fatal: stops the whole pipeline
+ */
+import { Effect, Schedule } from "effect";
+import type { Processor, Message } from "./types.js";
+import { ComponentError, type ErrorCategory } from "./errors.js";
+
+/**
+ * What to do with a message whose processor failed
+ * - drop: discard (acknowledge) the message and count it as failed
+ * - skip: pass the message unchanged to the next processor
+ * - error_output: send the message with error details to the error output
+ * - fail: stop the pipeline
+ */
+export type ErrorAction = "drop" | "skip" | "error_output" | "fail";
+
+export interface ErrorPolicy {
+  readonly action?: ErrorAction; // Action for non-fatal errors (default: "drop")
+  readonly maxRetries?: number; // Retries for intermittent errors (default: 0)
+  readonly retrySchedule?: Schedule.Schedule<unknown>; // Custom retry schedule
+}
+
+/**
+ * Terminal decision of an error policy, carried to the pipeline runner
+ */
+export class ProcessorFailure {
+  readonly _tag = "ProcessorFailure";
+  constructor(
+    readonly action: Exclude<ErrorAction, "skip">,
+    readonly processor: string,
+    readonly message: Message,
+    readonly category: ErrorCategory,
+    readonly cause: unknown,
+  ) {}
+
+  toString(): string {
+    const reason =
+      this.cause instanceof Error ? this.cause.message : String(this.cause);
+    return `Processor ${this.processor} failed (${this.category}): ${reason}`;
+  }
+}
+
+/**
+ * Categorize a processor error
+ */
+export const categorizeError = (error: unknown): ErrorCategory =>
+  error instanceof ComponentError ? error.category : "logical";
+
+/**
+ * Create an error message with failure information
+ */
+export const createErrorMessage = (failure: ProcessorFailure): Message => {
+  const cause = failure.cause;
+
+  return {
+    ...failure.message,
+    metadata: {
+      ...failure.message.metadata,
+      error: true,
+      errorReason: cause instanceof Error ? cause.message : String(cause),
+      errorCategory: failure.category,
+      errorProcessor: failure.processor,
+      errorTimestamp: Date.now(),
+      originalMessageId: failure.message.id,
+    },
+  };
+};
+
+/**
+ * Wrap a processor with an error policy
+ */
+export const withErrorPolicy = <E, R>(
+  processor: Processor<E, R>,
+  policy: ErrorPolicy,
+): Processor<E | ProcessorFailure, R> => {
+  const action = policy.action ?? "drop";
+  const maxRetries = policy.maxRetries ?? 0;
+  const retrySchedule =
+    policy.retrySchedule ?? Schedule.exponential("1 second");
+
+  return {
+    name: processor.name,
+    // Flushed messages have no input message to retry or reroute
+    flush: processor.flush,
+    flushInterval: processor.flushInterval,
+    close: processor.close,
+    process: (msg: Message) =>
+      processor.process(msg).pipe(
+        // Retry intermittent errors only
+        Effect.retry({
+          times: maxRetries,
+          schedule: retrySchedule,
+          while: (error) =>
+            error instanceof ComponentError && error.shouldRetry,
+        }),
+        Effect.catchAll(
+          (error): Effect.Effect<Message | Message[], ProcessorFailure> => {
+            // Already decided by a nested policy
+            if (error instanceof ProcessorFailure) {
+              return Effect.fail(error);
+            }
+
+            const category = categorizeError(error);
+            const resolved = category === "fatal" ? "fail" : action;
+
+            if (resolved === "skip") {
+              return Effect.logWarning(
+                `Processor ${processor.name} failed, skipping: ${error}`,
+              ).pipe(Effect.as(msg));
+            }
+
+            return Effect.fail(
+              new ProcessorFailure(
+                resolved,
+                processor.name,
+                msg,
+                category,
+                error,
+              ),
+            );
+          },
+        ),
+      ),
+  };
+};
@@ -0,0 +1,107 @@
+/**
+ * Minimal glob matching shared by components that read local files
+ * Supports `*`, `**`, `?`, character classes (`[abc]`, `[!abc]`) and
+ * alternatives (`{a,b}`)
+ */
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+const MAGIC = /[*?[{]/;
+
+/**
+ * Check whether a path contains glob syntax
+ */
+export const hasGlob = (pattern: string): boolean => MAGIC.test(pattern);
+
+/**
+ * Convert a glob pattern to an anchored regular expression
+ */
+export const globToRegExp = (pattern: string): RegExp => {
+  let source = "";
+  let alternatives = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        // "**/" matches zero or more directories, "**" anything
+        if (pattern[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i++;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = pattern.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        const body = pattern.slice(i + 1, end).replace(/\\/g, "\\\\");
+        source += body.startsWith("!") ? `[^${body.slice(1)}]` : `[${body}]`;
+        i = end;
+      }
+    } else if (char === "{") {
+      source += "(?:";
+      alternatives++;
+    } else if (char === "," && alternatives > 0) {
+      source += "|";
+    } else if (char === "}" && alternatives > 0) {
+      source += ")";
+      alternatives--;
+    } else {
+      source += char.replace(/[.+^$()|\\\]}]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+};
+
+/**
+ * Expand a glob pattern to the absolute paths of matching files, sorted
+ * A pattern without glob syntax returns the file if it exists
+ */
+export const expandGlob = async (pattern: string): Promise<string[]> => {
+  if (!hasGlob(pattern)) {
+    const file = path.resolve(pattern);
+    const stat = await fs.stat(file).catch(() => undefined);
+    return stat?.isFile() ? [file] : [];
+  }
+
+  // Walk from the longest directory prefix without glob syntax
+  const segments = pattern.split("/");
+  const firstGlob = segments.findIndex((segment) => hasGlob(segment));
+  const base = path.resolve(segments.slice(0, firstGlob).join("/") || ".");
+  const rest = segments.slice(firstGlob);
+  const matcher = globToRegExp(rest.join("/"));
+  const maxDepth = rest.some((segment) => segment.includes("**"))
+    ? Infinity
+    : rest.length;
+
+  const matches: string[] = [];
+  const walk = async (dir: string, relative: string, depth: number) => {
+    const entries = await fs
+      .readdir(dir, { withFileTypes: true })
+      .catch(() => []);
+    for (const entry of entries) {
+      const entryRelative = relative ? `${relative}/${entry.name}` : entry.name;
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (depth < maxDepth) {
+          await walk(entryPath, entryRelative, depth + 1);
+        }
+      } else if (entry.isFile() && matcher.test(entryRelative)) {
+        matches.push(entryPath);
+      }
+    }
+  };
+  await walk(base, "", 1);
+
+  return matches.sort();
+};
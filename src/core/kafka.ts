@@ -0,0 +1,179 @@
+/**
+ * Shared Kafka connection handling for the kafka input and output
+ *
+ * Components talk to the subset of the kafkajs client they use, so an
+ * in-process broker (see testing/kafka-mock.ts) can stand in for a cluster.
+ * kafkajs is an optional peer dependency, loaded on the first request.
+ */
+import type {
+  CompressionTypes,
+  Consumer,
+  ConsumerConfig,
+  IHeaders,
+  Kafka,
+  Producer,
+  ProducerConfig,
+  SASLOptions,
+} from "kafkajs";
+import * as Schema from "effect/Schema";
+import { NonEmptyString, PositiveInt } from "./validation.js";
+import { loadOptionalDependency } from "./optional-dependency.js";
+
+export type KafkaConsumer = Pick<
+  Consumer,
+  "connect" | "subscribe" | "run" | "commitOffsets" | "disconnect"
+>;
+
+export type KafkaProducer = Pick<
+  Producer,
+  "connect" | "sendBatch" | "disconnect"
+>;
+
+export interface KafkaClient {
+  readonly consumer: (config: ConsumerConfig) => KafkaConsumer;
+  readonly producer: (config?: ProducerConfig) => KafkaProducer;
+}
+
+export interface KafkaSaslConfig {
+  readonly mechanism: "plain" | "scram-sha-256" | "scram-sha-512";
+  readonly username: string;
+  readonly password: string;
+}
+
+export interface KafkaConnectionConfig {
+  readonly brokers: readonly string[]; // host:port seed brokers
+  readonly clientId?: string; // (default: "effect-connect")
+  readonly ssl?: boolean; // Connect over TLS (default: false)
+  readonly sasl?: KafkaSaslConfig;
+  readonly connectionTimeout?: number; // Connection timeout in ms (default: 1000)
+  readonly client?: KafkaClient; // Client to use instead of connecting to `brokers`
+}
+
+/**
+ * Validation schema fields shared by Kafka input and output
+ */
+export const KafkaConnectionFields = {
+  brokers: Schema.Array(NonEmptyString).pipe(Schema.minItems(1)),
+  clientId: Schema.optional(NonEmptyString),
+  ssl: Schema.optional(Schema.Boolean),
+  sasl: Schema.optional(
+    Schema.Struct({
+      mechanism: Schema.Literal("plain", "scram-sha-256", "scram-sha-512"),
+      username: NonEmptyString,
+      password: Schema.String,
+    }),
+  ),
+  connectionTimeout: Schema.optional(PositiveInt),
+};
+
+/**
+ * Compression codecs, the values of the kafkajs CompressionTypes enum
+ */
+export const KafkaCompression = {
+  none: 0 as CompressionTypes.None,
+  gzip: 1 as CompressionTypes.GZIP,
+};
+
+/**
+ * Create the kafkajs client for a connection config
+ * kafkajs is loaded when a consumer or producer makes its first request;
+ * its logs are silenced, components log through Effect
+ */
+export const createKafkaClient = (
+  config: KafkaConnectionConfig,
+): KafkaClient => {
+  if (config.client) {
+    return config.client;
+  }
+
+  let kafka: Promise<Kafka> | undefined;
+  const load = () =>
+    (kafka ??= loadOptionalDependency(
+      "kafkajs",
+      "the Kafka components",
+      () => import("kafkajs"),
+    ).then(
+      ({ Kafka, logLevel }) =>
+        new Kafka({
+          brokers: [...config.brokers],
+          clientId: config.clientId ?? "effect-connect",
+          ssl: config.ssl,
+          sasl: config.sasl ? ({ ...config.sasl } as SASLOptions) : undefined,
+          connectionTimeout: config.connectionTimeout ?? 1000,
+          logLevel: logLevel.NOTHING,
+        }),
+    ));
+
+  return {
+    consumer: (consumerConfig) => {
+      let consumer: Promise<Consumer> | undefined;
+      const get = () =>
+        (consumer ??= load().then((client) =>
+          client.consumer(consumerConfig),
+        ));
+      return {
+        connect: async () => (await get()).connect(),
+        subscribe: async (subscription) =>
+          (await get()).subscribe(subscription),
+        run: async (run) => (await get()).run(run),
+        commitOffsets: async (offsets) => (await get()).commitOffsets(offsets),
+        // Nothing to close before the first request
+        disconnect: async () =>
+          consumer ? (await consumer).disconnect() : undefined,
+      };
+    },
+    producer: (producerConfig) => {
+      let producer: Promise<Producer> | undefined;
+      const get = () =>
+        (producer ??= load().then((client) =>
+          client.producer(producerConfig),
+        ));
+      return {
+        connect: async () => (await get()).connect(),
+        sendBatch: async (batch) => (await get()).sendBatch(batch),
+        disconnect: async () =>
+          producer ? (await producer).disconnect() : undefined,
+      };
+    },
+  };
+};
+
+/**
+ * Convert Kafka record headers to metadata values
+ */
+export const headersToMetadata = (
+  headers: IHeaders | undefined,
+): Record<string, string | string[]> => {
+  const metadata: Record<string, string | string[]> = {};
+  for (const [name, value] of Object.entries(headers ?? {})) {
+    if (value === undefined) {
+      continue;
+    }
+    metadata[name] = Array.isArray(value)
+      ? value.map((item) => item.toString())
+      : value.toString();
+  }
+  return metadata;
+};
+
+/**
+ * Convert metadata values to Kafka record headers
+ * Objects are sent as JSON, missing values are skipped
+ */
+export const metadataToHeaders = (
+  metadata: Record<string, unknown>,
+): IHeaders => {
+  const headers: IHeaders = {};
+  for (const [name, value] of Object.entries(metadata)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    headers[name] =
+      Array.isArray(value) && value.every((item) => typeof item === "string")
+        ? value
+        : typeof value === "object"
+          ? JSON.stringify(value)
+          : String(value);
+  }
+  return headers;
+};
@@ -1,8 +1,12 @@
 /**
  * Core metrics collection utilities
- * Metrics are emitted via structured logging for observability
+ *
+ * Components record into Effect metrics (counters, gauges and latency
+ * histograms labelled by component), exposed in Prometheus format by the
+ * admin server's `/metrics` endpoint. `MetricsAccumulator` keeps per-instance
+ * snapshots for the admin server's `/stats` and periodic log emission.
  */
-import { Effect } from "effect";
+import { Effect, Metric, MetricBoundaries, MetricLabel } from "effect";
 
 /**
  * Base metrics interface for all components
@@ -12,6 +16,15 @@ export interface ComponentMetrics {
   readonly timestamp: number;
 }
 
+/**
+ * Connection state of components holding long-lived connections
+ */
+export interface ConnectionMetrics {
+  readonly connected: boolean;
+  readonly activeConnections: number; // Open connections (e.g. clients of a server)
+  readonly reconnects: number;
+}
+
 /**
  * Input component metrics
  */
@@ -20,6 +33,7 @@ export interface InputMetrics extends ComponentMetrics {
   readonly errorsEncountered: number;
   readonly averageDuration: number; // milliseconds
   readonly totalDuration: number; // milliseconds
+  readonly connection?: ConnectionMetrics; // Only once connections are tracked
 }
 
 /**
@@ -31,10 +45,122 @@ export interface OutputMetrics extends ComponentMetrics {
   readonly sendErrors: number;
   readonly averageDuration: number; // milliseconds
   readonly totalDuration: number; // milliseconds
+  readonly connection?: ConnectionMetrics; // Only once connections are tracked
 }
 
+// Latency buckets from 1ms to ~16s
+const latencyBoundaries = MetricBoundaries.exponential({
+  start: 0.001,
+  factor: 2,
+  count: 15,
+});
+
+const inputReceived = Metric.counter("effect_connect_input_received_total", {
+  description: "Messages received by inputs",
+  incremental: true,
+});
+const inputErrors = Metric.counter("effect_connect_input_errors_total", {
+  description: "Errors encountered by inputs",
+  incremental: true,
+});
+const inputLatency = Metric.histogram(
+  "effect_connect_input_latency_seconds",
+  latencyBoundaries,
+  "Time inputs took to receive and convert a message",
+);
+const outputSent = Metric.counter("effect_connect_output_sent_total", {
+  description: "Messages sent by outputs",
+  incremental: true,
+});
+const outputBatches = Metric.counter("effect_connect_output_batches_total", {
+  description: "Batches sent by outputs",
+  incremental: true,
+});
+const outputErrors = Metric.counter("effect_connect_output_errors_total", {
+  description: "Failed sends of outputs",
+  incremental: true,
+});
+const outputLatency = Metric.histogram(
+  "effect_connect_output_latency_seconds",
+  latencyBoundaries,
+  "Time outputs took to send a message or batch",
+);
+const connections = Metric.gauge("effect_connect_connections", {
+  description: "Open connections of components",
+});
+const reconnects = Metric.counter("effect_connect_reconnects_total", {
+  description: "Reconnection attempts of components",
+  incremental: true,
+});
+
+/**
+ * Pipeline metrics, labelled by pipeline name, recorded by `run`
+ */
+export const pipelineMetrics = (pipeline: string) => {
+  const tag = <M extends Metric.Metric<any, any, any>>(metric: M) =>
+    Metric.tagged(metric, "pipeline", pipeline) as M;
+  return {
+    processed: tag(
+      Metric.counter("effect_connect_pipeline_processed_total", {
+        description: "Messages delivered to the output",
+        incremental: true,
+      }),
+    ),
+    failed: tag(
+      Metric.counter("effect_connect_pipeline_failed_total", {
+        description: "Messages that failed processing or delivery",
+        incremental: true,
+      }),
+    ),
+    filtered: tag(
+      Metric.counter("effect_connect_pipeline_filtered_total", {
+        description: "Messages dropped by processors",
+        incremental: true,
+      }),
+    ),
+    latency: tag(
+      Metric.histogram(
+        "effect_connect_pipeline_latency_seconds",
+        latencyBoundaries,
+        "Time from receiving a message to delivering it",
+      ),
+    ),
+    running: tag(
+      Metric.gauge("effect_connect_pipeline_running", {
+        description: "1 while the pipeline runs",
+      }),
+    ),
+  };
+};
+
+/**
+ * Rate limit metrics, labelled by rate limit resource, recorded on every
+ * acquired request
+ */
+export const rateLimitMetrics = (label: string) => {
+  const tag = <M extends Metric.Metric<any, any, any>>(metric: M) =>
+    Metric.tagged(metric, "rate_limit", label) as M;
+  return {
+    wait: tag(
+      Metric.histogram(
+        "effect_connect_rate_limit_wait_seconds",
+        latencyBoundaries,
+        "Time requests waited for a rate limit",
+      ),
+    ),
+    throttled: tag(
+      Metric.counter("effect_connect_rate_limit_throttled_total", {
+        description: "Requests that had to wait for a rate limit",
+        incremental: true,
+      }),
+    ),
+  };
+};
+
 /**
  * Metrics accumulator for tracking component operations
+ *
+ * Every record also updates the component's Prometheus metrics.
  */
 export class MetricsAccumulator {
   private messagesProcessed = 0;
@@ -44,8 +170,12 @@ export class MetricsAccumulator {
   private sendErrors = 0;
   private totalDuration = 0;
   private operationCount = 0;
+  private connection?: { active: number; reconnects: number };
+  private readonly labels: ReadonlyArray<MetricLabel.MetricLabel>;
 
-  constructor(private readonly componentName: string) {}
+  constructor(private readonly componentName: string) {
+    this.labels = [MetricLabel.make("component", componentName)];
+  }
 
   /**
    * Record successful message processing
@@ -54,6 +184,8 @@ export class MetricsAccumulator {
     this.messagesProcessed++;
     this.totalDuration += durationMs;
     this.operationCount++;
+    inputReceived.unsafeUpdate(1, this.labels);
+    inputLatency.unsafeUpdate(durationMs / 1000, this.labels);
   }
 
   /**
@@ -63,6 +195,8 @@ export class MetricsAccumulator {
     this.messagesSent += count;
     this.totalDuration += durationMs;
     this.operationCount++;
+    outputSent.unsafeUpdate(count, this.labels);
+    outputLatency.unsafeUpdate(durationMs / 1000, this.labels);
   }
 
   /**
@@ -73,6 +207,9 @@ export class MetricsAccumulator {
     this.batchesSent++;
     this.totalDuration += durationMs;
     this.operationCount++;
+    outputSent.unsafeUpdate(messageCount, this.labels);
+    outputBatches.unsafeUpdate(1, this.labels);
+    outputLatency.unsafeUpdate(durationMs / 1000, this.labels);
   }
 
   /**
@@ -80,6 +217,7 @@ export class MetricsAccumulator {
    */
   recordError(): void {
     this.errorsEncountered++;
+    inputErrors.unsafeUpdate(1, this.labels);
   }
 
   /**
@@ -87,6 +225,56 @@ export class MetricsAccumulator {
    */
   recordSendError(): void {
     this.sendErrors++;
+    outputErrors.unsafeUpdate(1, this.labels);
+  }
+
+  /**
+   * Report the component as not connected until a connection is recorded
+   */
+  trackConnection(): void {
+    this.connection ??= { active: 0, reconnects: 0 };
+  }
+
+  /**
+   * Record an opened connection
+   */
+  recordConnected(): void {
+    this.connection ??= { active: 0, reconnects: 0 };
+    this.connection.active++;
+    connections.unsafeModify(1, this.labels);
+  }
+
+  /**
+   * Record a closed connection
+   */
+  recordDisconnected(): void {
+    this.connection ??= { active: 0, reconnects: 0 };
+    if (this.connection.active > 0) {
+      this.connection.active--;
+      connections.unsafeModify(-1, this.labels);
+    }
+  }
+
+  /**
+   * Record a reconnection attempt
+   */
+  recordReconnect(): void {
+    this.connection ??= { active: 0, reconnects: 0 };
+    this.connection.reconnects++;
+    reconnects.unsafeUpdate(1, this.labels);
+  }
+
+  /**
+   * Get connection state snapshot, undefined if no connection is tracked
+   */
+  getConnectionMetrics(): ConnectionMetrics | undefined {
+    return this.connection
+      ? {
+          connected: this.connection.active > 0,
+          activeConnections: this.connection.active,
+          reconnects: this.connection.reconnects,
+        }
+      : undefined;
   }
 
   /**
@@ -103,6 +291,7 @@ export class MetricsAccumulator {
           ? Math.round(this.totalDuration / this.operationCount)
           : 0,
       totalDuration: Math.round(this.totalDuration),
+      ...(this.connection && { connection: this.getConnectionMetrics() }),
     };
   }
 
@@ -121,11 +310,14 @@ export class MetricsAccumulator {
           ? Math.round(this.totalDuration / this.operationCount)
           : 0,
       totalDuration: Math.round(this.totalDuration),
+      ...(this.connection && { connection: this.getConnectionMetrics() }),
     };
   }
 
   /**
    * Reset all counters
+   * Open connections are state, not counters, and are kept; Prometheus
+   * counters only ever increase and are not reset
    */
   reset(): void {
     this.messagesProcessed = 0;
@@ -135,9 +327,98 @@ export class MetricsAccumulator {
     this.sendErrors = 0;
     this.totalDuration = 0;
     this.operationCount = 0;
+    if (this.connection) {
+      this.connection.reconnects = 0;
+    }
   }
 }
 
+/**
+ * Sum counters of several snapshots; the average duration is weighted by
+ * each snapshot's message count
+ */
+const combineCounters = <M extends InputMetrics | OutputMetrics>(
+  snapshots: ReadonlyArray<M>,
+  count: (metrics: M) => number,
+) => {
+  const total = snapshots.reduce((sum, m) => sum + count(m), 0);
+  return {
+    timestamp: Date.now(),
+    averageDuration:
+      total > 0
+        ? Math.round(
+            snapshots.reduce(
+              (sum, m) => sum + m.averageDuration * count(m),
+              0,
+            ) / total,
+          )
+        : 0,
+    totalDuration: snapshots.reduce((sum, m) => sum + m.totalDuration, 0),
+  };
+};
+
+/**
+ * Combine connection states; connected only while every child is
+ */
+const combineConnections = (
+  snapshots: ReadonlyArray<InputMetrics | OutputMetrics>,
+): ConnectionMetrics | undefined => {
+  const connections = snapshots.flatMap((m) =>
+    m.connection ? [m.connection] : [],
+  );
+  return connections.length > 0
+    ? {
+        connected: connections.every((c) => c.connected),
+        activeConnections: connections.reduce(
+          (sum, c) => sum + c.activeConnections,
+          0,
+        ),
+        reconnects: connections.reduce((sum, c) => sum + c.reconnects, 0),
+      }
+    : undefined;
+};
+
+/**
+ * Combine the input metrics of a composite input's children (e.g. broker)
+ */
+export const combineInputMetrics = (
+  component: string,
+  snapshots: ReadonlyArray<InputMetrics>,
+): InputMetrics => {
+  const connection = combineConnections(snapshots);
+  return {
+    component,
+    ...combineCounters(snapshots, (m) => m.messagesProcessed),
+    messagesProcessed: snapshots.reduce(
+      (sum, m) => sum + m.messagesProcessed,
+      0,
+    ),
+    errorsEncountered: snapshots.reduce(
+      (sum, m) => sum + m.errorsEncountered,
+      0,
+    ),
+    ...(connection && { connection }),
+  };
+};
+
+/**
+ * Combine the output metrics of a composite output's children (e.g. broker)
+ */
+export const combineOutputMetrics = (
+  component: string,
+  snapshots: ReadonlyArray<OutputMetrics>,
+): OutputMetrics => {
+  const connection = combineConnections(snapshots);
+  return {
+    component,
+    ...combineCounters(snapshots, (m) => m.messagesSent),
+    messagesSent: snapshots.reduce((sum, m) => sum + m.messagesSent, 0),
+    batchesSent: snapshots.reduce((sum, m) => sum + m.batchesSent, 0),
+    sendErrors: snapshots.reduce((sum, m) => sum + m.sendErrors, 0),
+    ...(connection && { connection }),
+  };
+};
+
 /**
  * Emit input metrics via structured logging
  */
@@ -151,6 +432,7 @@ export const emitInputMetrics = (
     errorsEncountered: metrics.errorsEncountered,
     averageDuration: metrics.averageDuration,
     totalDuration: metrics.totalDuration,
+    ...(metrics.connection && { connection: metrics.connection }),
     timestamp: metrics.timestamp,
   });
 
@@ -168,6 +450,7 @@ export const emitOutputMetrics = (
     sendErrors: metrics.sendErrors,
     averageDuration: metrics.averageDuration,
     totalDuration: metrics.totalDuration,
+    ...(metrics.connection && { connection: metrics.connection }),
     timestamp: metrics.timestamp,
   });
 
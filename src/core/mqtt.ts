@@ -0,0 +1,133 @@
+/**
+ * Shared MQTT connection handling for the mqtt input and output
+ * mqtt is an optional peer dependency, loaded when a client is created.
+ */
+import type { IClientOptions, MqttClient } from "mqtt";
+import * as Schema from "effect/Schema";
+import type { ErrorCategory } from "./errors.js";
+import type { MetricsAccumulator } from "./metrics.js";
+import { NonEmptyString, PositiveInt } from "./validation.js";
+import {
+  MissingDependencyError,
+  loadOptionalDependency,
+} from "./optional-dependency.js";
+
+export type MqttQos = 0 | 1 | 2;
+
+export interface MqttConnectionConfig {
+  readonly url: string; // mqtt://, mqtts://, ws:// or wss:// broker URL
+  readonly clientId?: string; // (default: random)
+  readonly username?: string;
+  readonly password?: string;
+  readonly keepalive?: number; // Keepalive interval in seconds (default: 60)
+  readonly connectionTimeout?: number; // Connect timeout in ms (default: 30000)
+  readonly reconnectDelay?: number; // Delay between reconnects in ms (default: 1000)
+}
+
+/**
+ * Validation schema fields shared by MQTT input and output
+ */
+export const MqttConnectionFields = {
+  url: NonEmptyString,
+  clientId: Schema.optional(NonEmptyString),
+  username: Schema.optional(NonEmptyString),
+  password: Schema.optional(Schema.String),
+  keepalive: Schema.optional(PositiveInt),
+  connectionTimeout: Schema.optional(PositiveInt),
+  reconnectDelay: Schema.optional(PositiveInt),
+};
+
+export const MqttQosSchema = Schema.Literal(0, 1, 2);
+
+// CONNACK codes of rejected credentials or client ids (MQTT 3.1.1 and 5)
+const FATAL_REASON_CODES = new Set([2, 4, 5, 133, 134, 135, 138]);
+
+/**
+ * Error category of a failed connect or publish
+ * Rejected credentials and client ids and a missing mqtt package are
+ * fatal, anything else is retried
+ */
+export const mqttErrorCategory = (error: unknown): ErrorCategory =>
+  error instanceof MissingDependencyError ||
+  (error &&
+    typeof error === "object" &&
+    "code" in error &&
+    FATAL_REASON_CODES.has(error.code as number))
+    ? "fatal"
+    : "intermittent";
+
+/**
+ * Create an MQTT client that is not connected yet, so handlers can be
+ * installed before the first packet arrives. mqtt.js reconnects on its own
+ * once connected; connection state is recorded in `metrics`.
+ */
+export const createMqttClient = async (
+  config: MqttConnectionConfig,
+  metrics: MetricsAccumulator,
+  options: IClientOptions = {},
+): Promise<MqttClient> => {
+  metrics.trackConnection();
+  const { connect } = await loadOptionalDependency(
+    "mqtt",
+    "the MQTT components",
+    () => import("mqtt"),
+  );
+  const client = connect(config.url, {
+    clientId: config.clientId,
+    username: config.username,
+    password: config.password,
+    keepalive: config.keepalive ?? 60,
+    connectTimeout: config.connectionTimeout ?? 30000,
+    reconnectPeriod: config.reconnectDelay ?? 1000,
+    manualConnect: true,
+    ...options,
+  });
+
+  let connected = false;
+  client.on("connect", () => {
+    connected = true;
+    metrics.recordConnected();
+  });
+  client.on("close", () => {
+    if (connected) {
+      connected = false;
+      metrics.recordDisconnected();
+    }
+  });
+  client.on("reconnect", () => metrics.recordReconnect());
+  // Errors are surfaced through connect, publish and subscribe results
+  client.on("error", () => undefined);
+
+  return client;
+};
+
+/**
+ * Connect a client created with `createMqttClient`
+ * Fails if the first attempt does not succeed, and stops reconnecting then
+ */
+export const openMqttClient = (client: MqttClient): Promise<void> =>
+  new Promise((resolve, reject) => {
+    let lastError: Error | undefined;
+    const onConnect = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = (error: Error) => {
+      lastError = error;
+    };
+    const onClose = () => {
+      cleanup();
+      client.end(true);
+      reject(lastError ?? new Error("Connection closed before CONNACK"));
+    };
+    const cleanup = () => {
+      client.off("connect", onConnect);
+      client.off("error", onError);
+      client.off("close", onClose);
+    };
+
+    client.on("connect", onConnect);
+    client.on("error", onError);
+    client.on("close", onClose);
+    client.connect();
+  });
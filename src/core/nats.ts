@@ -0,0 +1,253 @@
+/**
+ * Shared NATS connection handling for the nats and nats_jetstream components
+ *
+ * Components talk to the subset of the nats.js connection they use, so an
+ * in-process server (see testing/nats-mock.ts) can stand in for NATS.
+ * nats is an optional peer dependency, required on first use.
+ */
+import { createRequire } from "node:module";
+import type {
+  ConnectionOptions,
+  ConsumeMessages,
+  ConsumerConfig,
+  JetStreamPublishOptions,
+  JsMsg,
+  Msg,
+  MsgHdrs,
+  Payload,
+  PubAck,
+  PublishOptions,
+  RequestOptions,
+  Status,
+} from "nats";
+import * as Schema from "effect/Schema";
+import type { ErrorCategory } from "./errors.js";
+import type { MetricsAccumulator } from "./metrics.js";
+import type { Message } from "./types.js";
+import { injectTraceContext } from "./trace-context.js";
+import { NonEmptyString, PositiveInt } from "./validation.js";
+import {
+  MissingDependencyError,
+  requireOptionalDependency,
+} from "./optional-dependency.js";
+
+type Nats = typeof import("nats");
+
+const requireModule = createRequire(import.meta.url);
+let nats: Nats | undefined;
+
+/**
+ * The nats package, required on first use
+ * It is loaded synchronously, as helpers like `headers()` are needed
+ * outside of async code
+ */
+export const requireNats = (): Nats =>
+  (nats ??= requireOptionalDependency(
+    "nats",
+    "the NATS components",
+    () => requireModule("nats") as Nats,
+  ));
+
+export type NatsMsg = Pick<
+  Msg,
+  "subject" | "reply" | "data" | "headers" | "respond"
+>;
+
+export interface NatsSubscription extends AsyncIterable<NatsMsg> {
+  unsubscribe(): void;
+}
+
+export type NatsJsMsg = Pick<
+  JsMsg,
+  "subject" | "data" | "headers" | "info" | "ack" | "nak" | "term"
+>;
+
+export interface NatsConsumerMessages extends AsyncIterable<NatsJsMsg> {
+  close(): Promise<void | Error>;
+}
+
+export interface NatsJetStream {
+  publish(
+    subject: string,
+    payload?: Payload,
+    options?: Partial<JetStreamPublishOptions>,
+  ): Promise<Pick<PubAck, "stream" | "seq" | "duplicate">>;
+  readonly consumers: {
+    get(
+      stream: string,
+      name: string,
+    ): Promise<{
+      consume(options?: ConsumeMessages): Promise<NatsConsumerMessages>;
+    }>;
+  };
+}
+
+export interface NatsJetStreamManager {
+  readonly consumers: {
+    info(stream: string, name: string): Promise<unknown>;
+    add(stream: string, config: Partial<ConsumerConfig>): Promise<unknown>;
+  };
+}
+
+export interface NatsConnection {
+  subscribe(subject: string, options?: { queue?: string }): NatsSubscription;
+  publish(subject: string, payload?: Payload, options?: PublishOptions): void;
+  request(
+    subject: string,
+    payload?: Payload,
+    options?: RequestOptions,
+  ): Promise<NatsMsg>;
+  flush(): Promise<void>;
+  drain(): Promise<void>;
+  closed(): Promise<void | Error>;
+  status(): AsyncIterable<Status>;
+  jetstream(): NatsJetStream;
+  jetstreamManager(): Promise<NatsJetStreamManager>;
+}
+
+export interface NatsClient {
+  readonly connect: (options: ConnectionOptions) => Promise<NatsConnection>;
+}
+
+export interface NatsConnectionConfig {
+  readonly urls: readonly string[]; // nats://host:port servers
+  readonly name?: string; // Connection name shown by the server (default: "effect-connect")
+  readonly user?: string;
+  readonly password?: string;
+  readonly token?: string;
+  readonly tls?: boolean; // Require TLS (default: false)
+  readonly connectionTimeout?: number; // Connect timeout in ms (default: 10000)
+  readonly reconnectDelay?: number; // Delay between reconnects in ms (default: 2000)
+  readonly client?: NatsClient; // Client to use instead of connecting to `urls`
+}
+
+/**
+ * Validation schema fields shared by the NATS components
+ */
+export const NatsConnectionFields = {
+  urls: Schema.Array(NonEmptyString).pipe(Schema.minItems(1)),
+  name: Schema.optional(NonEmptyString),
+  user: Schema.optional(NonEmptyString),
+  password: Schema.optional(Schema.String),
+  token: Schema.optional(NonEmptyString),
+  tls: Schema.optional(Schema.Boolean),
+  connectionTimeout: Schema.optional(PositiveInt),
+  reconnectDelay: Schema.optional(PositiveInt),
+};
+
+// Rejected credentials and permissions
+const FATAL_ERROR_CODES = new Set([
+  "AUTHORIZATION_VIOLATION",
+  "AUTHENTICATION_EXPIRED",
+  "AUTHENTICATION_TIMEOUT",
+  "ACCOUNT_EXPIRED",
+  "PERMISSIONS_VIOLATION",
+]);
+
+/**
+ * Error category of a failed NATS operation
+ * Rejected credentials and permissions and a missing nats package are
+ * fatal, anything else is retried
+ */
+export const natsErrorCategory = (error: unknown): ErrorCategory =>
+  error instanceof MissingDependencyError ||
+  FATAL_ERROR_CODES.has((error as { code?: string } | null)?.code ?? "")
+    ? "fatal"
+    : "intermittent";
+
+/**
+ * Connect to NATS; connection state is recorded in `metrics`
+ * Once connected, the client reconnects on its own for as long as it runs
+ */
+export const connectNats = async (
+  config: NatsConnectionConfig,
+  metrics: MetricsAccumulator,
+): Promise<NatsConnection> => {
+  metrics.trackConnection();
+  const { connect, Events } = requireNats();
+  const client: NatsClient = config.client ?? { connect };
+  const connection = await client.connect({
+    servers: [...config.urls],
+    name: config.name ?? "effect-connect",
+    user: config.user,
+    pass: config.password,
+    token: config.token,
+    tls: config.tls ? {} : undefined,
+    timeout: config.connectionTimeout ?? 10000,
+    reconnectTimeWait: config.reconnectDelay ?? 2000,
+    maxReconnectAttempts: -1,
+  });
+
+  let connected = true;
+  metrics.recordConnected();
+  void (async () => {
+    for await (const status of connection.status()) {
+      if (status.type === Events.Disconnect && connected) {
+        connected = false;
+        metrics.recordDisconnected();
+      } else if (status.type === Events.Reconnect) {
+        connected = true;
+        metrics.recordReconnect();
+        metrics.recordConnected();
+      }
+    }
+  })();
+  void connection.closed().then(() => {
+    if (connected) {
+      connected = false;
+      metrics.recordDisconnected();
+    }
+  });
+
+  return connection;
+};
+
+/**
+ * Convert NATS headers to metadata values
+ * Headers with several values become arrays
+ */
+export const headersToMetadata = (
+  headers: MsgHdrs | undefined,
+): Record<string, string | string[]> => {
+  const metadata: Record<string, string | string[]> = {};
+  for (const [name, values] of headers ?? []) {
+    metadata[name] = values.length === 1 ? values[0] : values;
+  }
+  return metadata;
+};
+
+/**
+ * NATS headers carrying the trace context of a message
+ */
+export const traceHeaders = (msg: Message): MsgHdrs | undefined => {
+  const entries = Object.entries(injectTraceContext(msg.trace));
+  if (entries.length === 0) {
+    return undefined;
+  }
+  const traceparent = requireNats().headers();
+  for (const [name, value] of entries) {
+    traceparent.set(name, value);
+  }
+  return traceparent;
+};
+
+/**
+ * Parse a payload with graceful degradation to the raw text
+ */
+export const parsePayload = (data: Uint8Array): unknown => {
+  const text = Buffer.from(data).toString("utf8");
+  try {
+    return JSON.parse(text);
+  } catch {
+    return { raw: text };
+  }
+};
+
+/**
+ * Whether a subject can be published to
+ * Wildcards are only valid in subscriptions, and tokens must not be empty
+ */
+export const isPublishSubject = (subject: string): boolean =>
+  subject !== "" &&
+  !/[\s*>]/.test(subject) &&
+  subject.split(".").every((token) => token !== "");
@@ -0,0 +1,77 @@
+/**
+ * Loading of optional peer dependencies
+ *
+ * Clients of SQL databases, Kafka, WebSocket, MQTT and NATS are optional
+ * peer dependencies: they are imported when a component first needs them,
+ * so only pipelines using one of these components have to install them.
+ */
+import { ComponentError } from "./errors.js";
+
+export class MissingDependencyError extends ComponentError {
+  readonly _tag = "MissingDependencyError";
+  readonly category = "fatal" as const;
+
+  constructor(
+    readonly packageName: string,
+    readonly usedBy: string,
+    cause?: unknown,
+  ) {
+    super(
+      `Missing package "${packageName}" required by ${usedBy}; install it with: npm install ${packageName}`,
+      cause,
+    );
+  }
+}
+
+/**
+ * Whether an import failed because the package itself is not installed
+ */
+const isMissing = (error: unknown, packageName: string): boolean => {
+  const { code, message } = (error ?? {}) as {
+    code?: unknown;
+    message?: unknown;
+  };
+  return (
+    (code === "ERR_MODULE_NOT_FOUND" || code === "MODULE_NOT_FOUND") &&
+    typeof message === "string" &&
+    message.includes(`'${packageName}'`)
+  );
+};
+
+/**
+ * Import an optional dependency, failing with a MissingDependencyError
+ * naming the package when it is not installed
+ */
+export const loadOptionalDependency = async <T>(
+  packageName: string,
+  usedBy: string,
+  load: () => Promise<T>,
+): Promise<T> => {
+  try {
+    return await load();
+  } catch (error) {
+    if (isMissing(error, packageName)) {
+      throw new MissingDependencyError(packageName, usedBy, error);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Require an optional CommonJS dependency, for packages whose helpers are
+ * needed outside of async code; fails like `loadOptionalDependency`
+ */
+export const requireOptionalDependency = <T>(
+  packageName: string,
+  usedBy: string,
+  load: () => T,
+): T => {
+  try {
+    return load();
+  } catch (error) {
+    if (isMissing(error, packageName)) {
+      throw new MissingDependencyError(packageName, usedBy, error);
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,338 @@
+/**
+ * OTLP trace export
+ *
+ * An Effect tracer recording every span and exporting finished spans in
+ * batches to an OpenTelemetry collector over OTLP/HTTP (JSON encoding),
+ * e.g. a local collector at http://localhost:4318.
+ *
+ * New traces are sampled by `samplingRatio`; spans continuing a trace
+ * follow the sampled flag of their parent, e.g. of a received
+ * `traceparent`. Spans that do not fit into the queue are dropped.
+ */
+import { Cause, Context, Effect, Exit, Option, Tracer } from "effect";
+import * as Schema from "effect/Schema";
+import { randomBytes } from "node:crypto";
+import { ComponentError, type ErrorCategory } from "./errors.js";
+import { validate, NonEmptyString, UrlString } from "./validation.js";
+
+export interface OtlpTracerConfig {
+  readonly endpoint?: string; // Collector base URL (default: "http://localhost:4318")
+  readonly serviceName?: string; // service.name resource attribute (default: "effect-connect")
+  readonly headers?: Record<string, string>; // e.g. an API key of a hosted collector
+  readonly exportInterval?: number; // ms between exports (default: 5000)
+  readonly samplingRatio?: number; // Share of new traces recorded, 0 to 1 (default: 1)
+  readonly exportTimeout?: number; // ms before an export request is given up (default: 10000)
+}
+
+export class OtlpTracerError extends ComponentError {
+  readonly _tag = "OtlpTracerError";
+
+  constructor(
+    message: string,
+    readonly category: ErrorCategory,
+    cause?: unknown,
+  ) {
+    super(message, cause);
+  }
+}
+
+/**
+ * Validation schema for OTLP tracer configuration
+ */
+export const OtlpTracerConfigSchema = Schema.Struct({
+  endpoint: Schema.optional(UrlString),
+  serviceName: Schema.optional(NonEmptyString),
+  headers: Schema.optional(
+    Schema.Record({ key: Schema.String, value: Schema.String }),
+  ),
+  exportInterval: Schema.optional(Schema.Int.pipe(Schema.positive())),
+  samplingRatio: Schema.optional(Schema.Number.pipe(Schema.between(0, 1))),
+  exportTimeout: Schema.optional(Schema.Int.pipe(Schema.positive())),
+});
+
+/**
+ * Tracer exporting to an OTLP collector
+ */
+export interface OtlpTracer {
+  readonly tracer: Tracer.Tracer;
+  readonly flush: () => Effect.Effect<void>; // Export finished spans now
+  readonly close: () => Effect.Effect<void>; // Stop exporting after a last flush
+}
+
+const MAX_QUEUE_SIZE = 2048;
+const MAX_BATCH_SIZE = 512;
+
+// OTLP SpanKind values
+const SPAN_KINDS: Record<Tracer.SpanKind, number> = {
+  internal: 1,
+  server: 2,
+  client: 3,
+  producer: 4,
+  consumer: 5,
+};
+
+type OtlpValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { arrayValue: { values: OtlpValue[] } };
+
+const toOtlpValue = (value: unknown): OtlpValue => {
+  if (typeof value === "string") {
+    return { stringValue: value };
+  }
+  if (typeof value === "boolean") {
+    return { boolValue: value };
+  }
+  if (typeof value === "bigint") {
+    return { intValue: value.toString() };
+  }
+  if (typeof value === "number") {
+    return Number.isInteger(value)
+      ? { intValue: String(value) }
+      : { doubleValue: value };
+  }
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: value.map(toOtlpValue) } };
+  }
+  return { stringValue: JSON.stringify(value) ?? String(value) };
+};
+
+const toOtlpAttributes = (attributes: Iterable<readonly [string, unknown]>) =>
+  [...attributes].map(([key, value]) => ({ key, value: toOtlpValue(value) }));
+
+/**
+ * Span recorded for export
+ */
+class OtlpSpan implements Tracer.Span {
+  readonly _tag = "Span";
+  readonly spanId = randomBytes(8).toString("hex");
+  readonly traceId: string;
+  readonly sampled: boolean;
+  readonly attributes = new Map<string, unknown>();
+  readonly links: Tracer.SpanLink[];
+  readonly events: Array<{
+    name: string;
+    time: bigint;
+    attributes: Record<string, unknown>;
+  }> = [];
+  status: Tracer.SpanStatus;
+
+  constructor(
+    readonly name: string,
+    readonly parent: Option.Option<Tracer.AnySpan>,
+    readonly context: Context.Context<never>,
+    links: ReadonlyArray<Tracer.SpanLink>,
+    startTime: bigint,
+    readonly kind: Tracer.SpanKind,
+    samplingRatio: number,
+    private readonly onEnd: (span: OtlpSpan) => void,
+  ) {
+    this.links = [...links];
+    this.status = { _tag: "Started", startTime };
+    this.traceId = Option.match(parent, {
+      onNone: () => randomBytes(16).toString("hex"),
+      onSome: (span) => span.traceId,
+    });
+    this.sampled = Option.match(parent, {
+      onNone: () => Math.random() < samplingRatio,
+      onSome: (span) => span.sampled,
+    });
+  }
+
+  end(endTime: bigint, exit: Exit.Exit<unknown, unknown>): void {
+    this.status = {
+      _tag: "Ended",
+      startTime: this.status.startTime,
+      endTime,
+      exit,
+    };
+    if (this.sampled) {
+      this.onEnd(this);
+    }
+  }
+
+  attribute(key: string, value: unknown): void {
+    this.attributes.set(key, value);
+  }
+
+  event(
+    name: string,
+    startTime: bigint,
+    attributes?: Record<string, unknown>,
+  ): void {
+    this.events.push({ name, time: startTime, attributes: attributes ?? {} });
+  }
+
+  addLinks(links: ReadonlyArray<Tracer.SpanLink>): void {
+    this.links.push(...links);
+  }
+}
+
+/**
+ * Encode a finished span as an OTLP span
+ */
+const toOtlpSpan = (span: OtlpSpan) => {
+  const status = span.status as Extract<Tracer.SpanStatus, { _tag: "Ended" }>;
+  return {
+    traceId: span.traceId,
+    spanId: span.spanId,
+    ...Option.match(span.parent, {
+      onNone: () => ({}),
+      onSome: (parent) => ({ parentSpanId: parent.spanId }),
+    }),
+    name: span.name,
+    kind: SPAN_KINDS[span.kind],
+    startTimeUnixNano: status.startTime.toString(),
+    endTimeUnixNano: status.endTime.toString(),
+    attributes: toOtlpAttributes(span.attributes),
+    events: span.events.map((event) => ({
+      name: event.name,
+      timeUnixNano: event.time.toString(),
+      attributes: toOtlpAttributes(Object.entries(event.attributes)),
+    })),
+    links: span.links.map((link) => ({
+      traceId: link.span.traceId,
+      spanId: link.span.spanId,
+      attributes: toOtlpAttributes(Object.entries(link.attributes)),
+    })),
+    // Unset on success, error with the failure otherwise
+    status: Exit.isFailure(status.exit)
+      ? {
+          code: 2,
+          message: Cause.pretty(status.exit.cause).split("\n")[0],
+        }
+      : { code: 0 },
+  };
+};
+
+/**
+ * Create a tracer exporting to an OTLP collector
+ *
+ * @example
+ * ```typescript
+ * const otlp = createOtlpTracer({ serviceName: "orders" })
+ * const result = yield* run(pipeline).pipe(
+ *   Effect.withTracer(otlp.tracer),
+ *   Effect.ensuring(otlp.close()),
+ * )
+ * ```
+ */
+export const createOtlpTracer = (config: OtlpTracerConfig = {}): OtlpTracer => {
+  // Validate configuration synchronously at creation time
+  Effect.runSync(
+    validate(OtlpTracerConfigSchema, config, "OTLP Tracer configuration").pipe(
+      Effect.catchAll((error) =>
+        Effect.fail(new OtlpTracerError(error.message, error.category, error)),
+      ),
+    ),
+  );
+
+  const url = `${(config.endpoint ?? "http://localhost:4318").replace(/\/+$/, "")}/v1/traces`;
+  const serviceName = config.serviceName ?? "effect-connect";
+  const samplingRatio = config.samplingRatio ?? 1;
+  const exportTimeout = config.exportTimeout ?? 10000;
+
+  let queue: OtlpSpan[] = [];
+  let dropped = 0;
+
+  const tracer = Tracer.make({
+    span: (name, parent, context, links, startTime, kind) =>
+      new OtlpSpan(
+        name,
+        parent,
+        context,
+        links,
+        startTime,
+        kind,
+        samplingRatio,
+        (span) => {
+          if (queue.length < MAX_QUEUE_SIZE) {
+            queue.push(span);
+          } else {
+            dropped++;
+          }
+        },
+      ),
+    context: (f) => f(),
+  });
+
+  /**
+   * Post one batch of spans; failed exports are logged and dropped
+   */
+  const exportBatch = (spans: OtlpSpan[]) =>
+    Effect.tryPromise({
+      try: async () => {
+        // An unreachable collector must not stall shutdown, which flushes
+        const response = await fetch(url, {
+          method: "POST",
+          signal: AbortSignal.timeout(exportTimeout),
+          headers: { "Content-Type": "application/json", ...config.headers },
+          body: JSON.stringify({
+            resourceSpans: [
+              {
+                resource: {
+                  attributes: toOtlpAttributes([["service.name", serviceName]]),
+                },
+                scopeSpans: [
+                  {
+                    scope: { name: "effect-connect" },
+                    spans: spans.map(toOtlpSpan),
+                  },
+                ],
+              },
+            ],
+          }),
+        });
+        if (!response.ok) {
+          throw new Error(`collector responded with ${response.status}`);
+        }
+      },
+      catch: (error) =>
+        new OtlpTracerError(
+          `Failed to export ${spans.length} spans to ${url}: ${error instanceof Error ? error.message : String(error)}`,
+          "intermittent",
+          error,
+        ),
+    }).pipe(
+      Effect.catchAll((error) => Effect.logWarning(error.message)),
+      // Exports must not be traced themselves
+      Effect.withTracerEnabled(false),
+    );
+
+  const flush = () =>
+    Effect.gen(function* () {
+      if (dropped > 0) {
+        yield* Effect.logWarning(
+          `Dropped ${dropped} spans, the export queue was full`,
+        );
+        dropped = 0;
+      }
+      while (queue.length > 0) {
+        const batch = queue.slice(0, MAX_BATCH_SIZE);
+        queue = queue.slice(MAX_BATCH_SIZE);
+        yield* exportBatch(batch);
+      }
+    });
+
+  // Export periodically without keeping the process alive
+  let exporting = false;
+  const timer = setInterval(() => {
+    if (exporting) {
+      return;
+    }
+    exporting = true;
+    Effect.runPromise(flush()).finally(() => {
+      exporting = false;
+    });
+  }, config.exportInterval ?? 5000);
+  timer.unref();
+
+  return {
+    tracer,
+    flush,
+    close: () =>
+      Effect.sync(() => clearInterval(timer)).pipe(Effect.zipRight(flush())),
+  };
+};
@@ -1,24 +1,49 @@
 /**
  * Pipeline Builder - Constructs pipeline from configuration
  */
-import { Effect } from "effect";
+import { Duration, Effect, Schedule } from "effect";
 import type {
   PipelineConfig,
   InputConfig,
   ProcessorConfig,
   OutputConfig,
+  DLQPipelineConfig,
+  ErrorPolicyConfig,
+  RateLimitResourceConfig,
 } from "./config-loader.js";
 import type { Pipeline, Input, Processor, Output } from "./types.js";
+import type { NatsConnectionConfig } from "./nats.js";
+import { withDLQ } from "./dlq.js";
+import { withErrorPolicy, type ErrorPolicy } from "./error-policy.js";
+import {
+  createRateLimit,
+  withRateLimit,
+  withProcessorRateLimit,
+  type RateLimit,
+} from "./rate-limit.js";
 import { createSqsInput } from "../inputs/sqs-input.js";
 import { createRedisStreamsInput } from "../inputs/redis-streams-input.js";
 import { createRedisPubSubInput } from "../inputs/redis-pubsub-input.js";
 import { createRedisListInput } from "../inputs/redis-list-input.js";
 import { createHttpInput } from "../inputs/http-input.js";
+import { createFileInput } from "../inputs/file-input.js";
+import { createStdinInput } from "../inputs/stdin-input.js";
+import { createKafkaInput } from "../inputs/kafka-input.js";
+import { createSqlSelectInput } from "../inputs/sql-select-input.js";
+import { createWebSocketInput } from "../inputs/websocket-input.js";
+import { createMqttInput } from "../inputs/mqtt-input.js";
+import { createNatsInput } from "../inputs/nats-input.js";
+import { createNatsJetStreamInput } from "../inputs/nats-jetstream-input.js";
+import { createBrokerInput } from "../inputs/broker-input.js";
 import { createMetadataProcessor } from "../processors/metadata-processor.js";
 import { createUppercaseProcessor } from "../processors/uppercase-processor.js";
 import { createLoggingProcessor } from "../processors/logging-processor.js";
 import { createMappingProcessor } from "../processors/mapping-processor.js";
+import { createFilterProcessor } from "../processors/filter-processor.js";
+import { createSplitProcessor } from "../processors/split-processor.js";
+import { createWindowProcessor } from "../processors/window-processor.js";
 import { createHttpProcessor } from "../processors/http-processor.js";
+import { createSqlSelectProcessor } from "../processors/sql-select-processor.js";
 import { createBranchProcessor } from "../processors/branch-processor.js";
 import { createSwitchProcessor } from "../processors/switch-processor.js";
 import { createRedisStreamsOutput } from "../outputs/redis-streams-output.js";
@@ -26,6 +51,16 @@ import { createRedisPubSubOutput } from "../outputs/redis-pubsub-output.js";
 import { createRedisListOutput } from "../outputs/redis-list-output.js";
 import { createSqsOutput } from "../outputs/sqs-output.js";
 import { createHttpOutput } from "../outputs/http-output.js";
+import { createFileOutput } from "../outputs/file-output.js";
+import { createStdoutOutput } from "../outputs/stdout-output.js";
+import { createKafkaOutput } from "../outputs/kafka-output.js";
+import { createSqlInsertOutput } from "../outputs/sql-insert-output.js";
+import { createWebSocketOutput } from "../outputs/websocket-output.js";
+import { createMqttOutput } from "../outputs/mqtt-output.js";
+import { createNatsOutput } from "../outputs/nats-output.js";
+import { createNatsJetStreamOutput } from "../outputs/nats-jetstream-output.js";
+import { createBrokerOutput } from "../outputs/broker-output.js";
+import { createSwitchOutput } from "../outputs/switch-output.js";
 // Testing utilities
 import { createGenerateInput } from "../testing/generate-input.js";
 import { createCaptureOutput } from "../testing/capture-output.js";
@@ -36,6 +71,28 @@ export class BuildError {
   constructor(readonly message: string) {}
 }
 
+/**
+ * Rate limit resources of a pipeline by label
+ */
+type RateLimits = ReadonlyMap<string, RateLimit>;
+
+/**
+ * Look up the rate limit a processor or output refers to
+ */
+const resolveRateLimit = (
+  label: string,
+  rateLimits: RateLimits,
+): Effect.Effect<RateLimit, BuildError> => {
+  const rateLimit = rateLimits.get(label);
+  return rateLimit
+    ? Effect.succeed(rateLimit)
+    : Effect.fail(
+        new BuildError(
+          `Rate limit '${label}' is not defined in 'rate_limit_resources'`,
+        ),
+      );
+};
+
 /**
  * Build input from configuration (Bento style)
  */
@@ -156,6 +213,139 @@ const buildInputInternal = (
     );
   }
 
+  if (config.file) {
+    return Effect.succeed(
+      createFileInput({
+        paths:
+          typeof config.file.paths === "string"
+            ? config.file.paths
+            : [...config.file.paths],
+        codec: config.file.codec,
+        delimiter: config.file.delimiter,
+        tail: config.file.tail,
+        pollInterval: config.file.poll_interval,
+        checkpointPath: config.file.checkpoint_path,
+      }),
+    );
+  }
+
+  if (config.stdin) {
+    return Effect.succeed(createStdinInput({ codec: config.stdin.codec }));
+  }
+
+  if (config.kafka) {
+    return Effect.succeed(
+      createKafkaInput({
+        brokers: config.kafka.brokers,
+        topics: config.kafka.topics,
+        consumerGroup: config.kafka.consumer_group,
+        clientId: config.kafka.client_id,
+        fromBeginning: config.kafka.from_beginning,
+        commitInterval: config.kafka.commit_interval,
+        queueSize: config.kafka.queue_size,
+        ssl: config.kafka.ssl,
+        sasl: config.kafka.sasl,
+        connectionTimeout: config.kafka.connection_timeout,
+      }),
+    );
+  }
+
+  if (config.sql_select) {
+    const sql = config.sql_select;
+    return Effect.succeed(
+      createSqlSelectInput({
+        driver: sql.driver,
+        dsn: sql.dsn,
+        maxConnections: sql.max_connections,
+        table: sql.table,
+        columns: sql.columns,
+        cursorColumn: sql.cursor_column,
+        keyColumn: sql.key_column,
+        where: sql.where,
+        initialCursor: sql.initial_cursor,
+        batchSize: sql.batch_size,
+        pollInterval: sql.poll_interval,
+        cursorPath: sql.cursor_path,
+      }),
+    );
+  }
+
+  if (config.websocket) {
+    const ws = config.websocket;
+    return Effect.succeed(
+      createWebSocketInput({
+        mode: ws.mode,
+        url: ws.url,
+        headers: ws.headers,
+        openMessage: ws.open_message,
+        connectionTimeout: ws.connection_timeout,
+        reconnectDelay: ws.reconnect_delay,
+        maxReconnectDelay: ws.max_reconnect_delay,
+        port: ws.port,
+        host: ws.host,
+        path: ws.path,
+        queueSize: ws.queue_size,
+      }),
+    );
+  }
+
+  if (config.mqtt) {
+    const mqtt = config.mqtt;
+    return Effect.succeed(
+      createMqttInput({
+        url: mqtt.url,
+        clientId: mqtt.client_id,
+        username: mqtt.username,
+        password: mqtt.password,
+        keepalive: mqtt.keepalive,
+        connectionTimeout: mqtt.connection_timeout,
+        reconnectDelay: mqtt.reconnect_delay,
+        topics: mqtt.topics,
+        qos: mqtt.qos,
+        cleanSession: mqtt.clean_session,
+        queueSize: mqtt.queue_size,
+      }),
+    );
+  }
+
+  if (config.nats) {
+    return Effect.succeed(
+      createNatsInput({
+        ...buildNatsConnection(config.nats),
+        subjects: config.nats.subjects,
+        queueGroup: config.nats.queue_group,
+        queueSize: config.nats.queue_size,
+      }),
+    );
+  }
+
+  if (config.nats_jetstream) {
+    const js = config.nats_jetstream;
+    return Effect.succeed(
+      createNatsJetStreamInput({
+        ...buildNatsConnection(js),
+        stream: js.stream,
+        durable: js.durable,
+        filterSubjects: js.filter_subjects,
+        deliverPolicy: js.deliver_policy,
+        ackWait: js.ack_wait,
+        maxDeliver: js.max_deliver,
+        batchSize: js.batch_size,
+      }),
+    );
+  }
+
+  if (config.broker) {
+    const broker = config.broker;
+    return Effect.gen(function* () {
+      const inputs: Input<any>[] = [];
+      for (const child of broker.inputs) {
+        inputs.push(yield* buildInputInternal(child));
+      }
+      return createBrokerInput({ inputs });
+    });
+  }
+
   // Testing utility: generate input
   if ((config as any).generate) {
     return Effect.succeed(createGenerateInput((config as any).generate));
@@ -166,9 +356,29 @@ const buildInputInternal = (
 
 /**
  * Build processor from configuration (Bento style)
+ * Wraps the processor with its rate limit when `rate_limit` is set and with
+ * its own error policy when `on_error` is set, so retries wait again
  */
 const buildProcessor = (
   config: ProcessorConfig,
+  rateLimits: RateLimits,
+): Effect.Effect<Processor<any>, BuildError> =>
+  Effect.gen(function* () {
+    let processor = yield* buildProcessorInternal(config, rateLimits);
+    if (config.rate_limit) {
+      processor = withProcessorRateLimit(
+        processor,
+        yield* resolveRateLimit(config.rate_limit, rateLimits),
+      );
+    }
+    return config.on_error
+      ? withErrorPolicy(processor, buildErrorPolicy(config.on_error))
+      : processor;
+  });
+
+const buildProcessorInternal = (
+  config: ProcessorConfig,
+  rateLimits: RateLimits,
 ): Effect.Effect<Processor<any>, BuildError> => {
   if (config.metadata) {
     return Effect.succeed(
@@ -209,6 +419,38 @@ const buildProcessor = (
     );
   }
 
+  if (config.filter) {
+    return Effect.succeed(
+      createFilterProcessor({
+        check: config.filter.check,
+      }),
+    );
+  }
+
+  if (config.split) {
+    return Effect.succeed(
+      createSplitProcessor({
+        path: config.split.path,
+        format: config.split.format,
+        delimiter: config.split.delimiter,
+        batchSize: config.split.batch_size,
+      }),
+    );
+  }
+
+  if (config.window) {
+    return Effect.succeed(
+      createWindowProcessor({
+        type: config.window.type,
+        size: config.window.size,
+        slide: config.window.slide,
+        count: config.window.count,
+        key: config.window.key,
+        aggregate: config.window.aggregate,
+      }),
+    );
+  }
+
   if (config.http) {
     return Effect.succeed(
       createHttpProcessor({
@@ -225,13 +467,28 @@ const buildProcessor = (
     );
   }
 
+  if (config.sql_select) {
+    const sql = config.sql_select;
+    return Effect.succeed(
+      createSqlSelectProcessor({
+        driver: sql.driver,
+        dsn: sql.dsn,
+        maxConnections: sql.max_connections,
+        query: sql.query,
+        argsMapping: sql.args_mapping,
+        resultKey: sql.result_key,
+        maxRetries: sql.max_retries,
+      }),
+    );
+  }
+
   if (config.branch) {
     const branchConfig = config.branch;
     return Effect.gen(function* () {
       // Recursively build nested processors
       const nestedProcessors: Processor<any, any>[] = yield* Effect.forEach(
         [...branchConfig.processors],
-        buildProcessor,
+        (processor) => buildProcessor(processor, rateLimits),
         { concurrency: 1 },
       );
       return createBranchProcessor({ processors: nestedProcessors });
@@ -248,7 +505,7 @@ const buildProcessor = (
           Effect.gen(function* () {
             const processors: Processor<any, any>[] = yield* Effect.forEach(
               [...switchCase.processors],
-              buildProcessor,
+              (processor) => buildProcessor(processor, rateLimits),
               { concurrency: 1 },
             );
             return {
@@ -272,9 +529,25 @@ const buildProcessor = (
 
 /**
  * Build output from configuration (Bento style)
+ * Wraps the output with its rate limit when `rate_limit` is set
  */
 const buildOutput = (
   config: OutputConfig,
+  rateLimits: RateLimits,
+): Effect.Effect<Output<any>, BuildError> =>
+  Effect.gen(function* () {
+    const output = yield* buildOutputInternal(config, rateLimits);
+    return config.rate_limit
+      ? withRateLimit(
+          output,
+          yield* resolveRateLimit(config.rate_limit, rateLimits),
+        )
+      : output;
+  });
+
+const buildOutputInternal = (
+  config: OutputConfig,
+  rateLimits: RateLimits,
 ): Effect.Effect<Output<any>, BuildError> => {
   if (config.redis_streams) {
     // Parse redis URL (redis://host:port or redis://localhost:6379)
@@ -317,7 +590,9 @@ const buildOutput = (
         region: config.aws_sqs.region,
         endpoint: config.aws_sqs.endpoint,
         maxBatchSize: config.aws_sqs.max_batch_size,
+        batchTimeout: config.aws_sqs.batch_timeout,
         delaySeconds: config.aws_sqs.delay_seconds,
+        maxRetries: config.aws_sqs.max_retries,
       }),
     );
   }
@@ -361,6 +636,144 @@ const buildOutput = (
     );
   }
 
+  if (config.file) {
+    return Effect.succeed(
+      createFileOutput({
+        path: config.file.path,
+        format: config.file.format,
+        compression: config.file.compression,
+        maxSize: config.file.max_size,
+        maxAge: config.file.max_age,
+      }),
+    );
+  }
+
+  if (config.stdout) {
+    return Effect.succeed(createStdoutOutput({ format: config.stdout.format }));
+  }
+
+  if (config.kafka) {
+    return Effect.succeed(
+      createKafkaOutput({
+        brokers: config.kafka.brokers,
+        topic: config.kafka.topic,
+        key: config.kafka.key,
+        clientId: config.kafka.client_id,
+        maxBatchSize: config.kafka.max_batch_size,
+        batchTimeout: config.kafka.batch_timeout,
+        acks: config.kafka.acks,
+        compression: config.kafka.compression,
+        maxRetries: config.kafka.max_retries,
+        ssl: config.kafka.ssl,
+        sasl: config.kafka.sasl,
+        connectionTimeout: config.kafka.connection_timeout,
+      }),
+    );
+  }
+
+  if (config.sql_insert) {
+    const sql = config.sql_insert;
+    return Effect.succeed(
+      createSqlInsertOutput({
+        driver: sql.driver,
+        dsn: sql.dsn,
+        maxConnections: sql.max_connections,
+        table: sql.table,
+        columns: sql.columns,
+        argsMapping: sql.args_mapping,
+        onConflict: sql.on_conflict,
+        maxBatchSize: sql.max_batch_size,
+        batchTimeout: sql.batch_timeout,
+        maxRetries: sql.max_retries,
+      }),
+    );
+  }
+
+  if (config.websocket) {
+    return Effect.succeed(
+      createWebSocketOutput({
+        url: config.websocket.url,
+        headers: config.websocket.headers,
+        format: config.websocket.format,
+        connectionTimeout: config.websocket.connection_timeout,
+        maxRetries: config.websocket.max_retries,
+      }),
+    );
+  }
+
+  if (config.mqtt) {
+    const mqtt = config.mqtt;
+    return Effect.succeed(
+      createMqttOutput({
+        url: mqtt.url,
+        clientId: mqtt.client_id,
+        username: mqtt.username,
+        password: mqtt.password,
+        keepalive: mqtt.keepalive,
+        connectionTimeout: mqtt.connection_timeout,
+        reconnectDelay: mqtt.reconnect_delay,
+        topic: mqtt.topic,
+        qos: mqtt.qos,
+        retain: mqtt.retain,
+        maxRetries: mqtt.max_retries,
+      }),
+    );
+  }
+
+  if (config.nats) {
+    return Effect.succeed(
+      createNatsOutput({
+        ...buildNatsConnection(config.nats),
+        subject: config.nats.subject,
+        request: config.nats.request,
+        requestTimeout: config.nats.request_timeout,
+        maxRetries: config.nats.max_retries,
+      }),
+    );
+  }
+
+  if (config.nats_jetstream) {
+    return Effect.succeed(
+      createNatsJetStreamOutput({
+        ...buildNatsConnection(config.nats_jetstream),
+        subject: config.nats_jetstream.subject,
+        ackTimeout: config.nats_jetstream.ack_timeout,
+        maxRetries: config.nats_jetstream.max_retries,
+      }),
+    );
+  }
+
+  if (config.broker) {
+    const broker = config.broker;
+    return Effect.gen(function* () {
+      const outputs: Output<any>[] = [];
+      for (const child of broker.outputs) {
+        const output = yield* buildOutput(child, rateLimits);
+        outputs.push(
+          child.dlq
+            ? yield* buildDLQOutput(output, child.dlq, rateLimits)
+            : output,
+        );
+      }
+      return createBrokerOutput({ pattern: broker.pattern, outputs });
+    });
+  }
+
+  if (config.switch) {
+    const switchConfig = config.switch;
+    return Effect.gen(function* () {
+      const cases = [];
+      for (const switchCase of switchConfig.cases) {
+        cases.push({
+          check: switchCase.check,
+          output: yield* buildOutput(switchCase.output, rateLimits),
+          continue: switchCase.continue,
+        });
+      }
+      return createSwitchOutput({ cases });
+    });
+  }
+
   // Testing utility: capture output
   if ((config as any).capture) {
     return createCaptureOutput((config as any).capture || {});
@@ -369,6 +782,122 @@ const buildOutput = (
   return Effect.fail(new BuildError("No valid output configuration found"));
 };
 
+/**
+ * Map the connection fields shared by the NATS components
+ */
+const buildNatsConnection = (config: {
+  readonly urls: readonly string[];
+  readonly name?: string;
+  readonly user?: string;
+  readonly password?: string;
+  readonly token?: string;
+  readonly tls?: boolean;
+  readonly connection_timeout?: number;
+  readonly reconnect_delay?: number;
+}): NatsConnectionConfig => ({
+  urls: config.urls,
+  name: config.name,
+  user: config.user,
+  password: config.password,
+  token: config.token,
+  tls: config.tls,
+  connectionTimeout: config.connection_timeout,
+  reconnectDelay: config.reconnect_delay,
+});
+
+/**
+ * Build retry schedule for DLQ-wrapped outputs and error policies
+ */
+const buildRetrySchedule = (config: {
+  readonly retry_schedule?: "exponential" | "fixed";
+  readonly retry_delay?: number;
+}): Schedule.Schedule<unknown> => {
+  const delay = Duration.millis(config.retry_delay ?? 1000);
+  return config.retry_schedule === "fixed"
+    ? Schedule.spaced(delay)
+    : Schedule.exponential(delay);
+};
+
+/**
+ * Wrap an output (primary or broker child) with retries and a dead letter queue
+ */
+const buildDLQOutput = (
+  output: Output<any>,
+  config: DLQPipelineConfig,
+  rateLimits: RateLimits,
+): Effect.Effect<Output<any>, BuildError> =>
+  Effect.gen(function* () {
+    const dlq = yield* buildOutput(config.output, rateLimits);
+    return withDLQ({
+      output,
+      dlq,
+      maxRetries: config.max_retries,
+      retrySchedule: buildRetrySchedule(config),
+    });
+  });
+
+/**
+ * Build processor error policy from configuration
+ */
+const buildErrorPolicy = (config: ErrorPolicyConfig): ErrorPolicy => ({
+  action: config.action,
+  maxRetries: config.max_retries,
+  retrySchedule: buildRetrySchedule(config),
+});
+
+/**
+ * Type of a configured input or output, i.e. its single component key
+ */
+const componentType = (config: InputConfig | OutputConfig): string =>
+  Object.entries(config).find(
+    // rate_limit is an option of the output, not a component
+    ([key, value]) => value !== undefined && key !== "rate_limit",
+  )?.[0] ?? "unknown";
+
+/**
+ * Create the rate limit resources of a pipeline
+ */
+const buildRateLimits = (
+  configs: readonly RateLimitResourceConfig[],
+): Effect.Effect<RateLimits, BuildError> =>
+  Effect.try({
+    try: () => {
+      const rateLimits = new Map<string, RateLimit>();
+      for (const config of configs) {
+        if (rateLimits.has(config.label)) {
+          throw new Error(`Rate limit '${config.label}' is defined twice`);
+        }
+        rateLimits.set(
+          config.label,
+          createRateLimit({
+            label: config.label,
+            algorithm: config.algorithm,
+            count: config.count,
+            interval: config.interval,
+            burst: config.burst,
+            redis: config.redis,
+          }),
+        );
+      }
+      return rateLimits;
+    },
+    catch: (error) =>
+      new BuildError(error instanceof Error ? error.message : String(error)),
+  });
+
+/**
+ * Check whether any processor (including nested ones) routes to the error output
+ */
+const usesErrorOutput = (configs: readonly ProcessorConfig[]): boolean =>
+  configs.some(
+    (config) =>
+      config.on_error?.action === "error_output" ||
+      usesErrorOutput(config.branch?.processors ?? []) ||
+      (config.switch?.cases ?? []).some((switchCase) =>
+        usesErrorOutput(switchCase.processors),
+      ),
+  );
+
 /**
  * Build complete pipeline from configuration (Bento style)
  */
@@ -385,38 +914,71 @@ export const buildPipeline = (
 
     const input = yield* buildInput(config.input, debug);
 
+    const rateLimits = yield* buildRateLimits(
+      config.rate_limit_resources ?? [],
+    );
+
     const processorConfigs = config.pipeline?.processors || [];
-    const processors = yield* Effect.forEach(processorConfigs, buildProcessor, {
-      concurrency: 1,
-    });
+    const processors = yield* Effect.forEach(
+      processorConfigs,
+      (processor) => buildProcessor(processor, rateLimits),
+      { concurrency: 1 },
+    );
 
-    const output = yield* buildOutput(config.output);
-
-    // Generate name from input and output types
-    const inputType = config.input.aws_sqs
-      ? "aws_sqs"
-      : config.input.redis_streams
-        ? "redis_streams"
-        : config.input.http
-          ? "http"
-          : (config.input as any).generate
-            ? "generate"
-            : "unknown";
-    const outputType = config.output.redis_streams
-      ? "redis_streams"
-      : config.output.aws_sqs
-        ? "aws_sqs"
-        : config.output.http
-          ? "http"
-          : (config.output as any).capture
-            ? "capture"
-            : "unknown";
+    const onError = config.pipeline?.on_error;
+    if (
+      !config.error_output &&
+      (onError?.action === "error_output" || usesErrorOutput(processorConfigs))
+    ) {
+      return yield* Effect.fail(
+        new BuildError(
+          "Error policy action 'error_output' requires an 'error_output' configuration",
+        ),
+      );
+    }
+    const errorOutput = config.error_output
+      ? yield* buildOutput(config.error_output, rateLimits)
+      : undefined;
+
+    const primaryOutput = yield* buildOutput(config.output, rateLimits);
+    const dlqOutput = config.dlq
+      ? yield* buildDLQOutput(primaryOutput, config.dlq, rateLimits)
+      : primaryOutput;
+    // Rate limits are shared, so they are closed once with the output
+    const output: Output<any> =
+      rateLimits.size > 0
+        ? {
+            ...dlqOutput,
+            close: () =>
+              Effect.gen(function* () {
+                if (dlqOutput.close) {
+                  yield* dlqOutput.close();
+                }
+                for (const rateLimit of rateLimits.values()) {
+                  yield* rateLimit.close();
+                }
+              }),
+          }
+        : dlqOutput;
 
     return {
-      name: `${inputType}-to-${outputType}`,
+      name:
+        config.name ??
+        `${componentType(config.input)}-to-${componentType(config.output)}`,
       input,
       processors,
       output,
+      backpressure: config.backpressure
+        ? {
+            maxConcurrentMessages: config.backpressure.max_concurrent_messages,
+            maxConcurrentOutputs: config.backpressure.max_concurrent_outputs,
+          }
+        : undefined,
+      shutdown: config.shutdown
+        ? { drainTimeout: config.shutdown.drain_timeout }
+        : undefined,
+      onError: onError ? buildErrorPolicy(onError) : undefined,
+      errorOutput,
     };
   });
 };
@@ -1,13 +1,35 @@
 /**
  * Pipeline orchestration using Effect.js
  */
-import { Effect, Stream, pipe, Ref } from "effect";
+import {
+  Effect,
+  Stream,
+  pipe,
+  Ref,
+  Deferred,
+  Fiber,
+  Duration,
+  Schedule,
+  Metric,
+} from "effect";
 import type {
   Message,
+  Output,
   Pipeline,
   PipelineStats,
   PipelineResult,
 } from "./types.js";
+import {
+  pipelineMetrics,
+  type InputMetrics,
+  type OutputMetrics,
+} from "./metrics.js";
+import {
+  ProcessorFailure,
+  createErrorMessage,
+  withErrorPolicy,
+} from "./error-policy.js";
+import { currentTraceContext, parentSpan } from "./trace-context.js";
 
 /**
  * Pipeline execution errors
@@ -20,22 +42,62 @@ export class PipelineError {
   ) {}
 }
 
+// ms to wait for in-flight messages to stop once the drain timeout passed
+const INTERRUPT_TIMEOUT = 1000;
+
+/**
+ * Live state of a pipeline, e.g. for the admin server
+ */
+export interface PipelineStatus {
+  readonly name: string;
+  readonly running: boolean; // False once the pipeline stopped and closed
+  readonly processed: number;
+  readonly failed: number;
+  readonly filtered: number;
+  readonly uptime: number; // ms since the pipeline started
+  readonly input?: InputMetrics;
+  readonly output?: OutputMetrics;
+}
+
+/**
+ * Options for running a pipeline
+ */
+export interface RunOptions {
+  readonly stop?: Effect.Effect<void>; // Completes when the pipeline should shut down
+  readonly onStart?: (
+    status: Effect.Effect<PipelineStatus>,
+  ) => Effect.Effect<void>; // Receives an effect reading the live status
+}
+
 /**
  * Run a pipeline
  * Orchestrates the flow: Input → Processors → Output
+ *
+ * Interrupting the returned effect (e.g. on SIGINT/SIGTERM) shuts down
+ * gracefully: the input stops pulling, in-flight messages are given up to
+ * `shutdown.drainTimeout` ms to finish, then input and output are closed.
+ * Completing `options.stop` shuts down the same way, but still returns the
+ * result.
  */
 export const run = <E, R>(
   pipeline: Pipeline<E, R>,
+  options: RunOptions = {},
 ): Effect.Effect<PipelineResult, PipelineError, R> => {
   return Effect.gen(function* () {
     // Initialize stats
     const statsRef = yield* Ref.make({
       processed: 0,
       failed: 0,
+      filtered: 0,
       startTime: Date.now(),
     });
 
     const errorsRef = yield* Ref.make<unknown[]>([]);
+    const runningRef = yield* Ref.make(true);
+
+    // Prometheus metrics next to the stats returned in the result
+    const metrics = pipelineMetrics(pipeline.name);
+    yield* Metric.set(metrics.running, 1);
 
     // Get backpressure config
     const maxConcurrentMessages =
@@ -43,56 +105,182 @@ export const run = <E, R>(
     const maxConcurrentOutputs =
       pipeline.backpressure?.maxConcurrentOutputs ?? 5;
 
+    // Acknowledgement hooks (no-ops for inputs without delivery guarantees)
+    const ack = (msg: Message) =>
+      pipeline.input.ack ? pipeline.input.ack(msg) : Effect.void;
+    const nack = (msg: Message) =>
+      pipeline.input.nack ? pipeline.input.nack(msg) : Effect.void;
+
+    // Apply the pipeline-wide error policy to every processor
+    const onError = pipeline.onError;
+    const processors = onError
+      ? pipeline.processors.map((processor) =>
+          withErrorPolicy(processor, onError),
+        )
+      : pipeline.processors;
+
+    // Apply processors from `from` onwards to a set of messages
+    const applyProcessors = (from: number, initial: Message[]) =>
+      Effect.reduce(processors.slice(from), initial, (messages, processor) =>
+        pipe(
+          Effect.forEach(
+            messages,
+            (m) =>
+              processor.process(m).pipe(
+                Effect.withSpan(`processor ${processor.name}`, {
+                  attributes: { messageId: m.id },
+                }),
+                // An empty result means the processor dropped it, unless
+                // it holds messages back to emit them on flush
+                Effect.tap((result) =>
+                  !processor.flush &&
+                  Array.isArray(result) &&
+                  result.length === 0
+                    ? Ref.update(statsRef, (s) => ({
+                        ...s,
+                        filtered: s.filtered + 1,
+                      })).pipe(
+                        Effect.zipRight(Metric.increment(metrics.filtered)),
+                      )
+                    : Effect.void,
+                ),
+              ),
+            { concurrency: 1 },
+          ),
+          Effect.map((results) => results.flat()),
+        ),
+      );
+
+    // Send in a span of its own, whose trace context the output injects
+    const send = (output: Output<E, R>, msg: Message) =>
+      pipe(
+        currentTraceContext(msg),
+        Effect.flatMap(output.send),
+        Effect.withSpan(`output ${output.name}`, {
+          kind: "producer",
+          attributes: { messageId: msg.id },
+        }),
+      );
+
+    // Send each message to output with backpressure
+    const sendAll = (messages: Message[]) =>
+      Effect.forEach(
+        messages,
+        (msg) =>
+          pipe(
+            send(pipeline.output, msg),
+            Effect.tap(() =>
+              Ref.update(statsRef, (s) => ({
+                ...s,
+                processed: s.processed + 1,
+              })).pipe(Effect.zipRight(Metric.increment(metrics.processed))),
+            ),
+          ),
+        { concurrency: maxConcurrentOutputs },
+      );
+
+    // Emit messages held back by stateful processors (e.g. windows) through
+    // the rest of the pipeline. There is no input message to nack, so
+    // failures are only counted and logged.
+    const flushProcessors = (final: boolean) =>
+      Effect.forEach(
+        processors,
+        (processor, index) =>
+          processor.flush
+            ? pipe(
+                processor.flush(final),
+                Effect.flatMap((messages) =>
+                  applyProcessors(index + 1, messages),
+                ),
+                Effect.flatMap(sendAll),
+                Effect.catchAll((error) =>
+                  Effect.gen(function* () {
+                    yield* Ref.update(statsRef, (s) => ({
+                      ...s,
+                      failed: s.failed + 1,
+                    }));
+                    yield* Metric.increment(metrics.failed);
+                    yield* Ref.update(errorsRef, (errors) => [
+                      ...errors,
+                      error,
+                    ]);
+                    yield* Effect.logError(
+                      `Flushing processor ${processor.name} failed: ${error}`,
+                    );
+                  }),
+                ),
+              )
+            : Effect.void,
+        { discard: true },
+      );
+
+    // Periodic flush for processors that emit on a timer
+    const flushIntervals = processors.flatMap((processor) =>
+      processor.flush && processor.flushInterval
+        ? [processor.flushInterval]
+        : [],
+    );
+    const flushFiber =
+      flushIntervals.length > 0
+        ? yield* pipe(
+            flushProcessors(false),
+            Effect.repeat(
+              Schedule.spaced(Duration.millis(Math.min(...flushIntervals))),
+            ),
+            Effect.delay(Duration.millis(Math.min(...flushIntervals))),
+            Effect.forkDaemon,
+          )
+        : undefined;
+
+    // Completed when a shutdown is requested to stop pulling from the input
+    const shutdownSignal = yield* Deferred.make<void>();
+    const drainTimeout = pipeline.shutdown?.drainTimeout ?? 30000;
+
     yield* Effect.log(`Starting pipeline: ${pipeline.name}`);
 
+    if (options.onStart) {
+      yield* options.onStart(
+        Effect.all([Ref.get(statsRef), Ref.get(runningRef)]).pipe(
+          Effect.map(([stats, running]) => ({
+            name: pipeline.name,
+            running,
+            processed: stats.processed,
+            failed: stats.failed,
+            filtered: stats.filtered,
+            uptime: Date.now() - stats.startTime,
+            input: pipeline.input.metrics?.(),
+            output: pipeline.output.metrics?.(),
+          })),
+        ),
+      );
+    }
+
     // Execute pipeline
-    yield* pipe(
+    const drainFiber = yield* pipe(
       pipeline.input.stream,
 
+      // Stop pulling new messages once shutdown starts
+      Stream.interruptWhen(Deferred.await(shutdownSignal)),
+
       // Apply processors with concurrency control
       Stream.mapEffect(
         (msg: Message) =>
           pipe(
-            // Start with the message
-            Effect.succeed(msg),
-
             // Apply each processor in sequence
-            Effect.flatMap((currentMsg) =>
-              Effect.reduce(
-                pipeline.processors,
-                currentMsg as Message | Message[],
-                (acc, processor) => {
-                  // Handle both single message and array of messages
-                  const messages = Array.isArray(acc) ? acc : [acc];
-
-                  return pipe(
-                    Effect.forEach(messages, (m) => processor.process(m), {
-                      concurrency: 1,
-                    }),
-                    Effect.map((results) => results.flat()),
-                  );
-                },
-              ),
-            ),
-
-            // Flatten if array
-            Effect.map((result) => (Array.isArray(result) ? result : [result])),
+            applyProcessors(0, [msg]),
 
             // Send each message to output with backpressure
-            Effect.flatMap((messages) =>
-              Effect.forEach(
-                messages,
-                (msg) =>
-                  pipe(
-                    pipeline.output.send(msg),
-                    Effect.tap(() =>
-                      Ref.update(statsRef, (s) => ({
-                        ...s,
-                        processed: s.processed + 1,
-                      })),
-                    ),
-                  ),
-                { concurrency: maxConcurrentOutputs },
+            Effect.flatMap(sendAll),
+
+            // Acknowledge only after every derived message was delivered
+            Effect.tap(() => ack(msg)),
+
+            // Record how long delivered messages took
+            Effect.timed,
+            Effect.tap(([duration]) =>
+              Metric.update(
+                metrics.latency,
+                Duration.toMillis(duration) / 1000,
               ),
             ),
 
@@ -103,15 +291,54 @@ export const run = <E, R>(
                   ...s,
                   failed: s.failed + 1,
                 }));
+                yield* Metric.increment(metrics.failed);
                 yield* Ref.update(errorsRef, (errors) => [...errors, error]);
                 yield* Effect.logError(`Message processing failed: ${error}`);
+
+                if (error instanceof ProcessorFailure) {
+                  // Route to the error output; delivered counts as handled
+                  if (error.action === "error_output" && pipeline.errorOutput) {
+                    const routed = yield* send(
+                      pipeline.errorOutput,
+                      createErrorMessage(error),
+                    ).pipe(
+                      Effect.as(true),
+                      Effect.catchAll((sendError) =>
+                        Effect.logError(
+                          `Failed to send message ${msg.id} to error output: ${sendError}`,
+                        ).pipe(Effect.as(false)),
+                      ),
+                    );
+                    yield* routed ? ack(msg) : nack(msg);
+                    return [];
+                  }
+
+                  // Discarded on purpose; the failure was counted and logged,
+                  // so the source must not redeliver it
+                  if (error.action === "drop") {
+                    yield* ack(msg);
+                    return [];
+                  }
+
+                  // Stop the whole pipeline
+                  if (error.action === "fail") {
+                    yield* nack(msg);
+                    return yield* Effect.fail(
+                      new PipelineError(`Pipeline stopped: ${error}`, error),
+                    );
+                  }
+                }
+
+                yield* nack(msg);
                 return [];
               }),
             ),
 
-            // Add span for telemetry
+            // Span continuing the trace the message arrived with
             Effect.withSpan("process-message", {
-              attributes: { messageId: msg.id },
+              kind: "consumer",
+              parent: parentSpan(msg),
+              attributes: { messageId: msg.id, pipeline: pipeline.name },
             }),
           ),
         { concurrency: maxConcurrentMessages },
@@ -123,36 +350,110 @@ export const run = <E, R>(
       // Handle stream errors
       Effect.catchAll((error) =>
         Effect.gen(function* () {
-          yield* Effect.logError(`Pipeline stream error: ${error}`);
+          yield* Effect.logError(
+            `Pipeline stream error: ${error instanceof PipelineError ? error.message : error}`,
+          );
           yield* Ref.update(errorsRef, (errors) => [...errors, error]);
         }),
       ),
+
+      // Daemon so in-flight work survives interruption of the caller
+      Effect.forkDaemon,
     );
 
-    // Finalize stats
-    const stats = yield* Ref.get(statsRef);
-    const errors = yield* Ref.get(errorsRef);
+    // Flush held-back messages, finalize stats and close resources
+    const finalize = Effect.gen(function* () {
+      if (flushFiber) {
+        yield* Fiber.interrupt(flushFiber);
+      }
+      yield* flushProcessors(true);
 
-    const finalStats: PipelineStats = {
-      processed: stats.processed,
-      failed: stats.failed,
-      duration: Date.now() - stats.startTime,
-      startTime: stats.startTime,
-      endTime: Date.now(),
-    };
+      const stats = yield* Ref.get(statsRef);
 
-    yield* Effect.log(
-      `Pipeline completed: ${finalStats.processed} processed, ${finalStats.failed} failed in ${finalStats.duration}ms`,
-    );
+      const finalStats: PipelineStats = {
+        processed: stats.processed,
+        failed: stats.failed,
+        filtered: stats.filtered,
+        duration: Date.now() - stats.startTime,
+        startTime: stats.startTime,
+        endTime: Date.now(),
+      };
 
-    // Close resources
-    if (pipeline.input.close) {
-      yield* pipeline.input.close();
-    }
-    if (pipeline.output.close) {
-      yield* pipeline.output.close();
+      yield* Effect.log(
+        `Pipeline completed: ${finalStats.processed} processed, ${finalStats.failed} failed, ${finalStats.filtered} filtered in ${finalStats.duration}ms`,
+      );
+
+      // Close resources (outputs flush pending batches on close)
+      if (pipeline.input.close) {
+        yield* pipeline.input.close();
+      }
+      if (pipeline.output.close) {
+        yield* pipeline.output.close();
+      }
+      if (pipeline.errorOutput?.close) {
+        yield* pipeline.errorOutput.close();
+      }
+      for (const processor of pipeline.processors) {
+        if (processor.close) {
+          yield* processor.close();
+        }
+      }
+      yield* Ref.set(runningRef, false);
+      yield* Metric.set(metrics.running, 0);
+
+      return finalStats;
+    });
+
+    // Stop the input and wait for in-flight messages
+    const drain = Effect.gen(function* () {
+      yield* Effect.log(
+        `Shutting down pipeline ${pipeline.name}, draining in-flight messages (timeout ${drainTimeout}ms)`,
+      );
+      yield* Deferred.succeed(shutdownSignal, undefined);
+
+      // Interrupt handlers run uninterruptibly, so the timeout race runs in
+      // its own fiber where the losing side can still be interrupted
+      const awaitDrain = (timeout: number) =>
+        Fiber.await(drainFiber).pipe(
+          Effect.timeout(Duration.millis(timeout)),
+          Effect.option,
+          Effect.interruptible,
+          Effect.forkDaemon,
+          Effect.flatMap(Fiber.join),
+        );
+
+      const drained = yield* awaitDrain(drainTimeout);
+      if (drained._tag === "None") {
+        yield* Effect.logWarning(
+          `Drain timeout of ${drainTimeout}ms exceeded, interrupting in-flight messages`,
+        );
+        // Finalizers of the input may never finish (e.g. a read blocked on
+        // an idle source), so the interruption is waited for a bounded time
+        yield* Fiber.interruptFork(drainFiber);
+        const interrupted = yield* awaitDrain(INTERRUPT_TIMEOUT);
+        if (interrupted._tag === "None") {
+          yield* Effect.logWarning(
+            `In-flight messages did not stop within ${INTERRUPT_TIMEOUT}ms, closing anyway`,
+          );
+        }
+      }
+    });
+
+    // Graceful shutdown: stop the input, drain in-flight messages, close
+    const shutdown = drain.pipe(Effect.zipRight(finalize));
+
+    // Whichever completes first, including a defect of the drain fiber
+    const stopped = yield* Effect.raceFirst(
+      Fiber.join(drainFiber).pipe(Effect.as(false)),
+      (options.stop ?? Effect.never).pipe(Effect.as(true)),
+    ).pipe(Effect.onInterrupt(() => shutdown));
+    if (stopped) {
+      yield* drain;
     }
 
+    const finalStats = yield* finalize;
+    const errors = yield* Ref.get(errorsRef);
+
     return {
       success: finalStats.failed === 0,
       stats: finalStats,
@@ -165,6 +466,7 @@ export const run = <E, R>(
         stats: {
           processed: 0,
           failed: 0,
+          filtered: 0,
           duration: 0,
           startTime: Date.now(),
           endTime: Date.now(),
@@ -0,0 +1,118 @@
+/**
+ * Prometheus exposition of Effect metrics
+ *
+ * Renders every metric registered with Effect's `Metric` module in the
+ * Prometheus text format (version 0.0.4): counters, gauges and histograms.
+ * Other metric types (frequencies, summaries) are skipped.
+ */
+import { Metric, MetricState, Option } from "effect";
+import type { MetricLabel } from "effect";
+
+export const PROMETHEUS_CONTENT_TYPE =
+  "text/plain; version=0.0.4; charset=utf-8";
+
+const escapeLabelValue = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+const escapeHelp = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+
+const formatLabels = (
+  labels: ReadonlyArray<MetricLabel.MetricLabel>,
+  extra: ReadonlyArray<readonly [string, string]> = [],
+) => {
+  const pairs = [
+    ...labels.map((label) => [label.key, label.value] as const),
+    ...extra,
+  ];
+  return pairs.length > 0
+    ? `{${pairs.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(",")}}`
+    : "";
+};
+
+const formatValue = (value: number | bigint) =>
+  typeof value === "bigint"
+    ? value.toString()
+    : value === Infinity
+      ? "+Inf"
+      : value === -Infinity
+        ? "-Inf"
+        : String(value);
+
+/**
+ * Render the samples of one metric state, undefined for unsupported types
+ */
+const renderSamples = (
+  name: string,
+  labels: ReadonlyArray<MetricLabel.MetricLabel>,
+  state: MetricState.MetricState.Untyped,
+): { type: string; lines: string[] } | undefined => {
+  if (MetricState.isCounterState(state)) {
+    return {
+      type: "counter",
+      lines: [`${name}${formatLabels(labels)} ${formatValue(state.count)}`],
+    };
+  }
+  if (MetricState.isGaugeState(state)) {
+    return {
+      type: "gauge",
+      lines: [`${name}${formatLabels(labels)} ${formatValue(state.value)}`],
+    };
+  }
+  if (MetricState.isHistogramState(state)) {
+    // Effect keeps cumulative bucket counts, ending with the +Inf bucket
+    const buckets = state.buckets.filter(([bound]) => bound !== Infinity);
+    return {
+      type: "histogram",
+      lines: [
+        ...buckets.map(
+          ([bound, count]) =>
+            `${name}_bucket${formatLabels(labels, [["le", formatValue(bound)]])} ${count}`,
+        ),
+        `${name}_bucket${formatLabels(labels, [["le", "+Inf"]])} ${state.count}`,
+        `${name}_sum${formatLabels(labels)} ${formatValue(state.sum)}`,
+        `${name}_count${formatLabels(labels)} ${state.count}`,
+      ],
+    };
+  }
+  return undefined;
+};
+
+/**
+ * Render all registered metrics in the Prometheus text format
+ */
+export const renderPrometheusMetrics = (): string => {
+  // Group tag sets of the same metric under one HELP/TYPE header
+  const families = new Map<
+    string,
+    { help?: string; type: string; lines: string[] }
+  >();
+
+  for (const { metricKey, metricState } of Metric.unsafeSnapshot()) {
+    const samples = renderSamples(metricKey.name, metricKey.tags, metricState);
+    if (!samples) {
+      continue;
+    }
+    const family = families.get(metricKey.name);
+    if (family) {
+      family.lines.push(...samples.lines);
+    } else {
+      families.set(metricKey.name, {
+        help: Option.getOrUndefined(metricKey.description),
+        ...samples,
+      });
+    }
+  }
+
+  return [...families.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, family]) =>
+      [
+        ...(family.help ? [`# HELP ${name} ${escapeHelp(family.help)}`] : []),
+        `# TYPE ${name} ${family.type}`,
+        ...family.lines,
+      ].join("\n"),
+    )
+    .map((block) => `${block}\n`)
+    .join("");
+};
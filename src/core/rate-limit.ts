@@ -0,0 +1,293 @@
+/**
+ * Rate limit resources shared by processors and outputs
+ *
+ * A rate limit is declared once under a label and referenced by any number
+ * of processors and outputs, which then wait for it before every request.
+ *
+ * - token_bucket: up to `burst` requests at once, refilled at `count`
+ *   requests per `interval`
+ * - fixed_window: at most `count` requests per `interval` window
+ *
+ * State is kept in memory, or in Redis to coordinate every instance that
+ * uses the same key. Waiting time is recorded in the
+ * `effect_connect_rate_limit_wait_seconds` histogram.
+ */
+import { Duration, Effect, Metric } from "effect";
+import * as Schema from "effect/Schema";
+import Redis from "ioredis";
+import type { Message, Output, Processor } from "./types.js";
+import {
+  ComponentError,
+  type ErrorCategory,
+  detectCategory,
+} from "./errors.js";
+import { rateLimitMetrics } from "./metrics.js";
+import {
+  validate,
+  NonEmptyString,
+  PositiveInt,
+  UrlString,
+} from "./validation.js";
+
+export type RateLimitAlgorithm = "token_bucket" | "fixed_window";
+
+/**
+ * Subset of the ioredis client used by Redis-backed rate limits
+ */
+export type RedisRateLimitClient = Pick<Redis, "eval" | "quit">;
+
+export interface RateLimitConfig {
+  readonly label: string;
+  readonly algorithm?: RateLimitAlgorithm; // default: "token_bucket"
+  readonly count: number; // Requests per interval
+  readonly interval: number; // ms
+  readonly burst?: number; // Token bucket capacity (default: count)
+  readonly redis?: {
+    readonly url?: string; // redis://host:port/db (default: "redis://localhost:6379")
+    readonly key?: string; // Shared by all instances (default: "effect-connect:rate-limit:<label>")
+    readonly client?: RedisRateLimitClient; // Client to use instead of connecting to `url`
+  };
+}
+
+export class RateLimitError extends ComponentError {
+  readonly _tag = "RateLimitError";
+
+  constructor(
+    message: string,
+    readonly category: ErrorCategory,
+    cause?: unknown,
+  ) {
+    super(message, cause);
+  }
+}
+
+/**
+ * Validation schema for rate limit configuration
+ */
+export const RateLimitConfigSchema = Schema.Struct({
+  label: NonEmptyString,
+  algorithm: Schema.optional(Schema.Literal("token_bucket", "fixed_window")),
+  count: PositiveInt,
+  interval: PositiveInt,
+  burst: Schema.optional(PositiveInt),
+  redis: Schema.optional(
+    Schema.Struct({
+      url: Schema.optional(
+        UrlString.pipe(
+          Schema.pattern(/^rediss?:\/\//, {
+            message: () => "Must be a redis:// or rediss:// URL",
+          }),
+        ),
+      ),
+      key: Schema.optional(NonEmptyString),
+      client: Schema.optional(Schema.Any),
+    }),
+  ),
+});
+
+/**
+ * Named rate limit, acquired before every request
+ */
+export interface RateLimit {
+  readonly label: string;
+  readonly acquire: () => Effect.Effect<void, RateLimitError>; // Waits until a request may be made
+  readonly close: () => Effect.Effect<void>;
+}
+
+/**
+ * Take one request from the limit; returns the ms to wait before trying
+ * again, 0 once it was taken
+ */
+type TryAcquire = () => Effect.Effect<number, RateLimitError>;
+
+/**
+ * In-memory token bucket
+ */
+const localTokenBucket = (capacity: number, ratePerMs: number): TryAcquire => {
+  let tokens = capacity;
+  let last = Date.now();
+  return () =>
+    Effect.sync(() => {
+      const now = Date.now();
+      tokens = Math.min(capacity, tokens + (now - last) * ratePerMs);
+      last = now;
+      if (tokens >= 1) {
+        tokens -= 1;
+        return 0;
+      }
+      return Math.ceil((1 - tokens) / ratePerMs);
+    });
+};
+
+/**
+ * In-memory fixed window
+ */
+const localFixedWindow = (count: number, interval: number): TryAcquire => {
+  let windowStart = 0;
+  let used = 0;
+  return () =>
+    Effect.sync(() => {
+      const now = Date.now();
+      if (now - windowStart >= interval) {
+        windowStart = now - (now % interval);
+        used = 0;
+      }
+      if (used < count) {
+        used++;
+        return 0;
+      }
+      return windowStart + interval - now;
+    });
+};
+
+// KEYS[1]: bucket hash, ARGV: capacity, tokens per ms
+// Uses the server clock, so instances with skewed clocks agree
+const TOKEN_BUCKET_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(state[1]) or capacity
+local ts = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - ts) * rate)
+local wait = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+else
+  wait = math.ceil((1 - tokens) / rate)
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', now)
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / rate) + 1000)
+return wait
+`;
+
+// KEYS[1]: window counter, ARGV: count, interval in ms
+const FIXED_WINDOW_SCRIPT = `
+local used = redis.call('INCR', KEYS[1])
+if used == 1 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+if used <= tonumber(ARGV[1]) then
+  return 0
+end
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl < 0 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+  ttl = tonumber(ARGV[2])
+end
+return ttl
+`;
+
+/**
+ * Create a rate limit resource
+ *
+ * @example
+ * ```typescript
+ * const rateLimit = createRateLimit({ label: "github_api", count: 10, interval: 1000 })
+ * const output = withRateLimit(createHttpOutput({ url }), rateLimit)
+ * ```
+ */
+export const createRateLimit = (config: RateLimitConfig): RateLimit => {
+  // Validate configuration synchronously at creation time
+  Effect.runSync(
+    validate(RateLimitConfigSchema, config, "Rate limit configuration").pipe(
+      Effect.catchAll((error) =>
+        Effect.fail(new RateLimitError(error.message, error.category, error)),
+      ),
+    ),
+  );
+
+  const algorithm = config.algorithm ?? "token_bucket";
+  const capacity = config.burst ?? config.count;
+  const ratePerMs = config.count / config.interval;
+  const metrics = rateLimitMetrics(config.label);
+
+  let tryAcquire: TryAcquire;
+  let close = (): Effect.Effect<void> => Effect.void;
+
+  if (config.redis) {
+    const key = config.redis.key ?? `effect-connect:rate-limit:${config.label}`;
+    const client =
+      config.redis.client ??
+      new Redis(config.redis.url ?? "redis://localhost:6379", {
+        lazyConnect: true,
+        maxRetriesPerRequest: 3,
+      });
+    const [script, args] =
+      algorithm === "token_bucket"
+        ? [TOKEN_BUCKET_SCRIPT, [capacity, ratePerMs]]
+        : [FIXED_WINDOW_SCRIPT, [config.count, config.interval]];
+
+    tryAcquire = () =>
+      Effect.tryPromise({
+        try: async () => Number(await client.eval(script, 1, key, ...args)),
+        catch: (error) =>
+          new RateLimitError(
+            `Failed to acquire rate limit ${config.label}: ${error instanceof Error ? error.message : String(error)}`,
+            detectCategory(error),
+            error,
+          ),
+      });
+    // Injected clients are closed by their owner
+    if (!config.redis.client) {
+      close = () => Effect.tryPromise(() => client.quit()).pipe(Effect.ignore);
+    }
+  } else {
+    tryAcquire =
+      algorithm === "token_bucket"
+        ? localTokenBucket(capacity, ratePerMs)
+        : localFixedWindow(config.count, config.interval);
+  }
+
+  // Retry after the wait until the request is taken
+  const acquireLoop = (waited: number): Effect.Effect<number, RateLimitError> =>
+    Effect.flatMap(tryAcquire(), (wait) =>
+      wait <= 0
+        ? Effect.succeed(waited)
+        : Effect.sleep(Duration.millis(wait)).pipe(
+            Effect.zipRight(acquireLoop(waited + wait)),
+          ),
+    );
+
+  return {
+    label: config.label,
+    acquire: () =>
+      acquireLoop(0).pipe(
+        Effect.timed,
+        Effect.tap(([duration, waited]) =>
+          Effect.all([
+            Metric.update(metrics.wait, Duration.toMillis(duration) / 1000),
+            waited > 0 ? Metric.increment(metrics.throttled) : Effect.void,
+          ]),
+        ),
+        Effect.asVoid,
+      ),
+    close: () => close(),
+  };
+};
+
+/**
+ * Wait for a rate limit before every send of an output
+ */
+export const withRateLimit = <E, R>(
+  output: Output<E, R>,
+  rateLimit: RateLimit,
+): Output<E | RateLimitError, R> => ({
+  ...output,
+  send: (msg: Message) =>
+    rateLimit.acquire().pipe(Effect.zipRight(output.send(msg))),
+});
+
+/**
+ * Wait for a rate limit before a processor handles each message
+ * Messages emitted on flush are not limited
+ */
+export const withProcessorRateLimit = <E, R>(
+  processor: Processor<E, R>,
+  rateLimit: RateLimit,
+): Processor<E | RateLimitError, R> => ({
+  ...processor,
+  process: (msg: Message) =>
+    rateLimit.acquire().pipe(Effect.zipRight(processor.process(msg))),
+});
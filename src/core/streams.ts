@@ -0,0 +1,267 @@
+/**
+ * Streams mode - run many pipelines from one process
+ *
+ * Every stream runs in its own fiber and is restarted according to its
+ * restart policy when its pipeline stops, so one failing stream does not
+ * affect the others. Results of all runs of a stream are combined into one
+ * `PipelineResult`.
+ */
+import { Deferred, Duration, Effect, Fiber, Schedule } from "effect";
+import type { Tracer } from "effect";
+import type { Pipeline, PipelineResult } from "./types.js";
+import { run, type PipelineStatus } from "./pipeline.js";
+import { buildPipeline } from "./pipeline-builder.js";
+import type { RestartPipelineConfig, StreamConfig } from "./config-loader.js";
+
+/**
+ * When to restart a stream whose pipeline stopped
+ * - never: run the pipeline once
+ * - on_failure: restart when the run did not succeed (or failed to build)
+ * - always: restart whenever the pipeline stops, e.g. a finished file input
+ */
+export type RestartPolicy = "never" | "on_failure" | "always";
+
+/**
+ * Restart configuration for a stream
+ */
+export interface RestartConfig {
+  readonly policy: RestartPolicy;
+  readonly maxRestarts?: number; // Give up after this many restarts (default: unlimited)
+  readonly schedule?: Schedule.Schedule<unknown>; // Delay between restarts (default: exponential from 1 second, at most 1 minute)
+  readonly resetAfter?: number; // ms a run must stay up for the delay to start over (default: 60000)
+}
+
+/**
+ * A named pipeline run by `runStreams`
+ */
+export interface StreamDefinition<E = never, R = never> {
+  readonly name: string;
+  readonly build: Effect.Effect<Pipeline<E, R>, unknown>; // Built again for every run
+  readonly restart?: RestartConfig;
+  readonly tracer?: Tracer.Tracer; // Records the spans of this stream (default: the caller's)
+}
+
+/**
+ * Combined result of every run of a stream
+ */
+export interface StreamResult extends PipelineResult {
+  readonly name: string;
+  readonly restarts: number;
+}
+
+/**
+ * Options for running streams
+ */
+export interface RunStreamsOptions {
+  readonly stop?: Effect.Effect<void>; // Completes when all streams should shut down
+  readonly onStart?: (
+    stream: string,
+    status: Effect.Effect<PipelineStatus>,
+  ) => Effect.Effect<void>; // Called on every (re)start of a stream
+}
+
+/**
+ * Exponential or fixed delay between restarts; exponential delays stop
+ * growing at `maxDelay`
+ */
+const restartSchedule = (
+  kind: "exponential" | "fixed",
+  delay: Duration.Duration,
+  maxDelay: Duration.Duration,
+): Schedule.Schedule<unknown> =>
+  kind === "fixed"
+    ? Schedule.spaced(delay)
+    : Schedule.exponential(delay).pipe(
+        Schedule.union(Schedule.spaced(maxDelay)),
+      );
+
+const emptyResult = (errors: ReadonlyArray<unknown>): PipelineResult => ({
+  success: false,
+  stats: {
+    processed: 0,
+    failed: 0,
+    filtered: 0,
+    duration: 0,
+    startTime: Date.now(),
+    endTime: Date.now(),
+  },
+  errors,
+});
+
+/**
+ * Combine the results of consecutive runs; the duration covers all runs
+ * including the delays between them
+ */
+const combineResults = (
+  first: PipelineResult,
+  second: PipelineResult,
+): PipelineResult => {
+  const errors = [...(first.errors ?? []), ...(second.errors ?? [])];
+  return {
+    success: first.success && second.success,
+    stats: {
+      processed: first.stats.processed + second.stats.processed,
+      failed: first.stats.failed + second.stats.failed,
+      filtered: first.stats.filtered + second.stats.filtered,
+      duration: second.stats.endTime - first.stats.startTime,
+      startTime: first.stats.startTime,
+      endTime: second.stats.endTime,
+    },
+    errors: errors.length > 0 ? errors : undefined,
+  };
+};
+
+/**
+ * Run one stream until it stops for good or `stopped` completes
+ */
+const superviseStream = <E, R>(
+  stream: StreamDefinition<E, R>,
+  stopped: Deferred.Deferred<void>,
+  options: RunStreamsOptions,
+): Effect.Effect<StreamResult, never, R> =>
+  Effect.gen(function* () {
+    const policy = stream.restart?.policy ?? "never";
+    const maxRestarts = stream.restart?.maxRestarts ?? Infinity;
+    const resetAfter = stream.restart?.resetAfter ?? 60000;
+    const delays = yield* Schedule.driver(
+      stream.restart?.schedule ??
+        restartSchedule(
+          "exponential",
+          Duration.seconds(1),
+          Duration.minutes(1),
+        ),
+    );
+
+    const stop = Deferred.await(stopped);
+    const onStart = options.onStart;
+    let combined: PipelineResult | undefined;
+    let restarts = 0;
+
+    for (;;) {
+      const result = yield* stream.build.pipe(
+        Effect.flatMap((pipeline) =>
+          run(
+            { ...pipeline, name: stream.name },
+            {
+              stop,
+              onStart: onStart && ((status) => onStart(stream.name, status)),
+            },
+          ),
+        ),
+        Effect.catchAll((error) =>
+          Effect.logError(
+            `Failed to build stream ${stream.name}: ${error instanceof Error ? error.message : String(error)}`,
+          ).pipe(Effect.as(emptyResult([error]))),
+        ),
+      );
+      combined = combined ? combineResults(combined, result) : result;
+
+      if (yield* Deferred.isDone(stopped)) {
+        break;
+      }
+      if (
+        policy === "never" ||
+        (policy === "on_failure" && result.success) ||
+        restarts >= maxRestarts
+      ) {
+        yield* Effect.log(`Stream ${stream.name} stopped`);
+        break;
+      }
+
+      // A run that succeeded or stayed up for a while starts the delays over,
+      // so a failure after days of running does not wait the longest delay
+      if (result.success || result.stats.duration >= resetAfter) {
+        yield* delays.reset;
+      }
+
+      // Wait for the schedule's delay, unless a shutdown starts meanwhile
+      yield* Effect.log(
+        `Stream ${stream.name} ${result.success ? "stopped" : "failed"}, restarting`,
+      );
+      const interrupted = yield* Effect.race(
+        delays.next(undefined).pipe(Effect.option, Effect.as(false)),
+        stop.pipe(Effect.as(true)),
+      );
+      if (interrupted) {
+        break;
+      }
+      restarts++;
+      yield* Effect.log(
+        `Restarting stream ${stream.name} (restart ${restarts})`,
+      );
+    }
+
+    return { ...combined!, name: stream.name, restarts };
+  }).pipe(Effect.annotateLogs("stream", stream.name), (effect) =>
+    stream.tracer ? Effect.withTracer(effect, stream.tracer) : effect,
+  );
+
+/**
+ * Run streams concurrently, each under its own restart policy
+ *
+ * Returns once every stream stopped for good. Completing `options.stop`, or
+ * interrupting the returned effect, shuts all streams down gracefully; with
+ * `options.stop` the combined results are still returned.
+ *
+ * @example
+ * ```typescript
+ * const results = yield* runStreams([
+ *   { name: "orders", build: buildPipeline(ordersConfig) },
+ *   { name: "audit", build: buildPipeline(auditConfig), restart: { policy: "always" } },
+ * ])
+ * ```
+ */
+export const runStreams = <E, R>(
+  streams: ReadonlyArray<StreamDefinition<E, R>>,
+  options: RunStreamsOptions = {},
+): Effect.Effect<ReadonlyArray<StreamResult>, never, R> =>
+  Effect.gen(function* () {
+    const stopped = yield* Deferred.make<void>();
+    const stopFiber = yield* (options.stop ?? Effect.never).pipe(
+      Effect.zipRight(Deferred.succeed(stopped, undefined)),
+      Effect.forkDaemon,
+    );
+
+    yield* Effect.log(`Starting ${streams.length} streams`);
+
+    // Daemons so the streams can drain when the caller is interrupted
+    const fibers = yield* Effect.forEach(streams, (stream) =>
+      Effect.forkDaemon(superviseStream(stream, stopped, options)),
+    );
+    const joinAll = Fiber.joinAll(fibers);
+
+    return yield* joinAll.pipe(
+      Effect.onInterrupt(() =>
+        Deferred.succeed(stopped, undefined).pipe(Effect.zipRight(joinAll)),
+      ),
+      Effect.ensuring(Fiber.interrupt(stopFiber)),
+    );
+  });
+
+/**
+ * Create a stream from a loaded pipeline configuration
+ */
+export const streamFromConfig = (
+  stream: StreamConfig,
+  debug = false,
+): StreamDefinition<any> => ({
+  name: stream.name,
+  build: buildPipeline(stream.config, debug),
+  restart: stream.config.restart
+    ? buildRestartConfig(stream.config.restart)
+    : undefined,
+});
+
+/**
+ * Build a restart configuration from its YAML form
+ */
+const buildRestartConfig = (config: RestartPipelineConfig): RestartConfig => ({
+  policy: config.policy,
+  maxRestarts: config.max_restarts,
+  schedule: restartSchedule(
+    config.restart_schedule ?? "exponential",
+    Duration.millis(config.restart_delay ?? 1000),
+    Duration.millis(config.restart_max_delay ?? 60000),
+  ),
+  resetAfter: config.restart_reset_after,
+});
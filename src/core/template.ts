@@ -0,0 +1,68 @@
+/**
+ * `{{ }}` string templates with embedded JSONata expressions
+ * e.g. "https://api.com/users/{{ content.userId }}"
+ *
+ * Expressions are evaluated against the message as
+ * `{ content, meta, message }`, also bound as `$content`, `$meta` and
+ * `$message`.
+ */
+import jsonata from "jsonata";
+import type { Message } from "./types.js";
+
+const TEMPLATE_PATTERN = /\{\{(.+?)\}\}/gs;
+
+/**
+ * Render an evaluated value into the template text
+ */
+const stringify = (value: unknown): string => {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * Compile a template once; throws on invalid expression syntax
+ * The returned function renders it for a message
+ */
+export const compileTemplate = (
+  template: string,
+): ((msg: Message) => Promise<string>) => {
+  const parts: Array<string | ReturnType<typeof jsonata>> = [];
+  let last = 0;
+
+  for (const match of template.matchAll(TEMPLATE_PATTERN)) {
+    parts.push(template.slice(last, match.index));
+    parts.push(jsonata(match[1].trim()));
+    last = match.index! + match[0].length;
+  }
+  parts.push(template.slice(last));
+
+  return async (msg) => {
+    const message = {
+      id: msg.id,
+      timestamp: msg.timestamp,
+      correlationId: msg.correlationId,
+    };
+    const context = { content: msg.content, meta: msg.metadata, message };
+
+    let result = "";
+    for (const part of parts) {
+      if (typeof part === "string") {
+        result += part;
+        continue;
+      }
+      // Variables are bound per evaluation, as concurrent renders share parts
+      result += stringify(await part.evaluate(context, context));
+    }
+    return result;
+  };
+};
+
+/**
+ * Render a template for a message, compiling it on each call
+ */
+export const renderTemplate = (
+  template: string,
+  msg: Message,
+): Promise<string> => compileTemplate(template)(msg);
@@ -0,0 +1,144 @@
+/**
+ * W3C Trace Context propagation (https://www.w3.org/TR/trace-context/)
+ *
+ * Inputs extract the `traceparent` and `tracestate` headers of incoming
+ * messages (HTTP headers, SQS message attributes, Kafka and NATS headers,
+ * Redis fields) into `Message.trace`. The pipeline continues that trace in
+ * its spans and hands every output the context of its send span, which the
+ * output injects the same way.
+ */
+import { Effect, Option, Tracer } from "effect";
+import type { Message, TraceContext } from "./types.js";
+
+export const TRACEPARENT = "traceparent";
+export const TRACESTATE = "tracestate";
+
+// version-traceId-spanId-flags, future versions may append fields
+const TRACEPARENT_PATTERN =
+  /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+
+const ALL_ZEROS = /^0+$/;
+
+/**
+ * Parse a `traceparent` header, undefined when it is invalid
+ */
+export const parseTraceparent = (
+  traceparent: string,
+  traceState?: string,
+): TraceContext | undefined => {
+  const match = TRACEPARENT_PATTERN.exec(traceparent.trim());
+  if (!match) {
+    return undefined;
+  }
+  const [, version, traceId, spanId, flags, rest] = match;
+  if (
+    version === "ff" ||
+    (version === "00" && rest !== undefined) ||
+    ALL_ZEROS.test(traceId) ||
+    ALL_ZEROS.test(spanId)
+  ) {
+    return undefined;
+  }
+  return {
+    traceId,
+    spanId,
+    sampled: (parseInt(flags, 16) & 1) === 1,
+    ...(traceState?.trim() ? { traceState: traceState.trim() } : {}),
+  };
+};
+
+/**
+ * Format a trace context as a version 00 `traceparent` header
+ */
+export const formatTraceparent = (trace: TraceContext): string =>
+  `00-${trace.traceId}-${trace.spanId}-${trace.sampled === false ? "00" : "01"}`;
+
+/**
+ * Read a header by name, ignoring case; repeated headers are joined
+ */
+const headerValue = (
+  carrier: Record<string, unknown>,
+  name: string,
+): string | undefined => {
+  for (const [key, value] of Object.entries(carrier)) {
+    if (key.toLowerCase() !== name || value === undefined || value === null) {
+      continue;
+    }
+    return Array.isArray(value) ? value.map(String).join(",") : String(value);
+  }
+  return undefined;
+};
+
+/**
+ * Extract the trace context from headers or fields
+ * Values may be strings, buffers or arrays of repeated headers
+ */
+export const extractTraceContext = (
+  carrier: Record<string, unknown> | undefined,
+): TraceContext | undefined => {
+  if (!carrier) {
+    return undefined;
+  }
+  const traceparent = headerValue(carrier, TRACEPARENT);
+  return traceparent
+    ? parseTraceparent(traceparent, headerValue(carrier, TRACESTATE))
+    : undefined;
+};
+
+/**
+ * Headers or fields carrying a trace context, empty without one
+ */
+export const injectTraceContext = (
+  trace: TraceContext | undefined,
+): Record<string, string> =>
+  trace
+    ? {
+        [TRACEPARENT]: formatTraceparent(trace),
+        ...(trace.traceState ? { [TRACESTATE]: trace.traceState } : {}),
+      }
+    : {};
+
+/**
+ * Attach the trace context found in headers or fields to a message
+ */
+export const withTraceContext = <A>(
+  msg: Message<A>,
+  carrier: Record<string, unknown> | undefined,
+): Message<A> => {
+  const trace = extractTraceContext(carrier);
+  return trace ? { ...msg, trace } : msg;
+};
+
+/**
+ * Span continuing the trace of a message, undefined to start a new trace
+ */
+export const parentSpan = (msg: Message): Tracer.ExternalSpan | undefined =>
+  msg.trace
+    ? Tracer.externalSpan({
+        traceId: msg.trace.traceId,
+        spanId: msg.trace.spanId,
+        sampled: msg.trace.sampled ?? true,
+      })
+    : undefined;
+
+/**
+ * The message with the trace context of the current span, keeping its
+ * `tracestate`; unchanged outside of a span
+ */
+export const currentTraceContext = (msg: Message): Effect.Effect<Message> =>
+  Effect.map(Effect.option(Effect.currentSpan), (span) =>
+    Option.match(span, {
+      onNone: () => msg,
+      onSome: ({ traceId, spanId, sampled }) => ({
+        ...msg,
+        trace: {
+          traceId,
+          spanId,
+          sampled,
+          ...(msg.trace?.traceState
+            ? { traceState: msg.trace.traceState }
+            : {}),
+        },
+      }),
+    }),
+  );
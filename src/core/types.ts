@@ -2,6 +2,18 @@
  * Core types and interfaces for the pipeline system
  */
 import { Effect, Stream } from "effect";
+import type { ErrorPolicy } from "./error-policy.js";
+import type { InputMetrics, OutputMetrics } from "./metrics.js";
+
+/**
+ * W3C trace context of a message (`traceparent`/`tracestate`)
+ */
+export interface TraceContext {
+  readonly traceId: string; // 32 lowercase hex characters
+  readonly spanId: string; // 16 lowercase hex characters
+  readonly sampled?: boolean; // Sampled flag of `traceparent` (default: true)
+  readonly traceState?: string; // Vendor entries of `tracestate`
+}
 
 /**
  * Message flowing through the pipeline
@@ -13,29 +25,50 @@ export interface Message<A = unknown> {
   readonly metadata: Record<string, unknown>;
   readonly timestamp: number;
   readonly correlationId?: string;
-  readonly trace?: {
-    readonly spanId: string;
-    readonly traceId: string;
-  };
+  readonly trace?: TraceContext;
 }
 
 /**
  * Input produces a Stream of messages
  * Responsible for consuming from external sources (SQS, Kafka, HTTP, etc.)
+ *
+ * Inputs backed by a broker with delivery guarantees implement `ack`/`nack`.
+ * The pipeline calls `ack` with the message as it was emitted by the input
+ * once every output send derived from it has succeeded, and `nack` when
+ * processing or delivery failed, so the source can redeliver it.
+ *
+ * `metrics` returns a live snapshot of the input's metrics, e.g. for the
+ * admin server's `/stats` and `/ready` endpoints.
  */
 export interface Input<E = never, R = never> {
   readonly name: string;
   readonly stream: Stream.Stream<Message, E, R>;
+  readonly ack?: (msg: Message) => Effect.Effect<void, never, never>;
+  readonly nack?: (msg: Message) => Effect.Effect<void, never, never>;
   readonly close?: () => Effect.Effect<void, never, never>;
+  readonly metrics?: () => InputMetrics;
 }
 
 /**
  * Processor transforms messages
- * Can produce one or multiple messages from a single input
+ * Can produce zero, one or multiple messages from a single input;
+ * an empty array removes the message from the stream
+ *
+ * Stateful processors that hold messages back (e.g. windows) implement
+ * `flush`. The pipeline calls it every `flushInterval` ms with `final`
+ * false to collect messages that became ready, and once with `final` true
+ * on shutdown or end of input to emit everything still held. Flushed
+ * messages continue through the following processors to the output.
+ *
+ * Processors holding resources (e.g. database connections) implement
+ * `close`; the pipeline calls it once on shutdown, after the final flush.
  */
 export interface Processor<E = never, R = never> {
   readonly name: string;
   readonly process: (msg: Message) => Effect.Effect<Message | Message[], E, R>;
+  readonly flush?: (final: boolean) => Effect.Effect<Message[], E, R>;
+  readonly flushInterval?: number; // ms between periodic flushes
+  readonly close?: () => Effect.Effect<void, never, never>;
 }
 
 /**
@@ -46,6 +79,7 @@ export interface Output<E = never, R = never> {
   readonly name: string;
   readonly send: (msg: Message) => Effect.Effect<void, E, R>;
   readonly close?: () => Effect.Effect<void, never, never>;
+  readonly metrics?: () => OutputMetrics; // Live metrics snapshot
 }
 
 /**
@@ -56,6 +90,13 @@ export interface BackpressureConfig {
   readonly maxConcurrentOutputs?: number; // Max concurrent output sends (default: 5)
 }
 
+/**
+ * Graceful shutdown configuration for pipeline execution
+ */
+export interface ShutdownConfig {
+  readonly drainTimeout?: number; // Max time to finish in-flight messages in ms (default: 30000)
+}
+
 /**
  * Pipeline configuration combining input, processors, and output
  */
@@ -65,6 +106,9 @@ export interface Pipeline<E = never, R = never> {
   readonly processors: ReadonlyArray<Processor<E, R>>;
   readonly output: Output<E, R>;
   readonly backpressure?: BackpressureConfig;
+  readonly shutdown?: ShutdownConfig;
+  readonly onError?: ErrorPolicy; // Pipeline-wide processor error policy
+  readonly errorOutput?: Output<E, R>; // Destination for the "error_output" action
 }
 
 /**
@@ -73,6 +117,7 @@ export interface Pipeline<E = never, R = never> {
 export interface PipelineStats {
   readonly processed: number;
   readonly failed: number;
+  readonly filtered: number; // Messages dropped by processors (not failures)
   readonly duration: number;
   readonly startTime: number;
   readonly endTime: number;
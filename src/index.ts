@@ -7,10 +7,32 @@ export * from "./core/types.js";
 export * from "./core/pipeline.js";
 export * from "./core/config-loader.js";
 export * from "./core/pipeline-builder.js";
+export * from "./core/streams.js";
+export * from "./core/admin-server.js";
+export * from "./core/prometheus.js";
+export * from "./core/trace-context.js";
+export * from "./core/otlp-tracer.js";
 export * from "./core/dlq.js";
+export * from "./core/error-policy.js";
+export * from "./core/rate-limit.js";
 export * from "./core/errors.js";
 export * from "./core/metrics.js";
 export * from "./core/validation.js";
+export { MissingDependencyError } from "./core/optional-dependency.js";
+export type {
+  KafkaClient,
+  KafkaConsumer,
+  KafkaProducer,
+  KafkaConnectionConfig,
+  KafkaSaslConfig,
+} from "./core/kafka.js";
+export type { SqlDriver, SqlConnectionConfig } from "./core/sql.js";
+export type { MqttQos, MqttConnectionConfig } from "./core/mqtt.js";
+export type {
+  NatsClient,
+  NatsConnection,
+  NatsConnectionConfig,
+} from "./core/nats.js";
 
 // Inputs
 export * from "./inputs/sqs-input.js";
@@ -18,13 +40,26 @@ export * from "./inputs/redis-streams-input.js";
 export * from "./inputs/redis-pubsub-input.js";
 export * from "./inputs/redis-list-input.js";
 export * from "./inputs/http-input.js";
+export * from "./inputs/file-input.js";
+export * from "./inputs/stdin-input.js";
+export * from "./inputs/kafka-input.js";
+export * from "./inputs/sql-select-input.js";
+export * from "./inputs/websocket-input.js";
+export * from "./inputs/mqtt-input.js";
+export * from "./inputs/nats-input.js";
+export * from "./inputs/nats-jetstream-input.js";
+export * from "./inputs/broker-input.js";
 
 // Processors
 export * from "./processors/metadata-processor.js";
 export * from "./processors/uppercase-processor.js";
 export * from "./processors/logging-processor.js";
 export * from "./processors/mapping-processor.js";
+export * from "./processors/filter-processor.js";
+export * from "./processors/split-processor.js";
+export * from "./processors/window-processor.js";
 export * from "./processors/http-processor.js";
+export * from "./processors/sql-select-processor.js";
 
 // Outputs
 export * from "./outputs/redis-streams-output.js";
@@ -32,6 +67,16 @@ export * from "./outputs/redis-pubsub-output.js";
 export * from "./outputs/redis-list-output.js";
 export * from "./outputs/sqs-output.js";
 export * from "./outputs/http-output.js";
+export * from "./outputs/file-output.js";
+export * from "./outputs/stdout-output.js";
+export * from "./outputs/kafka-output.js";
+export * from "./outputs/sql-insert-output.js";
+export * from "./outputs/websocket-output.js";
+export * from "./outputs/mqtt-output.js";
+export * from "./outputs/nats-output.js";
+export * from "./outputs/nats-jetstream-output.js";
+export * from "./outputs/broker-output.js";
+export * from "./outputs/switch-output.js";
 
 // Testing Utilities (for building tests and examples)
 export * from "./testing/index.js";
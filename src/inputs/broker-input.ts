@@ -0,0 +1,129 @@
+/**
+ * Broker Input - Merges several inputs into a single stream
+ *
+ * Messages from all child inputs are interleaved as they arrive. Each
+ * message is tagged with the child that produced it, and ack/nack are
+ * routed back to that child.
+ */
+import { Effect, Stream } from "effect";
+import * as Schema from "effect/Schema";
+import type { Input, Message } from "../core/types.js";
+import { ComponentError, type ErrorCategory } from "../core/errors.js";
+import { validate } from "../core/validation.js";
+import { combineInputMetrics } from "../core/metrics.js";
+
+export interface BrokerInputConfig {
+  readonly inputs: readonly Input<any>[];
+}
+
+export class BrokerInputError extends ComponentError {
+  readonly _tag = "BrokerInputError";
+
+  constructor(
+    message: string,
+    readonly category: ErrorCategory,
+    cause?: unknown,
+  ) {
+    super(message, cause);
+  }
+}
+
+/**
+ * Validation schema for Broker Input configuration
+ */
+export const BrokerInputConfigSchema = Schema.Struct({
+  inputs: Schema.Array(Schema.Unknown).pipe(
+    Schema.minItems(1, {
+      message: () => "Broker requires at least one input",
+    }),
+  ),
+});
+
+/**
+ * Create a broker input
+ *
+ * Adds metadata to every message:
+ * - brokerInput: name of the child input
+ * - brokerInputIndex: position of the child input in the config
+ *
+ * @example
+ * ```typescript
+ * const input = createBrokerInput({
+ *   inputs: [redisListInput, httpInput, sqsInput],
+ * })
+ * ```
+ */
+export const createBrokerInput = (config: BrokerInputConfig): Input<any> => {
+  // Validate configuration synchronously at creation time
+  Effect.runSync(
+    validate(
+      BrokerInputConfigSchema,
+      config,
+      "Broker Input configuration",
+    ).pipe(
+      Effect.catchAll((error) =>
+        Effect.fail(new BrokerInputError(error.message, error.category, error)),
+      ),
+    ),
+  );
+
+  // Tagged message -> child input and the message it emitted
+  const origins = new WeakMap<
+    Message,
+    { readonly input: Input<any>; readonly original: Message }
+  >();
+
+  const stream = Stream.mergeAll(
+    config.inputs.map((input, index) =>
+      input.stream.pipe(
+        Stream.map((original) => {
+          const tagged: Message = {
+            ...original,
+            metadata: {
+              ...original.metadata,
+              brokerInput: input.name,
+              brokerInputIndex: index,
+            },
+          };
+          origins.set(tagged, { input, original });
+          return tagged;
+        }),
+      ),
+    ),
+    { concurrency: "unbounded" },
+  );
+
+  return {
+    name: "broker-input",
+    stream,
+    metrics: () =>
+      combineInputMetrics(
+        "broker-input",
+        config.inputs.flatMap((input) =>
+          input.metrics ? [input.metrics()] : [],
+        ),
+      ),
+    ack: (msg: Message) =>
+      Effect.suspend(() => {
+        const origin = origins.get(msg);
+        return origin?.input.ack
+          ? origin.input.ack(origin.original)
+          : Effect.void;
+      }),
+    nack: (msg: Message) =>
+      Effect.suspend(() => {
+        const origin = origins.get(msg);
+        return origin?.input.nack
+          ? origin.input.nack(origin.original)
+          : Effect.void;
+      }),
+    close: () =>
+      Effect.gen(function* () {
+        for (const input of config.inputs) {
+          if (input.close) {
+            yield* input.close();
+          }
+        }
+      }),
+  };
+};
@@ -0,0 +1,536 @@
+/**
+ * File Input - Reads messages from local files matched by glob patterns
+ *
+ * Codecs:
+ * - lines: one message per non-empty line
+ * - json_array: one message per element of a JSON array file
+ * - csv: one message per row, keyed by the header row
+ * - all_bytes: one message per file with its whole text
+ *
+ * Without `tail` the stream ends once every matched file was read. With
+ * `tail` (lines codec only) files are polled for appended lines and the
+ * globs are re-expanded to pick up new files.
+ *
+ * With `checkpointPath` the byte offset up to which every message was
+ * acknowledged is stored per file, so a restarted pipeline resumes there.
+ */
+import { Chunk, Effect, Option, Stream } from "effect";
+import * as Schema from "effect/Schema";
+import * as fs from "node:fs/promises";
+import type { Input, Message } from "../core/types.js";
+import { createMessage } from "../core/types.js";
+import { ComponentError, type ErrorCategory } from "../core/errors.js";
+import {
+  MetricsAccumulator,
+  emitInputMetrics,
+  measureDuration,
+} from "../core/metrics.js";
+import { validate, NonEmptyString, PositiveInt } from "../core/validation.js";
+import { expandGlob } from "../core/glob.js";
+import { parseCsvRows } from "../core/csv.js";
+
+export interface FileInputConfig {
+  readonly paths: string | string[]; // File paths or glob patterns
+  readonly codec?: "lines" | "json_array" | "csv" | "all_bytes"; // (default: "lines")
+  readonly delimiter?: string; // CSV field delimiter (default: ",")
+  readonly tail?: boolean; // Keep polling for appended lines (default: false)
+  readonly pollInterval?: number; // Tail polling interval in ms (default: 1000)
+  readonly checkpointPath?: string; // File storing acknowledged offsets
+}
+
+export class FileInputError extends ComponentError {
+  readonly _tag = "FileInputError";
+
+  constructor(
+    message: string,
+    readonly category: ErrorCategory,
+    cause?: unknown,
+  ) {
+    super(message, cause);
+  }
+}
+
+/**
+ * Validation schema for File Input configuration
+ */
+export const FileInputConfigSchema = Schema.Struct({
+  paths: Schema.Union(
+    NonEmptyString,
+    Schema.Array(NonEmptyString).pipe(Schema.minItems(1)),
+  ),
+  codec: Schema.optional(
+    Schema.Literal("lines", "json_array", "csv", "all_bytes"),
+  ),
+  delimiter: Schema.optional(
+    Schema.String.pipe(
+      Schema.length(1, {
+        message: () => "CSV delimiter must be a single character",
+      }),
+    ),
+  ),
+  tail: Schema.optional(Schema.Boolean),
+  pollInterval: Schema.optional(PositiveInt),
+  checkpointPath: Schema.optional(NonEmptyString),
+});
+
+// Bytes read per step for the lines codec
+const CHUNK_SIZE = 1024 * 1024;
+
+// Minimum time between checkpoint writes in ms
+const CHECKPOINT_INTERVAL = 1000;
+
+/**
+ * Read position in a file
+ */
+interface Position {
+  readonly offset: number; // Byte offset
+  readonly line: number; // Lines before the offset
+}
+
+/**
+ * Read state of a matched file
+ */
+interface FileState {
+  readonly path: string;
+  position: Position; // Next read position
+  done: boolean; // Fully read (not tailing)
+  readonly pending: Map<string, Position>; // Unacknowledged message id -> start
+}
+
+/**
+ * Parse a line with graceful degradation to the raw text
+ */
+const parseLine = (line: string): unknown => {
+  try {
+    return JSON.parse(line);
+  } catch {
+    return { raw: line };
+  }
+};
+
+/**
+ * Create a file input source
+ *
+ * Adds metadata to every message:
+ * - path: absolute path of the file
+ * - line_number: line of the message (lines), row including the header (csv)
+ * - index: position in the array (json_array)
+ *
+ * @example
+ * ```typescript
+ * const input = createFileInput({
+ *   paths: "./data/*.jsonl",
+ *   codec: "lines",
+ *   tail: true,
+ *   checkpointPath: "./data/.checkpoint.json",
+ * })
+ * ```
+ */
+export const createFileInput = (
+  config: FileInputConfig,
+): Input<FileInputError> => {
+  // Validate configuration synchronously at creation time
+  Effect.runSync(
+    validate(FileInputConfigSchema, config, "File Input configuration").pipe(
+      Effect.catchAll((error) =>
+        Effect.fail(new FileInputError(error.message, error.category, error)),
+      ),
+    ),
+  );
+
+  const codec = config.codec ?? "lines";
+  const tail = config.tail ?? false;
+  const pollInterval = config.pollInterval ?? 1000;
+  const patterns = Array.isArray(config.paths) ? config.paths : [config.paths];
+
+  if (tail && codec !== "lines") {
+    throw new FileInputError(
+      `Tailing requires the lines codec, got ${codec}`,
+      "logical",
+    );
+  }
+
+  const metrics = new MetricsAccumulator("file-input");
+  let messageCount = 0;
+
+  // Files by absolute path, in discovery order
+  const files = new Map<string, FileState>();
+  // Message id -> file it was read from, while unacknowledged
+  const origins = new Map<string, FileState>();
+  let started = false;
+  let checkpoints: Record<string, Position> = {};
+  let checkpointDirty = false;
+  let lastCheckpoint = 0;
+  // Checkpoint writes are chained so they never overlap
+  let checkpointWrite: Promise<void> = Promise.resolve();
+
+  const fail = (action: string, error: unknown) =>
+    new FileInputError(
+      `Failed to ${action}: ${error instanceof Error ? error.message : String(error)}`,
+      "logical",
+      error,
+    );
+
+  /**
+   * Load stored offsets; a missing checkpoint file starts from scratch
+   */
+  const loadCheckpoints = Effect.gen(function* () {
+    if (!config.checkpointPath) {
+      return;
+    }
+    const checkpointPath = config.checkpointPath;
+
+    const text = yield* Effect.tryPromise({
+      try: () =>
+        fs
+          .readFile(checkpointPath, "utf8")
+          .catch((error: NodeJS.ErrnoException) =>
+            error.code === "ENOENT" ? "{}" : Promise.reject(error),
+          ),
+      catch: (error) => fail(`read checkpoint ${checkpointPath}`, error),
+    });
+    checkpoints = yield* Effect.try({
+      try: () => JSON.parse(text) as Record<string, Position>,
+      catch: (error) => fail(`parse checkpoint ${checkpointPath}`, error),
+    });
+  });
+
+  /**
+   * Position up to which every message of a file was acknowledged
+   * Pending messages are in read order, so the first one is the oldest
+   */
+  const committedPosition = (state: FileState): Position => {
+    const oldest = state.pending.values().next();
+    return oldest.done ? state.position : oldest.value;
+  };
+
+  /**
+   * Write acknowledged offsets, at most once per interval unless forced
+   */
+  const writeCheckpoint = (force: boolean) =>
+    Effect.suspend(() => {
+      const checkpointPath = config.checkpointPath;
+      if (
+        !checkpointPath ||
+        !checkpointDirty ||
+        (!force && Date.now() - lastCheckpoint < CHECKPOINT_INTERVAL)
+      ) {
+        return Effect.void;
+      }
+
+      checkpointDirty = false;
+      lastCheckpoint = Date.now();
+      const data = Object.fromEntries(
+        [...files.values()].map((state) => [
+          state.path,
+          committedPosition(state),
+        ]),
+      );
+
+      // Write to a temporary file and rename so a crash never truncates it
+      const tmp = `${checkpointPath}.tmp`;
+      const write = (checkpointWrite = checkpointWrite
+        .catch(() => undefined)
+        .then(async () => {
+          await fs.writeFile(tmp, JSON.stringify(data));
+          await fs.rename(tmp, checkpointPath);
+        }));
+      return Effect.tryPromise({
+        try: () => write,
+        catch: (error) => fail(`write checkpoint ${checkpointPath}`, error),
+      }).pipe(
+        Effect.catchAll((error) => {
+          checkpointDirty = true;
+          return Effect.logWarning(error.message);
+        }),
+      );
+    });
+
+  /**
+   * Expand the globs and register newly matched files
+   */
+  const discover = Effect.gen(function* () {
+    for (const pattern of patterns) {
+      const matches = yield* Effect.tryPromise({
+        try: () => expandGlob(pattern),
+        catch: (error) => fail(`expand ${pattern}`, error),
+      });
+      for (const path of matches) {
+        if (!files.has(path)) {
+          files.set(path, {
+            path,
+            position: checkpoints[path] ?? { offset: 0, line: 0 },
+            done: false,
+            pending: new Map(),
+          });
+          yield* Effect.logDebug(`Reading file ${path}`);
+        }
+      }
+    }
+  });
+
+  /**
+   * Create a message and track it for checkpointing
+   */
+  const emit = (
+    state: FileState,
+    content: unknown,
+    metadata: Record<string, unknown>,
+    start: Position,
+  ): Message => {
+    const msg = createMessage(content, {
+      source: "file-input",
+      path: state.path,
+      ...metadata,
+    });
+    if (config.checkpointPath) {
+      state.pending.set(msg.id, start);
+      origins.set(msg.id, state);
+    }
+    return msg;
+  };
+
+  /**
+   * Read complete lines from the current position
+   * Returns the messages and whether unread bytes remain
+   */
+  const readLines = (state: FileState, size: number) =>
+    Effect.tryPromise({
+      try: async () => {
+        const handle = await fs.open(state.path, "r");
+        try {
+          const available = size - state.position.offset;
+          let length = Math.min(available, CHUNK_SIZE);
+          let buffer = Buffer.alloc(length);
+          let bytesRead = 0;
+          let end = -1;
+
+          // Grow the read until it holds at least one complete line
+          for (;;) {
+            bytesRead = (
+              await handle.read(buffer, 0, length, state.position.offset)
+            ).bytesRead;
+            end = buffer.lastIndexOf(0x0a, bytesRead - 1);
+            if (end !== -1 || bytesRead < length || length >= available) {
+              break;
+            }
+            length = Math.min(available, length * 2);
+            buffer = Buffer.alloc(length);
+          }
+
+          // Consume up to the last newline; without tailing the last line
+          // needs no trailing newline
+          const atEnd = state.position.offset + bytesRead >= size;
+          const consumed = !tail && atEnd ? bytesRead : end + 1;
+
+          const messages: Message[] = [];
+          let line = state.position.line;
+          let lineStart = 0;
+          while (lineStart < consumed) {
+            let lineEnd = buffer.indexOf(0x0a, lineStart);
+            if (lineEnd === -1 || lineEnd > consumed) {
+              lineEnd = consumed;
+            }
+            const text = buffer
+              .toString("utf8", lineStart, lineEnd)
+              .replace(/\r$/, "");
+            const start = { offset: state.position.offset + lineStart, line };
+            line++;
+            if (text.trim() !== "") {
+              messages.push(
+                emit(state, parseLine(text), { line_number: line }, start),
+              );
+            }
+            lineStart = lineEnd + 1;
+          }
+
+          state.position = { offset: state.position.offset + consumed, line };
+          // No progress means only a partial line is left
+          return { messages, more: consumed > 0 && !atEnd };
+        } finally {
+          await handle.close();
+        }
+      },
+      catch: (error) => fail(`read ${state.path}`, error),
+    });
+
+  /**
+   * Read a whole file with the json_array, csv or all_bytes codec
+   */
+  const readWhole = (state: FileState, size: number) =>
+    Effect.gen(function* () {
+      const text = yield* Effect.tryPromise({
+        try: () => fs.readFile(state.path, "utf8"),
+        catch: (error) => fail(`read ${state.path}`, error),
+      });
+      const start = { offset: 0, line: 0 };
+
+      const messages = yield* Effect.try({
+        try: () => {
+          if (codec === "all_bytes") {
+            return [emit(state, text, {}, start)];
+          }
+
+          if (codec === "json_array") {
+            const items: unknown = text.trim() === "" ? [] : JSON.parse(text);
+            if (!Array.isArray(items)) {
+              throw new Error("expected a JSON array");
+            }
+            return items.map((item, index) =>
+              emit(state, item, { index }, start),
+            );
+          }
+
+          // Rows are numbered from the header, which is row 1
+          const [header, ...rows] = parseCsvRows(text, config.delimiter);
+          return rows.map((row, i) =>
+            emit(
+              state,
+              Object.fromEntries(
+                (header ?? []).map((column, j) => [column, row[j] ?? ""]),
+              ),
+              { line_number: i + 2 },
+              start,
+            ),
+          );
+        },
+        catch: (error) => fail(`parse ${state.path} as ${codec}`, error),
+      });
+
+      state.position = { offset: size, line: 0 };
+      return { messages, more: false };
+    });
+
+  /**
+   * Read the next batch of messages from a file
+   */
+  const readNext = (state: FileState) =>
+    Effect.gen(function* () {
+      const { size } = yield* Effect.tryPromise({
+        try: () => fs.stat(state.path),
+        catch: (error) => fail(`stat ${state.path}`, error),
+      });
+
+      // Truncated or replaced: start over
+      if (size < state.position.offset) {
+        yield* Effect.logWarning(
+          `File ${state.path} shrank below offset ${state.position.offset}, reading from the start`,
+        );
+        state.position = { offset: 0, line: 0 };
+      }
+
+      // A whole-file checkpoint at the file size means it was fully read
+      if (size === 0 || state.position.offset === size) {
+        return { messages: [] as Message[], more: false };
+      }
+      return yield* codec === "lines"
+        ? readLines(state, size)
+        : readWhole(state, size);
+    });
+
+  /**
+   * Produce the next messages; fails with None when every file was read
+   */
+  const step: Effect.Effect<
+    Chunk.Chunk<Message>,
+    Option.Option<FileInputError>
+  > = Effect.gen(function* () {
+    if (!started) {
+      started = true;
+      yield* loadCheckpoints;
+      yield* discover;
+      if (files.size === 0) {
+        yield* Effect.logWarning(`No files match ${patterns.join(", ")}`);
+      }
+    }
+
+    for (const state of files.values()) {
+      while (!state.done) {
+        const [result, duration] = yield* measureDuration(readNext(state)).pipe(
+          Effect.catchAll((error) =>
+            Effect.gen(function* () {
+              metrics.recordError();
+              yield* Effect.logError(error.message);
+              // Skip the file; a tailed file is picked up again if it reappears
+              if (tail) {
+                files.delete(state.path);
+              }
+              return [{ messages: [] as Message[], more: false }, 0] as const;
+            }),
+          ),
+        );
+
+        if (!tail && !result.more) {
+          state.done = true;
+        }
+
+        if (result.messages.length > 0) {
+          result.messages.forEach(() =>
+            metrics.recordProcessed(duration / result.messages.length),
+          );
+          messageCount += result.messages.length;
+
+          // Emit metrics every 100 messages
+          if (messageCount >= 100) {
+            yield* emitInputMetrics(metrics.getInputMetrics());
+            messageCount = 0;
+          }
+          return Chunk.fromIterable(result.messages);
+        }
+
+        if (!result.more) {
+          break;
+        }
+      }
+    }
+
+    if (!tail) {
+      yield* Effect.logInfo(`Finished reading ${files.size} file(s)`);
+      return null;
+    }
+
+    // Nothing new: wait, then look for appended lines and new files
+    yield* writeCheckpoint(false);
+    yield* Effect.sleep(pollInterval);
+    yield* discover.pipe(
+      Effect.catchAll((error) => Effect.logError(error.message)),
+    );
+    return Chunk.empty<Message>();
+  }).pipe(
+    Effect.mapError(Option.some),
+    Effect.flatMap((chunk) =>
+      chunk ? Effect.succeed(chunk) : Effect.fail(Option.none()),
+    ),
+  );
+
+  // Failing to load the checkpoint ends the stream instead of re-reading
+  const stream = Stream.repeatEffectChunkOption(step);
+
+  return {
+    name: "file-input",
+    metrics: () => metrics.getInputMetrics(),
+    stream,
+    ack: (msg: Message) =>
+      Effect.suspend(() => {
+        const state = origins.get(msg.id);
+        if (!state) {
+          return Effect.void;
+        }
+        origins.delete(msg.id);
+        state.pending.delete(msg.id);
+        checkpointDirty = true;
+        return writeCheckpoint(false);
+      }),
+    // Unacknowledged lines hold the checkpoint back and are re-read on restart
+    nack: (msg: Message) =>
+      Effect.logDebug(
+        `Message from ${msg.metadata.path} not acknowledged, checkpoint held back`,
+      ),
+    close: () =>
+      writeCheckpoint(true).pipe(
+        Effect.zipRight(
+          Effect.promise(() => checkpointWrite.catch(() => undefined)),
+        ),
+      ),
+  };
+};
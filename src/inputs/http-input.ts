@@ -11,6 +11,7 @@ import {
 } from "node:http";
 import type { Input, Message } from "../core/types.js";
 import { createMessage } from "../core/types.js";
+import { withTraceContext } from "../core/trace-context.js";
 import { ComponentError, type ErrorCategory } from "../core/errors.js";
 import {
   MetricsAccumulator,
@@ -84,7 +85,7 @@ const convertHttpRequest = (
       content = { raw: body };
     }
 
-    // Create message with headers as metadata
+    // Create message with headers as metadata, continuing the caller's trace
     const message = createMessage(content, {
       source: "http-input",
       method: request.method || "POST",
@@ -92,7 +93,7 @@ const convertHttpRequest = (
       headers: request.headers as Record<string, string>,
     });
 
-    return message;
+    return withTraceContext(message, request.headers);
   });
 
 /**
@@ -187,6 +188,7 @@ export const createHttpInput = (
 
   return {
     name: "http-input",
+    metrics: () => metrics.getInputMetrics(),
     stream,
 
     close: (): Effect.Effect<void, never> =>
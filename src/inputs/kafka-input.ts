@@ -0,0 +1,346 @@
+/**
+ * Kafka Input - Consumes messages from Kafka topics as a consumer group
+ *
+ * Partitions are balanced across every consumer sharing `consumerGroup`.
+ * Offsets are committed per partition once messages are acknowledged:
+ * the committed offset never passes a message that is still in flight or
+ * was not acknowledged, so a restarted consumer re-reads from there.
+ *
+ * Record keys and headers are mapped to message metadata.
+ */
+import { Effect, Fiber, Queue, Stream } from "effect";
+import * as Schema from "effect/Schema";
+import type { KafkaMessage } from "kafkajs";
+import type { Input, Message } from "../core/types.js";
+import { createMessage } from "../core/types.js";
+import { withTraceContext } from "../core/trace-context.js";
+import {
+  ComponentError,
+  type ErrorCategory,
+  detectCategory,
+} from "../core/errors.js";
+import { MetricsAccumulator, emitInputMetrics } from "../core/metrics.js";
+import { validate, NonEmptyString, PositiveInt } from "../core/validation.js";
+import {
+  type KafkaConnectionConfig,
+  KafkaConnectionFields,
+  createKafkaClient,
+  headersToMetadata,
+} from "../core/kafka.js";
+
+export interface KafkaInputConfig extends KafkaConnectionConfig {
+  readonly topics: readonly string[];
+  readonly consumerGroup: string;
+  readonly fromBeginning?: boolean; // Start new groups at the oldest offset (default: false)
+  readonly commitInterval?: number; // Max ms between ack and offset commit (default: 1000)
+  readonly queueSize?: number; // Messages buffered ahead of the pipeline (default: 100)
+}
+
+export class KafkaInputError extends ComponentError {
+  readonly _tag = "KafkaInputError";
+
+  constructor(
+    message: string,
+    readonly category: ErrorCategory,
+    cause?: unknown,
+  ) {
+    super(message, cause);
+  }
+}
+
+/**
+ * Validation schema for Kafka Input configuration
+ */
+export const KafkaInputConfigSchema = Schema.Struct({
+  ...KafkaConnectionFields,
+  topics: Schema.Array(NonEmptyString).pipe(Schema.minItems(1)),
+  consumerGroup: NonEmptyString,
+  fromBeginning: Schema.optional(Schema.Boolean),
+  commitInterval: Schema.optional(PositiveInt),
+  queueSize: Schema.optional(PositiveInt),
+});
+
+/**
+ * Offsets of one assigned partition
+ */
+interface PartitionState {
+  readonly topic: string;
+  readonly partition: number;
+  next?: bigint; // Offset after the last received message
+  committed?: bigint;
+  // Message id -> offset while unacknowledged
+  readonly pending: Map<string, bigint>;
+}
+
+/**
+ * Convert a Kafka record to internal Message
+ * Values that are not JSON degrade to `{ raw }`, tombstones to null
+ */
+const convertKafkaMessage = (
+  topic: string,
+  partition: number,
+  record: KafkaMessage,
+): Message => {
+  let content: unknown = null;
+  if (record.value !== null) {
+    const text = record.value.toString();
+    try {
+      content = JSON.parse(text);
+    } catch {
+      content = { raw: text };
+    }
+  }
+
+  const headers = headersToMetadata(record.headers);
+  return withTraceContext(
+    createMessage(content, {
+      ...headers,
+      source: "kafka-input",
+      kafka_topic: topic,
+      kafka_partition: partition,
+      kafka_offset: record.offset,
+      kafka_key: record.key?.toString(),
+      kafka_timestamp: Number(record.timestamp),
+      receivedAt: new Date().toISOString(),
+    }),
+    headers,
+  );
+};
+
+/**
+ * Create a Kafka input source
+ *
+ * @example
+ * ```typescript
+ * const input = createKafkaInput({
+ *   brokers: ["localhost:9092"],
+ *   topics: ["orders"],
+ *   consumerGroup: "order-pipeline",
+ * })
+ * ```
+ */
+export const createKafkaInput = (
+  config: KafkaInputConfig,
+): Input<KafkaInputError> => {
+  // Validate configuration synchronously at creation time
+  Effect.runSync(
+    validate(
+      KafkaInputConfigSchema,
+      { ...config, client: undefined },
+      "Kafka Input configuration",
+    ).pipe(
+      Effect.catchAll((error) =>
+        Effect.fail(new KafkaInputError(error.message, error.category, error)),
+      ),
+    ),
+  );
+
+  const consumer = createKafkaClient(config).consumer({
+    groupId: config.consumerGroup,
+  });
+  const commitInterval = config.commitInterval ?? 1000;
+  const queue = Effect.runSync(Queue.bounded<Message>(config.queueSize ?? 100));
+  const metrics = new MetricsAccumulator("kafka-input");
+  metrics.trackConnection();
+  let messageCount = 0;
+
+  // Partitions by "topic:partition"
+  const partitions = new Map<string, PartitionState>();
+  // Message id -> partition it was read from, while unacknowledged
+  const origins = new Map<string, PartitionState>();
+  const commitLock = Effect.unsafeMakeSemaphore(1);
+  let commitTimer: Fiber.RuntimeFiber<void> | undefined;
+  let closed = false;
+
+  const fail = (action: string, error: unknown) =>
+    new KafkaInputError(
+      `Failed to ${action}: ${error instanceof Error ? error.message : String(error)}`,
+      detectCategory(error),
+      error,
+    );
+
+  /**
+   * Offset up to which every message of a partition was acknowledged
+   * After a rebalance a partition can be read again from an older offset,
+   * so the oldest pending message is not necessarily the first one
+   */
+  const committableOffset = (state: PartitionState): bigint | undefined => {
+    let oldest = state.next;
+    for (const offset of state.pending.values()) {
+      if (oldest === undefined || offset < oldest) {
+        oldest = offset;
+      }
+    }
+    return oldest;
+  };
+
+  /**
+   * Commit the acknowledged offset of every partition that advanced
+   */
+  const commitOffsets = commitLock.withPermits(1)(
+    Effect.suspend(() => {
+      const advanced = [...partitions.values()].flatMap((state) => {
+        const offset = committableOffset(state);
+        return offset !== undefined &&
+          (state.committed === undefined || offset > state.committed)
+          ? [{ state, offset }]
+          : [];
+      });
+      if (advanced.length === 0) {
+        return Effect.void;
+      }
+
+      return Effect.tryPromise({
+        try: () =>
+          consumer.commitOffsets(
+            advanced.map(({ state, offset }) => ({
+              topic: state.topic,
+              partition: state.partition,
+              offset: offset.toString(),
+            })),
+          ),
+        catch: (error) => fail("commit offsets", error),
+      }).pipe(
+        Effect.tap(() =>
+          Effect.sync(() => {
+            for (const { state, offset } of advanced) {
+              state.committed = offset;
+            }
+          }),
+        ),
+        // Retried with the next commit; a partition that moved to another
+        // consumer in a rebalance continues from its last committed offset
+        Effect.catchAll((error) => {
+          metrics.recordError();
+          return Effect.logWarning(error.message);
+        }),
+      );
+    }),
+  );
+
+  /**
+   * Commit within `commitInterval` of an acknowledgement, batching the
+   * acknowledgements that arrive in between
+   */
+  const scheduleCommit = Effect.suspend(() => {
+    if (commitTimer || closed) {
+      return Effect.void;
+    }
+    return Effect.forkDaemon(
+      Effect.sleep(commitInterval).pipe(
+        Effect.zipRight(
+          Effect.sync(() => {
+            commitTimer = undefined;
+          }),
+        ),
+        Effect.zipRight(commitOffsets),
+      ),
+    ).pipe(
+      Effect.map((fiber) => {
+        commitTimer = fiber;
+      }),
+    );
+  });
+
+  /**
+   * Track a received record and hand it to the pipeline
+   * Waits while the queue is full, which pauses fetching the partition
+   */
+  const receive = (topic: string, partition: number, record: KafkaMessage) =>
+    Effect.gen(function* () {
+      const key = `${topic}:${partition}`;
+      let state = partitions.get(key);
+      if (!state) {
+        state = { topic, partition, pending: new Map() };
+        partitions.set(key, state);
+      }
+
+      const msg = convertKafkaMessage(topic, partition, record);
+      const offset = BigInt(record.offset);
+      // Tracked before it is queued, as it may be acknowledged right away
+      state.pending.set(msg.id, offset);
+      state.next = offset + 1n;
+      origins.set(msg.id, state);
+
+      // A message that never reaches the pipeline stays pending, which
+      // keeps it from being committed
+      yield* Queue.offer(queue, msg);
+
+      metrics.recordProcessed();
+      messageCount++;
+
+      // Emit metrics every 100 messages
+      if (messageCount >= 100) {
+        yield* emitInputMetrics(metrics.getInputMetrics());
+        messageCount = 0;
+      }
+    });
+
+  const start = Effect.gen(function* () {
+    yield* Effect.tryPromise({
+      try: async () => {
+        await consumer.connect();
+        metrics.recordConnected();
+        await consumer.subscribe({
+          topics: [...config.topics],
+          fromBeginning: config.fromBeginning ?? false,
+        });
+        await consumer.run({
+          autoCommit: false,
+          eachMessage: ({ topic, partition, message }) =>
+            Effect.runPromise(receive(topic, partition, message)),
+        });
+      },
+      catch: (error) => fail("start Kafka consumer", error),
+    });
+
+    yield* Effect.logInfo(
+      `Consuming Kafka topics ${config.topics.join(", ")} as group ${config.consumerGroup}`,
+    );
+  });
+
+  // Failing to join the group ends the stream
+  const stream = Stream.fromEffect(start).pipe(
+    Stream.flatMap(() => Stream.fromQueue(queue)),
+  );
+
+  return {
+    name: "kafka-input",
+    metrics: () => metrics.getInputMetrics(),
+    stream,
+    ack: (msg: Message) =>
+      Effect.suspend(() => {
+        const state = origins.get(msg.id);
+        if (!state) {
+          return Effect.void;
+        }
+        origins.delete(msg.id);
+        state.pending.delete(msg.id);
+        return scheduleCommit;
+      }),
+    // Unacknowledged messages hold the partition's offset back and are
+    // consumed again after a restart or rebalance
+    nack: (msg: Message) =>
+      Effect.logDebug(
+        `Message at ${msg.metadata.kafka_topic}/${msg.metadata.kafka_partition}@${msg.metadata.kafka_offset} not acknowledged, offset held back`,
+      ),
+    close: () =>
+      Effect.gen(function* () {
+        closed = true;
+        if (commitTimer) {
+          yield* Fiber.interrupt(commitTimer);
+          commitTimer = undefined;
+        }
+
+        // Release a handler waiting on a full queue so the consumer can stop
+        yield* Queue.shutdown(queue);
+        yield* commitOffsets;
+        yield* Effect.tryPromise({
+          try: () => consumer.disconnect(),
+          catch: (error) => fail("disconnect Kafka consumer", error),
+        }).pipe(Effect.catchAll((error) => Effect.logWarning(error.message)));
+        metrics.recordDisconnected();
+        yield* emitInputMetrics(metrics.getInputMetrics());
+      }),
+  };
+};
@@ -0,0 +1,217 @@
+/**
+ * MQTT Input - Subscribes to MQTT topics
+ *
+ * Topic filters may use the `+` (one level) and `#` (remaining levels)
+ * wildcards. With `cleanSession: false` the broker keeps the subscriptions
+ * and queues QoS 1/2 messages while the input is offline, so a restarted
+ * pipeline receives what it missed.
+ *
+ * QoS 1/2 messages are acknowledged to the broker once the input buffered
+ * them; MQTT requires acknowledgements in arrival order, so they cannot
+ * wait for the pipeline. A full buffer stops reading from the broker.
+ */
+import { Effect, Queue, Stream } from "effect";
+import * as Schema from "effect/Schema";
+import type { MqttClient } from "mqtt";
+import type { Input, Message } from "../core/types.js";
+import { createMessage } from "../core/types.js";
+import { ComponentError, type ErrorCategory } from "../core/errors.js";
+import { MetricsAccumulator, emitInputMetrics } from "../core/metrics.js";
+import { validate, NonEmptyString, PositiveInt } from "../core/validation.js";
+import {
+  type MqttConnectionConfig,
+  type MqttQos,
+  MqttConnectionFields,
+  MqttQosSchema,
+  createMqttClient,
+  mqttErrorCategory,
+  openMqttClient,
+} from "../core/mqtt.js";
+
+export interface MqttInputConfig extends MqttConnectionConfig {
+  readonly topics: readonly string[]; // Topic filters, e.g. "sensors/+/temperature"
+  readonly qos?: MqttQos; // Subscription QoS (default: 1)
+  readonly cleanSession?: boolean; // Discard the session on disconnect (default: true)
+  readonly queueSize?: number; // Messages buffered before reading pauses (default: 100)
+}
+
+export class MqttInputError extends ComponentError {
+  readonly _tag = "MqttInputError";
+
+  constructor(
+    message: string,
+    readonly category: ErrorCategory,
+    cause?: unknown,
+  ) {
+    super(message, cause);
+  }
+}
+
+/**
+ * Validation schema for MQTT Input configuration
+ */
+export const MqttInputConfigSchema = Schema.Struct({
+  ...MqttConnectionFields,
+  topics: Schema.Array(NonEmptyString).pipe(Schema.minItems(1)),
+  qos: Schema.optional(MqttQosSchema),
+  cleanSession: Schema.optional(Schema.Boolean),
+  queueSize: Schema.optional(PositiveInt),
+});
+
+/**
+ * Parse a payload with graceful degradation to the raw text
+ */
+const parsePayload = (payload: Buffer): unknown => {
+  const text = payload.toString("utf8");
+  try {
+    return JSON.parse(text);
+  } catch {
+    return { raw: text };
+  }
+};
+
+/**
+ * Create an MQTT input source
+ *
+ * Adds metadata to every message:
+ * - mqtt_topic: topic the message was published to
+ * - mqtt_qos: delivery QoS
+ * - mqtt_retain: whether it is a retained message
+ * - mqtt_dup: whether the broker redelivered it
+ *
+ * @example
+ * ```typescript
+ * const input = createMqttInput({
+ *   url: "mqtt://localhost:1883",
+ *   topics: ["sensors/+/telemetry"],
+ *   qos: 1,
+ *   clientId: "telemetry-pipeline",
+ *   cleanSession: false,
+ * })
+ * ```
+ */
+export const createMqttInput = (
+  config: MqttInputConfig,
+): Input<MqttInputError> => {
+  // Validate configuration synchronously at creation time
+  Effect.runSync(
+    validate(MqttInputConfigSchema, config, "MQTT Input configuration").pipe(
+      Effect.catchAll((error) =>
+        Effect.fail(new MqttInputError(error.message, error.category, error)),
+      ),
+    ),
+  );
+
+  const cleanSession = config.cleanSession ?? true;
+  if (!cleanSession && !config.clientId) {
+    throw new MqttInputError(
+      "Persistent sessions (cleanSession: false) require a clientId",
+      "logical",
+    );
+  }
+
+  const qos = config.qos ?? 1;
+  const metrics = new MetricsAccumulator("mqtt-input");
+  metrics.trackConnection();
+  let messageCount = 0;
+
+  const queue = Effect.runSync(Queue.bounded<Message>(config.queueSize ?? 100));
+  let client: MqttClient | undefined;
+
+  const fail = (action: string, error: unknown) =>
+    new MqttInputError(
+      `Failed to ${action}: ${error instanceof Error ? error.message : String(error)}`,
+      mqttErrorCategory(error),
+      error,
+    );
+
+  const start = Effect.gen(function* () {
+    const mqtt = yield* Effect.tryPromise({
+      try: () =>
+        createMqttClient(config, metrics, {
+          clean: cleanSession,
+          // Subscriptions of a persistent session are kept by the broker
+          resubscribe: cleanSession,
+        }),
+      catch: (error) => fail("create MQTT client", error),
+    });
+    client = mqtt;
+
+    // Acknowledged by mqtt.js once the callback runs; the next message
+    // is read only after that
+    mqtt.handleMessage = (packet, callback) => {
+      const msg = createMessage(parsePayload(packet.payload as Buffer), {
+        source: "mqtt-input",
+        receivedAt: new Date().toISOString(),
+        mqtt_topic: packet.topic,
+        mqtt_qos: packet.qos,
+        mqtt_retain: packet.retain,
+        mqtt_dup: packet.dup,
+      });
+      metrics.recordProcessed();
+      messageCount++;
+
+      // Emit metrics every 100 messages
+      if (messageCount >= 100) {
+        Effect.runFork(emitInputMetrics(metrics.getInputMetrics()));
+        messageCount = 0;
+      }
+
+      Effect.runPromise(Queue.offer(queue, msg)).then(
+        (offered) => offered && callback(),
+        () => undefined, // Queue shut down; the broker redelivers
+      );
+    };
+
+    yield* Effect.tryPromise({
+      try: () => openMqttClient(mqtt),
+      catch: (error) => fail(`connect to ${config.url}`, error),
+    });
+    yield* Effect.logInfo(`Connected to MQTT broker ${config.url}`);
+
+    const granted = yield* Effect.tryPromise({
+      try: () =>
+        mqtt.subscribeAsync(
+          Object.fromEntries(config.topics.map((topic) => [topic, { qos }])),
+        ),
+      catch: (error) => fail(`subscribe to ${config.topics.join(", ")}`, error),
+    });
+    // QoS 128 is the broker's refusal of a subscription
+    const refused = granted.filter((grant) => grant.qos === 128);
+    if (refused.length > 0) {
+      return yield* Effect.fail(
+        new MqttInputError(
+          `Broker refused subscriptions to ${refused.map((grant) => grant.topic).join(", ")}`,
+          "fatal",
+        ),
+      );
+    }
+    yield* Effect.logInfo(`Subscribed to ${config.topics.join(", ")}`);
+  });
+
+  // Failing to connect or subscribe ends the stream
+  const stream = Stream.fromEffect(start).pipe(
+    Stream.flatMap(() => Stream.fromQueue(queue)),
+  );
+
+  return {
+    name: "mqtt-input",
+    metrics: () => metrics.getInputMetrics(),
+    stream,
+    close: () =>
+      Effect.gen(function* () {
+        if (client) {
+          const mqtt = client;
+          yield* Effect.tryPromise({
+            try: () => mqtt.endAsync(),
+            catch: (error) => fail("disconnect from MQTT broker", error),
+          }).pipe(Effect.catchAll((error) => Effect.logWarning(error.message)));
+        }
+
+        yield* Queue.shutdown(queue);
+
+        // Emit final metrics
+        yield* emitInputMetrics(metrics.getInputMetrics());
+      }),
+  };
+};
@@ -0,0 +1,237 @@
+/**
+ * NATS Input - Subscribes to core NATS subjects
+ *
+ * Subjects may use the `*` (one token) and `>` (remaining tokens)
+ * wildcards. Subscriptions sharing a `queueGroup` split the messages
+ * between them, so several pipelines can share the load.
+ *
+ * Core NATS delivers at most once: messages published while the input is
+ * not subscribed, or still buffered when it stops, are lost. Requests
+ * (messages with a reply subject) are answered once the pipeline delivered
+ * them, with an empty reply, or with a `Nats-Service-Error` header when it
+ * failed.
+ */
+import { Effect, Queue, Stream } from "effect";
+import * as Schema from "effect/Schema";
+import type { Input, Message } from "../core/types.js";
+import { createMessage } from "../core/types.js";
+import { withTraceContext } from "../core/trace-context.js";
+import { ComponentError, type ErrorCategory } from "../core/errors.js";
+import { MetricsAccumulator, emitInputMetrics } from "../core/metrics.js";
+import { validate, NonEmptyString, PositiveInt } from "../core/validation.js";
+import {
+  type NatsConnection,
+  type NatsConnectionConfig,
+  type NatsMsg,
+  type NatsSubscription,
+  NatsConnectionFields,
+  connectNats,
+  headersToMetadata,
+  natsErrorCategory,
+  parsePayload,
+  requireNats,
+} from "../core/nats.js";
+
+export interface NatsInputConfig extends NatsConnectionConfig {
+  readonly subjects: readonly string[]; // Subjects, e.g. "orders.*.created"
+  readonly queueGroup?: string; // Share messages with other members of the group
+  readonly queueSize?: number; // Messages buffered ahead of the pipeline (default: 100)
+}
+
+export class NatsInputError extends ComponentError {
+  readonly _tag = "NatsInputError";
+
+  constructor(
+    message: string,
+    readonly category: ErrorCategory,
+    cause?: unknown,
+  ) {
+    super(message, cause);
+  }
+}
+
+/**
+ * Validation schema for NATS Input configuration
+ */
+export const NatsInputConfigSchema = Schema.Struct({
+  ...NatsConnectionFields,
+  subjects: Schema.Array(NonEmptyString).pipe(Schema.minItems(1)),
+  queueGroup: Schema.optional(NonEmptyString),
+  queueSize: Schema.optional(PositiveInt),
+});
+
+/**
+ * Create a NATS input source
+ *
+ * Adds metadata to every message, next to its NATS headers:
+ * - nats_subject: subject the message was published to
+ * - nats_reply: reply subject of a request
+ *
+ * @example
+ * ```typescript
+ * const input = createNatsInput({
+ *   urls: ["nats://localhost:4222"],
+ *   subjects: ["orders.>"],
+ *   queueGroup: "order-pipeline",
+ * })
+ * ```
+ */
+export const createNatsInput = (
+  config: NatsInputConfig,
+): Input<NatsInputError> => {
+  // Validate configuration synchronously at creation time
+  Effect.runSync(
+    validate(
+      NatsInputConfigSchema,
+      { ...config, client: undefined },
+      "NATS Input configuration",
+    ).pipe(
+      Effect.catchAll((error) =>
+        Effect.fail(new NatsInputError(error.message, error.category, error)),
+      ),
+    ),
+  );
+
+  const queue = Effect.runSync(Queue.bounded<Message>(config.queueSize ?? 100));
+  const metrics = new MetricsAccumulator("nats-input");
+  metrics.trackConnection();
+  let messageCount = 0;
+
+  let connection: NatsConnection | undefined;
+  // Message id -> request, until the pipeline delivered it
+  const requests = new Map<string, NatsMsg>();
+
+  const fail = (action: string, error: unknown) =>
+    new NatsInputError(
+      `Failed to ${action}: ${error instanceof Error ? error.message : String(error)}`,
+      natsErrorCategory(error),
+      error,
+    );
+
+  /**
+   * Hand a message to the pipeline
+   * Waits while the queue is full; NATS buffers the messages behind it
+   */
+  const receive = (natsMsg: NatsMsg) =>
+    Effect.gen(function* () {
+      const headers = headersToMetadata(natsMsg.headers);
+      const msg = withTraceContext(
+        createMessage(parsePayload(natsMsg.data), {
+          ...headers,
+          source: "nats-input",
+          nats_subject: natsMsg.subject,
+          nats_reply: natsMsg.reply || undefined,
+          receivedAt: new Date().toISOString(),
+        }),
+        headers,
+      );
+      if (natsMsg.reply) {
+        requests.set(msg.id, natsMsg);
+      }
+
+      yield* Queue.offer(queue, msg);
+
+      metrics.recordProcessed();
+      messageCount++;
+
+      // Emit metrics every 100 messages
+      if (messageCount >= 100) {
+        yield* emitInputMetrics(metrics.getInputMetrics());
+        messageCount = 0;
+      }
+    });
+
+  /**
+   * Move the messages of a subscription to the queue until either closes
+   */
+  const pump = async (subscription: NatsSubscription) => {
+    for await (const natsMsg of subscription) {
+      try {
+        await Effect.runPromise(receive(natsMsg));
+      } catch {
+        return; // Queue shut down
+      }
+    }
+  };
+
+  const start = Effect.gen(function* () {
+    const nc = yield* Effect.tryPromise({
+      try: () => connectNats(config, metrics),
+      catch: (error) => fail(`connect to ${config.urls.join(", ")}`, error),
+    });
+    connection = nc;
+
+    for (const subject of config.subjects) {
+      const subscription = yield* Effect.try({
+        try: () => nc.subscribe(subject, { queue: config.queueGroup }),
+        catch: (error) => fail(`subscribe to ${subject}`, error),
+      });
+      void pump(subscription);
+    }
+
+    yield* Effect.logInfo(
+      `Subscribed to NATS subjects ${config.subjects.join(", ")}${config.queueGroup ? ` in queue group ${config.queueGroup}` : ""}`,
+    );
+  });
+
+  // Failing to connect ends the stream
+  const stream = Stream.fromEffect(start).pipe(
+    Stream.flatMap(() => Stream.fromQueue(queue)),
+  );
+
+  /**
+   * Answer a request, with a service error when it was not delivered
+   * Replies to requesters that gave up are dropped by NATS
+   */
+  const respond = (request: NatsMsg, error?: string) => {
+    const { Empty, headers, ServiceErrorCodeHeader, ServiceErrorHeader } =
+      requireNats();
+    if (error === undefined) {
+      request.respond(Empty);
+      return;
+    }
+    const replyHeaders = headers();
+    replyHeaders.set(ServiceErrorHeader, error);
+    replyHeaders.set(ServiceErrorCodeHeader, "500");
+    request.respond(Empty, { headers: replyHeaders });
+  };
+
+  const reply = (msg: Message, error?: string) =>
+    Effect.sync(() => {
+      const request = requests.get(msg.id);
+      if (request) {
+        requests.delete(msg.id);
+        respond(request, error);
+      }
+    });
+
+  return {
+    name: "nats-input",
+    metrics: () => metrics.getInputMetrics(),
+    stream,
+    ack: (msg: Message) => reply(msg),
+    nack: (msg: Message) => reply(msg, "message was not delivered"),
+    close: () =>
+      Effect.gen(function* () {
+        // Stop the subscriptions waiting on a full queue
+        yield* Queue.shutdown(queue);
+
+        // Requests still buffered never reached the pipeline
+        for (const request of requests.values()) {
+          respond(request, "input closed");
+        }
+        requests.clear();
+
+        if (connection) {
+          const nc = connection;
+          yield* Effect.tryPromise({
+            try: () => nc.drain(),
+            catch: (error) => fail("drain NATS connection", error),
+          }).pipe(Effect.catchAll((error) => Effect.logWarning(error.message)));
+        }
+
+        // Emit final metrics
+        yield* emitInputMetrics(metrics.getInputMetrics());
+      }),
+  };
+};
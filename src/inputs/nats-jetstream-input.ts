@@ -0,0 +1,298 @@
+/**
+ * NATS JetStream Input - Consumes a JetStream stream with a durable consumer
+ *
+ * The durable consumer is created on first start and bound to on every
+ * later start, so the server tracks which messages the pipeline finished.
+ * Messages are acknowledged explicitly once the pipeline delivered them;
+ * failed messages are negatively acknowledged and redelivered right away.
+ * Messages not acknowledged within `ackWait` are redelivered as well.
+ */
+import { Effect, Queue, Stream } from "effect";
+import * as Schema from "effect/Schema";
+import type { NatsError } from "nats";
+import type { Input, Message } from "../core/types.js";
+import { createMessage } from "../core/types.js";
+import { withTraceContext } from "../core/trace-context.js";
+import { ComponentError, type ErrorCategory } from "../core/errors.js";
+import { MetricsAccumulator, emitInputMetrics } from "../core/metrics.js";
+import { validate, NonEmptyString, PositiveInt } from "../core/validation.js";
+import {
+  type NatsConnection,
+  type NatsConnectionConfig,
+  type NatsConsumerMessages,
+  type NatsJsMsg,
+  NatsConnectionFields,
+  connectNats,
+  headersToMetadata,
+  natsErrorCategory,
+  parsePayload,
+  requireNats,
+} from "../core/nats.js";
+
+export interface NatsJetStreamInputConfig extends NatsConnectionConfig {
+  readonly stream: string;
+  readonly durable: string; // Durable consumer name, shared by pipelines that split the stream
+  readonly filterSubjects?: readonly string[]; // Consume only these subjects of the stream
+  readonly deliverPolicy?: "all" | "new" | "last"; // Where a new consumer starts (default: "all")
+  readonly ackWait?: number; // ms before an unacknowledged message is redelivered (default: 30000)
+  readonly maxDeliver?: number; // Deliveries of a message before it is dropped (default: unlimited)
+  readonly batchSize?: number; // Messages pulled per request (default: 100)
+}
+
+export class NatsJetStreamInputError extends ComponentError {
+  readonly _tag = "NatsJetStreamInputError";
+
+  constructor(
+    message: string,
+    readonly category: ErrorCategory,
+    cause?: unknown,
+  ) {
+    super(message, cause);
+  }
+}
+
+/**
+ * Validation schema for NATS JetStream Input configuration
+ */
+export const NatsJetStreamInputConfigSchema = Schema.Struct({
+  ...NatsConnectionFields,
+  stream: NonEmptyString,
+  durable: NonEmptyString,
+  filterSubjects: Schema.optional(
+    Schema.Array(NonEmptyString).pipe(Schema.minItems(1)),
+  ),
+  deliverPolicy: Schema.optional(Schema.Literal("all", "new", "last")),
+  ackWait: Schema.optional(PositiveInt),
+  maxDeliver: Schema.optional(PositiveInt),
+  batchSize: Schema.optional(PositiveInt),
+});
+
+// JetStream API error codes
+const CONSUMER_NOT_FOUND = 10014;
+const STREAM_NOT_FOUND = 10059;
+
+const apiErrorCode = (error: unknown): number | undefined =>
+  (error as Partial<NatsError> | null)?.api_error?.err_code;
+
+/**
+ * Create a NATS JetStream input source
+ *
+ * Adds metadata to every message, next to its NATS headers:
+ * - nats_subject: subject the message was published to
+ * - nats_stream: stream it was consumed from
+ * - nats_sequence: stream sequence number
+ * - nats_delivery_count: deliveries so far, more than 1 on redelivery
+ *
+ * @example
+ * ```typescript
+ * const input = createNatsJetStreamInput({
+ *   urls: ["nats://localhost:4222"],
+ *   stream: "ORDERS",
+ *   durable: "order-pipeline",
+ *   filterSubjects: ["orders.created"],
+ * })
+ * ```
+ */
+export const createNatsJetStreamInput = (
+  config: NatsJetStreamInputConfig,
+): Input<NatsJetStreamInputError> => {
+  // Validate configuration synchronously at creation time
+  Effect.runSync(
+    validate(
+      NatsJetStreamInputConfigSchema,
+      { ...config, client: undefined },
+      "NATS JetStream Input configuration",
+    ).pipe(
+      Effect.catchAll((error) =>
+        Effect.fail(
+          new NatsJetStreamInputError(error.message, error.category, error),
+        ),
+      ),
+    ),
+  );
+
+  const batchSize = config.batchSize ?? 100;
+  const queue = Effect.runSync(Queue.bounded<Message>(batchSize));
+  const metrics = new MetricsAccumulator("nats-jetstream-input");
+  metrics.trackConnection();
+  let messageCount = 0;
+
+  let connection: NatsConnection | undefined;
+  let messages: NatsConsumerMessages | undefined;
+  // Message id -> JetStream message, until it is acknowledged
+  const pending = new Map<string, NatsJsMsg>();
+
+  const fail = (action: string, error: unknown) =>
+    new NatsJetStreamInputError(
+      `Failed to ${action}: ${error instanceof Error ? error.message : String(error)}`,
+      apiErrorCode(error) === STREAM_NOT_FOUND
+        ? "fatal"
+        : natsErrorCategory(error),
+      error,
+    );
+
+  /**
+   * Bind to the durable consumer, creating it if it does not exist yet
+   * An existing consumer keeps its configuration
+   */
+  const ensureConsumer = async (nc: NatsConnection) => {
+    const jsm = await nc.jetstreamManager();
+    try {
+      await jsm.consumers.info(config.stream, config.durable);
+      return false;
+    } catch (error) {
+      if (apiErrorCode(error) !== CONSUMER_NOT_FOUND) {
+        throw error;
+      }
+    }
+
+    const { AckPolicy, DeliverPolicy, nanos } = requireNats();
+    const deliverPolicies = {
+      all: DeliverPolicy.All,
+      new: DeliverPolicy.New,
+      last: DeliverPolicy.Last,
+    };
+    const filters = config.filterSubjects ?? [];
+    await jsm.consumers.add(config.stream, {
+      durable_name: config.durable,
+      ack_policy: AckPolicy.Explicit,
+      deliver_policy: deliverPolicies[config.deliverPolicy ?? "all"],
+      ack_wait: nanos(config.ackWait ?? 30000),
+      max_deliver: config.maxDeliver,
+      ...(filters.length === 1
+        ? { filter_subject: filters[0] }
+        : filters.length > 1
+          ? { filter_subjects: [...filters] }
+          : {}),
+    });
+    return true;
+  };
+
+  /**
+   * Track a message until it is acknowledged and hand it to the pipeline
+   * Waits while the queue is full, which holds back further pulls
+   */
+  const receive = (jsMsg: NatsJsMsg) =>
+    Effect.gen(function* () {
+      const headers = headersToMetadata(jsMsg.headers);
+      const msg = withTraceContext(
+        createMessage(parsePayload(jsMsg.data), {
+          ...headers,
+          source: "nats-jetstream-input",
+          nats_subject: jsMsg.subject,
+          nats_stream: jsMsg.info.stream,
+          nats_sequence: jsMsg.info.streamSequence,
+          nats_delivery_count: jsMsg.info.deliveryCount,
+          receivedAt: new Date().toISOString(),
+        }),
+        headers,
+      );
+      // Tracked before it is queued, as it may be acknowledged right away
+      pending.set(msg.id, jsMsg);
+
+      yield* Queue.offer(queue, msg);
+
+      metrics.recordProcessed();
+      messageCount++;
+
+      // Emit metrics every 100 messages
+      if (messageCount >= 100) {
+        yield* emitInputMetrics(metrics.getInputMetrics());
+        messageCount = 0;
+      }
+    });
+
+  /**
+   * Move consumed messages to the queue until either closes
+   */
+  const pump = async (consumed: NatsConsumerMessages) => {
+    for await (const jsMsg of consumed) {
+      try {
+        await Effect.runPromise(receive(jsMsg));
+      } catch {
+        return; // Queue shut down
+      }
+    }
+  };
+
+  const start = Effect.gen(function* () {
+    const nc = yield* Effect.tryPromise({
+      try: () => connectNats(config, metrics),
+      catch: (error) => fail(`connect to ${config.urls.join(", ")}`, error),
+    });
+    connection = nc;
+
+    const created = yield* Effect.tryPromise({
+      try: () => ensureConsumer(nc),
+      catch: (error) =>
+        fail(
+          `bind consumer ${config.durable} of stream ${config.stream}`,
+          error,
+        ),
+    });
+
+    const consumed = yield* Effect.tryPromise({
+      try: async () => {
+        const consumer = await nc
+          .jetstream()
+          .consumers.get(config.stream, config.durable);
+        return consumer.consume({ max_messages: batchSize });
+      },
+      catch: (error) => fail(`consume stream ${config.stream}`, error),
+    });
+    messages = consumed;
+    void pump(consumed);
+
+    yield* Effect.logInfo(
+      `${created ? "Created" : "Bound to"} consumer ${config.durable} of JetStream stream ${config.stream}`,
+    );
+  });
+
+  // Failing to bind the consumer ends the stream
+  const stream = Stream.fromEffect(start).pipe(
+    Stream.flatMap(() => Stream.fromQueue(queue)),
+  );
+
+  return {
+    name: "nats-jetstream-input",
+    metrics: () => metrics.getInputMetrics(),
+    stream,
+    ack: (msg: Message) =>
+      Effect.sync(() => {
+        pending.get(msg.id)?.ack();
+        pending.delete(msg.id);
+      }),
+    nack: (msg: Message) =>
+      Effect.sync(() => {
+        pending.get(msg.id)?.nak();
+        pending.delete(msg.id);
+      }),
+    close: () =>
+      Effect.gen(function* () {
+        // Release a message waiting on a full queue, then stop pulling
+        yield* Queue.shutdown(queue);
+        if (messages) {
+          const consumed = messages;
+          yield* Effect.promise(() => consumed.close());
+        }
+
+        // Buffered messages are redelivered right away instead of after
+        // `ackWait`
+        for (const jsMsg of pending.values()) {
+          jsMsg.nak();
+        }
+        pending.clear();
+
+        if (connection) {
+          const nc = connection;
+          yield* Effect.tryPromise({
+            try: () => nc.drain(),
+            catch: (error) => fail("drain NATS connection", error),
+          }).pipe(Effect.catchAll((error) => Effect.logWarning(error.message)));
+        }
+
+        // Emit final metrics
+        yield* emitInputMetrics(metrics.getInputMetrics());
+      }),
+  };
+};
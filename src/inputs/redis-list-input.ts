@@ -6,6 +6,7 @@ import * as Schema from "effect/Schema";
 import Redis from "ioredis";
 import type { Input, Message } from "../core/types.js";
 import { createMessage } from "../core/types.js";
+import { withTraceContext } from "../core/trace-context.js";
 import {
   ComponentError,
   type ErrorCategory,
@@ -106,7 +107,11 @@ const convertListElement = (
     };
 
     const msg = createMessage(content, metadata);
-    return msg;
+
+    // Messages published by the Redis outputs carry traceparent/tracestate
+    return typeof content === "object" && content !== null
+      ? withTraceContext(msg, content as Record<string, unknown>)
+      : msg;
   });
 
 /**
@@ -228,6 +233,7 @@ export const createRedisListInput = (
 
   return {
     name: "redis-list-input",
+    metrics: () => metrics.getInputMetrics(),
     stream,
     close: () => Effect.promise(() => client.quit()),
   };
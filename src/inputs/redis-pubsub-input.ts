@@ -6,6 +6,7 @@ import * as Schema from "effect/Schema";
 import Redis from "ioredis";
 import type { Input, Message } from "../core/types.js";
 import { createMessage } from "../core/types.js";
+import { withTraceContext } from "../core/trace-context.js";
 import {
   ComponentError,
   type ErrorCategory,
@@ -111,7 +112,11 @@ const convertPubSubMessage = (
     }
 
     const msg = createMessage(content, metadata);
-    return msg;
+
+    // Messages published by the Redis outputs carry traceparent/tracestate
+    return typeof content === "object" && content !== null
+      ? withTraceContext(msg, content as Record<string, unknown>)
+      : msg;
   });
 
 /**
@@ -298,6 +303,7 @@ export const createRedisPubSubInput = (
 
   return {
     name: "redis-pubsub-input",
+    metrics: () => metrics.getInputMetrics(),
     stream,
     close: () =>
       Effect.gen(function* () {
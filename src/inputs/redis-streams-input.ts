@@ -6,6 +6,7 @@ import * as Schema from "effect/Schema";
 import Redis from "ioredis";
 import type { Input, Message } from "../core/types.js";
 import { createMessage } from "../core/types.js";
+import { withTraceContext } from "../core/trace-context.js";
 import {
   ComponentError,
   type ErrorCategory,
@@ -143,7 +144,7 @@ const convertRedisEntry = (
       (msg as any).timestamp = parseInt(parsed.timestamp);
     }
 
-    return msg;
+    return withTraceContext(msg, parsed);
   });
 
 /**
@@ -283,6 +284,7 @@ export const createRedisStreamsInput = (
 
     return {
       name: "redis-streams-input",
+      metrics: () => metrics.getInputMetrics(),
       stream,
       close: () => Effect.promise(() => client.quit()),
     };
@@ -382,27 +384,14 @@ export const createRedisStreamsInput = (
         return [];
       }
 
-      // Process and ACK messages
+      // Process messages (ACKed once the pipeline delivered them)
       const [streamName, entries] = results[0] as [
         string,
         [string, string[]][],
       ];
       const messages = yield* Effect.forEach(
         entries as [string, string[]][],
-        (entry) =>
-          Effect.gen(function* () {
-            const [entryId] = entry;
-            const msg = yield* convertRedisEntry(streamName, entry);
-            yield* ackMessage(entryId).pipe(
-              Effect.catchAll((error) => {
-                metrics.recordError();
-                return Effect.logError(
-                  `Failed to ACK ${entryId}: ${error.message}`,
-                );
-              }),
-            );
-            return msg;
-          }),
+        (entry) => convertRedisEntry(streamName, entry),
         { concurrency: 5 },
       );
 
@@ -419,7 +408,7 @@ export const createRedisStreamsInput = (
       }
 
       yield* Effect.logDebug(
-        `Read and ACKed ${messages.length} messages from Redis stream`,
+        `Read ${messages.length} messages from Redis stream`,
       );
       return messages;
     }),
@@ -439,7 +428,25 @@ export const createRedisStreamsInput = (
 
   return {
     name: "redis-streams-input",
+    metrics: () => metrics.getInputMetrics(),
     stream,
+    ack: (msg: Message) => {
+      const entryId = msg.metadata.externalId;
+      if (typeof entryId !== "string") {
+        return Effect.void;
+      }
+      return ackMessage(entryId).pipe(
+        Effect.catchAll((error) => {
+          metrics.recordError();
+          return Effect.logError(`Failed to ACK ${entryId}: ${error.message}`);
+        }),
+      );
+    },
+    // Unacknowledged entries stay in the consumer group's pending list
+    nack: (msg: Message) =>
+      Effect.logDebug(
+        `Entry ${msg.metadata.externalId} not acknowledged, left pending`,
+      ),
     close: () => Effect.promise(() => client.quit()),
   };
 };
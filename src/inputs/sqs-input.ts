@@ -12,6 +12,7 @@ import {
 import { NodeHttpHandler } from "@smithy/node-http-handler";
 import type { Input, Message } from "../core/types.js";
 import { createMessage } from "../core/types.js";
+import { withTraceContext } from "../core/trace-context.js";
 import {
   ComponentError,
   type ErrorCategory,
@@ -116,6 +117,7 @@ export const createSqsInput = (
           QueueUrl: config.queueUrl,
           MaxNumberOfMessages: config.maxMessages || 10,
           WaitTimeSeconds: config.waitTimeSeconds || 20,
+          MessageAttributeNames: ["All"],
         });
 
         const response = await client.send(command);
@@ -139,7 +141,7 @@ export const createSqsInput = (
   };
 
   /**
-   * Delete message from SQS after processing
+   * Delete message from SQS once the pipeline has delivered it
    */
   const deleteMessage = (
     receiptHandle: string,
@@ -161,6 +163,34 @@ export const createSqsInput = (
     });
   };
 
+  /**
+   * Acknowledge a message by deleting it from the queue
+   */
+  const ack = (msg: Message): Effect.Effect<void> => {
+    const receiptHandle = msg.metadata.receiptHandle;
+    if (typeof receiptHandle !== "string") {
+      return Effect.void;
+    }
+
+    return deleteMessage(receiptHandle).pipe(
+      Effect.catchAll((error) => {
+        metrics.recordError();
+        return Effect.logError(
+          `Failed to delete message ${msg.metadata.sqsMessageId}: ${error}`,
+        );
+      }),
+    );
+  };
+
+  /**
+   * Negative acknowledgement leaves the message in flight so SQS
+   * redelivers it once the visibility timeout expires
+   */
+  const nack = (msg: Message): Effect.Effect<void> =>
+    Effect.logDebug(
+      `Message ${msg.metadata.sqsMessageId} not acknowledged, it will reappear after the visibility timeout`,
+    );
+
   /**
    * Convert SQS message to our Message format
    */
@@ -172,7 +202,7 @@ export const createSqsInput = (
       content = { raw: sqsMsg.Body };
     }
 
-    return createMessage(content, {
+    const msg = createMessage(content, {
       source: "sqs-input",
       externalId: sqsMsg.MessageId,
       receivedAt: new Date().toISOString(),
@@ -181,6 +211,16 @@ export const createSqsInput = (
       attributes: sqsMsg.Attributes,
       messageAttributes: sqsMsg.MessageAttributes,
     });
+
+    // Trace context sent as message attributes, e.g. by the SQS output
+    return withTraceContext(
+      msg,
+      Object.fromEntries(
+        Object.entries(sqsMsg.MessageAttributes ?? {}).map(
+          ([name, attribute]) => [name, attribute.StringValue],
+        ),
+      ),
+    );
   };
 
   /**
@@ -202,30 +242,9 @@ export const createSqsInput = (
         `Received ${sqsMessages.length} messages from SQS`,
       );
 
-      // Convert and delete messages
+      // Convert messages (deleted on ack once the pipeline delivered them)
       const [messages, processDuration] = yield* measureDuration(
-        Effect.forEach(
-          sqsMessages,
-          (sqsMsg) =>
-            Effect.gen(function* () {
-              const message = convertMessage(sqsMsg);
-
-              // Delete from queue after conversion
-              if (sqsMsg.ReceiptHandle) {
-                yield* deleteMessage(sqsMsg.ReceiptHandle).pipe(
-                  Effect.catchAll((error) => {
-                    metrics.recordError();
-                    return Effect.logError(
-                      `Failed to delete message ${sqsMsg.MessageId}: ${error}`,
-                    );
-                  }),
-                );
-              }
-
-              return message;
-            }),
-          { concurrency: 5 },
-        ),
+        Effect.sync(() => sqsMessages.map(convertMessage)),
       );
 
       // Record metrics
@@ -260,7 +279,10 @@ export const createSqsInput = (
 
   return {
     name: "sqs-input",
+    metrics: () => metrics.getInputMetrics(),
     stream,
+    ack,
+    nack,
     close: () =>
       Effect.sync(() => {
         client.destroy();
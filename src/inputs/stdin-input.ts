@@ -0,0 +1,276 @@
+/**
+ * Stdin Input - Reads messages from standard input
+ *
+ * Codecs:
+ * - lines: one message per non-empty line
+ * - json_stream: one message per JSON value; values may span lines and
+ *   are separated by whitespace (e.g. pretty-printed objects)
+ *
+ * The stream ends on EOF, so `run` completes once the input was consumed:
+ *   cat events.jsonl | effect-connect run transform.yaml > out.jsonl
+ */
+import { Chunk, Effect, Stream } from "effect";
+import * as Schema from "effect/Schema";
+import type { Readable } from "node:stream";
+import { StringDecoder } from "node:string_decoder";
+import type { Input, Message } from "../core/types.js";
+import { createMessage } from "../core/types.js";
+import { ComponentError, type ErrorCategory } from "../core/errors.js";
+import { MetricsAccumulator, emitInputMetrics } from "../core/metrics.js";
+import { validate } from "../core/validation.js";
+
+export interface StdinInputConfig {
+  readonly codec?: "lines" | "json_stream"; // (default: "lines")
+  readonly source?: Readable; // Stream to read (default: process.stdin)
+}
+
+export class StdinInputError extends ComponentError {
+  readonly _tag = "StdinInputError";
+
+  constructor(
+    message: string,
+    readonly category: ErrorCategory,
+    cause?: unknown,
+  ) {
+    super(message, cause);
+  }
+}
+
+/**
+ * Validation schema for Stdin Input configuration
+ */
+export const StdinInputConfigSchema = Schema.Struct({
+  codec: Schema.optional(Schema.Literal("lines", "json_stream")),
+});
+
+/**
+ * Parse a record with graceful degradation to the raw text
+ */
+const parseRecord = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return { raw: text };
+  }
+};
+
+/**
+ * Split complete JSON values off the front of a buffer
+ * Objects, arrays and strings end at their closing character, other
+ * values at the next whitespace. Returns the values and the unparsed rest.
+ */
+const splitJsonValues = (
+  buffer: string,
+  final: boolean,
+): { values: string[]; rest: string } => {
+  const values: string[] = [];
+  let start = -1;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < buffer.length; i++) {
+    const char = buffer[i];
+
+    if (start === -1) {
+      if (/\s/.test(char)) {
+        continue;
+      }
+      start = i;
+    }
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+        if (depth === 0) {
+          values.push(buffer.slice(start, i + 1));
+          start = -1;
+        }
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "{" || char === "[") {
+      depth++;
+    } else if (char === "}" || char === "]") {
+      depth--;
+      if (depth <= 0) {
+        values.push(buffer.slice(start, i + 1));
+        start = -1;
+        depth = 0;
+      }
+    } else if (depth === 0 && /\s/.test(buffer[i + 1] ?? "")) {
+      // Scalar ends before whitespace
+      values.push(buffer.slice(start, i + 1));
+      start = -1;
+    }
+  }
+
+  if (start === -1) {
+    return { values, rest: "" };
+  }
+  if (final && buffer.slice(start).trim() !== "") {
+    values.push(buffer.slice(start).trim());
+    return { values, rest: "" };
+  }
+  return { values, rest: buffer.slice(start) };
+};
+
+/**
+ * Create a stdin input source
+ *
+ * Adds metadata to every message:
+ * - line_number: line of the message (lines)
+ * - index: position of the value in the stream (json_stream)
+ *
+ * @example
+ * ```typescript
+ * const input = createStdinInput({ codec: "json_stream" })
+ * ```
+ */
+export const createStdinInput = (
+  config: StdinInputConfig = {},
+): Input<StdinInputError> => {
+  // Validate configuration synchronously at creation time
+  Effect.runSync(
+    validate(
+      StdinInputConfigSchema,
+      { codec: config.codec },
+      "Stdin Input configuration",
+    ).pipe(
+      Effect.catchAll((error) =>
+        Effect.fail(new StdinInputError(error.message, error.category, error)),
+      ),
+    ),
+  );
+
+  const codec = config.codec ?? "lines";
+  const metrics = new MetricsAccumulator("stdin-input");
+  let messageCount = 0;
+
+  /**
+   * Read records until EOF
+   * Listens to `data`/`end`/`error` instead of iterating the source, so an
+   * idle read can be interrupted on shutdown
+   */
+  const readRecords = (
+    source: Readable,
+    owned: boolean,
+  ): Stream.Stream<Message, StdinInputError> =>
+    Stream.async<Message, StdinInputError>((emit) => {
+      const decoder = new StringDecoder("utf8");
+      let buffer = "";
+      let count = 0;
+
+      const toMessage = (text: string): Message => {
+        count++;
+        return createMessage(parseRecord(text), {
+          source: "stdin-input",
+          ...(codec === "lines"
+            ? { line_number: count }
+            : { index: count - 1 }),
+        });
+      };
+
+      const drain = (final: boolean): Message[] => {
+        if (codec === "json_stream") {
+          const { values, rest } = splitJsonValues(buffer, final);
+          buffer = rest;
+          return values.map(toMessage);
+        }
+
+        const lines = buffer.split("\n");
+        buffer = final ? "" : (lines.pop() ?? "");
+        const messages: Message[] = [];
+        for (const line of lines) {
+          const text = line.replace(/\r$/, "");
+          if (text.trim() === "") {
+            // Blank lines still count for line numbers
+            count++;
+            continue;
+          }
+          messages.push(toMessage(text));
+        }
+        return messages;
+      };
+
+      const onData = (chunk: string | Buffer) => {
+        buffer += typeof chunk === "string" ? chunk : decoder.write(chunk);
+        const messages = drain(false);
+        if (messages.length > 0) {
+          // Stop reading until the messages were taken (backpressure)
+          source.pause();
+          emit.chunk(Chunk.unsafeFromArray(messages)).then(() => {
+            source.resume();
+          });
+        }
+      };
+      const onEnd = () => {
+        buffer += decoder.end();
+        const messages = drain(true);
+        (messages.length > 0
+          ? emit.chunk(Chunk.unsafeFromArray(messages))
+          : Promise.resolve()
+        ).then(() => emit.end());
+      };
+      const onError = (error: Error) => {
+        emit.fail(
+          new StdinInputError(
+            `Failed to read stdin: ${error.message}`,
+            "fatal",
+            error,
+          ),
+        );
+      };
+
+      source.on("data", onData);
+      source.once("end", onEnd);
+      source.once("error", onError);
+
+      return Effect.sync(() => {
+        source.off("data", onData);
+        source.off("end", onEnd);
+        source.off("error", onError);
+        // Release process.stdin so the process can exit; injected sources
+        // are closed by their owner
+        if (owned) {
+          source.destroy();
+        } else {
+          source.pause();
+        }
+      });
+    });
+
+  const stream = Stream.suspend(() =>
+    config.source
+      ? readRecords(config.source, false)
+      : readRecords(process.stdin, true),
+  ).pipe(
+    Stream.tap(() =>
+      Effect.gen(function* () {
+        metrics.recordProcessed();
+        messageCount++;
+
+        // Emit metrics every 100 messages
+        if (messageCount >= 100) {
+          yield* emitInputMetrics(metrics.getInputMetrics());
+          messageCount = 0;
+        }
+      }),
+    ),
+    Stream.onDone(() =>
+      Effect.logDebug(
+        `Reached end of stdin after ${metrics.getInputMetrics().messagesProcessed} message(s)`,
+      ),
+    ),
+  );
+
+  return {
+    name: "stdin-input",
+    metrics: () => metrics.getInputMetrics(),
+    stream,
+  };
+};
@@ -0,0 +1,387 @@
+/**
+ * WebSocket Input - Receives messages as WebSocket frames
+ *
+ * Modes:
+ * - client: connects to `url`, reconnecting with exponential backoff
+ *   whenever the connection fails or closes
+ * - server: listens on `port` and accepts any number of clients
+ *
+ * Every text or binary frame becomes a message. When the pipeline falls
+ * behind, sockets are paused until the buffered frames were taken.
+ * `ws` is an optional peer dependency, loaded when the stream starts.
+ */
+import { Effect, Fiber, Queue, Stream } from "effect";
+import * as Schema from "effect/Schema";
+import type { IncomingMessage } from "node:http";
+import type { RawData, WebSocket, WebSocketServer } from "ws";
+import type { Input, Message } from "../core/types.js";
+import { createMessage } from "../core/types.js";
+import { ComponentError, type ErrorCategory } from "../core/errors.js";
+import { MetricsAccumulator, emitInputMetrics } from "../core/metrics.js";
+import {
+  validate,
+  NonEmptyString,
+  Port,
+  PositiveInt,
+  TimeoutMs,
+} from "../core/validation.js";
+import { loadOptionalDependency } from "../core/optional-dependency.js";
+
+export interface WebSocketInputConfig {
+  readonly mode?: "client" | "server"; // (default: "client")
+  // Client mode
+  readonly url?: string; // ws:// or wss:// URL to connect to
+  readonly headers?: Record<string, string>; // Handshake headers, e.g. Authorization
+  readonly openMessage?: string; // Frame sent after each connect, e.g. a subscription
+  readonly connectionTimeout?: number; // Handshake timeout in ms (default: 10000)
+  readonly reconnectDelay?: number; // First reconnect delay in ms (default: 1000)
+  readonly maxReconnectDelay?: number; // Reconnect delay cap in ms (default: 30000)
+  // Server mode
+  readonly port?: number;
+  readonly host?: string; // (default: "0.0.0.0")
+  readonly path?: string; // Accept connections on this path only (default: any)
+  readonly queueSize?: number; // Frames buffered before pausing sockets (default: 1000)
+}
+
+export class WebSocketInputError extends ComponentError {
+  readonly _tag = "WebSocketInputError";
+
+  constructor(
+    message: string,
+    readonly category: ErrorCategory,
+    cause?: unknown,
+  ) {
+    super(message, cause);
+  }
+}
+
+/**
+ * Validation schema for WebSocket Input configuration
+ */
+export const WebSocketInputConfigSchema = Schema.Struct({
+  mode: Schema.optional(Schema.Literal("client", "server")),
+  url: Schema.optional(NonEmptyString),
+  headers: Schema.optional(
+    Schema.Record({ key: Schema.String, value: Schema.String }),
+  ),
+  openMessage: Schema.optional(NonEmptyString),
+  connectionTimeout: Schema.optional(TimeoutMs),
+  reconnectDelay: Schema.optional(PositiveInt),
+  maxReconnectDelay: Schema.optional(PositiveInt),
+  port: Schema.optional(Port),
+  host: Schema.optional(NonEmptyString),
+  path: Schema.optional(NonEmptyString),
+  queueSize: Schema.optional(PositiveInt),
+});
+
+/**
+ * The ws package module
+ */
+type Ws = typeof import("ws");
+
+/**
+ * Parse a frame with graceful degradation to the raw text
+ */
+const parseFrame = (data: RawData): unknown => {
+  const text = Array.isArray(data)
+    ? Buffer.concat(data).toString("utf8")
+    : Buffer.from(data as ArrayBuffer).toString("utf8");
+  try {
+    return JSON.parse(text);
+  } catch {
+    return { raw: text };
+  }
+};
+
+/**
+ * Create a WebSocket input source
+ *
+ * Adds metadata to every message:
+ * - websocket_url: URL connected to (client) or requested by the client (server)
+ * - connectionId: id of the client connection (server)
+ * - remoteAddress: address of the client (server)
+ *
+ * @example
+ * ```typescript
+ * const input = createWebSocketInput({
+ *   url: "wss://stream.vendor.com/events",
+ *   headers: { Authorization: "Bearer secret" },
+ *   openMessage: '{"subscribe":"orders"}',
+ * })
+ * ```
+ */
+export const createWebSocketInput = (
+  config: WebSocketInputConfig,
+): Input<WebSocketInputError> => {
+  // Validate configuration synchronously at creation time
+  Effect.runSync(
+    validate(
+      WebSocketInputConfigSchema,
+      config,
+      "WebSocket Input configuration",
+    ).pipe(
+      Effect.catchAll((error) =>
+        Effect.fail(
+          new WebSocketInputError(error.message, error.category, error),
+        ),
+      ),
+    ),
+  );
+
+  const mode = config.mode ?? "client";
+  if (mode === "client" && !config.url) {
+    throw new WebSocketInputError("Client mode requires a url", "logical");
+  }
+  if (mode === "server" && !config.port) {
+    throw new WebSocketInputError("Server mode requires a port", "logical");
+  }
+
+  const host = config.host ?? "0.0.0.0";
+  const reconnectDelay = config.reconnectDelay ?? 1000;
+  const maxReconnectDelay = config.maxReconnectDelay ?? 30000;
+
+  const metrics = new MetricsAccumulator("websocket-input");
+  // A server is reachable without clients; only a client waits to connect
+  if (mode === "client") {
+    metrics.trackConnection();
+  }
+  let messageCount = 0;
+
+  const queue = Effect.runSync(
+    Queue.bounded<Message>(config.queueSize ?? 1000),
+  );
+  let fiber: Fiber.RuntimeFiber<void> | undefined;
+  let server: WebSocketServer | undefined;
+
+  /**
+   * Queue a frame; a full queue pauses the socket until there is room
+   * Frames waiting for room are queued in arrival order
+   */
+  const receive = (
+    socket: WebSocket,
+    backlog: { waiting: number },
+    data: RawData,
+    metadata: Record<string, unknown>,
+  ) => {
+    const msg = createMessage(parseFrame(data), {
+      source: "websocket-input",
+      receivedAt: new Date().toISOString(),
+      ...metadata,
+    });
+    metrics.recordProcessed();
+    messageCount++;
+
+    // Emit metrics every 100 messages
+    if (messageCount >= 100) {
+      Effect.runFork(emitInputMetrics(metrics.getInputMetrics()));
+      messageCount = 0;
+    }
+
+    if (backlog.waiting === 0 && Queue.unsafeOffer(queue, msg)) {
+      return;
+    }
+    backlog.waiting++;
+    socket.pause();
+    Effect.runPromise(Queue.offer(queue, msg)).then(
+      () => {
+        if (--backlog.waiting === 0) {
+          socket.resume();
+        }
+      },
+      () => undefined, // Queue shut down
+    );
+  };
+
+  /**
+   * Connect once and receive frames until the connection closes
+   * Succeeds with whether the connection was established
+   */
+  const session = (ws: Ws, url: string) =>
+    Effect.async<boolean, WebSocketInputError>((resume) => {
+      const socket = new ws.WebSocket(url, {
+        headers: config.headers,
+        handshakeTimeout: config.connectionTimeout ?? 10000,
+      });
+      const backlog = { waiting: 0 };
+      let opened = false;
+      let lastError: Error | undefined;
+
+      socket.on("open", () => {
+        opened = true;
+        metrics.recordConnected();
+        Effect.runFork(Effect.logInfo(`Connected to ${url}`));
+        if (config.openMessage) {
+          socket.send(config.openMessage);
+        }
+      });
+      socket.on("message", (data) =>
+        receive(socket, backlog, data, { websocket_url: url }),
+      );
+      socket.on("error", (error) => {
+        lastError = error;
+      });
+      // Close follows every error, so the session ends here
+      socket.on("close", (code, reason) => {
+        if (opened) {
+          metrics.recordDisconnected();
+          resume(
+            Effect.logWarning(
+              `Connection to ${url} closed (${code}${reason.length > 0 ? `: ${reason}` : ""})`,
+            ).pipe(Effect.as(true)),
+          );
+        } else {
+          resume(
+            Effect.fail(
+              new WebSocketInputError(
+                `Failed to connect to ${url}: ${lastError?.message ?? `closed with ${code}`}`,
+                "intermittent",
+                lastError,
+              ),
+            ),
+          );
+        }
+      });
+
+      return Effect.sync(() => {
+        socket.removeAllListeners();
+        socket.on("error", () => undefined);
+        if (opened) {
+          metrics.recordDisconnected();
+        }
+        socket.close(1001);
+      });
+    });
+
+  /**
+   * Keep a client connection open, with exponential backoff between attempts
+   */
+  const runClient = (ws: Ws, url: string) =>
+    Effect.gen(function* () {
+      let delay = reconnectDelay;
+      while (true) {
+        const opened = yield* session(ws, url).pipe(
+          Effect.catchAll((error) => {
+            metrics.recordError();
+            return Effect.logError(error.message).pipe(Effect.as(false));
+          }),
+        );
+        // A connection that was established starts the backoff over
+        if (opened) {
+          delay = reconnectDelay;
+        }
+
+        yield* Effect.logInfo(`Reconnecting to ${url} in ${delay}ms`);
+        yield* Effect.sleep(delay);
+        metrics.recordReconnect();
+        delay = Math.min(delay * 2, maxReconnectDelay);
+      }
+    });
+
+  /**
+   * Listen for client connections
+   */
+  const listen = (ws: Ws, port: number) =>
+    Effect.async<void, WebSocketInputError>((resume) => {
+      const wss = new ws.WebSocketServer({ port, host, path: config.path });
+      server = wss;
+
+      wss.once("listening", () => {
+        wss.on("error", (error) =>
+          Effect.runFork(Effect.logError(`WebSocket server error: ${error}`)),
+        );
+        resume(
+          Effect.logInfo(
+            `WebSocket Input listening on ${host}:${port}${config.path ?? ""}`,
+          ),
+        );
+      });
+      wss.once("error", (error) =>
+        resume(
+          Effect.fail(
+            new WebSocketInputError(
+              `Failed to listen on ${host}:${port}: ${error.message}`,
+              "fatal",
+              error,
+            ),
+          ),
+        ),
+      );
+
+      wss.on("connection", (socket, request: IncomingMessage) => {
+        const backlog = { waiting: 0 };
+        const metadata = {
+          websocket_url: request.url,
+          connectionId: crypto.randomUUID(),
+          remoteAddress: request.socket.remoteAddress,
+        };
+        metrics.recordConnected();
+
+        socket.on("message", (data) =>
+          receive(socket, backlog, data, metadata),
+        );
+        socket.on("error", (error) => {
+          metrics.recordError();
+          Effect.runFork(
+            Effect.logWarning(
+              `Connection ${metadata.connectionId} failed: ${error.message}`,
+            ),
+          );
+        });
+        socket.on("close", () => metrics.recordDisconnected());
+      });
+    });
+
+  const start = Effect.gen(function* () {
+    const ws = yield* Effect.tryPromise({
+      try: () =>
+        loadOptionalDependency(
+          "ws",
+          "the WebSocket components",
+          () => import("ws"),
+        ),
+      catch: (error) =>
+        new WebSocketInputError(
+          error instanceof Error ? error.message : String(error),
+          "fatal",
+          error,
+        ),
+    });
+    if (mode === "server") {
+      yield* listen(ws, config.port!);
+    } else {
+      fiber = yield* Effect.forkDaemon(runClient(ws, config.url!));
+    }
+  });
+
+  // Failing to load ws or to listen ends the stream
+  const stream = Stream.fromEffect(start).pipe(
+    Stream.flatMap(() => Stream.fromQueue(queue)),
+  );
+
+  return {
+    name: "websocket-input",
+    metrics: () => metrics.getInputMetrics(),
+    stream,
+    close: () =>
+      Effect.gen(function* () {
+        if (fiber) {
+          yield* Fiber.interrupt(fiber);
+        }
+
+        if (server) {
+          const wss = server;
+          for (const client of wss.clients) {
+            client.close(1001);
+          }
+          yield* Effect.async<void>((resume) => {
+            wss.close(() => resume(Effect.void));
+          });
+        }
+
+        yield* Queue.shutdown(queue);
+
+        // Emit final metrics
+        yield* emitInputMetrics(metrics.getInputMetrics());
+      }),
+  };
+};
@@ -0,0 +1,207 @@
+/**
+ * Broker Output - Sends messages to multiple outputs
+ *
+ * Patterns:
+ * - fan_out: send to all outputs concurrently, all must succeed
+ * - fan_out_sequential: send to all outputs one after another, all must succeed
+ * - round_robin: send each message to the next output in turn
+ * - greedy: send each message to the output with the fewest in-flight sends
+ */
+import { Effect, Option } from "effect";
+import * as Schema from "effect/Schema";
+import type { Output, Message } from "../core/types.js";
+import {
+  ComponentError,
+  type ErrorCategory,
+  detectCategory,
+} from "../core/errors.js";
+import {
+  MetricsAccumulator,
+  combineOutputMetrics,
+  emitOutputMetrics,
+  measureDuration,
+} from "../core/metrics.js";
+import { validate } from "../core/validation.js";
+
+export type BrokerPattern =
+  "fan_out" | "fan_out_sequential" | "round_robin" | "greedy";
+
+export interface BrokerOutputConfig {
+  readonly outputs: readonly Output<any>[];
+  readonly pattern?: BrokerPattern; // Default: "fan_out"
+}
+
+export class BrokerOutputError extends ComponentError {
+  readonly _tag = "BrokerOutputError";
+
+  constructor(
+    message: string,
+    readonly category: ErrorCategory,
+    cause?: unknown,
+  ) {
+    super(message, cause);
+  }
+}
+
+/**
+ * Validation schema for Broker Output configuration
+ */
+export const BrokerOutputConfigSchema = Schema.Struct({
+  outputs: Schema.Array(Schema.Unknown).pipe(
+    Schema.minItems(1, {
+      message: () => "Broker requires at least one output",
+    }),
+  ),
+  pattern: Schema.optional(
+    Schema.Literal("fan_out", "fan_out_sequential", "round_robin", "greedy"),
+  ),
+});
+
+/**
+ * Child output with its own metrics
+ */
+interface BrokerChild {
+  readonly output: Output<any>;
+  readonly metrics: MetricsAccumulator;
+  inFlight: number;
+  messageCount: number;
+}
+
+/**
+ * Convert a child failure into a broker error, keeping its category
+ */
+const toBrokerError = (child: BrokerChild, error: unknown) =>
+  new BrokerOutputError(
+    `Broker output ${child.output.name} failed: ${error instanceof Error ? error.message : String(error)}`,
+    error instanceof ComponentError ? error.category : detectCategory(error),
+    error,
+  );
+
+/**
+ * Create a broker output
+ *
+ * @example
+ * ```typescript
+ * const output = createBrokerOutput({
+ *   pattern: "fan_out",
+ *   outputs: [redisStreamsOutput, httpOutput],
+ * })
+ * ```
+ */
+export const createBrokerOutput = (
+  config: BrokerOutputConfig,
+): Output<BrokerOutputError> => {
+  // Validate configuration synchronously at creation time
+  Effect.runSync(
+    validate(
+      BrokerOutputConfigSchema,
+      config,
+      "Broker Output configuration",
+    ).pipe(
+      Effect.catchAll((error) =>
+        Effect.fail(
+          new BrokerOutputError(error.message, error.category, error),
+        ),
+      ),
+    ),
+  );
+
+  const pattern = config.pattern ?? "fan_out";
+  const children: BrokerChild[] = config.outputs.map((output, index) => ({
+    output,
+    metrics: new MetricsAccumulator(`broker-output.${index}.${output.name}`),
+    inFlight: 0,
+    messageCount: 0,
+  }));
+  let nextIndex = 0;
+
+  /**
+   * Send to a single child, recording its metrics
+   */
+  const sendTo = (
+    child: BrokerChild,
+    msg: Message,
+  ): Effect.Effect<void, BrokerOutputError> =>
+    Effect.gen(function* () {
+      child.inFlight++;
+      const [, duration] = yield* measureDuration(child.output.send(msg)).pipe(
+        Effect.tapError(() =>
+          Effect.sync(() => child.metrics.recordSendError()),
+        ),
+        Effect.mapError((error) => toBrokerError(child, error)),
+        Effect.ensuring(Effect.sync(() => child.inFlight--)),
+      );
+
+      child.metrics.recordSent(1, duration);
+      child.messageCount++;
+
+      // Emit metrics every 100 messages
+      if (child.messageCount >= 100) {
+        yield* emitOutputMetrics(child.metrics.getOutputMetrics());
+        child.messageCount = 0;
+      }
+    });
+
+  const send = (msg: Message): Effect.Effect<void, BrokerOutputError> => {
+    switch (pattern) {
+      case "fan_out":
+        return Effect.all(
+          children.map((child) => sendTo(child, msg)),
+          { concurrency: "unbounded", mode: "validate", discard: true },
+        ).pipe(
+          // Report the first failure, all outputs have been attempted
+          Effect.mapError(
+            (errors) => errors.filter(Option.isSome).map((e) => e.value)[0],
+          ),
+        );
+
+      case "fan_out_sequential":
+        return Effect.forEach(children, (child) => sendTo(child, msg), {
+          concurrency: 1,
+          discard: true,
+        });
+
+      // Pick the child when the send runs, not when it is created
+      case "round_robin":
+        return Effect.suspend(() => {
+          const child = children[nextIndex];
+          nextIndex = (nextIndex + 1) % children.length;
+          return sendTo(child, msg);
+        });
+
+      case "greedy":
+        return Effect.suspend(() =>
+          sendTo(
+            children.reduce((least, candidate) =>
+              candidate.inFlight < least.inFlight ? candidate : least,
+            ),
+            msg,
+          ),
+        );
+    }
+  };
+
+  return {
+    name: "broker-output",
+    send,
+    // Sends as recorded per child, connection state of the child outputs
+    metrics: () =>
+      combineOutputMetrics(
+        "broker-output",
+        children.map((child) => ({
+          ...child.metrics.getOutputMetrics(),
+          connection: child.output.metrics?.().connection,
+        })),
+      ),
+    close: () =>
+      Effect.gen(function* () {
+        for (const child of children) {
+          // Emit final metrics
+          yield* emitOutputMetrics(child.metrics.getOutputMetrics());
+          if (child.output.close) {
+            yield* child.output.close();
+          }
+        }
+      }),
+  };
+};
@@ -0,0 +1,341 @@
+/**
+ * File Output - Writes messages to local files
+ *
+ * The path may contain `{{ }}` JSONata templates, e.g.
+ * "./archive/{{ $fromMillis(message.timestamp, '[Y0001]-[M01]-[D01]') }}/{{ meta.tenant }}.jsonl",
+ * so messages are partitioned into several open files.
+ *
+ * Files are rotated when they reach `maxSize` bytes or are open for
+ * `maxAge` ms. Existing files are never overwritten or appended to: a
+ * taken path gets a counter before its extension (events.1.jsonl).
+ */
+import { Effect, Fiber } from "effect";
+import * as Schema from "effect/Schema";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { createGzip } from "node:zlib";
+import { finished, pipeline } from "node:stream/promises";
+import type { Writable } from "node:stream";
+import type { Output, Message } from "../core/types.js";
+import { ComponentError, type ErrorCategory } from "../core/errors.js";
+import {
+  MetricsAccumulator,
+  emitOutputMetrics,
+  measureDuration,
+} from "../core/metrics.js";
+import { validate, NonEmptyString, PositiveInt } from "../core/validation.js";
+import { compileTemplate } from "../core/template.js";
+
+export interface FileOutputConfig {
+  readonly path: string; // File path, may contain {{ }} templates
+  readonly format?: "lines" | "json_array"; // (default: "lines")
+  readonly compression?: "none" | "gzip"; // (default: "none")
+  readonly maxSize?: number; // Rotate after this many uncompressed bytes
+  readonly maxAge?: number; // Rotate after a file was open this many ms
+}
+
+export class FileOutputError extends ComponentError {
+  readonly _tag = "FileOutputError";
+
+  constructor(
+    message: string,
+    readonly category: ErrorCategory,
+    cause?: unknown,
+  ) {
+    super(message, cause);
+  }
+}
+
+/**
+ * Validation schema for File Output configuration
+ */
+export const FileOutputConfigSchema = Schema.Struct({
+  path: NonEmptyString,
+  format: Schema.optional(Schema.Literal("lines", "json_array")),
+  compression: Schema.optional(Schema.Literal("none", "gzip")),
+  maxSize: Schema.optional(PositiveInt),
+  maxAge: Schema.optional(PositiveInt),
+});
+
+/**
+ * File currently written for a rendered path
+ */
+interface OpenFile {
+  readonly path: string; // Actual path, including a rotation counter
+  readonly sink: Writable; // Gzip stream or the file stream
+  readonly closed: Promise<void>; // Resolves once the file is fully written
+  readonly openedAt: number;
+  bytes: number; // Uncompressed bytes written
+  count: number; // Messages written
+  timer?: Fiber.RuntimeFiber<void, never>; // Age-based rotation
+}
+
+/**
+ * Serialize Message to a JSON record
+ */
+const serializeMessage = (msg: Message): string =>
+  JSON.stringify({
+    id: msg.id,
+    timestamp: msg.timestamp,
+    correlationId: msg.correlationId,
+    metadata: msg.metadata,
+    content: msg.content,
+    trace: msg.trace,
+  });
+
+/**
+ * Candidate path for a rotation counter: events.jsonl.gz -> events.1.jsonl.gz
+ */
+const withCounter = (filePath: string, counter: number): string => {
+  if (counter === 0) {
+    return filePath;
+  }
+  const gz = filePath.endsWith(".gz") ? ".gz" : "";
+  const base = filePath.slice(0, filePath.length - gz.length);
+  const ext = path.extname(base);
+  return `${base.slice(0, base.length - ext.length)}.${counter}${ext}${gz}`;
+};
+
+/**
+ * Create a file output
+ *
+ * @example
+ * ```typescript
+ * const output = createFileOutput({
+ *   path: "./archive/{{ meta.tenant }}/events.jsonl.gz",
+ *   compression: "gzip",
+ *   maxSize: 100 * 1024 * 1024,
+ *   maxAge: 3600000,
+ * })
+ * ```
+ */
+export const createFileOutput = (
+  config: FileOutputConfig,
+): Output<FileOutputError> => {
+  // Validate configuration synchronously at creation time
+  Effect.runSync(
+    validate(FileOutputConfigSchema, config, "File Output configuration").pipe(
+      Effect.catchAll((error) =>
+        Effect.fail(new FileOutputError(error.message, error.category, error)),
+      ),
+    ),
+  );
+
+  const format = config.format ?? "lines";
+  const gzip = config.compression === "gzip";
+
+  let renderPath: (msg: Message) => Promise<string>;
+  try {
+    renderPath = compileTemplate(config.path);
+  } catch (error) {
+    throw new FileOutputError(
+      `Failed to compile path template "${config.path}": ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      "logical",
+      error,
+    );
+  }
+
+  const metrics = new MetricsAccumulator("file-output");
+  // Rendered path -> file currently written for it
+  const files = new Map<string, OpenFile>();
+  // Writes, rotation and closing run one at a time to keep records whole
+  const lock = Effect.unsafeMakeSemaphore(1);
+
+  const fail = (action: string, error: unknown) =>
+    new FileOutputError(
+      `Failed to ${action}: ${error instanceof Error ? error.message : String(error)}`,
+      "intermittent",
+      error,
+    );
+
+  /**
+   * Write a chunk, resolving once the stream accepted it
+   */
+  const write = (sink: Writable, data: string) =>
+    new Promise<void>((resolve, reject) =>
+      sink.write(data, (error) => (error ? reject(error) : resolve())),
+    );
+
+  /**
+   * Finish a file: close the JSON array, end the stream and wait for it
+   */
+  const closeFile = (key: string, file: OpenFile) =>
+    Effect.gen(function* () {
+      if (files.get(key) === file) {
+        files.delete(key);
+      }
+      if (file.timer) {
+        yield* Fiber.interrupt(file.timer);
+      }
+
+      yield* Effect.tryPromise({
+        try: async () => {
+          if (format === "json_array") {
+            await write(file.sink, file.count > 0 ? "\n]\n" : "[]\n");
+          }
+          file.sink.end();
+          await file.closed;
+        },
+        catch: (error) => fail(`close ${file.path}`, error),
+      });
+      yield* Effect.logDebug(
+        `Closed file ${file.path} with ${file.count} message(s)`,
+      );
+    });
+
+  /**
+   * Open the next free file for a rendered path
+   */
+  const openFile = (key: string) =>
+    Effect.gen(function* () {
+      const file = yield* Effect.tryPromise({
+        try: async (): Promise<OpenFile> => {
+          await fs.mkdir(path.dirname(key), { recursive: true });
+
+          // Exclusive create never overwrites existing or rotated files
+          for (let counter = 0; ; counter++) {
+            const filePath = withCounter(key, counter);
+            const handle = await fs
+              .open(filePath, "wx")
+              .catch((error: NodeJS.ErrnoException) =>
+                error.code === "EEXIST" ? undefined : Promise.reject(error),
+              );
+            if (!handle) {
+              continue;
+            }
+
+            const stream = handle.createWriteStream();
+            const compressor = gzip ? createGzip() : undefined;
+            const sink = compressor ?? stream;
+            const closed = compressor
+              ? pipeline(compressor, stream)
+              : finished(stream);
+            // Stream errors surface through writes and closing
+            closed.catch(() => undefined);
+            return {
+              path: filePath,
+              sink,
+              closed,
+              openedAt: Date.now(),
+              bytes: 0,
+              count: 0,
+            };
+          }
+        },
+        catch: (error) => fail(`open ${key}`, error),
+      });
+
+      // Close idle files once they reach their age
+      if (config.maxAge) {
+        file.timer = yield* Effect.sleep(config.maxAge).pipe(
+          Effect.zipRight(
+            lock.withPermits(1)(
+              Effect.suspend(() => {
+                // Closing must not interrupt this fiber itself
+                file.timer = undefined;
+                return closeFile(key, file);
+              }).pipe(
+                Effect.catchAll((error) => Effect.logError(error.message)),
+              ),
+            ),
+          ),
+          Effect.forkDaemon,
+        );
+      }
+
+      files.set(key, file);
+      yield* Effect.logDebug(`Opened file ${file.path}`);
+      return file;
+    });
+
+  /**
+   * Append a record to the file for a rendered path, rotating as needed
+   */
+  const append = (key: string, record: string) =>
+    Effect.gen(function* () {
+      let file = files.get(key);
+
+      // Rotate by size (a record larger than maxSize still gets a file)
+      // or by age if the timer has not run yet
+      if (
+        file &&
+        file.count > 0 &&
+        ((config.maxSize &&
+          file.bytes + Buffer.byteLength(record) > config.maxSize) ||
+          (config.maxAge && Date.now() - file.openedAt >= config.maxAge))
+      ) {
+        yield* closeFile(key, file);
+        file = undefined;
+      }
+
+      const target = file ?? (yield* openFile(key));
+      const data =
+        format === "json_array"
+          ? `${target.count === 0 ? "[\n" : ",\n"}${record}`
+          : `${record}\n`;
+
+      yield* Effect.tryPromise({
+        try: () => write(target.sink, data),
+        catch: (error) => fail(`write to ${target.path}`, error),
+      });
+      target.bytes += Buffer.byteLength(data);
+      target.count++;
+    });
+
+  return {
+    name: "file-output",
+    metrics: () => metrics.getOutputMetrics(),
+    send: (msg: Message): Effect.Effect<void, FileOutputError> =>
+      Effect.gen(function* () {
+        const key = yield* Effect.tryPromise({
+          try: () => renderPath(msg),
+          catch: (error) =>
+            new FileOutputError(
+              `Failed to evaluate path template: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+              "logical",
+              error,
+            ),
+        });
+        if (key.trim() === "") {
+          return yield* Effect.fail(
+            new FileOutputError(
+              `Path template "${config.path}" evaluated to an empty path`,
+              "logical",
+            ),
+          );
+        }
+
+        const [, duration] = yield* measureDuration(
+          lock.withPermits(1)(append(path.resolve(key), serializeMessage(msg))),
+        ).pipe(
+          Effect.tapError((error) => {
+            metrics.recordSendError();
+            return Effect.logError(error.message);
+          }),
+        );
+
+        metrics.recordSent(1, duration);
+
+        // Emit metrics every 100 messages
+        const snapshot = metrics.getOutputMetrics();
+        if (snapshot.messagesSent % 100 === 0) {
+          yield* emitOutputMetrics(snapshot);
+        }
+      }),
+    close: () =>
+      lock.withPermits(1)(
+        Effect.gen(function* () {
+          for (const [key, file] of [...files.entries()]) {
+            yield* closeFile(key, file).pipe(
+              Effect.catchAll((error) => Effect.logError(error.message)),
+            );
+          }
+          yield* emitOutputMetrics(metrics.getOutputMetrics());
+        }),
+      ),
+  };
+};
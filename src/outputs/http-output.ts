@@ -16,6 +16,7 @@ import {
   emitOutputMetrics,
   measureDuration,
 } from "../core/metrics.js";
+import { injectTraceContext } from "../core/trace-context.js";
 import {
   validate,
   NonEmptyString,
@@ -227,6 +228,7 @@ export const createHttpOutput = (
 
   return {
     name: "http-output",
+    metrics: () => metrics.getOutputMetrics(),
 
     send: (message: Message): Effect.Effect<void, HttpOutputError, never> =>
       Effect.gen(function* () {
@@ -234,6 +236,7 @@ export const createHttpOutput = (
 
         const httpRequest = HttpClientRequest.make(method)(config.url).pipe(
           HttpClientRequest.setHeaders(headers),
+          HttpClientRequest.setHeaders(injectTraceContext(message.trace)),
           HttpClientRequest.bodyText(body),
           HttpClientRequest.setHeaders({
             "User-Agent": "effect-connect/0.1.1",
@@ -242,7 +245,11 @@ export const createHttpOutput = (
 
         const [_, duration] = yield* measureDuration(
           Effect.gen(function* () {
-            const client = yield* HttpClient.HttpClient;
+            // Keep the injected traceparent of the message instead of the
+            // one of the client's own span
+            const client = (yield* HttpClient.HttpClient).pipe(
+              HttpClient.withTracerPropagation(false),
+            );
 
             const response = yield* client.execute(httpRequest).pipe(
               Effect.timeout(`${timeout} millis`),
@@ -0,0 +1,293 @@
+/**
+ * Kafka Output - Produces messages to Kafka topics
+ *
+ * The record value is the JSON content; metadata entries become record
+ * headers, except the `kafka_*` fields set by the Kafka input, next to the
+ * W3C `traceparent`/`tracestate` of the message. `topic` and
+ * `key` are templates, e.g. "orders-{{ meta.region }}".
+ *
+ * With `maxBatchSize` above 1 messages are collected and produced in one
+ * request once the batch is full or `batchTimeout` passed. `send` completes
+ * when its batch was written, so acknowledgements follow delivery.
+ */
+import { Effect, Schedule } from "effect";
+import * as Schema from "effect/Schema";
+import type { Message as KafkaRecord } from "kafkajs";
+import type { Output, Message } from "../core/types.js";
+import {
+  ComponentError,
+  type ErrorCategory,
+  detectCategory,
+} from "../core/errors.js";
+import {
+  MetricsAccumulator,
+  emitOutputMetrics,
+  measureDuration,
+} from "../core/metrics.js";
+import {
+  validate,
+  NonEmptyString,
+  PositiveInt,
+  RetryCount,
+} from "../core/validation.js";
+import { compileTemplate } from "../core/template.js";
+import { createBatcher } from "../core/batcher.js";
+import { injectTraceContext } from "../core/trace-context.js";
+import {
+  type KafkaConnectionConfig,
+  KafkaConnectionFields,
+  KafkaCompression,
+  createKafkaClient,
+  metadataToHeaders,
+} from "../core/kafka.js";
+
+export interface KafkaOutputConfig extends KafkaConnectionConfig {
+  readonly topic: string; // Topic template
+  readonly key?: string; // Record key template (default: no key)
+  readonly maxBatchSize?: number; // Messages per produce request (default: 1)
+  readonly batchTimeout?: number; // Max ms a batch waits to fill up (default: 100)
+  readonly acks?: -1 | 0 | 1; // Broker acknowledgements, -1 = all replicas (default: -1)
+  readonly compression?: "none" | "gzip"; // (default: "none")
+  readonly maxRetries?: number; // Retry count (default 3)
+}
+
+export class KafkaOutputError extends ComponentError {
+  readonly _tag = "KafkaOutputError";
+
+  constructor(
+    message: string,
+    readonly category: ErrorCategory,
+    cause?: unknown,
+  ) {
+    super(message, cause);
+  }
+}
+
+/**
+ * Validation schema for Kafka Output configuration
+ */
+export const KafkaOutputConfigSchema = Schema.Struct({
+  ...KafkaConnectionFields,
+  topic: NonEmptyString,
+  key: Schema.optional(NonEmptyString),
+  maxBatchSize: Schema.optional(PositiveInt),
+  batchTimeout: Schema.optional(PositiveInt),
+  acks: Schema.optional(Schema.Literal(-1, 0, 1)),
+  compression: Schema.optional(Schema.Literal("none", "gzip")),
+  maxRetries: Schema.optional(RetryCount),
+});
+
+/**
+ * A record waiting in the batch for its topic
+ */
+interface Pending {
+  readonly topic: string;
+  readonly record: KafkaRecord;
+}
+
+/**
+ * Metadata set by the Kafka input, which is not forwarded as headers
+ */
+const isKafkaField = (name: string) => name.startsWith("kafka_");
+
+/**
+ * Create a Kafka output destination
+ *
+ * @example
+ * ```typescript
+ * const output = createKafkaOutput({
+ *   brokers: ["localhost:9092"],
+ *   topic: "orders",
+ *   key: "{{ content.customerId }}",
+ *   maxBatchSize: 50,
+ * })
+ * ```
+ */
+export const createKafkaOutput = (
+  config: KafkaOutputConfig,
+): Output<KafkaOutputError> => {
+  // Validate configuration synchronously at creation time
+  Effect.runSync(
+    validate(
+      KafkaOutputConfigSchema,
+      { ...config, client: undefined },
+      "Kafka Output configuration",
+    ).pipe(
+      Effect.catchAll((error) =>
+        Effect.fail(new KafkaOutputError(error.message, error.category, error)),
+      ),
+    ),
+  );
+
+  const compile = (template: string, field: string) => {
+    try {
+      return compileTemplate(template);
+    } catch (error) {
+      throw new KafkaOutputError(
+        `Invalid ${field} template "${template}": ${error instanceof Error ? error.message : String(error)}`,
+        "logical",
+        error,
+      );
+    }
+  };
+  const renderTopic = compile(config.topic, "topic");
+  const renderKey = config.key ? compile(config.key, "key") : undefined;
+
+  const producer = createKafkaClient(config).producer();
+  const retryCount = config.maxRetries ?? 3;
+  const metrics = new MetricsAccumulator("kafka-output");
+
+  let connected = false;
+
+  const fail = (action: string, error: unknown) =>
+    new KafkaOutputError(
+      `Failed to ${action}: ${error instanceof Error ? error.message : String(error)}`,
+      detectCategory(error),
+      error,
+    );
+
+  /**
+   * Connect the producer before the first request
+   */
+  const connect = Effect.suspend(() =>
+    connected
+      ? Effect.void
+      : Effect.tryPromise({
+          try: () => {
+            metrics.trackConnection();
+            return producer.connect();
+          },
+          catch: (error) => fail("connect Kafka producer", error),
+        }).pipe(
+          Effect.tap(() =>
+            Effect.sync(() => {
+              connected = true;
+              metrics.recordConnected();
+            }),
+          ),
+          Effect.zipRight(Effect.logInfo("Connected Kafka producer")),
+        ),
+  );
+
+  /**
+   * Build the record for a message
+   */
+  const toRecord = (msg: Message) =>
+    Effect.tryPromise({
+      try: async () => {
+        const topic = await renderTopic(msg);
+        if (topic === "") {
+          throw new Error(`topic template rendered empty for ${msg.id}`);
+        }
+        const key = renderKey ? await renderKey(msg) : undefined;
+        const record: KafkaRecord = {
+          key: key === "" ? undefined : key,
+          value: JSON.stringify(msg.content),
+          headers: {
+            ...metadataToHeaders(
+              Object.fromEntries(
+                Object.entries(msg.metadata).filter(
+                  ([name]) => !isKafkaField(name),
+                ),
+              ),
+            ),
+            // Replaces a traceparent received as metadata
+            ...injectTraceContext(msg.trace),
+          },
+        };
+        return { topic, record };
+      },
+      catch: (error) =>
+        new KafkaOutputError(
+          `Failed to build Kafka record: ${error instanceof Error ? error.message : String(error)}`,
+          "logical",
+          error,
+        ),
+    });
+
+  /**
+   * Produce a batch in one request
+   */
+  const sendBatch = (pending: Pending[]) =>
+    Effect.gen(function* () {
+      const topicMessages = new Map<string, KafkaRecord[]>();
+      for (const { topic, record } of pending) {
+        topicMessages.set(topic, [...(topicMessages.get(topic) ?? []), record]);
+      }
+
+      const produce = connect.pipe(
+        Effect.zipRight(
+          Effect.tryPromise({
+            try: () =>
+              producer.sendBatch({
+                acks: config.acks ?? -1,
+                compression:
+                  config.compression === "gzip"
+                    ? KafkaCompression.gzip
+                    : KafkaCompression.none,
+                topicMessages: [...topicMessages].map(([topic, messages]) => ({
+                  topic,
+                  messages,
+                })),
+              }),
+            catch: (error) => fail("produce to Kafka", error),
+          }),
+        ),
+      );
+
+      const [, duration] = yield* measureDuration(
+        retryCount > 0
+          ? produce.pipe(
+              Effect.retry({
+                times: retryCount,
+                schedule: Schedule.exponential("1 second"),
+              }),
+            )
+          : produce,
+      ).pipe(
+        Effect.tapError((error) => {
+          metrics.recordSendError();
+          return Effect.logError(
+            `Kafka produce failed after ${retryCount} retries: ${error.message}`,
+          );
+        }),
+      );
+
+      metrics.recordBatch(pending.length, duration);
+
+      // Emit metrics every 10 batches
+      const metricsSnapshot = metrics.getOutputMetrics();
+      if (metricsSnapshot.batchesSent % 10 === 0) {
+        yield* emitOutputMetrics(metricsSnapshot);
+      }
+    });
+
+  const batcher = createBatcher({
+    maxBatchSize: config.maxBatchSize ?? 1,
+    batchTimeout: config.batchTimeout ?? 100,
+    send: sendBatch,
+  });
+
+  return {
+    name: "kafka-output",
+    metrics: () => metrics.getOutputMetrics(),
+    send: (msg: Message): Effect.Effect<void, KafkaOutputError> =>
+      toRecord(msg).pipe(Effect.flatMap(batcher.add)),
+    close: () =>
+      Effect.gen(function* () {
+        // Produce what is still batched
+        yield* batcher.flush;
+
+        // Emit final metrics
+        yield* emitOutputMetrics(metrics.getOutputMetrics());
+
+        if (connected) {
+          yield* Effect.tryPromise({
+            try: () => producer.disconnect(),
+            catch: (error) => fail("disconnect Kafka producer", error),
+          }).pipe(Effect.catchAll((error) => Effect.logWarning(error.message)));
+          metrics.recordDisconnected();
+        }
+      }),
+  };
+};
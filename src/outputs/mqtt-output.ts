@@ -0,0 +1,210 @@
+/**
+ * MQTT Output - Publishes messages to MQTT topics
+ *
+ * The payload is the JSON content. `topic` is a template, e.g.
+ * "devices/{{ content.deviceId }}/commands". QoS 1/2 sends complete once
+ * the broker acknowledged the message.
+ */
+import { Effect, Schedule } from "effect";
+import * as Schema from "effect/Schema";
+import type { MqttClient } from "mqtt";
+import type { Output, Message } from "../core/types.js";
+import { ComponentError, type ErrorCategory } from "../core/errors.js";
+import {
+  MetricsAccumulator,
+  emitOutputMetrics,
+  measureDuration,
+} from "../core/metrics.js";
+import { validate, NonEmptyString, RetryCount } from "../core/validation.js";
+import { compileTemplate } from "../core/template.js";
+import {
+  type MqttConnectionConfig,
+  type MqttQos,
+  MqttConnectionFields,
+  MqttQosSchema,
+  createMqttClient,
+  mqttErrorCategory,
+  openMqttClient,
+} from "../core/mqtt.js";
+
+export interface MqttOutputConfig extends MqttConnectionConfig {
+  readonly topic: string; // Topic template
+  readonly qos?: MqttQos; // (default: 1)
+  readonly retain?: boolean; // Broker keeps the last message per topic (default: false)
+  readonly maxRetries?: number; // Retry count (default 3)
+}
+
+export class MqttOutputError extends ComponentError {
+  readonly _tag = "MqttOutputError";
+
+  constructor(
+    message: string,
+    readonly category: ErrorCategory,
+    cause?: unknown,
+  ) {
+    super(message, cause);
+  }
+}
+
+/**
+ * Validation schema for MQTT Output configuration
+ */
+export const MqttOutputConfigSchema = Schema.Struct({
+  ...MqttConnectionFields,
+  topic: NonEmptyString,
+  qos: Schema.optional(MqttQosSchema),
+  retain: Schema.optional(Schema.Boolean),
+  maxRetries: Schema.optional(RetryCount),
+});
+
+/**
+ * Create an MQTT output
+ *
+ * @example
+ * ```typescript
+ * const output = createMqttOutput({
+ *   url: "mqtt://localhost:1883",
+ *   topic: "devices/{{ content.deviceId }}/state",
+ *   retain: true,
+ * })
+ * ```
+ */
+export const createMqttOutput = (
+  config: MqttOutputConfig,
+): Output<MqttOutputError> => {
+  // Validate configuration synchronously at creation time
+  Effect.runSync(
+    validate(MqttOutputConfigSchema, config, "MQTT Output configuration").pipe(
+      Effect.catchAll((error) =>
+        Effect.fail(new MqttOutputError(error.message, error.category, error)),
+      ),
+    ),
+  );
+
+  let renderTopic: (msg: Message) => Promise<string>;
+  try {
+    renderTopic = compileTemplate(config.topic);
+  } catch (error) {
+    throw new MqttOutputError(
+      `Invalid topic template "${config.topic}": ${error instanceof Error ? error.message : String(error)}`,
+      "logical",
+      error,
+    );
+  }
+
+  const qos = config.qos ?? 1;
+  const retain = config.retain ?? false;
+  const retryCount = config.maxRetries ?? 3;
+  const metrics = new MetricsAccumulator("mqtt-output");
+
+  // Connected or connecting client, shared by concurrent sends
+  let client: Promise<MqttClient> | undefined;
+
+  const fail = (action: string, error: unknown) =>
+    new MqttOutputError(
+      `Failed to ${action}: ${error instanceof Error ? error.message : String(error)}`,
+      mqttErrorCategory(error),
+      error,
+    );
+
+  /**
+   * Connect before the first publish; once connected, mqtt.js reconnects
+   * on its own and holds QoS 1/2 messages until then
+   */
+  const connect = Effect.tryPromise({
+    try: () =>
+      (client ??= (async () => {
+        const mqtt = await createMqttClient(config, metrics);
+        await openMqttClient(mqtt).catch((error) => {
+          client = undefined;
+          throw error;
+        });
+        return mqtt;
+      })()),
+    catch: (error) => fail(`connect to ${config.url}`, error),
+  });
+
+  /**
+   * Topic of a message; wildcards are only valid in subscriptions
+   */
+  const toTopic = (msg: Message) =>
+    Effect.tryPromise({
+      try: async () => {
+        const topic = await renderTopic(msg);
+        if (topic === "" || /[+#]/.test(topic)) {
+          throw new Error(`invalid topic "${topic}" for ${msg.id}`);
+        }
+        return topic;
+      },
+      catch: (error) =>
+        new MqttOutputError(
+          `Failed to render MQTT topic: ${error instanceof Error ? error.message : String(error)}`,
+          "logical",
+          error,
+        ),
+    });
+
+  return {
+    name: "mqtt-output",
+    metrics: () => metrics.getOutputMetrics(),
+    send: (msg: Message): Effect.Effect<void, MqttOutputError> =>
+      Effect.gen(function* () {
+        const topic = yield* toTopic(msg);
+        const payload = JSON.stringify(msg.content);
+
+        const publish = connect.pipe(
+          Effect.flatMap((mqtt) =>
+            Effect.tryPromise({
+              try: () => mqtt.publishAsync(topic, payload, { qos, retain }),
+              catch: (error) => fail(`publish to ${topic}`, error),
+            }),
+          ),
+        );
+
+        const [, duration] = yield* measureDuration(
+          retryCount > 0
+            ? publish.pipe(
+                Effect.retry({
+                  times: retryCount,
+                  schedule: Schedule.exponential("1 second"),
+                  while: (error) => error.category !== "fatal",
+                }),
+              )
+            : publish,
+        ).pipe(
+          Effect.tapError((error) => {
+            metrics.recordSendError();
+            return Effect.logError(error.message);
+          }),
+        );
+
+        metrics.recordSent(1, duration);
+
+        // Emit metrics every 100 messages
+        const metricsSnapshot = metrics.getOutputMetrics();
+        if (metricsSnapshot.messagesSent % 100 === 0) {
+          yield* emitOutputMetrics(metricsSnapshot);
+        }
+      }),
+    close: () =>
+      Effect.gen(function* () {
+        // Emit final metrics
+        yield* emitOutputMetrics(metrics.getOutputMetrics());
+
+        const pending = client;
+        client = undefined;
+        if (!pending) {
+          return;
+        }
+        // Waits for QoS 1/2 messages still in flight
+        yield* Effect.tryPromise({
+          try: () =>
+            pending.then(
+              (mqtt) => mqtt.endAsync(),
+              () => undefined, // Never connected
+            ),
+          catch: (error) => fail("disconnect from MQTT broker", error),
+        }).pipe(Effect.catchAll((error) => Effect.logWarning(error.message)));
+      }),
+  };
+};
@@ -0,0 +1,222 @@
+/**
+ * NATS JetStream Output - Publishes messages to JetStream streams
+ *
+ * The payload is the JSON content. `subject` is a template and must belong
+ * to a stream. Sends complete once the stream stored the message.
+ *
+ * Every message is published with its id as `Nats-Msg-Id`, so the stream
+ * drops a retried message that was stored before within its duplicate
+ * window.
+ */
+import { Effect, Schedule } from "effect";
+import * as Schema from "effect/Schema";
+import type { Output, Message } from "../core/types.js";
+import { ComponentError, type ErrorCategory } from "../core/errors.js";
+import {
+  MetricsAccumulator,
+  emitOutputMetrics,
+  measureDuration,
+} from "../core/metrics.js";
+import {
+  validate,
+  NonEmptyString,
+  RetryCount,
+  TimeoutMs,
+} from "../core/validation.js";
+import { compileTemplate } from "../core/template.js";
+import {
+  type NatsConnection,
+  type NatsConnectionConfig,
+  NatsConnectionFields,
+  connectNats,
+  isPublishSubject,
+  natsErrorCategory,
+  traceHeaders,
+} from "../core/nats.js";
+
+export interface NatsJetStreamOutputConfig extends NatsConnectionConfig {
+  readonly subject: string; // Subject template
+  readonly ackTimeout?: number; // ms to wait for the stream to store a message (default: 5000)
+  readonly maxRetries?: number; // Retry count (default 3)
+}
+
+export class NatsJetStreamOutputError extends ComponentError {
+  readonly _tag = "NatsJetStreamOutputError";
+
+  constructor(
+    message: string,
+    readonly category: ErrorCategory,
+    cause?: unknown,
+  ) {
+    super(message, cause);
+  }
+}
+
+/**
+ * Validation schema for NATS JetStream Output configuration
+ */
+export const NatsJetStreamOutputConfigSchema = Schema.Struct({
+  ...NatsConnectionFields,
+  subject: NonEmptyString,
+  ackTimeout: Schema.optional(TimeoutMs),
+  maxRetries: Schema.optional(RetryCount),
+});
+
+/**
+ * Create a NATS JetStream output
+ *
+ * @example
+ * ```typescript
+ * const output = createNatsJetStreamOutput({
+ *   urls: ["nats://localhost:4222"],
+ *   subject: "orders.{{ content.status }}",
+ * })
+ * ```
+ */
+export const createNatsJetStreamOutput = (
+  config: NatsJetStreamOutputConfig,
+): Output<NatsJetStreamOutputError> => {
+  // Validate configuration synchronously at creation time
+  Effect.runSync(
+    validate(
+      NatsJetStreamOutputConfigSchema,
+      { ...config, client: undefined },
+      "NATS JetStream Output configuration",
+    ).pipe(
+      Effect.catchAll((error) =>
+        Effect.fail(
+          new NatsJetStreamOutputError(error.message, error.category, error),
+        ),
+      ),
+    ),
+  );
+
+  let renderSubject: (msg: Message) => Promise<string>;
+  try {
+    renderSubject = compileTemplate(config.subject);
+  } catch (error) {
+    throw new NatsJetStreamOutputError(
+      `Invalid subject template "${config.subject}": ${error instanceof Error ? error.message : String(error)}`,
+      "logical",
+      error,
+    );
+  }
+
+  const ackTimeout = config.ackTimeout ?? 5000;
+  const retryCount = config.maxRetries ?? 3;
+  const metrics = new MetricsAccumulator("nats-jetstream-output");
+
+  // Connected or connecting client, shared by concurrent sends
+  let connection: Promise<NatsConnection> | undefined;
+
+  const fail = (action: string, error: unknown) =>
+    new NatsJetStreamOutputError(
+      `Failed to ${action}: ${error instanceof Error ? error.message : String(error)}`,
+      natsErrorCategory(error),
+      error,
+    );
+
+  /**
+   * Connect before the first send; the client reconnects on its own
+   */
+  const connect = Effect.tryPromise({
+    try: () =>
+      (connection ??= connectNats(config, metrics).catch((error) => {
+        connection = undefined;
+        throw error;
+      })),
+    catch: (error) => fail(`connect to ${config.urls.join(", ")}`, error),
+  });
+
+  const toSubject = (msg: Message) =>
+    Effect.tryPromise({
+      try: async () => {
+        const subject = await renderSubject(msg);
+        if (!isPublishSubject(subject)) {
+          throw new Error(`invalid subject "${subject}" for ${msg.id}`);
+        }
+        return subject;
+      },
+      catch: (error) =>
+        new NatsJetStreamOutputError(
+          `Failed to render NATS subject: ${error instanceof Error ? error.message : String(error)}`,
+          "logical",
+          error,
+        ),
+    });
+
+  return {
+    name: "nats-jetstream-output",
+    metrics: () => metrics.getOutputMetrics(),
+    send: (msg: Message): Effect.Effect<void, NatsJetStreamOutputError> =>
+      Effect.gen(function* () {
+        const subject = yield* toSubject(msg);
+        const payload = JSON.stringify(msg.content);
+
+        // Subjects without a stream fail with "no responders" and are
+        // retried, in case the stream is being created
+        const publish = connect.pipe(
+          Effect.flatMap((nc) =>
+            Effect.tryPromise({
+              try: () =>
+                nc.jetstream().publish(subject, payload, {
+                  msgID: msg.id,
+                  timeout: ackTimeout,
+                  headers: traceHeaders(msg),
+                }),
+              catch: (error) => fail(`publish to ${subject}`, error),
+            }),
+          ),
+        );
+
+        const [ack, duration] = yield* measureDuration(
+          retryCount > 0
+            ? publish.pipe(
+                Effect.retry({
+                  times: retryCount,
+                  schedule: Schedule.exponential("1 second"),
+                  while: (error) => error.category !== "fatal",
+                }),
+              )
+            : publish,
+        ).pipe(
+          Effect.tapError((error) => {
+            metrics.recordSendError();
+            return Effect.logError(error.message);
+          }),
+        );
+
+        if (ack.duplicate) {
+          yield* Effect.logDebug(
+            `Message ${msg.id} was already stored in stream ${ack.stream} at ${ack.seq}`,
+          );
+        }
+        metrics.recordSent(1, duration);
+
+        // Emit metrics every 100 messages
+        const metricsSnapshot = metrics.getOutputMetrics();
+        if (metricsSnapshot.messagesSent % 100 === 0) {
+          yield* emitOutputMetrics(metricsSnapshot);
+        }
+      }),
+    close: () =>
+      Effect.gen(function* () {
+        // Emit final metrics
+        yield* emitOutputMetrics(metrics.getOutputMetrics());
+
+        const pending = connection;
+        connection = undefined;
+        if (!pending) {
+          return;
+        }
+        yield* Effect.tryPromise({
+          try: () =>
+            pending.then(
+              (nc) => nc.drain(),
+              () => undefined, // Never connected
+            ),
+          catch: (error) => fail("drain NATS connection", error),
+        }).pipe(Effect.catchAll((error) => Effect.logWarning(error.message)));
+      }),
+  };
+};
@@ -0,0 +1,243 @@
+/**
+ * NATS Output - Publishes messages to core NATS subjects
+ *
+ * The payload is the JSON content. `subject` is a template, e.g.
+ * "orders.{{ content.region }}.created". Core NATS delivers at most once,
+ * to the subscribers listening at that moment.
+ *
+ * With `request` enabled every message is sent as a request and the send
+ * completes once a subscriber replied, e.g. a NATS input of another
+ * pipeline that delivered it. Replies with a `Nats-Service-Error` header,
+ * timeouts and subjects without subscribers fail the send.
+ */
+import { Effect, Schedule } from "effect";
+import * as Schema from "effect/Schema";
+import type { Output, Message } from "../core/types.js";
+import { ComponentError, type ErrorCategory } from "../core/errors.js";
+import {
+  MetricsAccumulator,
+  emitOutputMetrics,
+  measureDuration,
+} from "../core/metrics.js";
+import {
+  validate,
+  NonEmptyString,
+  RetryCount,
+  TimeoutMs,
+} from "../core/validation.js";
+import { compileTemplate } from "../core/template.js";
+import {
+  type NatsConnection,
+  type NatsConnectionConfig,
+  NatsConnectionFields,
+  connectNats,
+  isPublishSubject,
+  natsErrorCategory,
+  requireNats,
+  traceHeaders,
+} from "../core/nats.js";
+
+export interface NatsOutputConfig extends NatsConnectionConfig {
+  readonly subject: string; // Subject template
+  readonly request?: boolean; // Wait for a reply to every message (default: false)
+  readonly requestTimeout?: number; // Reply timeout in ms (default: 5000)
+  readonly maxRetries?: number; // Retry count (default 3)
+}
+
+export class NatsOutputError extends ComponentError {
+  readonly _tag = "NatsOutputError";
+
+  constructor(
+    message: string,
+    readonly category: ErrorCategory,
+    cause?: unknown,
+  ) {
+    super(message, cause);
+  }
+}
+
+/**
+ * Validation schema for NATS Output configuration
+ */
+export const NatsOutputConfigSchema = Schema.Struct({
+  ...NatsConnectionFields,
+  subject: NonEmptyString,
+  request: Schema.optional(Schema.Boolean),
+  requestTimeout: Schema.optional(TimeoutMs),
+  maxRetries: Schema.optional(RetryCount),
+});
+
+/**
+ * Create a NATS output
+ *
+ * @example
+ * ```typescript
+ * const output = createNatsOutput({
+ *   urls: ["nats://localhost:4222"],
+ *   subject: "orders.{{ content.region }}",
+ * })
+ * ```
+ */
+export const createNatsOutput = (
+  config: NatsOutputConfig,
+): Output<NatsOutputError> => {
+  // Validate configuration synchronously at creation time
+  Effect.runSync(
+    validate(
+      NatsOutputConfigSchema,
+      { ...config, client: undefined },
+      "NATS Output configuration",
+    ).pipe(
+      Effect.catchAll((error) =>
+        Effect.fail(new NatsOutputError(error.message, error.category, error)),
+      ),
+    ),
+  );
+
+  let renderSubject: (msg: Message) => Promise<string>;
+  try {
+    renderSubject = compileTemplate(config.subject);
+  } catch (error) {
+    throw new NatsOutputError(
+      `Invalid subject template "${config.subject}": ${error instanceof Error ? error.message : String(error)}`,
+      "logical",
+      error,
+    );
+  }
+
+  const requestTimeout = config.requestTimeout ?? 5000;
+  const retryCount = config.maxRetries ?? 3;
+  const metrics = new MetricsAccumulator("nats-output");
+
+  // Connected or connecting client, shared by concurrent sends
+  let connection: Promise<NatsConnection> | undefined;
+
+  const fail = (action: string, error: unknown) =>
+    new NatsOutputError(
+      `Failed to ${action}: ${error instanceof Error ? error.message : String(error)}`,
+      natsErrorCategory(error),
+      error,
+    );
+
+  /**
+   * Connect before the first send; the client reconnects on its own
+   */
+  const connect = Effect.tryPromise({
+    try: () =>
+      (connection ??= connectNats(config, metrics).catch((error) => {
+        connection = undefined;
+        throw error;
+      })),
+    catch: (error) => fail(`connect to ${config.urls.join(", ")}`, error),
+  });
+
+  const toSubject = (msg: Message) =>
+    Effect.tryPromise({
+      try: async () => {
+        const subject = await renderSubject(msg);
+        if (!isPublishSubject(subject)) {
+          throw new Error(`invalid subject "${subject}" for ${msg.id}`);
+        }
+        return subject;
+      },
+      catch: (error) =>
+        new NatsOutputError(
+          `Failed to render NATS subject: ${error instanceof Error ? error.message : String(error)}`,
+          "logical",
+          error,
+        ),
+    });
+
+  /**
+   * Send a request and check the reply for a service error
+   */
+  const request = (
+    nc: NatsConnection,
+    subject: string,
+    payload: string,
+    msg: Message,
+  ) =>
+    Effect.tryPromise({
+      try: async () => {
+        const reply = await nc.request(subject, payload, {
+          timeout: requestTimeout,
+          headers: traceHeaders(msg),
+        });
+        const error = reply.headers?.get(requireNats().ServiceErrorHeader);
+        if (error) {
+          throw new Error(`${subject} replied with error: ${error}`);
+        }
+      },
+      catch: (error) => fail(`request ${subject}`, error),
+    });
+
+  return {
+    name: "nats-output",
+    metrics: () => metrics.getOutputMetrics(),
+    send: (msg: Message): Effect.Effect<void, NatsOutputError> =>
+      Effect.gen(function* () {
+        const subject = yield* toSubject(msg);
+        const payload = JSON.stringify(msg.content);
+
+        // Headers are built once connected, when nats was loaded
+        const send = connect.pipe(
+          Effect.flatMap((nc) =>
+            config.request
+              ? request(nc, subject, payload, msg)
+              : Effect.try({
+                  try: () =>
+                    nc.publish(subject, payload, {
+                      headers: traceHeaders(msg),
+                    }),
+                  catch: (error) => fail(`publish to ${subject}`, error),
+                }),
+          ),
+        );
+
+        const [, duration] = yield* measureDuration(
+          retryCount > 0
+            ? send.pipe(
+                Effect.retry({
+                  times: retryCount,
+                  schedule: Schedule.exponential("1 second"),
+                  while: (error) => error.category !== "fatal",
+                }),
+              )
+            : send,
+        ).pipe(
+          Effect.tapError((error) => {
+            metrics.recordSendError();
+            return Effect.logError(error.message);
+          }),
+        );
+
+        metrics.recordSent(1, duration);
+
+        // Emit metrics every 100 messages
+        const metricsSnapshot = metrics.getOutputMetrics();
+        if (metricsSnapshot.messagesSent % 100 === 0) {
+          yield* emitOutputMetrics(metricsSnapshot);
+        }
+      }),
+    close: () =>
+      Effect.gen(function* () {
+        // Emit final metrics
+        yield* emitOutputMetrics(metrics.getOutputMetrics());
+
+        const pending = connection;
+        connection = undefined;
+        if (!pending) {
+          return;
+        }
+        // Flushes messages still buffered by the client
+        yield* Effect.tryPromise({
+          try: () =>
+            pending.then(
+              (nc) => nc.drain(),
+              () => undefined, // Never connected
+            ),
+          catch: (error) => fail("drain NATS connection", error),
+        }).pipe(Effect.catchAll((error) => Effect.logWarning(error.message)));
+      }),
+  };
+};
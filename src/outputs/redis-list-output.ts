@@ -5,6 +5,7 @@ import { Effect, Schedule } from "effect";
 import * as Schema from "effect/Schema";
 import Redis from "ioredis";
 import type { Output, Message } from "../core/types.js";
+import { injectTraceContext } from "../core/trace-context.js";
 import {
   ComponentError,
   type ErrorCategory,
@@ -146,6 +147,7 @@ export const createRedisListOutput = (
 
   return {
     name: "redis-list-output",
+    metrics: () => metrics.getOutputMetrics(),
     send: (msg: Message): Effect.Effect<void, RedisListOutputError> => {
       return Effect.gen(function* () {
         // Log connection on first send (INFO level)
@@ -161,7 +163,7 @@ export const createRedisListOutput = (
           timestamp: msg.timestamp,
           content: msg.content,
           metadata: msg.metadata,
-          trace: msg.trace,
+          ...injectTraceContext(msg.trace),
         });
 
         // Push with retry logic
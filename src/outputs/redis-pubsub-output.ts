@@ -5,6 +5,7 @@ import { Effect, Schedule } from "effect";
 import * as Schema from "effect/Schema";
 import Redis from "ioredis";
 import type { Output, Message } from "../core/types.js";
+import { injectTraceContext } from "../core/trace-context.js";
 import {
   ComponentError,
   type ErrorCategory,
@@ -138,6 +139,7 @@ export const createRedisPubSubOutput = (
 
   return {
     name: "redis-pubsub-output",
+    metrics: () => metrics.getOutputMetrics(),
     send: (msg: Message): Effect.Effect<void, RedisPubSubOutputError> => {
       return Effect.gen(function* () {
         // Log connection on first send (INFO level)
@@ -153,7 +155,7 @@ export const createRedisPubSubOutput = (
           timestamp: msg.timestamp,
           content: msg.content,
           metadata: msg.metadata,
-          trace: msg.trace,
+          ...injectTraceContext(msg.trace),
         });
 
         // Publish with retry logic
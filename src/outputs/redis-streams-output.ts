@@ -5,6 +5,7 @@ import { Effect, Schedule } from "effect";
 import * as Schema from "effect/Schema";
 import Redis from "ioredis";
 import type { Output, Message } from "../core/types.js";
+import { injectTraceContext } from "../core/trace-context.js";
 import {
   ComponentError,
   type ErrorCategory,
@@ -118,6 +119,7 @@ export const createRedisStreamsOutput = (
 
   return {
     name: "redis-streams-output",
+    metrics: () => metrics.getOutputMetrics(),
     send: (msg: Message): Effect.Effect<void, RedisOutputError> => {
       return Effect.gen(function* () {
         // Log connection on first send (INFO level)
@@ -130,8 +132,8 @@ export const createRedisStreamsOutput = (
           timestamp: msg.timestamp.toString(),
           content: JSON.stringify(msg.content),
           metadata: JSON.stringify(msg.metadata),
-          // Preserve trace context
-          trace: msg.trace ? JSON.stringify(msg.trace) : "",
+          // Preserve trace context as W3C traceparent/tracestate fields
+          ...injectTraceContext(msg.trace),
         };
 
         // Send with retry logic
@@ -1,7 +1,11 @@
 /**
  * SQS Output - Sends messages to AWS SQS (works with LocalStack)
+ *
+ * With `maxBatchSize` above 1 messages are collected and sent in one
+ * request once the batch is full or `batchTimeout` passed. `send` completes
+ * when its batch was sent, so acknowledgements follow delivery.
  */
-import { Effect, Ref, Schedule, Fiber, Duration } from "effect";
+import { Effect, Schedule } from "effect";
 import * as Schema from "effect/Schema";
 import {
   SQSClient,
@@ -21,6 +25,8 @@ import {
   emitOutputMetrics,
   measureDuration,
 } from "../core/metrics.js";
+import { injectTraceContext } from "../core/trace-context.js";
+import { createBatcher } from "../core/batcher.js";
 import {
   validate,
   NonEmptyString,
@@ -38,7 +44,7 @@ export interface SqsOutputConfig {
   readonly maxBatchSize?: number; // 1 = single sends, up to 10 for batch
   readonly delaySeconds?: number; // Optional message delay
   readonly maxRetries?: number; // Retry count (default 3)
-  readonly batchTimeout?: number; // Timeout in milliseconds to auto-flush batch (default: no timeout)
+  readonly batchTimeout?: number; // Max ms a batch waits to fill up (default: 100)
   // Connection configuration
   readonly maxAttempts?: number; // Max retry attempts (default: 3)
   readonly requestTimeout?: number; // Request timeout in ms (default: 0 = no timeout)
@@ -88,9 +94,13 @@ const serializeMessage = (
       ? { StringValue: msg.correlationId, DataType: "String" }
       : undefined,
     metadata: { StringValue: JSON.stringify(msg.metadata), DataType: "String" },
-    trace: msg.trace
-      ? { StringValue: JSON.stringify(msg.trace), DataType: "String" }
-      : undefined,
+    // W3C traceparent/tracestate
+    ...Object.fromEntries(
+      Object.entries(injectTraceContext(msg.trace)).map(([name, value]) => [
+        name,
+        { StringValue: value, DataType: "String" },
+      ]),
+    ),
   },
   delay: delaySeconds,
 });
@@ -136,6 +146,7 @@ export const createSqsOutput = (
 
     return {
       name: "sqs-output",
+      metrics: () => metrics.getOutputMetrics(),
       send: (msg: Message): Effect.Effect<void, SqsOutputError> =>
         Effect.gen(function* () {
           const serialized = serializeMessage(msg, config.delaySeconds);
@@ -207,20 +218,12 @@ export const createSqsOutput = (
   }
 
   // Batch mode (accumulate and send)
-  // Use unsafeMake to create Ref synchronously
-  const batchRef = Ref.unsafeMake<Message[]>([]);
-  const timeoutFiberRef = Ref.unsafeMake<Fiber.RuntimeFiber<
-    void,
-    SqsOutputError
-  > | null>(null);
   const metrics = new MetricsAccumulator("sqs-output");
 
   const sendBatch = (
     messages: Message[],
   ): Effect.Effect<void, SqsOutputError> =>
     Effect.gen(function* () {
-      if (messages.length === 0) return;
-
       yield* Effect.logDebug(
         `Sending batch of ${messages.length} messages to SQS`,
       );
@@ -291,88 +294,23 @@ export const createSqsOutput = (
       }
     });
 
-  // Flush the current batch and cancel any pending timeout
-  const flushBatch = Effect.gen(function* () {
-    // Clear timeout fiber reference first, then interrupt
-    const timeoutFiber = yield* Ref.getAndSet(timeoutFiberRef, null);
-    if (timeoutFiber) {
-      yield* Fiber.interrupt(timeoutFiber);
-    }
-
-    // Get and clear batch
-    const batch = yield* Ref.getAndSet(batchRef, []);
-    if (batch.length > 0) {
-      yield* sendBatch(batch);
-    }
-  });
-
-  // Start timeout fiber for batch flush
-  const startBatchTimeout = Effect.gen(function* () {
-    if (!config.batchTimeout) return;
-
-    // Only start timeout if no fiber is running
-    const existing = yield* Ref.get(timeoutFiberRef);
-    if (existing) return;
-
-    const timeoutEffect = Effect.gen(function* () {
-      yield* Effect.sleep(Duration.millis(config.batchTimeout!));
-      yield* Effect.logDebug(
-        `Batch timeout reached (${config.batchTimeout}ms), flushing batch`,
-      );
-
-      // Flush batch on timeout
-      const batch = yield* Ref.getAndSet(batchRef, []);
-      if (batch.length > 0) {
-        yield* sendBatch(batch);
-      }
-
-      // Clear timeout fiber reference
-      yield* Ref.set(timeoutFiberRef, null);
-    });
-
-    // Fork daemon fiber to outlive parent scope
-    const fiber = yield* Effect.forkDaemon(timeoutEffect);
-    yield* Ref.set(timeoutFiberRef, fiber);
+  const batcher = createBatcher({
+    maxBatchSize: batchSize,
+    batchTimeout: config.batchTimeout ?? 100,
+    send: sendBatch,
   });
 
   return {
     name: "sqs-output",
+    metrics: () => metrics.getOutputMetrics(),
     send: (msg: Message): Effect.Effect<void, SqsOutputError> =>
-      Effect.gen(function* () {
-        yield* Effect.logInfo(`Connected to SQS queue: ${config.queueUrl}`);
-
-        // Add message to batch atomically
-        const oldBatch = yield* Ref.get(batchRef);
-        const wasEmpty = oldBatch.length === 0;
-
-        const newBatch = yield* Ref.updateAndGet(batchRef, (batch) => [
-          ...batch,
-          msg,
-        ]);
-
-        // Start timeout if this is the first message in an empty batch
-        if (wasEmpty && config.batchTimeout) {
-          yield* startBatchTimeout;
-        }
-
-        // Send if batch is full
-        if (newBatch.length >= batchSize) {
-          yield* flushBatch;
-        }
-      }),
+      Effect.logInfo(`Connected to SQS queue: ${config.queueUrl}`).pipe(
+        Effect.zipRight(batcher.add(msg)),
+      ),
     close: () =>
       Effect.gen(function* () {
-        // Cancel any pending timeout
-        const timeoutFiber = yield* Ref.get(timeoutFiberRef);
-        if (timeoutFiber) {
-          yield* Fiber.interrupt(timeoutFiber);
-        }
-
-        // Flush remaining messages
-        const remaining = yield* Ref.get(batchRef);
-        if (remaining.length > 0) {
-          yield* sendBatch(remaining).pipe(Effect.catchAll(() => Effect.void));
-        }
+        // Send what is still batched; failures reach the waiting senders
+        yield* batcher.flush;
 
         // Emit final metrics
         yield* emitOutputMetrics(metrics.getOutputMetrics());
@@ -0,0 +1,132 @@
+/**
+ * Stdout Output - Writes message content to standard output
+ *
+ * Formats:
+ * - compact: one JSON document per line (JSON Lines)
+ * - pretty: indented JSON documents
+ * - raw: string content as-is, other content as compact JSON
+ *
+ * Only the content is written, so the output can be piped to other tools:
+ *   cat events.jsonl | effect-connect run transform.yaml > out.jsonl
+ */
+import { Effect } from "effect";
+import * as Schema from "effect/Schema";
+import type { Writable } from "node:stream";
+import type { Output, Message } from "../core/types.js";
+import { ComponentError, type ErrorCategory } from "../core/errors.js";
+import {
+  MetricsAccumulator,
+  emitOutputMetrics,
+  measureDuration,
+} from "../core/metrics.js";
+import { validate } from "../core/validation.js";
+
+export interface StdoutOutputConfig {
+  readonly format?: "compact" | "pretty" | "raw"; // (default: "compact")
+  readonly sink?: Writable; // Stream to write (default: process.stdout)
+}
+
+export class StdoutOutputError extends ComponentError {
+  readonly _tag = "StdoutOutputError";
+
+  constructor(
+    message: string,
+    readonly category: ErrorCategory,
+    cause?: unknown,
+  ) {
+    super(message, cause);
+  }
+}
+
+/**
+ * Validation schema for Stdout Output configuration
+ */
+export const StdoutOutputConfigSchema = Schema.Struct({
+  format: Schema.optional(Schema.Literal("compact", "pretty", "raw")),
+});
+
+/**
+ * Serialize message content in the configured format
+ */
+const serializeContent = (
+  msg: Message,
+  format: "compact" | "pretty" | "raw",
+): string => {
+  if (format === "raw" && typeof msg.content === "string") {
+    return msg.content;
+  }
+  return format === "pretty"
+    ? JSON.stringify(msg.content, null, 2)
+    : JSON.stringify(msg.content);
+};
+
+/**
+ * Create a stdout output
+ *
+ * @example
+ * ```typescript
+ * const output = createStdoutOutput({ format: "pretty" })
+ * ```
+ */
+export const createStdoutOutput = (
+  config: StdoutOutputConfig = {},
+): Output<StdoutOutputError> => {
+  // Validate configuration synchronously at creation time
+  Effect.runSync(
+    validate(
+      StdoutOutputConfigSchema,
+      { format: config.format },
+      "Stdout Output configuration",
+    ).pipe(
+      Effect.catchAll((error) =>
+        Effect.fail(
+          new StdoutOutputError(error.message, error.category, error),
+        ),
+      ),
+    ),
+  );
+
+  const format = config.format ?? "compact";
+  const sink = config.sink ?? process.stdout;
+  const metrics = new MetricsAccumulator("stdout-output");
+
+  // Write errors are reported through write callbacks; without a listener
+  // a closed pipe would crash the process
+  if (sink.listenerCount("error") === 0) {
+    sink.on("error", () => undefined);
+  }
+
+  return {
+    name: "stdout-output",
+    metrics: () => metrics.getOutputMetrics(),
+    send: (msg: Message): Effect.Effect<void, StdoutOutputError> =>
+      Effect.gen(function* () {
+        const data = `${serializeContent(msg, format)}\n`;
+
+        // Wait for the write so a slow reader applies backpressure
+        const [, duration] = yield* measureDuration(
+          Effect.async<void, StdoutOutputError>((resume) => {
+            sink.write(data, (error) =>
+              resume(
+                error
+                  ? Effect.fail(
+                      new StdoutOutputError(
+                        `Failed to write to stdout: ${error.message}`,
+                        // A closed pipe (e.g. `| head`) will not recover
+                        "fatal",
+                        error,
+                      ),
+                    )
+                  : Effect.void,
+              ),
+            );
+          }),
+        ).pipe(
+          Effect.tapError(() => Effect.sync(() => metrics.recordSendError())),
+        );
+
+        metrics.recordSent(1, duration);
+      }),
+    close: () => emitOutputMetrics(metrics.getOutputMetrics()),
+  };
+};
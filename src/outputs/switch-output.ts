@@ -0,0 +1,171 @@
+/**
+ * Switch Output - Content-based routing to different outputs
+ *
+ * The switch output evaluates JSONata expressions against the message
+ * and sends it to the first matching case's output. A case with
+ * `continue: true` also lets the following cases be checked, so one
+ * message can reach several outputs.
+ *
+ * Example use case: Send order events to SQS and audit events to Redis
+ */
+import { Effect } from "effect";
+import jsonata from "jsonata";
+import type { Output, Message } from "../core/types.js";
+import {
+  ComponentError,
+  type ErrorCategory,
+  detectCategory,
+} from "../core/errors.js";
+import { combineOutputMetrics } from "../core/metrics.js";
+
+export interface SwitchOutputCase {
+  readonly check: string; // JSONata boolean expression
+  readonly output: Output<any>;
+  readonly continue?: boolean; // Keep checking later cases after a match (default: false)
+}
+
+export interface SwitchOutputConfig {
+  readonly cases: readonly SwitchOutputCase[];
+}
+
+export class SwitchOutputError extends ComponentError {
+  readonly _tag = "SwitchOutputError";
+
+  constructor(
+    message: string,
+    readonly category: ErrorCategory,
+    cause?: unknown,
+  ) {
+    super(message, cause);
+  }
+}
+
+/**
+ * Create a switch output
+ * Evaluates cases in order and sends to every matching case's output
+ * until a match without `continue`
+ */
+export const createSwitchOutput = (
+  config: SwitchOutputConfig,
+): Output<SwitchOutputError> => {
+  if (config.cases.length === 0) {
+    throw new SwitchOutputError(
+      "Switch output requires at least one case",
+      "logical",
+    );
+  }
+
+  // Pre-compile all JSONata check expressions
+  const compiledCases = config.cases.map((switchCase) => {
+    try {
+      return {
+        check: jsonata(switchCase.check),
+        output: switchCase.output,
+        continue: switchCase.continue ?? false,
+      };
+    } catch (error) {
+      throw new SwitchOutputError(
+        `Failed to compile switch check expression "${switchCase.check}": ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        "logical",
+        error,
+      );
+    }
+  });
+
+  return {
+    name: "switch-output",
+    send: (msg: Message): Effect.Effect<void, SwitchOutputError> =>
+      Effect.gen(function* () {
+        // Prepare context for JSONata evaluation
+        const context =
+          typeof msg.content === "object" && msg.content !== null
+            ? msg.content
+            : { value: msg.content };
+
+        // Special variables are bound per evaluation, as messages are
+        // routed concurrently through the same compiled checks
+        const bindings = {
+          message: {
+            id: msg.id,
+            timestamp: msg.timestamp,
+            correlationId: msg.correlationId,
+          },
+          meta: msg.metadata,
+        };
+
+        let matched = false;
+
+        for (const compiledCase of compiledCases) {
+          // Evaluate the check expression
+          const matches = yield* Effect.tryPromise({
+            try: async () => {
+              const result = await compiledCase.check.evaluate(
+                context,
+                bindings,
+              );
+              // Coerce to boolean
+              return Boolean(result);
+            },
+            catch: (error) =>
+              new SwitchOutputError(
+                `Failed to evaluate switch check: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+                "logical",
+                error,
+              ),
+          });
+
+          if (!matches) {
+            continue;
+          }
+
+          matched = true;
+          yield* compiledCase.output
+            .send(msg)
+            .pipe(
+              Effect.mapError(
+                (error) =>
+                  new SwitchOutputError(
+                    `Switch output ${compiledCase.output.name} failed: ${
+                      error instanceof Error ? error.message : String(error)
+                    }`,
+                    error instanceof ComponentError
+                      ? error.category
+                      : detectCategory(error),
+                    error,
+                  ),
+              ),
+            );
+
+          if (!compiledCase.continue) {
+            break;
+          }
+        }
+
+        // No case matched - the message is dropped
+        if (!matched) {
+          yield* Effect.logDebug(
+            `Message ${msg.id} matched no switch case, dropping`,
+          );
+        }
+      }),
+    close: () =>
+      Effect.gen(function* () {
+        for (const compiledCase of compiledCases) {
+          if (compiledCase.output.close) {
+            yield* compiledCase.output.close();
+          }
+        }
+      }),
+    metrics: () =>
+      combineOutputMetrics(
+        "switch-output",
+        compiledCases.flatMap((compiledCase) =>
+          compiledCase.output.metrics ? [compiledCase.output.metrics()] : [],
+        ),
+      ),
+  };
+};
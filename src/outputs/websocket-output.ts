@@ -0,0 +1,227 @@
+/**
+ * WebSocket Output - Sends each message as a frame to a WebSocket server
+ *
+ * The connection is opened on the first send and shared by all sends. A
+ * lost connection is reopened by the next send; failed sends are retried
+ * with exponential backoff. `ws` is an optional peer dependency, loaded
+ * on the first send.
+ *
+ * Formats:
+ * - json: content as a JSON text frame
+ * - raw: string content as-is, other content as JSON
+ */
+import { Effect, Schedule } from "effect";
+import * as Schema from "effect/Schema";
+import type { WebSocket } from "ws";
+import type { Output, Message } from "../core/types.js";
+import { ComponentError, type ErrorCategory } from "../core/errors.js";
+import {
+  MetricsAccumulator,
+  emitOutputMetrics,
+  measureDuration,
+} from "../core/metrics.js";
+import {
+  validate,
+  NonEmptyString,
+  RetryCount,
+  TimeoutMs,
+} from "../core/validation.js";
+import {
+  MissingDependencyError,
+  loadOptionalDependency,
+} from "../core/optional-dependency.js";
+
+export interface WebSocketOutputConfig {
+  readonly url: string; // ws:// or wss:// URL to connect to
+  readonly headers?: Record<string, string>; // Handshake headers, e.g. Authorization
+  readonly format?: "json" | "raw"; // (default: "json")
+  readonly connectionTimeout?: number; // Handshake timeout in ms (default: 10000)
+  readonly maxRetries?: number; // Retries of a failed send (default 3)
+}
+
+export class WebSocketOutputError extends ComponentError {
+  readonly _tag = "WebSocketOutputError";
+
+  constructor(
+    message: string,
+    readonly category: ErrorCategory,
+    cause?: unknown,
+  ) {
+    super(message, cause);
+  }
+}
+
+/**
+ * Validation schema for WebSocket Output configuration
+ */
+export const WebSocketOutputConfigSchema = Schema.Struct({
+  url: NonEmptyString,
+  headers: Schema.optional(
+    Schema.Record({ key: Schema.String, value: Schema.String }),
+  ),
+  format: Schema.optional(Schema.Literal("json", "raw")),
+  connectionTimeout: Schema.optional(TimeoutMs),
+  maxRetries: Schema.optional(RetryCount),
+});
+
+/**
+ * Create a WebSocket output
+ *
+ * @example
+ * ```typescript
+ * const output = createWebSocketOutput({
+ *   url: "wss://ingest.vendor.com/events",
+ *   headers: { Authorization: "Bearer secret" },
+ * })
+ * ```
+ */
+export const createWebSocketOutput = (
+  config: WebSocketOutputConfig,
+): Output<WebSocketOutputError> => {
+  // Validate configuration synchronously at creation time
+  Effect.runSync(
+    validate(
+      WebSocketOutputConfigSchema,
+      config,
+      "WebSocket Output configuration",
+    ).pipe(
+      Effect.catchAll((error) =>
+        Effect.fail(
+          new WebSocketOutputError(error.message, error.category, error),
+        ),
+      ),
+    ),
+  );
+
+  const format = config.format ?? "json";
+  const retryCount = config.maxRetries ?? 3;
+  const metrics = new MetricsAccumulator("websocket-output");
+
+  // Open or opening connection, shared by concurrent sends
+  let connection: Promise<WebSocket> | undefined;
+  let connects = 0;
+
+  /**
+   * Open a connection; it is dropped once it closes so the next send
+   * reconnects
+   */
+  const open = (ws: typeof import("ws")): Promise<WebSocket> =>
+    new Promise<WebSocket>((resolve, reject) => {
+      metrics.trackConnection();
+      const socket = new ws.WebSocket(config.url, {
+        headers: config.headers,
+        handshakeTimeout: config.connectionTimeout ?? 10000,
+      });
+      let opened = false;
+
+      socket.once("open", () => {
+        opened = true;
+        if (connects++ > 0) {
+          metrics.recordReconnect();
+        }
+        metrics.recordConnected();
+        resolve(socket);
+      });
+      socket.on("error", (error) => {
+        if (!opened) {
+          reject(error);
+        }
+      });
+      socket.once("close", () => {
+        if (opened) {
+          metrics.recordDisconnected();
+        } else {
+          reject(new Error(`closed before the connection was established`));
+        }
+        connection = undefined;
+      });
+    });
+
+  const connect = (): Promise<WebSocket> =>
+    (connection ??= loadOptionalDependency(
+      "ws",
+      "the WebSocket components",
+      () => import("ws"),
+    ).then(open));
+
+  const serialize = (msg: Message): string =>
+    format === "raw" && typeof msg.content === "string"
+      ? msg.content
+      : JSON.stringify(msg.content);
+
+  /**
+   * Send one frame, resolved once it was written to the socket
+   */
+  const sendFrame = (frame: string) =>
+    Effect.tryPromise({
+      try: async () => {
+        const socket = await connect();
+        await new Promise<void>((resolve, reject) =>
+          socket.send(frame, (error) => (error ? reject(error) : resolve())),
+        );
+      },
+      catch: (error) =>
+        new WebSocketOutputError(
+          `Failed to send to ${config.url}: ${error instanceof Error ? error.message : String(error)}`,
+          error instanceof MissingDependencyError
+            ? error.category
+            : "intermittent",
+          error,
+        ),
+    });
+
+  return {
+    name: "websocket-output",
+    metrics: () => metrics.getOutputMetrics(),
+    send: (msg: Message): Effect.Effect<void, WebSocketOutputError> =>
+      Effect.gen(function* () {
+        const frame = serialize(msg);
+        const send = sendFrame(frame);
+
+        const [, duration] = yield* measureDuration(
+          retryCount > 0
+            ? send.pipe(
+                Effect.retry({
+                  times: retryCount,
+                  schedule: Schedule.exponential("1 second"),
+                }),
+              )
+            : send,
+        ).pipe(
+          Effect.tapError((error) => {
+            metrics.recordSendError();
+            return Effect.logError(error.message);
+          }),
+        );
+
+        metrics.recordSent(1, duration);
+
+        // Emit metrics every 100 messages
+        const metricsSnapshot = metrics.getOutputMetrics();
+        if (metricsSnapshot.messagesSent % 100 === 0) {
+          yield* emitOutputMetrics(metricsSnapshot);
+        }
+      }),
+    close: () =>
+      Effect.gen(function* () {
+        // Emit final metrics
+        yield* emitOutputMetrics(metrics.getOutputMetrics());
+
+        const pending = connection;
+        connection = undefined;
+        if (!pending) {
+          return;
+        }
+        yield* Effect.promise(() =>
+          pending.then(
+            (socket) =>
+              new Promise<void>((resolve) => {
+                socket.once("close", () => resolve());
+                socket.close(1000);
+              }),
+            () => undefined,
+          ),
+        );
+      }),
+  };
+};
@@ -6,6 +6,9 @@
  * This is useful for API enrichment patterns where you want to preserve
  * the original message content while adding enrichment data.
  *
+ * If a nested processor drops the branch message, the original message
+ * passes through without a branch result.
+ *
  * Example use case: Enrich user data from external API without modifying original message
  */
 import { Effect } from "effect";
@@ -40,6 +43,12 @@ export const createBranchProcessor = (
           const result: Message | Message[] = yield* processor.process(
             processedBranchMessage,
           );
+
+          // The branch was filtered out - keep the original message as is
+          if (Array.isArray(result) && result.length === 0) {
+            return originalMessage;
+          }
+
           // If processor returns array, take first message (branches don't split)
           processedBranchMessage = Array.isArray(result) ? result[0] : result;
         }
@@ -58,5 +67,12 @@ export const createBranchProcessor = (
         };
       });
     },
+    // Nested processors are closed with the branch
+    close: () =>
+      Effect.forEach(
+        config.processors,
+        (processor) => (processor.close ? processor.close() : Effect.void),
+        { discard: true },
+      ),
   };
 };
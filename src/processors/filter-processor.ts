@@ -0,0 +1,82 @@
+/**
+ * Filter Processor - Drops messages that do not match a JSONata expression
+ *
+ * Messages for which the check is truthy pass through unchanged, all
+ * others are removed from the stream (the processor returns no messages).
+ *
+ * Example use case: Only forward orders above a threshold
+ */
+import { Effect } from "effect";
+import jsonata from "jsonata";
+import type { Processor, Message } from "../core/types.js";
+
+export interface FilterProcessorConfig {
+  readonly check: string; // JSONata boolean expression, keep the message when truthy
+}
+
+export class FilterError {
+  readonly _tag = "FilterError";
+  constructor(
+    readonly message: string,
+    readonly cause?: unknown,
+  ) {}
+}
+
+/**
+ * Create a filter processor
+ * Keeps messages whose check evaluates to a truthy value
+ */
+export const createFilterProcessor = (
+  config: FilterProcessorConfig,
+): Processor<FilterError> => {
+  // Compile JSONata expression once during processor creation
+  let compiledCheck: ReturnType<typeof jsonata>;
+
+  try {
+    compiledCheck = jsonata(config.check);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `Failed to compile filter check expression "${config.check}": ${errorMessage}`,
+    );
+  }
+
+  return {
+    name: "filter-processor",
+    process: (msg: Message): Effect.Effect<Message[], FilterError> => {
+      return Effect.gen(function* () {
+        // Prepare context for JSONata evaluation
+        const context =
+          typeof msg.content === "object" && msg.content !== null
+            ? msg.content
+            : { value: msg.content };
+
+        // Special variables are bound per evaluation, as messages are
+        // checked concurrently against the same compiled expression
+        const bindings = {
+          message: {
+            id: msg.id,
+            timestamp: msg.timestamp,
+            correlationId: msg.correlationId,
+          },
+          meta: msg.metadata,
+        };
+
+        const keep = yield* Effect.tryPromise({
+          try: async () =>
+            Boolean(await compiledCheck.evaluate(context, bindings)),
+          catch: (error) =>
+            new FilterError(
+              `Failed to evaluate filter check: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+              error,
+            ),
+        });
+
+        // An empty result removes the message from the stream
+        return keep ? [msg] : [];
+      });
+    },
+  };
+};
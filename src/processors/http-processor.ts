@@ -8,6 +8,7 @@ import { HttpClient, HttpClientRequest } from "@effect/platform";
 import { NodeHttpClient } from "@effect/platform-node";
 import jsonata from "jsonata";
 import type { Processor, Message } from "../core/types.js";
+import { renderTemplate } from "../core/template.js";
 import {
   ComponentError,
   type ErrorCategory,
@@ -92,31 +93,9 @@ const evaluateTemplate = (
   msg: Message,
 ): Effect.Effect<string, HttpProcessorError> =>
   Effect.gen(function* () {
-    // Extract JSONata expressions from {{ }} and evaluate each one
+    // Evaluate the JSONata expressions in {{ }}
     const evaluatedTemplate = yield* Effect.tryPromise({
-      try: async () => {
-        // Replace {{ expr }} with evaluated values
-        let result = template;
-        const regex = /\{\{(.+?)\}\}/g;
-        const matches = [...template.matchAll(regex)];
-
-        for (const match of matches) {
-          const expr = match[1].trim();
-          const expression = jsonata(expr);
-          expression.assign("content", msg.content);
-          expression.assign("meta", msg.metadata);
-          expression.assign("message", {
-            id: msg.id,
-            timestamp: msg.timestamp,
-            correlationId: msg.correlationId,
-          });
-
-          const value = await expression.evaluate({});
-          result = result.replace(match[0], String(value));
-        }
-
-        return result;
-      },
+      try: () => renderTemplate(template, msg),
       catch: (error) =>
         new HttpProcessorError(
           `Failed to evaluate template: ${error instanceof Error ? error.message : String(error)}`,
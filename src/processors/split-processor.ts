@@ -0,0 +1,202 @@
+/**
+ * Split Processor - Fans one message out into many
+ *
+ * Splits an array (at a JSONata path or the whole content), newline-delimited
+ * text or CSV text into individual messages. Every produced message keeps the
+ * parent's metadata and correlationId and gets:
+ * - split_index: position of the message in the split (0-based)
+ * - split_count: number of messages produced from the parent
+ *
+ * Example use case: Turn a batch webhook payload into one message per event
+ */
+import { Effect } from "effect";
+import * as Schema from "effect/Schema";
+import jsonata from "jsonata";
+import type { Processor, Message } from "../core/types.js";
+import { ComponentError, type ErrorCategory } from "../core/errors.js";
+import { parseCsvRecords } from "../core/csv.js";
+import { validate, NonEmptyString, PositiveInt } from "../core/validation.js";
+
+export interface SplitProcessorConfig {
+  readonly path?: string; // JSONata path to the value to split (default: whole content)
+  readonly format?: "array" | "lines" | "csv"; // How to split the value (default: "array")
+  readonly delimiter?: string; // CSV field delimiter (default: ",")
+  readonly batchSize?: number; // Items per produced message (default: 1, no batching)
+}
+
+export class SplitProcessorError extends ComponentError {
+  readonly _tag = "SplitProcessorError";
+
+  constructor(
+    message: string,
+    readonly category: ErrorCategory,
+    cause?: unknown,
+  ) {
+    super(message, cause);
+  }
+}
+
+/**
+ * Validation schema for Split Processor configuration
+ */
+export const SplitProcessorConfigSchema = Schema.Struct({
+  path: Schema.optional(NonEmptyString),
+  format: Schema.optional(Schema.Literal("array", "lines", "csv")),
+  delimiter: Schema.optional(
+    Schema.String.pipe(
+      Schema.length(1, {
+        message: () => "CSV delimiter must be a single character",
+      }),
+    ),
+  ),
+  batchSize: Schema.optional(PositiveInt),
+});
+
+/**
+ * Create a split processor
+ *
+ * @example
+ * ```typescript
+ * const processor = createSplitProcessor({ path: "events", batchSize: 10 })
+ * ```
+ */
+export const createSplitProcessor = (
+  config: SplitProcessorConfig,
+): Processor<SplitProcessorError> => {
+  // Validate configuration synchronously at creation time
+  Effect.runSync(
+    validate(
+      SplitProcessorConfigSchema,
+      config,
+      "Split Processor configuration",
+    ).pipe(
+      Effect.catchAll((error) =>
+        Effect.fail(
+          new SplitProcessorError(error.message, error.category, error),
+        ),
+      ),
+    ),
+  );
+
+  const format = config.format ?? "array";
+  const batchSize = config.batchSize ?? 1;
+
+  // Compile JSONata path once during processor creation
+  let compiledPath: ReturnType<typeof jsonata> | undefined;
+  if (config.path) {
+    try {
+      compiledPath = jsonata(config.path);
+    } catch (error) {
+      throw new SplitProcessorError(
+        `Failed to compile split path "${config.path}": ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        "logical",
+        error,
+      );
+    }
+  }
+
+  /**
+   * Resolve the value to split: the path result or the whole content
+   */
+  const resolveValue = (
+    msg: Message,
+  ): Effect.Effect<unknown, SplitProcessorError> => {
+    if (!compiledPath) {
+      return Effect.succeed(msg.content);
+    }
+    const expression = compiledPath;
+
+    // Prepare context for JSONata evaluation
+    const context =
+      typeof msg.content === "object" && msg.content !== null
+        ? msg.content
+        : { value: msg.content };
+
+    // Special variables are bound per evaluation, as messages are split
+    // concurrently with the same compiled expression
+    const bindings = {
+      message: {
+        id: msg.id,
+        timestamp: msg.timestamp,
+        correlationId: msg.correlationId,
+      },
+      meta: msg.metadata,
+    };
+
+    return Effect.tryPromise({
+      try: async () => expression.evaluate(context, bindings),
+      catch: (error) =>
+        new SplitProcessorError(
+          `Failed to evaluate split path: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+          "logical",
+          error,
+        ),
+    });
+  };
+
+  /**
+   * Turn the resolved value into the items to emit
+   */
+  const toItems = (
+    value: unknown,
+  ): Effect.Effect<readonly unknown[], SplitProcessorError> => {
+    // Nothing at the path - nothing to emit
+    if (value === undefined || value === null) {
+      return Effect.succeed([]);
+    }
+
+    if (format === "array") {
+      // JSONata returns a single match without the array
+      return Effect.succeed(Array.isArray(value) ? value : [value]);
+    }
+
+    if (typeof value !== "string") {
+      return Effect.fail(
+        new SplitProcessorError(
+          `Split format "${format}" requires text content, got ${Array.isArray(value) ? "array" : typeof value}`,
+          "logical",
+        ),
+      );
+    }
+
+    return Effect.succeed(
+      format === "lines"
+        ? value.split(/\r?\n/).filter((line) => line.length > 0)
+        : parseCsvRecords(value, config.delimiter),
+    );
+  };
+
+  return {
+    name: "split-processor",
+    process: (msg: Message): Effect.Effect<Message[], SplitProcessorError> =>
+      Effect.gen(function* () {
+        const value = yield* resolveValue(msg);
+        const items = yield* toItems(value);
+
+        // Group items when batching, each group becomes one message
+        const groups: unknown[] = [];
+        if (batchSize > 1) {
+          for (let i = 0; i < items.length; i += batchSize) {
+            groups.push(items.slice(i, i + batchSize));
+          }
+        } else {
+          groups.push(...items);
+        }
+
+        return groups.map((content, index) => ({
+          ...msg,
+          id: crypto.randomUUID(),
+          content,
+          metadata: {
+            ...msg.metadata,
+            split_index: index,
+            split_count: groups.length,
+          },
+        }));
+      }),
+  };
+};
@@ -2,7 +2,8 @@
  * Switch Processor - Conditional routing based on message content
  *
  * The switch processor evaluates JSONata expressions against the message
- * and executes the first matching case's nested processors.
+ * and executes the first matching case's nested processors. Like the
+ * pipeline, nested processors may split a message or drop it entirely.
  * Similar to switch/case in programming languages.
  *
  * Example use case: Route orders to different processors based on order type
@@ -53,7 +54,9 @@ export const createSwitchProcessor = (
 
   return {
     name: "switch-processor",
-    process: (msg: Message): Effect.Effect<Message, SwitchError, any> => {
+    process: (
+      msg: Message,
+    ): Effect.Effect<Message | Message[], SwitchError, any> => {
       return Effect.gen(function* () {
         // Prepare context for JSONata evaluation
         const context =
@@ -89,15 +92,17 @@ export const createSwitchProcessor = (
 
           // If this case matches, execute its processors
           if (matches) {
-            let processedMessage = msg;
+            // Each processor runs on every message produced so far, so
+            // splits keep all messages and filters can drop them all
+            let messages: Message[] = [msg];
             for (const processor of compiledCase.processors) {
-              const result: Message | Message[] = yield* processor.process(
-                processedMessage,
+              const results: (Message | Message[])[] = yield* Effect.forEach(
+                messages,
+                (m) => processor.process(m),
               );
-              // If processor returns array, take first message
-              processedMessage = Array.isArray(result) ? result[0] : result;
+              messages = results.flat();
             }
-            return processedMessage;
+            return messages.length === 1 ? messages[0] : messages;
           }
         }
 
@@ -105,5 +110,12 @@ export const createSwitchProcessor = (
         return msg;
       });
     },
+    // Nested processors are closed with the switch
+    close: () =>
+      Effect.forEach(
+        config.cases.flatMap((switchCase) => switchCase.processors),
+        (processor) => (processor.close ? processor.close() : Effect.void),
+        { discard: true },
+      ),
   };
 };
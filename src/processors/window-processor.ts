@@ -0,0 +1,313 @@
+/**
+ * Window Processor - Aggregates messages over windows
+ *
+ * Window types:
+ * - tumbling: fixed, non-overlapping time windows of `size` ms
+ * - sliding: time windows of `size` ms starting every `slide` ms (overlapping)
+ * - count: windows of `count` messages
+ *
+ * Messages are grouped by a JSONata `key` expression and held in the window
+ * (the processor returns no messages for them). When a window closes, one
+ * aggregate message is emitted with the `aggregate` JSONata expression
+ * evaluated over the contents of the window's messages. Time windows close
+ * on the pipeline's periodic flush; all open windows are flushed on shutdown.
+ *
+ * Delivery is at most once: held messages are acknowledged when they are
+ * added to a window, so a crash before the window is emitted loses them.
+ *
+ * Example use case: Sum order amounts per customer every minute
+ */
+import { Effect } from "effect";
+import * as Schema from "effect/Schema";
+import jsonata from "jsonata";
+import type { Processor, Message } from "../core/types.js";
+import { createMessage } from "../core/types.js";
+import { ComponentError, type ErrorCategory } from "../core/errors.js";
+import { validate, NonEmptyString, PositiveInt } from "../core/validation.js";
+
+export interface WindowProcessorConfig {
+  readonly type: "tumbling" | "sliding" | "count";
+  readonly size?: number; // Window length in ms (tumbling, sliding)
+  readonly slide?: number; // Interval between window starts in ms (sliding)
+  readonly count?: number; // Messages per window (count)
+  readonly key?: string; // JSONata expression to group messages (default: one group)
+  readonly aggregate?: string; // JSONata expression over the window contents (default: the contents array)
+}
+
+export class WindowProcessorError extends ComponentError {
+  readonly _tag = "WindowProcessorError";
+
+  constructor(
+    message: string,
+    readonly category: ErrorCategory,
+    cause?: unknown,
+  ) {
+    super(message, cause);
+  }
+}
+
+/**
+ * Validation schema for Window Processor configuration
+ */
+export const WindowProcessorConfigSchema = Schema.Struct({
+  type: Schema.Literal("tumbling", "sliding", "count"),
+  size: Schema.optional(PositiveInt),
+  slide: Schema.optional(PositiveInt),
+  count: Schema.optional(PositiveInt),
+  key: Schema.optional(NonEmptyString),
+  aggregate: Schema.optional(NonEmptyString),
+});
+
+/**
+ * Open window for one key
+ */
+interface OpenWindow {
+  readonly key: string;
+  readonly start: number;
+  readonly end?: number; // Time windows only
+  readonly contents: unknown[];
+}
+
+/**
+ * Compile a JSONata expression, failing with a window error
+ */
+const compile = (expression: string, field: string) => {
+  try {
+    return jsonata(expression);
+  } catch (error) {
+    throw new WindowProcessorError(
+      `Failed to compile window ${field} expression "${expression}": ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      "logical",
+      error,
+    );
+  }
+};
+
+/**
+ * Create a window processor
+ *
+ * @example
+ * ```typescript
+ * const processor = createWindowProcessor({
+ *   type: "tumbling",
+ *   size: 60000,
+ *   key: "customerId",
+ *   aggregate: '{ "customerId": $key, "total": $sum(amount) }',
+ * })
+ * ```
+ */
+export const createWindowProcessor = (
+  config: WindowProcessorConfig,
+): Processor<WindowProcessorError> => {
+  // Validate configuration synchronously at creation time
+  Effect.runSync(
+    validate(
+      WindowProcessorConfigSchema,
+      config,
+      "Window Processor configuration",
+    ).pipe(
+      Effect.catchAll((error) =>
+        Effect.fail(
+          new WindowProcessorError(error.message, error.category, error),
+        ),
+      ),
+    ),
+  );
+
+  if (config.type === "count" && !config.count) {
+    throw new WindowProcessorError("Count windows require count", "logical");
+  }
+  if (config.type !== "count" && !config.size) {
+    throw new WindowProcessorError(
+      `${config.type === "tumbling" ? "Tumbling" : "Sliding"} windows require size`,
+      "logical",
+    );
+  }
+  if (config.type === "sliding" && !config.slide) {
+    throw new WindowProcessorError("Sliding windows require slide", "logical");
+  }
+
+  const size = config.size ?? 0;
+  const slide = config.type === "sliding" ? (config.slide ?? size) : size;
+  const keyExpression = config.key ? compile(config.key, "key") : undefined;
+  const aggregateExpression = config.aggregate
+    ? compile(config.aggregate, "aggregate")
+    : undefined;
+
+  // Open windows by key and start time
+  const windows = new Map<string, OpenWindow>();
+
+  /**
+   * Evaluate the grouping key of a message
+   */
+  const evaluateKey = (
+    msg: Message,
+  ): Effect.Effect<string, WindowProcessorError> => {
+    if (!keyExpression) {
+      return Effect.succeed("");
+    }
+
+    // Prepare context for JSONata evaluation
+    const context =
+      typeof msg.content === "object" && msg.content !== null
+        ? msg.content
+        : { value: msg.content };
+
+    // Special variables are bound per evaluation, as messages are keyed
+    // concurrently with the same compiled expression
+    const bindings = {
+      message: {
+        id: msg.id,
+        timestamp: msg.timestamp,
+        correlationId: msg.correlationId,
+      },
+      meta: msg.metadata,
+    };
+
+    return Effect.tryPromise({
+      try: async () => {
+        const key = await keyExpression.evaluate(context, bindings);
+        return key === undefined || key === null
+          ? ""
+          : typeof key === "string"
+            ? key
+            : JSON.stringify(key);
+      },
+      catch: (error) =>
+        new WindowProcessorError(
+          `Failed to evaluate window key: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+          "logical",
+          error,
+        ),
+    });
+  };
+
+  /**
+   * Build the aggregate message for a closed window
+   */
+  const emit = (
+    window: OpenWindow,
+  ): Effect.Effect<Message, WindowProcessorError> =>
+    Effect.gen(function* () {
+      let content: unknown = window.contents;
+
+      if (aggregateExpression) {
+        const expression = aggregateExpression;
+        // Bound per evaluation, windows may close concurrently
+        const bindings = {
+          key: window.key,
+          window: {
+            start: window.start,
+            end: window.end,
+            count: window.contents.length,
+          },
+        };
+
+        content = yield* Effect.tryPromise({
+          try: async () => expression.evaluate(window.contents, bindings),
+          catch: (error) =>
+            new WindowProcessorError(
+              `Failed to evaluate window aggregate: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+              "logical",
+              error,
+            ),
+        });
+      }
+
+      return createMessage(content, {
+        window_type: config.type,
+        window_key: window.key,
+        window_start: window.start,
+        ...(window.end !== undefined ? { window_end: window.end } : {}),
+        window_count: window.contents.length,
+      });
+    });
+
+  /**
+   * Remove windows matching the predicate and emit their aggregates
+   */
+  const closeWindows = (predicate: (window: OpenWindow) => boolean) =>
+    Effect.suspend(() => {
+      const closed = [...windows.entries()].filter(([, window]) =>
+        predicate(window),
+      );
+      for (const [id] of closed) {
+        windows.delete(id);
+      }
+      return Effect.forEach(closed, ([, window]) => emit(window));
+    });
+
+  /**
+   * Start times of the time windows a timestamp belongs to
+   */
+  const windowStarts = (timestamp: number): number[] => {
+    const starts: number[] = [];
+    // Latest window containing the timestamp, then earlier overlapping ones
+    for (
+      let start = Math.floor(timestamp / slide) * slide;
+      start > timestamp - size;
+      start -= slide
+    ) {
+      starts.unshift(start);
+    }
+    return starts;
+  };
+
+  return {
+    name: "window-processor",
+    flushInterval:
+      config.type === "count" ? undefined : Math.min(slide, size, 1000),
+    process: (msg: Message): Effect.Effect<Message[], WindowProcessorError> =>
+      Effect.gen(function* () {
+        const key = yield* evaluateKey(msg);
+
+        if (config.type === "count") {
+          const id = key;
+          const window = windows.get(id) ?? {
+            key,
+            start: msg.timestamp,
+            contents: [],
+          };
+          window.contents.push(msg.content);
+          windows.set(id, window);
+
+          // Close the window as soon as it is full
+          if (window.contents.length >= config.count!) {
+            windows.delete(id);
+            return [yield* emit(window)];
+          }
+          return [];
+        }
+
+        for (const start of windowStarts(msg.timestamp)) {
+          const id = `${key}\u0000${start}`;
+          const window = windows.get(id) ?? {
+            key,
+            start,
+            end: start + size,
+            contents: [],
+          };
+          window.contents.push(msg.content);
+          windows.set(id, window);
+        }
+
+        // Held until the window closes
+        return [];
+      }),
+    flush: (final: boolean) => {
+      if (final) {
+        return closeWindows(() => true);
+      }
+      const now = Date.now();
+      return closeWindows((window) =>
+        window.end !== undefined ? window.end <= now : false,
+      );
+    },
+  };
+};
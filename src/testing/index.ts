@@ -21,3 +21,20 @@ export {
   AssertProcessorConfigSchema,
   AssertProcessorError,
 } from "./assert-processor.js";
+export {
+  createMockKafka,
+  type MockKafka,
+  type MockKafkaConfig,
+  type MockKafkaRecord,
+  type MockKafkaStoredRecord,
+} from "./kafka-mock.js";
+export {
+  createMockNats,
+  type MockNats,
+  type MockNatsConfig,
+  type MockNatsConsumerState,
+  type MockNatsMessage,
+  type MockNatsReply,
+  type MockNatsStoredMessage,
+  type MockNatsStreamConfig,
+} from "./nats-mock.js";
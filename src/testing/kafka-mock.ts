@@ -0,0 +1,357 @@
+/**
+ * Mock Kafka - In-process broker for testing the Kafka input and output
+ * Pass it as `client` to run Kafka pipelines without a cluster
+ *
+ * Supports the parts of the protocol the components use: produced records
+ * are appended to partitioned topic logs, consumer groups split partitions
+ * round-robin between their running members and resume from committed
+ * offsets when a partition changes owner.
+ */
+import type {
+  ConsumerConfig,
+  ConsumerRunConfig,
+  ConsumerSubscribeTopic,
+  ConsumerSubscribeTopics,
+  IHeaders,
+  KafkaMessage,
+  ProducerBatch,
+  RecordMetadata,
+  TopicPartitionOffsetAndMetadata,
+} from "kafkajs";
+import type {
+  KafkaClient,
+  KafkaConsumer,
+  KafkaProducer,
+} from "../core/kafka.js";
+
+export interface MockKafkaConfig {
+  readonly partitions?: number; // Partitions of every topic (default: 1)
+  readonly pollInterval?: number; // ms between fetches when idle (default: 5)
+}
+
+/**
+ * A record to produce with `MockKafka.produce`
+ */
+export interface MockKafkaRecord {
+  readonly key?: string | null;
+  readonly value: string | null;
+  readonly headers?: Record<string, string>;
+  readonly partition?: number;
+}
+
+/**
+ * A record stored in a topic log
+ */
+export interface MockKafkaStoredRecord {
+  readonly partition: number;
+  readonly offset: string;
+  readonly key: string | null;
+  readonly value: string | null;
+  readonly headers: Record<string, string>;
+}
+
+/**
+ * Mock Kafka instance with methods to produce and inspect records
+ */
+export interface MockKafka extends KafkaClient {
+  /**
+   * Append records to a topic, as a producer would
+   */
+  produce: (topic: string, records: readonly MockKafkaRecord[]) => void;
+
+  /**
+   * Get the records of a topic in partition and offset order
+   */
+  records: (topic: string) => readonly MockKafkaStoredRecord[];
+
+  /**
+   * Get the committed offsets of a consumer group by partition
+   */
+  committed: (groupId: string, topic: string) => Record<number, string>;
+}
+
+interface GroupMember {
+  readonly topics: ReadonlyArray<string | RegExp>;
+  readonly fromBeginning: boolean;
+  // Next offset by "topic:partition" of the partitions it owns
+  readonly positions: Map<string, number>;
+}
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Partition for a record key, stable for equal keys
+ */
+const partitionForKey = (key: string, partitions: number): number => {
+  let hash = 0;
+  for (const char of key) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return Math.abs(hash) % partitions;
+};
+
+const toHeaders = (headers: IHeaders | undefined): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(headers ?? {}).flatMap(([name, value]) =>
+      value === undefined
+        ? []
+        : [[name, Array.isArray(value) ? value.join(",") : value.toString()]],
+    ),
+  );
+
+/**
+ * Create an in-process Kafka broker
+ *
+ * @example
+ * ```typescript
+ * const kafka = createMockKafka({ partitions: 2 })
+ * kafka.produce("orders", [{ key: "a", value: '{"id":1}' }])
+ * const input = createKafkaInput({
+ *   brokers: ["mock:9092"],
+ *   topics: ["orders"],
+ *   consumerGroup: "test",
+ *   fromBeginning: true,
+ *   client: kafka,
+ * })
+ * ```
+ */
+export const createMockKafka = (config: MockKafkaConfig = {}): MockKafka => {
+  const partitionCount = config.partitions ?? 1;
+  const pollInterval = config.pollInterval ?? 5;
+
+  // Topic -> partition logs
+  const topics = new Map<string, MockKafkaStoredRecord[][]>();
+  // Group id -> running members, in join order
+  const groups = new Map<string, GroupMember[]>();
+  // Group id -> committed offset by "topic:partition"
+  const offsets = new Map<string, Map<string, number>>();
+  let roundRobin = 0;
+
+  const topicLog = (topic: string) => {
+    let log = topics.get(topic);
+    if (!log) {
+      log = Array.from({ length: partitionCount }, () => []);
+      topics.set(topic, log);
+    }
+    return log;
+  };
+
+  const append = (
+    topic: string,
+    record: Omit<MockKafkaStoredRecord, "partition" | "offset">,
+    requested?: number,
+  ): RecordMetadata => {
+    const log = topicLog(topic);
+    const partition =
+      requested ??
+      (record.key !== null
+        ? partitionForKey(record.key, partitionCount)
+        : roundRobin++ % partitionCount);
+    const offset = String(log[partition].length);
+    log[partition].push({ ...record, partition, offset });
+    return { topicName: topic, partition, errorCode: 0, offset };
+  };
+
+  /**
+   * Partitions owned by a member: the group's subscribed partitions are
+   * dealt round-robin over the members in join order
+   */
+  const assignment = (groupId: string, member: GroupMember) => {
+    const members = groups.get(groupId) ?? [];
+    const subscribed = [...topics.keys()]
+      .sort()
+      .filter((topic) =>
+        members.some((m) =>
+          m.topics.some((t) =>
+            typeof t === "string" ? t === topic : t.test(topic),
+          ),
+        ),
+      )
+      .flatMap((topic) =>
+        topicLog(topic).map((_, partition) => ({ topic, partition })),
+      );
+    const index = members.indexOf(member);
+    return subscribed.filter((_, i) => i % members.length === index);
+  };
+
+  const createConsumer = ({ groupId }: ConsumerConfig): KafkaConsumer => {
+    let subscription: Omit<GroupMember, "positions"> = {
+      topics: [],
+      fromBeginning: false,
+    };
+    let member: GroupMember | undefined;
+    let loop: Promise<void> | undefined;
+
+    const committed = () => {
+      let group = offsets.get(groupId);
+      if (!group) {
+        group = new Map();
+        offsets.set(groupId, group);
+      }
+      return group;
+    };
+
+    /**
+     * Deliver records of the owned partitions one at a time
+     */
+    const consume = async (
+      self: GroupMember,
+      eachMessage: NonNullable<ConsumerRunConfig["eachMessage"]>,
+    ) => {
+      while (member === self) {
+        const owned = assignment(groupId, self);
+        const keys = new Set(owned.map((p) => `${p.topic}:${p.partition}`));
+        for (const key of self.positions.keys()) {
+          if (!keys.has(key)) {
+            self.positions.delete(key);
+          }
+        }
+
+        let delivered = false;
+        for (const { topic, partition } of owned) {
+          const key = `${topic}:${partition}`;
+          const log = topicLog(topic)[partition];
+          const position =
+            self.positions.get(key) ??
+            committed().get(key) ??
+            (self.fromBeginning ? 0 : log.length);
+          self.positions.set(key, position);
+
+          const stored = log[position];
+          if (!stored || member !== self) {
+            continue;
+          }
+
+          const message: KafkaMessage = {
+            key: stored.key === null ? null : Buffer.from(stored.key),
+            value: stored.value === null ? null : Buffer.from(stored.value),
+            timestamp: String(Date.now()),
+            attributes: 0,
+            offset: stored.offset,
+            headers: Object.fromEntries(
+              Object.entries(stored.headers).map(([name, value]) => [
+                name,
+                Buffer.from(value),
+              ]),
+            ),
+          };
+
+          try {
+            await eachMessage({
+              topic,
+              partition,
+              message,
+              heartbeat: async () => undefined,
+              pause: () => () => undefined,
+            });
+            // Skipped if the partition moved to another member meanwhile
+            if (self.positions.has(key)) {
+              self.positions.set(key, position + 1);
+            }
+          } catch {
+            // Redelivered on the next fetch, like a failed kafkajs handler
+          }
+          delivered = true;
+        }
+
+        if (!delivered) {
+          await sleep(pollInterval);
+        }
+      }
+    };
+
+    return {
+      connect: async () => undefined,
+      subscribe: async (
+        request: ConsumerSubscribeTopics | ConsumerSubscribeTopic,
+      ) => {
+        const requested =
+          "topics" in request ? request.topics : [request.topic];
+        subscription = {
+          topics: [...subscription.topics, ...requested],
+          fromBeginning: request.fromBeginning ?? false,
+        };
+        for (const topic of requested) {
+          if (typeof topic === "string") {
+            topicLog(topic);
+          }
+        }
+      },
+      run: async (run?: ConsumerRunConfig) => {
+        if (!run?.eachMessage) {
+          throw new Error("Mock Kafka consumers only support eachMessage");
+        }
+        const self: GroupMember = { ...subscription, positions: new Map() };
+        member = self;
+        groups.set(groupId, [...(groups.get(groupId) ?? []), self]);
+        loop = consume(self, run.eachMessage);
+      },
+      commitOffsets: async (
+        topicPartitions: TopicPartitionOffsetAndMetadata[],
+      ) => {
+        for (const { topic, partition, offset } of topicPartitions) {
+          committed().set(`${topic}:${partition}`, Number(offset));
+        }
+      },
+      disconnect: async () => {
+        const self = member;
+        member = undefined;
+        if (self) {
+          groups.set(
+            groupId,
+            (groups.get(groupId) ?? []).filter((m) => m !== self),
+          );
+        }
+        await loop;
+      },
+    };
+  };
+
+  const createProducer = (): KafkaProducer => ({
+    connect: async () => undefined,
+    sendBatch: async ({ topicMessages }: ProducerBatch) =>
+      (topicMessages ?? []).flatMap(({ topic, messages }) =>
+        messages.map((message) =>
+          append(
+            topic,
+            {
+              key: message.key == null ? null : message.key.toString(),
+              value: message.value === null ? null : message.value.toString(),
+              headers: toHeaders(message.headers),
+            },
+            message.partition,
+          ),
+        ),
+      ),
+    disconnect: async () => undefined,
+  });
+
+  return {
+    consumer: createConsumer,
+    producer: createProducer,
+    produce: (topic, records) => {
+      for (const record of records) {
+        append(
+          topic,
+          {
+            key: record.key ?? null,
+            value: record.value,
+            headers: record.headers ?? {},
+          },
+          record.partition,
+        );
+      }
+    },
+    records: (topic) => topicLog(topic).flat(),
+    committed: (groupId, topic) =>
+      Object.fromEntries(
+        [...(offsets.get(groupId) ?? [])].flatMap(([key, offset]) => {
+          const separator = key.lastIndexOf(":");
+          return key.slice(0, separator) === topic
+            ? [[Number(key.slice(separator + 1)), String(offset)]]
+            : [];
+        }),
+      ),
+  };
+};
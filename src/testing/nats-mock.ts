@@ -0,0 +1,754 @@
+/**
+ * Mock NATS - In-process server for testing the NATS components
+ * Pass it as `client` to run NATS pipelines without a server
+ * Headers and errors are the ones of nats.js, so the nats package is needed
+ *
+ * Supports the parts of the protocol the components use: subject wildcards,
+ * queue groups and request-reply for core NATS, and streams with durable
+ * pull consumers, explicit acknowledgements, redelivery after `ack_wait`
+ * and message id deduplication for JetStream.
+ */
+import { randomUUID } from "node:crypto";
+import type {
+  ConsumerConfig,
+  ErrorCode,
+  JetStreamPublishOptions,
+  MsgHdrs,
+  Payload,
+  PublishOptions,
+  RequestOptions,
+  Status,
+} from "nats";
+import {
+  type NatsClient,
+  type NatsConnection,
+  type NatsConsumerMessages,
+  type NatsJsMsg,
+  type NatsMsg,
+  requireNats,
+} from "../core/nats.js";
+
+export interface MockNatsConfig {
+  readonly pollInterval?: number; // ms between pulls when a consumer is idle (default: 5)
+}
+
+/**
+ * Configuration of a stream added with `MockNats.addStream`
+ */
+export interface MockNatsStreamConfig {
+  readonly subjects: readonly string[];
+  readonly duplicateWindow?: number; // ms message ids are remembered (default: 120000)
+}
+
+/**
+ * A core NATS message, as recorded by `MockNats.published`
+ */
+export interface MockNatsMessage {
+  readonly subject: string;
+  readonly data: string;
+  readonly headers: Record<string, string>;
+  readonly reply?: string;
+}
+
+/**
+ * A message stored in a stream
+ */
+export interface MockNatsStoredMessage {
+  readonly seq: number;
+  readonly subject: string;
+  readonly data: string;
+  readonly headers: Record<string, string>;
+}
+
+/**
+ * Reply to a request sent with `MockNats.request`
+ */
+export interface MockNatsReply {
+  readonly data: string;
+  readonly headers: Record<string, string>;
+}
+
+/**
+ * Acknowledgement state of a durable consumer by stream sequence
+ */
+export interface MockNatsConsumerState {
+  readonly acknowledged: readonly number[];
+  readonly pending: readonly number[]; // Delivered or waiting for redelivery
+}
+
+/**
+ * Mock NATS instance with methods to publish and inspect messages
+ */
+export interface MockNats extends NatsClient {
+  /**
+   * Publish a message, as another client would
+   */
+  publish: (
+    subject: string,
+    data: string,
+    headers?: Record<string, string>,
+  ) => void;
+
+  /**
+   * Send a request and wait for the first reply (default timeout: 1000ms)
+   */
+  request: (
+    subject: string,
+    data: string,
+    timeout?: number,
+  ) => Promise<MockNatsReply>;
+
+  /**
+   * Get the core messages published to subjects matching `subject`
+   */
+  published: (subject: string) => readonly MockNatsMessage[];
+
+  /**
+   * Create a stream storing the messages published to its subjects
+   */
+  addStream: (name: string, config: MockNatsStreamConfig) => void;
+
+  /**
+   * Get the messages stored in a stream in sequence order
+   */
+  streamMessages: (name: string) => readonly MockNatsStoredMessage[];
+
+  /**
+   * Get the acknowledgement state of a durable consumer
+   */
+  consumerState: (
+    stream: string,
+    durable: string,
+  ) => MockNatsConsumerState | undefined;
+}
+
+interface Subscriber {
+  readonly filter: string;
+  readonly queue?: string;
+  readonly deliver: (msg: NatsMsg) => void;
+}
+
+interface ConsumerState {
+  readonly name: string;
+  readonly filters: readonly string[];
+  readonly ackWait: number;
+  readonly maxDeliver?: number;
+  next: number; // Next stream sequence to deliver
+  deliverySequence: number;
+  readonly redeliver: number[];
+  readonly deliveries: Map<number, number>;
+  // Delivered, unacknowledged sequence -> redelivery timer
+  readonly pending: Map<number, ReturnType<typeof setTimeout>>;
+  readonly acknowledged: Set<number>;
+}
+
+interface StreamState {
+  readonly name: string;
+  readonly subjects: readonly string[];
+  readonly duplicateWindow: number;
+  readonly messages: MockNatsStoredMessage[];
+  // Message id -> sequence and time it was stored
+  readonly messageIds: Map<string, { seq: number; at: number }>;
+  readonly consumers: Map<string, ConsumerState>;
+}
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Whether a subject matches a filter with `*` and `>` wildcards
+ */
+const subjectMatches = (filter: string, subject: string): boolean => {
+  const filterTokens = filter.split(".");
+  const subjectTokens = subject.split(".");
+  for (let i = 0; i < filterTokens.length; i++) {
+    if (filterTokens[i] === ">") {
+      return subjectTokens.length > i;
+    }
+    if (
+      i >= subjectTokens.length ||
+      (filterTokens[i] !== "*" && filterTokens[i] !== subjectTokens[i])
+    ) {
+      return false;
+    }
+  }
+  return filterTokens.length === subjectTokens.length;
+};
+
+const encode = (payload: Payload | undefined): Uint8Array =>
+  typeof payload === "string"
+    ? new Uint8Array(Buffer.from(payload))
+    : (payload ?? new Uint8Array());
+
+const decode = (data: Uint8Array): string => Buffer.from(data).toString("utf8");
+
+const fromHeaders = (headers: MsgHdrs | undefined): Record<string, string> =>
+  Object.fromEntries(
+    [...(headers ?? [])].map(([name, values]) => [name, values.join(",")]),
+  );
+
+const toHeaders = (record: Record<string, string>): MsgHdrs | undefined => {
+  const entries = Object.entries(record);
+  if (entries.length === 0) {
+    return undefined;
+  }
+  const headers = requireNats().headers();
+  for (const [name, value] of entries) {
+    headers.set(name, value);
+  }
+  return headers;
+};
+
+/**
+ * Error of a failed client operation, as raised by nats.js
+ */
+const natsError = (code: keyof typeof ErrorCode) => {
+  const { ErrorCode, NatsError } = requireNats();
+  return NatsError.errorForCode(ErrorCode[code]);
+};
+
+/**
+ * JetStream API error, as returned by the server
+ */
+const apiError = (code: number, errCode: number, description: string) => {
+  const error = new (requireNats().NatsError)(description, String(code));
+  error.api_error = { code, err_code: errCode, description };
+  return error;
+};
+
+/**
+ * Async iterator fed by `push`, ended by `end`
+ */
+const createChannel = <T>() => {
+  const items: T[] = [];
+  let waiting: ((result: IteratorResult<T>) => void) | undefined;
+  let done = false;
+
+  const end = () => {
+    done = true;
+    waiting?.({ value: undefined, done: true });
+    waiting = undefined;
+  };
+
+  return {
+    push: (item: T) => {
+      if (done) {
+        return;
+      }
+      if (waiting) {
+        const resolve = waiting;
+        waiting = undefined;
+        resolve({ value: item, done: false });
+      } else {
+        items.push(item);
+      }
+    },
+    end,
+    iterable: {
+      [Symbol.asyncIterator]: (): AsyncIterator<T> => ({
+        next: () =>
+          items.length > 0
+            ? Promise.resolve({ value: items.shift()!, done: false })
+            : done
+              ? Promise.resolve({ value: undefined, done: true })
+              : new Promise((resolve) => {
+                  waiting = resolve;
+                }),
+        return: async () => {
+          end();
+          return { value: undefined, done: true };
+        },
+      }),
+    },
+  };
+};
+
+/**
+ * Create an in-process NATS server
+ *
+ * @example
+ * ```typescript
+ * const nats = createMockNats()
+ * nats.addStream("ORDERS", { subjects: ["orders.>"] })
+ * nats.publish("orders.created", '{"id":1}')
+ * const input = createNatsJetStreamInput({
+ *   urls: ["nats://mock:4222"],
+ *   stream: "ORDERS",
+ *   durable: "test",
+ *   client: nats,
+ * })
+ * ```
+ */
+export const createMockNats = (config: MockNatsConfig = {}): MockNats => {
+  const pollInterval = config.pollInterval ?? 5;
+
+  const subscribers = new Set<Subscriber>();
+  const log: MockNatsMessage[] = [];
+  const streams = new Map<string, StreamState>();
+  // Queue group -> next member to deliver to
+  const roundRobin = new Map<string, number>();
+
+  const getStream = (name: string) => {
+    const stream = streams.get(name);
+    if (!stream) {
+      throw apiError(404, 10059, "stream not found");
+    }
+    return stream;
+  };
+
+  const getConsumer = (streamName: string, name: string) => {
+    const consumer = getStream(streamName).consumers.get(name);
+    if (!consumer) {
+      throw apiError(404, 10014, "consumer not found");
+    }
+    return consumer;
+  };
+
+  const streamFor = (subject: string) =>
+    [...streams.values()].find((stream) =>
+      stream.subjects.some((filter) => subjectMatches(filter, subject)),
+    );
+
+  /**
+   * Store a message in the stream capturing its subject, if any
+   */
+  const store = (
+    subject: string,
+    data: Uint8Array,
+    headers: MsgHdrs | undefined,
+  ) => {
+    const stream = streamFor(subject);
+    if (!stream) {
+      return undefined;
+    }
+    const stored: MockNatsStoredMessage = {
+      seq: stream.messages.length + 1,
+      subject,
+      data: decode(data),
+      headers: fromHeaders(headers),
+    };
+    stream.messages.push(stored);
+    return { stream, seq: stored.seq };
+  };
+
+  /**
+   * Deliver a core message to the matching subscribers: every plain
+   * subscriber and one member of every queue group
+   * Returns the number of subscribers that received it
+   */
+  const dispatch = (
+    subject: string,
+    data: Uint8Array,
+    headers?: MsgHdrs,
+    reply?: string,
+  ): number => {
+    if (!subject.startsWith("_INBOX.")) {
+      log.push({
+        subject,
+        data: decode(data),
+        headers: fromHeaders(headers),
+        reply,
+      });
+    }
+
+    const msg: NatsMsg = {
+      subject,
+      data,
+      headers,
+      reply,
+      respond: (payload?: Payload, options?: PublishOptions) => {
+        if (!reply) {
+          return false;
+        }
+        dispatch(reply, encode(payload), options?.headers);
+        return true;
+      },
+    };
+
+    const matching = [...subscribers].filter((subscriber) =>
+      subjectMatches(subscriber.filter, subject),
+    );
+    const groups = new Map<string, Subscriber[]>();
+    let received = 0;
+    for (const subscriber of matching) {
+      if (subscriber.queue) {
+        groups.set(subscriber.queue, [
+          ...(groups.get(subscriber.queue) ?? []),
+          subscriber,
+        ]);
+      } else {
+        subscriber.deliver(msg);
+        received++;
+      }
+    }
+    for (const [queue, members] of groups) {
+      const next = roundRobin.get(queue) ?? 0;
+      roundRobin.set(queue, next + 1);
+      members[next % members.length].deliver(msg);
+      received++;
+    }
+    return received;
+  };
+
+  const publishMessage = (
+    subject: string,
+    data: Uint8Array,
+    headers?: MsgHdrs,
+    reply?: string,
+  ) => {
+    store(subject, data, headers);
+    return dispatch(subject, data, headers, reply);
+  };
+
+  /**
+   * Send a request and resolve with the first reply
+   */
+  const sendRequest = (
+    subject: string,
+    data: Uint8Array,
+    headers: MsgHdrs | undefined,
+    timeout: number,
+  ) =>
+    new Promise<NatsMsg>((resolve, reject) => {
+      const inbox: Subscriber = {
+        filter: `_INBOX.${randomUUID()}`,
+        deliver: (msg) => {
+          subscribers.delete(inbox);
+          clearTimeout(timer);
+          resolve(msg);
+        },
+      };
+      const timer = setTimeout(() => {
+        subscribers.delete(inbox);
+        reject(natsError("Timeout"));
+      }, timeout);
+
+      subscribers.add(inbox);
+      if (publishMessage(subject, data, headers, inbox.filter) === 0) {
+        subscribers.delete(inbox);
+        clearTimeout(timer);
+        reject(natsError("NoResponders"));
+      }
+    });
+
+  /**
+   * Next sequence for a consumer: redeliveries first, then new messages
+   * matching its filters
+   */
+  const nextSequence = (stream: StreamState, consumer: ConsumerState) => {
+    while (consumer.redeliver.length > 0) {
+      const seq = consumer.redeliver.shift()!;
+      if (!consumer.acknowledged.has(seq)) {
+        return seq;
+      }
+    }
+    while (consumer.next <= stream.messages.length) {
+      const seq = consumer.next++;
+      const { subject } = stream.messages[seq - 1];
+      if (
+        consumer.filters.length === 0 ||
+        consumer.filters.some((filter) => subjectMatches(filter, subject))
+      ) {
+        return seq;
+      }
+    }
+    return undefined;
+  };
+
+  /**
+   * Deliver a stored message to a consumer and wait for its acknowledgement
+   */
+  const deliver = (
+    stream: StreamState,
+    consumer: ConsumerState,
+    seq: number,
+  ): NatsJsMsg | undefined => {
+    const count = (consumer.deliveries.get(seq) ?? 0) + 1;
+    if (consumer.maxDeliver !== undefined && count > consumer.maxDeliver) {
+      return undefined;
+    }
+    consumer.deliveries.set(seq, count);
+
+    const timer = setTimeout(() => {
+      if (consumer.pending.delete(seq)) {
+        consumer.redeliver.push(seq);
+      }
+    }, consumer.ackWait);
+    timer.unref();
+    consumer.pending.set(seq, timer);
+
+    const settle = () => {
+      const pending = consumer.pending.get(seq);
+      if (pending === undefined) {
+        return false;
+      }
+      clearTimeout(pending);
+      consumer.pending.delete(seq);
+      return true;
+    };
+
+    const stored = stream.messages[seq - 1];
+    return {
+      subject: stored.subject,
+      data: encode(stored.data),
+      headers: toHeaders(stored.headers),
+      info: {
+        domain: "",
+        stream: stream.name,
+        consumer: consumer.name,
+        deliveryCount: count,
+        redeliveryCount: count,
+        redelivered: count > 1,
+        streamSequence: seq,
+        deliverySequence: ++consumer.deliverySequence,
+        timestampNanos: Date.now() * 1_000_000,
+        pending: stream.messages.length - consumer.next + 1,
+      },
+      ack: () => {
+        if (settle()) {
+          consumer.acknowledged.add(seq);
+        }
+      },
+      nak: () => {
+        if (settle()) {
+          consumer.redeliver.push(seq);
+        }
+      },
+      term: () => {
+        if (settle()) {
+          consumer.acknowledged.add(seq);
+        }
+      },
+    };
+  };
+
+  /**
+   * Pull messages of a consumer until closed
+   */
+  const consume = (
+    stream: StreamState,
+    consumer: ConsumerState,
+  ): NatsConsumerMessages => {
+    let closed = false;
+
+    async function* pull() {
+      while (!closed) {
+        const seq = nextSequence(stream, consumer);
+        const jsMsg =
+          seq === undefined ? undefined : deliver(stream, consumer, seq);
+        if (jsMsg) {
+          yield jsMsg;
+        } else if (seq === undefined) {
+          await sleep(pollInterval);
+        }
+      }
+    }
+
+    return {
+      [Symbol.asyncIterator]: pull,
+      close: async () => {
+        closed = true;
+      },
+    };
+  };
+
+  const createConnection = (): NatsConnection => {
+    const own = new Set<Subscriber & { end: () => void }>();
+    const consumed: NatsConsumerMessages[] = [];
+    const status = createChannel<Status>();
+    let isClosed = false;
+    let resolveClosed: () => void = () => undefined;
+    const closedPromise = new Promise<void>((resolve) => {
+      resolveClosed = resolve;
+    });
+
+    const ensureOpen = () => {
+      if (isClosed) {
+        throw natsError("ConnectionClosed");
+      }
+    };
+
+    const close = async () => {
+      if (isClosed) {
+        return;
+      }
+      isClosed = true;
+      for (const subscriber of own) {
+        subscribers.delete(subscriber);
+        subscriber.end();
+      }
+      own.clear();
+      await Promise.all(consumed.map((messages) => messages.close()));
+      status.end();
+      resolveClosed();
+    };
+
+    return {
+      subscribe: (subject, options) => {
+        ensureOpen();
+        const channel = createChannel<NatsMsg>();
+        const subscriber = {
+          filter: subject,
+          queue: options?.queue,
+          deliver: channel.push,
+          end: channel.end,
+        };
+        subscribers.add(subscriber);
+        own.add(subscriber);
+        return {
+          ...channel.iterable,
+          unsubscribe: () => {
+            subscribers.delete(subscriber);
+            own.delete(subscriber);
+            channel.end();
+          },
+        };
+      },
+      publish: (subject, payload, options) => {
+        ensureOpen();
+        publishMessage(
+          subject,
+          encode(payload),
+          options?.headers,
+          options?.reply,
+        );
+      },
+      request: async (subject, payload, options?: RequestOptions) => {
+        ensureOpen();
+        return sendRequest(
+          subject,
+          encode(payload),
+          options?.headers,
+          options?.timeout ?? 1000,
+        );
+      },
+      flush: async () => ensureOpen(),
+      drain: close,
+      closed: () => closedPromise,
+      status: () => status.iterable,
+      jetstream: () => ({
+        publish: async (
+          subject: string,
+          payload?: Payload,
+          options?: Partial<JetStreamPublishOptions>,
+        ) => {
+          ensureOpen();
+          const stream = streamFor(subject);
+          if (!stream) {
+            throw natsError("NoResponders");
+          }
+
+          const now = Date.now();
+          const known = options?.msgID
+            ? stream.messageIds.get(options.msgID)
+            : undefined;
+          if (known && now - known.at < stream.duplicateWindow) {
+            return { stream: stream.name, seq: known.seq, duplicate: true };
+          }
+
+          const stored = store(subject, encode(payload), options?.headers)!;
+          dispatch(subject, encode(payload), options?.headers);
+          if (options?.msgID) {
+            stream.messageIds.set(options.msgID, { seq: stored.seq, at: now });
+          }
+          return { stream: stream.name, seq: stored.seq, duplicate: false };
+        },
+        consumers: {
+          get: async (streamName: string, name: string) => {
+            const stream = getStream(streamName);
+            const consumer = getConsumer(streamName, name);
+            return {
+              consume: async () => {
+                ensureOpen();
+                const messages = consume(stream, consumer);
+                consumed.push(messages);
+                return messages;
+              },
+            };
+          },
+        },
+      }),
+      jetstreamManager: async () => ({
+        consumers: {
+          info: async (streamName: string, name: string) => {
+            const consumer = getConsumer(streamName, name);
+            return { stream_name: streamName, name: consumer.name };
+          },
+          add: async (streamName: string, cfg: Partial<ConsumerConfig>) => {
+            const stream = getStream(streamName);
+            const name = cfg.durable_name ?? cfg.name ?? randomUUID();
+            if (!stream.consumers.has(name)) {
+              const last = stream.messages.length;
+              stream.consumers.set(name, {
+                name,
+                filters:
+                  cfg.filter_subjects ??
+                  (cfg.filter_subject ? [cfg.filter_subject] : []),
+                ackWait: cfg.ack_wait ? cfg.ack_wait / 1_000_000 : 30000,
+                maxDeliver:
+                  cfg.max_deliver && cfg.max_deliver > 0
+                    ? cfg.max_deliver
+                    : undefined,
+                next:
+                  cfg.deliver_policy === "new"
+                    ? last + 1
+                    : cfg.deliver_policy === "last"
+                      ? Math.max(last, 1)
+                      : 1,
+                deliverySequence: 0,
+                redeliver: [],
+                deliveries: new Map(),
+                pending: new Map(),
+                acknowledged: new Set(),
+              });
+            }
+            return { stream_name: streamName, name };
+          },
+        },
+      }),
+    };
+  };
+
+  return {
+    connect: async () => createConnection(),
+    publish: (subject, data, headers = {}) => {
+      publishMessage(subject, encode(data), toHeaders(headers));
+    },
+    request: async (subject, data, timeout = 1000) => {
+      const reply = await sendRequest(
+        subject,
+        encode(data),
+        undefined,
+        timeout,
+      );
+      return { data: decode(reply.data), headers: fromHeaders(reply.headers) };
+    },
+    published: (subject) =>
+      log.filter((message) => subjectMatches(subject, message.subject)),
+    addStream: (name, stream) => {
+      streams.set(name, {
+        name,
+        subjects: stream.subjects,
+        duplicateWindow: stream.duplicateWindow ?? 120000,
+        messages: [],
+        messageIds: new Map(),
+        consumers: new Map(),
+      });
+    },
+    streamMessages: (name) => getStream(name).messages,
+    consumerState: (stream, durable) => {
+      const consumer = streams.get(stream)?.consumers.get(durable);
+      if (!consumer) {
+        return undefined;
+      }
+      return {
+        acknowledged: [...consumer.acknowledged].sort((a, b) => a - b),
+        pending: [
+          ...new Set([...consumer.pending.keys(), ...consumer.redeliver]),
+        ]
+          .filter((seq) => !consumer.acknowledged.has(seq))
+          .sort((a, b) => a - b),
+      };
+    },
+  };
+};
@@ -0,0 +1,172 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { Deferred, Effect, Fiber, Stream } from "effect";
+import { createServer } from "node:net";
+import {
+  createAdminServer,
+  type AdminServer,
+} from "../../../src/core/admin-server.js";
+import { run } from "../../../src/core/pipeline.js";
+import { MetricsAccumulator } from "../../../src/core/metrics.js";
+import { createMessage } from "../../../src/core/types.js";
+import type { Pipeline } from "../../../src/core/types.js";
+
+const freePort = () =>
+  new Promise<number>((resolve) => {
+    const server = createServer().listen(0, () => {
+      const { port } = server.address() as { port: number };
+      server.close(() => resolve(port));
+    });
+  });
+
+describe("AdminServer", () => {
+  let admin: AdminServer | undefined;
+
+  afterEach(async () => {
+    if (admin) {
+      await Effect.runPromise(admin.close());
+      admin = undefined;
+    }
+  });
+
+  const startAdmin = async () => {
+    const port = await freePort();
+    admin = createAdminServer({
+      address: `127.0.0.1:${port}`,
+      version: "1.2.3",
+    });
+    await Effect.runPromise(admin.start());
+    return (path: string) => fetch(`http://127.0.0.1:${port}${path}`);
+  };
+
+  it("should reject an address without a port", () => {
+    expect(() => createAdminServer({ address: "localhost" })).toThrow();
+  });
+
+  it("should answer ping, version and metrics", async () => {
+    const get = await startAdmin();
+
+    const ping = await get("/ping");
+    expect(ping.status).toBe(200);
+    expect(await ping.text()).toBe("pong");
+    expect(await (await get("/version")).json()).toEqual({ version: "1.2.3" });
+    expect((await get("/unknown")).status).toBe(404);
+
+    const metrics = await get("/metrics");
+    expect(metrics.headers.get("content-type")).toMatch(
+      /^text\/plain; version=0.0.4/,
+    );
+    expect(await metrics.text()).toMatch(
+      /^# TYPE \w+ (counter|gauge|histogram)$/m,
+    );
+  });
+
+  it("should fail to start on an address in use", async () => {
+    const taken = await freePort();
+    const blocker = createServer().listen(taken, "127.0.0.1");
+    try {
+      const exit = await Effect.runPromiseExit(
+        createAdminServer({ address: `127.0.0.1:${taken}` }).start(),
+      );
+      expect(exit._tag).toBe("Failure");
+    } finally {
+      await new Promise((resolve) => blocker.close(resolve));
+    }
+  });
+
+  it("should report readiness and live stats of a running pipeline", async () => {
+    const get = await startAdmin();
+    expect((await get("/ready")).status).toBe(503);
+
+    // An input tracking its connection, like MQTT or NATS
+    const inputMetrics = new MetricsAccumulator("test-input");
+    inputMetrics.trackConnection();
+    inputMetrics.recordConnected();
+    const release = Effect.runSync(Deferred.make<void>());
+    const pipeline: Pipeline = {
+      name: "orders",
+      input: {
+        name: "test-input",
+        stream: Stream.make(
+          createMessage({ n: 1 }),
+          createMessage({ n: 2 }),
+        ).pipe(
+          Stream.concat(
+            Stream.fromEffect(Deferred.await(release)).pipe(Stream.drain),
+          ),
+        ),
+        metrics: () => inputMetrics.getInputMetrics(),
+      },
+      processors: [],
+      output: { name: "test-output", send: () => Effect.void },
+    };
+
+    const running = Effect.runFork(run(pipeline, { onStart: admin!.track }));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const ready = await get("/ready");
+    expect(ready.status).toBe(200);
+    expect(await ready.json()).toEqual({ ready: true });
+
+    const stats = await (await get("/stats")).json();
+    expect(stats.pipelines).toEqual([
+      expect.objectContaining({
+        name: "orders",
+        running: true,
+        processed: 2,
+        failed: 0,
+        input: expect.objectContaining({
+          component: "test-input",
+          connection: { connected: true, activeConnections: 1, reconnects: 0 },
+        }),
+      }),
+    ]);
+
+    inputMetrics.recordDisconnected();
+    const disconnected = await get("/ready");
+    expect(disconnected.status).toBe(503);
+    expect(await disconnected.json()).toEqual({
+      ready: false,
+      pipelines: { orders: "input is not connected" },
+    });
+
+    await Effect.runPromise(Deferred.succeed(release, undefined));
+    await Effect.runPromise(Fiber.join(running));
+    expect(await (await get("/ready")).json()).toEqual({
+      ready: false,
+      pipelines: { orders: "pipeline is not running" },
+    });
+  });
+
+  it("should report not ready before the input connects", async () => {
+    const get = await startAdmin();
+    const inputMetrics = new MetricsAccumulator("test-input");
+    inputMetrics.trackConnection();
+    const release = Effect.runSync(Deferred.make<void>());
+    const pipeline: Pipeline = {
+      name: "orders",
+      input: {
+        name: "test-input",
+        stream: Stream.fromEffect(Deferred.await(release)).pipe(Stream.drain),
+        metrics: () => inputMetrics.getInputMetrics(),
+      },
+      processors: [],
+      output: { name: "test-output", send: () => Effect.void },
+    };
+
+    const running = Effect.runFork(run(pipeline, { onStart: admin!.track }));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const connecting = await get("/ready");
+    expect(connecting.status).toBe(503);
+    expect(await connecting.json()).toEqual({
+      ready: false,
+      pipelines: { orders: "input is not connected" },
+    });
+
+    inputMetrics.recordConnected();
+    expect((await get("/ready")).status).toBe(200);
+
+    await Effect.runPromise(Deferred.succeed(release, undefined));
+    await Effect.runPromise(Fiber.join(running));
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { Effect } from "effect";
+import { createBatcher } from "../../../src/core/batcher.js";
+
+describe("createBatcher", () => {
+  it("should send full batches and the rest after the timeout", async () => {
+    const batches: number[][] = [];
+    const batcher = createBatcher({
+      maxBatchSize: 2,
+      batchTimeout: 20,
+      send: (items: number[]) =>
+        Effect.sync(() => {
+          batches.push(items);
+        }),
+    });
+
+    await Effect.runPromise(
+      Effect.forEach([1, 2, 3], batcher.add, { concurrency: "unbounded" }),
+    );
+
+    expect(batches).toEqual([[1, 2], [3]]);
+  });
+
+  it("should fail every item of a failed batch", async () => {
+    const batcher = createBatcher({
+      maxBatchSize: 10,
+      batchTimeout: 60000,
+      send: () => Effect.fail("rejected"),
+    });
+
+    const results = await Effect.runPromise(
+      Effect.zip(
+        Effect.forEach([1, 2], (n) => Effect.either(batcher.add(n)), {
+          concurrency: "unbounded",
+        }),
+        Effect.sleep(10).pipe(Effect.zipRight(batcher.flush)),
+        { concurrent: true },
+      ),
+    );
+
+    expect(results[0].map((r) => r._tag)).toEqual(["Left", "Left"]);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { parseCsvRows, parseCsvRecords } from "../../../src/core/csv.js";
+
+describe("CSV parsing", () => {
+  it("should parse rows and skip empty lines", () => {
+    expect(parseCsvRows("a,b\r\n\n1,2\n")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("should handle quoted fields with delimiters, quotes and newlines", () => {
+    expect(parseCsvRows('"x, y","say ""hi""","line1\nline2"')).toEqual([
+      ["x, y", 'say "hi"', "line1\nline2"],
+    ]);
+  });
+
+  it("should keep empty fields", () => {
+    expect(parseCsvRows("a,,c\n,,")).toEqual([
+      ["a", "", "c"],
+      ["", "", ""],
+    ]);
+  });
+
+  it("should map rows to records using the header", () => {
+    expect(parseCsvRecords("id|name\n1|Ann\n2", "|")).toEqual([
+      { id: "1", name: "Ann" },
+      { id: "2", name: "" },
+    ]);
+  });
+
+  it("should return no records for empty text", () => {
+    expect(parseCsvRecords("")).toEqual([]);
+  });
+});
@@ -168,5 +168,26 @@ describe("Dead Letter Queue (DLQ)", () => {
         expect(mockOutput.close).toHaveBeenCalledTimes(1);
       }
     });
+
+    it("should close the DLQ output as well", async () => {
+      const mockOutput: Output<Error> = {
+        name: "mock-output",
+        send: vi.fn().mockReturnValue(Effect.void),
+        close: vi.fn().mockReturnValue(Effect.void),
+      };
+
+      const dlqOutput: Output<any> = {
+        name: "dlq-output",
+        send: vi.fn().mockReturnValue(Effect.void),
+        close: vi.fn().mockReturnValue(Effect.void),
+      };
+
+      const wrappedOutput = withDLQ({ output: mockOutput, dlq: dlqOutput });
+
+      await Effect.runPromise(wrappedOutput.close!());
+
+      expect(mockOutput.close).toHaveBeenCalledTimes(1);
+      expect(dlqOutput.close).toHaveBeenCalledTimes(1);
+    });
   });
 });
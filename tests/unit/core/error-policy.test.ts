@@ -0,0 +1,171 @@
+import { describe, it, expect } from "vitest";
+import { Effect, Exit, Schedule } from "effect";
+import {
+  withErrorPolicy,
+  createErrorMessage,
+  ProcessorFailure,
+} from "../../../src/core/error-policy.js";
+import {
+  ComponentError,
+  type ErrorCategory,
+} from "../../../src/core/errors.js";
+import { createMessage } from "../../../src/core/types.js";
+import type { Processor } from "../../../src/core/types.js";
+
+class TestError extends ComponentError {
+  readonly _tag = "TestError";
+  constructor(
+    message: string,
+    readonly category: ErrorCategory,
+  ) {
+    super(message);
+  }
+}
+
+const failingProcessor = (
+  error: unknown,
+  calls: { count: number } = { count: 0 },
+): Processor<unknown> => ({
+  name: "failing-processor",
+  process: () =>
+    Effect.suspend(() => {
+      calls.count++;
+      return Effect.fail(error);
+    }),
+});
+
+const getFailure = (exit: Exit.Exit<unknown, unknown>): ProcessorFailure => {
+  if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+    return exit.cause.error as ProcessorFailure;
+  }
+  throw new Error("Expected a failure");
+};
+
+describe("Error Policy", () => {
+  describe("withErrorPolicy", () => {
+    it("should drop messages by default", async () => {
+      const msg = createMessage({ test: "data" });
+      const processor = withErrorPolicy(
+        failingProcessor(new TestError("Bad data", "logical")),
+        {},
+      );
+
+      const exit = await Effect.runPromiseExit(processor.process(msg));
+      const failure = getFailure(exit);
+
+      expect(failure).toBeInstanceOf(ProcessorFailure);
+      expect(failure.action).toBe("drop");
+      expect(failure.category).toBe("logical");
+      expect(failure.message).toBe(msg);
+    });
+
+    it("should pass the message through on skip", async () => {
+      const msg = createMessage({ test: "data" });
+      const processor = withErrorPolicy(
+        failingProcessor(new TestError("Bad data", "logical")),
+        { action: "skip" },
+      );
+
+      const result = await Effect.runPromise(processor.process(msg));
+
+      expect(result).toBe(msg);
+    });
+
+    it("should retry intermittent errors before applying the action", async () => {
+      const calls = { count: 0 };
+      const processor = withErrorPolicy(
+        failingProcessor(
+          new TestError("Connection reset", "intermittent"),
+          calls,
+        ),
+        {
+          action: "error_output",
+          maxRetries: 2,
+          retrySchedule: Schedule.spaced("1 millis"),
+        },
+      );
+
+      const exit = await Effect.runPromiseExit(
+        processor.process(createMessage({})),
+      );
+
+      expect(calls.count).toBe(3);
+      expect(getFailure(exit).action).toBe("error_output");
+    });
+
+    it("should not retry logical errors", async () => {
+      const calls = { count: 0 };
+      const processor = withErrorPolicy(
+        failingProcessor(new TestError("Bad data", "logical"), calls),
+        { maxRetries: 3, retrySchedule: Schedule.spaced("1 millis") },
+      );
+
+      await Effect.runPromiseExit(processor.process(createMessage({})));
+
+      expect(calls.count).toBe(1);
+    });
+
+    it("should treat uncategorized errors as logical", async () => {
+      const processor = withErrorPolicy(
+        failingProcessor({ _tag: "MappingError", message: "boom" }),
+        { action: "error_output" },
+      );
+
+      const exit = await Effect.runPromiseExit(
+        processor.process(createMessage({})),
+      );
+
+      expect(getFailure(exit).category).toBe("logical");
+    });
+
+    it("should stop the pipeline on fatal errors regardless of action", async () => {
+      const processor = withErrorPolicy(
+        failingProcessor(new TestError("Unauthorized", "fatal")),
+        { action: "skip" },
+      );
+
+      const exit = await Effect.runPromiseExit(
+        processor.process(createMessage({})),
+      );
+
+      expect(getFailure(exit).action).toBe("fail");
+    });
+
+    it("should keep decisions made by nested policies", async () => {
+      const inner = withErrorPolicy(
+        failingProcessor(new TestError("Bad data", "logical")),
+        { action: "error_output" },
+      );
+      const outer = withErrorPolicy(inner, { action: "skip" });
+
+      const exit = await Effect.runPromiseExit(
+        outer.process(createMessage({})),
+      );
+
+      expect(getFailure(exit).action).toBe("error_output");
+    });
+  });
+
+  describe("createErrorMessage", () => {
+    it("should attach error details as metadata", () => {
+      const msg = createMessage({ test: "data" }, { source: "test" });
+      const failure = new ProcessorFailure(
+        "error_output",
+        "mapping-processor",
+        msg,
+        "logical",
+        new Error("Invalid field"),
+      );
+
+      const errorMessage = createErrorMessage(failure);
+
+      expect(errorMessage.content).toEqual({ test: "data" });
+      expect(errorMessage.metadata.source).toBe("test");
+      expect(errorMessage.metadata.error).toBe(true);
+      expect(errorMessage.metadata.errorReason).toBe("Invalid field");
+      expect(errorMessage.metadata.errorCategory).toBe("logical");
+      expect(errorMessage.metadata.errorProcessor).toBe("mapping-processor");
+      expect(errorMessage.metadata.originalMessageId).toBe(msg.id);
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { expandGlob, globToRegExp } from "../../../src/core/glob.js";
+
+describe("Glob matching", () => {
+  it("should match wildcards within a path segment", () => {
+    const re = globToRegExp("logs/*.log");
+    expect(re.test("logs/app.log")).toBe(true);
+    expect(re.test("logs/2024/app.log")).toBe(false);
+  });
+
+  it("should match any depth with **", () => {
+    const re = globToRegExp("**/*.json");
+    expect(re.test("a.json")).toBe(true);
+    expect(re.test("a/b/c.json")).toBe(true);
+  });
+
+  it("should support ?, classes and alternatives", () => {
+    expect(globToRegExp("file?.csv").test("file1.csv")).toBe(true);
+    expect(globToRegExp("[!a]*.txt").test("a.txt")).toBe(false);
+    expect(globToRegExp("*.{json,jsonl}").test("x.jsonl")).toBe(true);
+    expect(globToRegExp("*.{json,jsonl}").test("x.csv")).toBe(false);
+  });
+
+  it("should expand patterns to sorted absolute file paths", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "glob-"));
+    try {
+      await fs.mkdir(path.join(dir, "nested"));
+      await fs.writeFile(path.join(dir, "b.log"), "");
+      await fs.writeFile(path.join(dir, "a.log"), "");
+      await fs.writeFile(path.join(dir, "nested", "c.log"), "");
+
+      expect(await expandGlob(path.join(dir, "*.log"))).toEqual([
+        path.join(dir, "a.log"),
+        path.join(dir, "b.log"),
+      ]);
+      expect(await expandGlob(path.join(dir, "**/*.log"))).toHaveLength(3);
+      expect(await expandGlob(path.join(dir, "missing.log"))).toEqual([]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach } from "vitest";
 import { Effect } from "effect";
 import {
   MetricsAccumulator,
+  combineOutputMetrics,
   emitInputMetrics,
   emitOutputMetrics,
   measureDuration,
@@ -151,6 +152,46 @@ describe("Metrics Collection", () => {
         expect(outputMetrics.totalDuration).toBe(0);
       });
     });
+
+    describe("Connection metrics", () => {
+      it("should only report connections once recorded", () => {
+        expect(accumulator.getInputMetrics().connection).toBeUndefined();
+
+        accumulator.recordConnected();
+        accumulator.recordConnected();
+        accumulator.recordDisconnected();
+        accumulator.recordReconnect();
+
+        expect(accumulator.getOutputMetrics().connection).toEqual({
+          connected: true,
+          activeConnections: 1,
+          reconnects: 1,
+        });
+      });
+
+      it("should report a tracked connection as not connected", () => {
+        accumulator.trackConnection();
+
+        expect(accumulator.getInputMetrics().connection).toEqual({
+          connected: false,
+          activeConnections: 0,
+          reconnects: 0,
+        });
+      });
+
+      it("should keep open connections on reset", () => {
+        accumulator.recordConnected();
+        accumulator.recordReconnect();
+
+        accumulator.reset();
+
+        expect(accumulator.getInputMetrics().connection).toEqual({
+          connected: true,
+          activeConnections: 1,
+          reconnects: 0,
+        });
+      });
+    });
   });
 
   describe("emitInputMetrics", () => {
@@ -186,6 +227,38 @@ describe("Metrics Collection", () => {
     });
   });
 
+  describe("combineOutputMetrics", () => {
+    it("should sum children and require every connection", () => {
+      const first = new MetricsAccumulator("first");
+      first.recordSent(3, 30);
+      first.recordConnected();
+      const second = new MetricsAccumulator("second");
+      second.recordSent(1, 50);
+      second.recordSendError();
+      const third = new MetricsAccumulator("third");
+      third.recordReconnect(); // Tracked, but not connected
+
+      const combined = combineOutputMetrics("broker-output", [
+        first.getOutputMetrics(),
+        second.getOutputMetrics(),
+        third.getOutputMetrics(),
+      ]);
+
+      expect(combined).toMatchObject({
+        component: "broker-output",
+        messagesSent: 4,
+        sendErrors: 1,
+        totalDuration: 80,
+        averageDuration: 35, // (30 * 3 + 50 * 1) / 4
+        connection: { connected: false, activeConnections: 1, reconnects: 1 },
+      });
+      expect(
+        combineOutputMetrics("broker-output", [second.getOutputMetrics()])
+          .connection,
+      ).toBeUndefined();
+    });
+  });
+
   describe("measureDuration", () => {
     it("should measure effect execution duration", async () => {
       const effect = Effect.gen(function* () {
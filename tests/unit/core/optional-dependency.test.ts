@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { detectCategory } from "../../../src/core/errors.js";
+import {
+  MissingDependencyError,
+  loadOptionalDependency,
+  requireOptionalDependency,
+} from "../../../src/core/optional-dependency.js";
+
+const notFound = (message: string) =>
+  Object.assign(new Error(message), { code: "ERR_MODULE_NOT_FOUND" });
+
+describe("loadOptionalDependency", () => {
+  it("should return the loaded module", async () => {
+    const module = { default: "client" };
+
+    await expect(
+      loadOptionalDependency(
+        "pg",
+        "the postgres SQL driver",
+        async () => module,
+      ),
+    ).resolves.toBe(module);
+  });
+
+  it("should name the missing package and how to install it", async () => {
+    const error = await loadOptionalDependency(
+      "pg",
+      "the postgres SQL driver",
+      () =>
+        Promise.reject(
+          notFound("Cannot find package 'pg' imported from /app/sql.js"),
+        ),
+    ).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(MissingDependencyError);
+    expect(error).toMatchObject({
+      packageName: "pg",
+      category: "fatal",
+      message:
+        'Missing package "pg" required by the postgres SQL driver; install it with: npm install pg',
+    });
+    // Components wrapping it in their own errors keep it fatal
+    expect(detectCategory(error)).toBe("fatal");
+  });
+
+  it("should rethrow other errors", async () => {
+    const nested = notFound("Cannot find package 'pg-types' imported from pg");
+    const broken = new Error("native module failed to load");
+
+    await expect(
+      loadOptionalDependency("pg", "the postgres SQL driver", () =>
+        Promise.reject(nested),
+      ),
+    ).rejects.toBe(nested);
+    await expect(
+      loadOptionalDependency("better-sqlite3", "the sqlite SQL driver", () =>
+        Promise.reject(broken),
+      ),
+    ).rejects.toBe(broken);
+  });
+});
+
+describe("requireOptionalDependency", () => {
+  it("should name the missing package", () => {
+    const missing = Object.assign(
+      new Error("Cannot find module 'nats'\nRequire stack: /app/nats.js"),
+      { code: "MODULE_NOT_FOUND" },
+    );
+
+    expect(() =>
+      requireOptionalDependency("nats", "the NATS components", () => {
+        throw missing;
+      }),
+    ).toThrow(
+      'Missing package "nats" required by the NATS components; install it with: npm install nats',
+    );
+  });
+});
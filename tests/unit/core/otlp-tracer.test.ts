@@ -0,0 +1,172 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { Effect, Stream } from "effect";
+import { createServer, type Server } from "node:http";
+import { createOtlpTracer } from "../../../src/core/otlp-tracer.js";
+import { run } from "../../../src/core/pipeline.js";
+import { createMessage } from "../../../src/core/types.js";
+import type { Message, Pipeline } from "../../../src/core/types.js";
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const SPAN_ID = "00f067aa0ba902b7";
+
+interface ExportedSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  status: { code: number; message?: string };
+}
+
+const createPipeline = (
+  messages: Message[],
+  send: (msg: Message) => Effect.Effect<void, Error> = () => Effect.void,
+): Pipeline<Error> => ({
+  name: "otlp-test",
+  input: { name: "test-input", stream: Stream.fromIterable(messages) },
+  processors: [
+    { name: "test-processor", process: (msg) => Effect.succeed(msg) },
+  ],
+  output: { name: "test-output", send },
+});
+
+describe("OtlpTracer", () => {
+  let collector: Server | undefined;
+
+  afterEach(async () => {
+    collector?.closeAllConnections();
+    await new Promise((resolve) => collector?.close(resolve) ?? resolve(null));
+    collector = undefined;
+  });
+
+  // Collector recording every export request
+  const startCollector = async () => {
+    const requests: Array<{ path?: string; headers: unknown; body: any }> = [];
+    collector = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        requests.push({
+          path: req.url,
+          headers: req.headers,
+          body: JSON.parse(body),
+        });
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end("{}");
+      });
+    });
+    await new Promise<void>((resolve) =>
+      collector!.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = collector.address() as { port: number };
+    const spans = (): ExportedSpan[] =>
+      requests.flatMap((request) =>
+        request.body.resourceSpans.flatMap((resource: any) =>
+          resource.scopeSpans.flatMap((scope: any) => scope.spans),
+        ),
+      );
+    return { endpoint: `http://127.0.0.1:${port}`, requests, spans };
+  };
+
+  it("should reject an invalid sampling ratio", () => {
+    expect(() => createOtlpTracer({ samplingRatio: 2 })).toThrow();
+  });
+
+  it("should export message, processor and output spans", async () => {
+    const { endpoint, requests, spans } = await startCollector();
+    const otlp = createOtlpTracer({
+      endpoint,
+      serviceName: "orders",
+      headers: { "x-api-key": "secret" },
+    });
+
+    await Effect.runPromise(
+      run(
+        createPipeline(
+          [
+            {
+              ...createMessage({ n: 1 }),
+              trace: { traceId: TRACE_ID, spanId: SPAN_ID },
+            },
+            createMessage({ n: 2 }),
+          ],
+          (msg) =>
+            (msg.content as { n: number }).n === 2
+              ? Effect.fail(new Error("Output down"))
+              : Effect.void,
+        ),
+      ).pipe(Effect.withTracer(otlp.tracer), Effect.ensuring(otlp.close())),
+    );
+
+    expect(requests[0].path).toBe("/v1/traces");
+    expect(requests[0].headers).toMatchObject({ "x-api-key": "secret" });
+    expect(requests[0].body.resourceSpans[0].resource.attributes).toEqual([
+      { key: "service.name", value: { stringValue: "orders" } },
+    ]);
+
+    const continued = spans().filter((span) => span.traceId === TRACE_ID);
+    const root = continued.find((span) => span.name === "process-message")!;
+    expect(root).toMatchObject({ parentSpanId: SPAN_ID, kind: 5 });
+    expect(
+      continued
+        .filter((span) => span.parentSpanId === root.spanId)
+        .map((span) => [span.name, span.kind])
+        .sort(),
+    ).toEqual([
+      ["output test-output", 4],
+      ["processor test-processor", 1],
+    ]);
+
+    // The failed send starts a trace of its own and is marked as error
+    const failed = spans().find(
+      (span) => span.traceId !== TRACE_ID && span.name === "output test-output",
+    );
+    expect(failed?.status).toMatchObject({
+      code: 2,
+      message: expect.stringContaining("Output down"),
+    });
+  });
+
+  it("should not export traces that are not sampled", async () => {
+    const { endpoint, spans } = await startCollector();
+    const otlp = createOtlpTracer({ endpoint, samplingRatio: 0 });
+
+    await Effect.runPromise(
+      run(
+        createPipeline([
+          createMessage({ n: 1 }),
+          {
+            ...createMessage({ n: 2 }),
+            trace: { traceId: TRACE_ID, spanId: SPAN_ID, sampled: true },
+          },
+        ]),
+      ).pipe(Effect.withTracer(otlp.tracer), Effect.ensuring(otlp.close())),
+    );
+
+    // Only the trace sampled upstream is exported
+    expect(spans().length).toBeGreaterThan(0);
+    expect(spans().every((span) => span.traceId === TRACE_ID)).toBe(true);
+  });
+
+  it("should give up an export the collector never answers", async () => {
+    collector = createServer(() => {});
+    await new Promise<void>((resolve) =>
+      collector!.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = collector.address() as { port: number };
+    const otlp = createOtlpTracer({
+      endpoint: `http://127.0.0.1:${port}`,
+      exportTimeout: 100,
+    });
+
+    const start = Date.now();
+    await Effect.runPromise(
+      run(createPipeline([createMessage({ n: 1 })])).pipe(
+        Effect.withTracer(otlp.tracer),
+        Effect.ensuring(otlp.close()),
+      ),
+    );
+
+    expect(Date.now() - start).toBeLessThan(2000);
+  });
+});
@@ -0,0 +1,610 @@
+import { describe, it, expect, vi } from "vitest";
+import { Effect, Stream } from "effect";
+import * as S from "effect/Schema";
+import { buildPipeline } from "../../../src/core/pipeline-builder.js";
+import {
+  PipelineConfigSchema,
+  type PipelineConfig,
+} from "../../../src/core/config-loader.js";
+import { run } from "../../../src/core/pipeline.js";
+import { createMessage, type Input } from "../../../src/core/types.js";
+
+// SQS that is down
+const sqsSend = vi.hoisted(() => vi.fn());
+vi.mock("@aws-sdk/client-sqs", () => ({
+  SQSClient: vi.fn(() => ({ send: sqsSend, destroy: vi.fn() })),
+  SendMessageCommand: vi.fn((params) => params),
+  SendMessageBatchCommand: vi.fn((params) => params),
+  ReceiveMessageCommand: vi.fn((params) => params),
+  DeleteMessageCommand: vi.fn((params) => params),
+}));
+
+const decode = (raw: unknown): PipelineConfig =>
+  S.decodeUnknownSync(PipelineConfigSchema)(raw);
+
+const generate = { count: 1, template: { name: "test" } };
+
+describe("PipelineBuilder", () => {
+  describe("Name", () => {
+    it("should name the pipeline after its input and output types", async () => {
+      const pipeline = await Effect.runPromise(
+        buildPipeline(
+          decode({
+            input: { stdin: {} },
+            output: {
+              switch: { cases: [{ check: "true", output: { capture: {} } }] },
+              rate_limit: "api",
+            },
+            rate_limit_resources: [{ label: "api", count: 1, interval: 1000 }],
+          }),
+        ),
+      );
+
+      expect(pipeline.name).toBe("stdin-to-switch");
+    });
+
+    it("should prefer the configured name", async () => {
+      const pipeline = await Effect.runPromise(
+        buildPipeline(
+          decode({
+            name: "orders",
+            input: { generate },
+            output: { capture: {} },
+          }),
+        ),
+      );
+
+      expect(pipeline.name).toBe("orders");
+    });
+  });
+
+  describe("DLQ", () => {
+    it("should wrap the output with DLQ when configured", async () => {
+      const config = decode({
+        input: { generate },
+        output: { capture: {} },
+        dlq: {
+          output: { capture: {} },
+          max_retries: 2,
+          retry_schedule: "fixed",
+          retry_delay: 10,
+        },
+      });
+
+      const pipeline = await Effect.runPromise(buildPipeline(config));
+
+      expect(pipeline.output.name).toBe("capture-output-with-dlq");
+    });
+
+    it("should leave the output unwrapped without DLQ", async () => {
+      const config = decode({
+        input: { generate },
+        output: { capture: {} },
+      });
+
+      const pipeline = await Effect.runPromise(buildPipeline(config));
+
+      expect(pipeline.output.name).toBe("capture-output");
+    });
+
+    it("should reject unknown retry schedules", () => {
+      expect(() =>
+        decode({
+          input: { generate },
+          output: { capture: {} },
+          dlq: { output: { capture: {} }, retry_schedule: "linear" },
+        }),
+      ).toThrow();
+    });
+  });
+
+  describe("Backpressure", () => {
+    it("should apply backpressure limits from config", async () => {
+      const config = decode({
+        input: { generate },
+        output: { capture: {} },
+        backpressure: {
+          max_concurrent_messages: 4,
+          max_concurrent_outputs: 2,
+        },
+      });
+
+      const pipeline = await Effect.runPromise(buildPipeline(config));
+
+      expect(pipeline.backpressure).toEqual({
+        maxConcurrentMessages: 4,
+        maxConcurrentOutputs: 2,
+      });
+    });
+
+    it("should reject non-positive concurrency limits", () => {
+      expect(() =>
+        decode({
+          input: { generate },
+          output: { capture: {} },
+          backpressure: { max_concurrent_messages: 0 },
+        }),
+      ).toThrow();
+    });
+  });
+
+  describe("Shutdown", () => {
+    it("should apply the drain timeout from config", async () => {
+      const config = decode({
+        input: { generate },
+        output: { capture: {} },
+        shutdown: { drain_timeout: 5000 },
+      });
+
+      const pipeline = await Effect.runPromise(buildPipeline(config));
+
+      expect(pipeline.shutdown).toEqual({ drainTimeout: 5000 });
+    });
+  });
+
+  describe("Error policies", () => {
+    it("should build the error output and pipeline-wide policy", async () => {
+      const config = decode({
+        input: { generate },
+        pipeline: {
+          processors: [{ log: {}, on_error: { action: "skip" } }],
+          on_error: { action: "error_output", max_retries: 1 },
+        },
+        output: { capture: {} },
+        error_output: { capture: {} },
+      });
+
+      const pipeline = await Effect.runPromise(buildPipeline(config));
+
+      expect(pipeline.errorOutput?.name).toBe("capture-output");
+      expect(pipeline.onError?.action).toBe("error_output");
+      expect(pipeline.onError?.maxRetries).toBe(1);
+    });
+
+    it("should fail when error_output action has no error output", async () => {
+      const config = decode({
+        input: { generate },
+        pipeline: {
+          processors: [
+            {
+              branch: {
+                processors: [{ log: {}, on_error: { action: "error_output" } }],
+              },
+            },
+          ],
+        },
+        output: { capture: {} },
+      });
+
+      const result = await Effect.runPromise(
+        Effect.either(buildPipeline(config)),
+      );
+
+      expect(result._tag).toBe("Left");
+    });
+  });
+
+  describe("Rate limits", () => {
+    it("should build processors and nested outputs with rate limits", async () => {
+      const config = decode({
+        input: { generate },
+        rate_limit_resources: [
+          { label: "api", count: 10, interval: 1000 },
+          { label: "sink", algorithm: "fixed_window", count: 5, interval: 100 },
+        ],
+        pipeline: {
+          processors: [
+            { branch: { processors: [{ log: {}, rate_limit: "api" }] } },
+          ],
+        },
+        output: {
+          switch: {
+            cases: [
+              {
+                check: "true",
+                output: { capture: {}, rate_limit: "sink" },
+              },
+            ],
+          },
+        },
+      });
+
+      const pipeline = await Effect.runPromise(buildPipeline(config));
+
+      expect(pipeline.processors[0].name).toBe("branch-processor");
+      expect(pipeline.output.close).toBeDefined();
+    });
+
+    it("should fail on an undefined rate limit", async () => {
+      const config = decode({
+        input: { generate },
+        output: { capture: {}, rate_limit: "missing" },
+      });
+
+      const result = await Effect.runPromise(
+        Effect.either(buildPipeline(config)),
+      );
+
+      expect(result._tag).toBe("Left");
+    });
+  });
+
+  describe("Broker output", () => {
+    it("should build a broker with DLQ-wrapped children", async () => {
+      const config = decode({
+        input: { generate },
+        output: {
+          broker: {
+            pattern: "fan_out_sequential",
+            outputs: [
+              { capture: {} },
+              { capture: {}, dlq: { output: { capture: {} } } },
+            ],
+          },
+        },
+      });
+
+      const pipeline = await Effect.runPromise(buildPipeline(config));
+
+      expect(pipeline.output.name).toBe("broker-output");
+    });
+
+    it("should reject an unknown broker pattern", () => {
+      expect(() =>
+        decode({
+          input: { generate },
+          output: {
+            broker: { pattern: "random", outputs: [{ capture: {} }] },
+          },
+        }),
+      ).toThrow();
+    });
+  });
+
+  describe("Switch output", () => {
+    it("should build a switch output with nested outputs", async () => {
+      const config = decode({
+        input: { generate },
+        output: {
+          switch: {
+            cases: [
+              {
+                check: 'type = "order"',
+                output: { capture: {} },
+                continue: true,
+              },
+              {
+                check: "true",
+                output: { broker: { outputs: [{ capture: {} }] } },
+              },
+            ],
+          },
+        },
+      });
+
+      const pipeline = await Effect.runPromise(buildPipeline(config));
+
+      expect(pipeline.output.name).toBe("switch-output");
+    });
+  });
+
+  describe("Broker input", () => {
+    it("should build a broker input from nested inputs", async () => {
+      const config = decode({
+        input: {
+          broker: {
+            inputs: [{ generate }, { broker: { inputs: [{ generate }] } }],
+          },
+        },
+        output: { capture: {} },
+      });
+
+      const pipeline = await Effect.runPromise(buildPipeline(config));
+
+      expect(pipeline.input.name).toBe("broker-input");
+    });
+  });
+
+  describe("File output", () => {
+    it("should build a file output", async () => {
+      const config = decode({
+        input: { generate },
+        output: {
+          file: {
+            path: "./archive/{{ meta.tenant }}.jsonl.gz",
+            compression: "gzip",
+            max_size: 1024,
+          },
+        },
+      });
+
+      const pipeline = await Effect.runPromise(buildPipeline(config));
+
+      expect(pipeline.output.name).toBe("file-output");
+    });
+  });
+
+  describe("Stdin and stdout", () => {
+    it("should build stdin input and stdout output", async () => {
+      const config = decode({
+        input: { stdin: { codec: "json_stream" } },
+        output: { stdout: { format: "raw" } },
+      });
+
+      const pipeline = await Effect.runPromise(buildPipeline(config));
+
+      expect(pipeline.input.name).toBe("stdin-input");
+      expect(pipeline.output.name).toBe("stdout-output");
+    });
+  });
+
+  describe("Kafka", () => {
+    it("should build kafka input and output", async () => {
+      const config = decode({
+        input: {
+          kafka: {
+            brokers: ["localhost:9092"],
+            topics: ["orders"],
+            consumer_group: "pipeline",
+            from_beginning: true,
+          },
+        },
+        output: {
+          kafka: {
+            brokers: ["localhost:9092"],
+            topic: "orders-enriched",
+            key: "{{ content.id }}",
+            max_batch_size: 20,
+            acks: 1,
+          },
+        },
+      });
+
+      const pipeline = await Effect.runPromise(buildPipeline(config));
+
+      expect(pipeline.input.name).toBe("kafka-input");
+      expect(pipeline.output.name).toBe("kafka-output");
+    });
+  });
+
+  describe("SQL insert output", () => {
+    it("should build a sql_insert output", async () => {
+      const config = decode({
+        input: { generate },
+        output: {
+          sql_insert: {
+            driver: "sqlite",
+            dsn: ":memory:",
+            table: "events",
+            columns: ["id", "payload"],
+            args_mapping: "[id, $string($)]",
+            on_conflict: { columns: ["id"], action: "nothing" },
+            max_batch_size: 50,
+          },
+        },
+      });
+
+      const pipeline = await Effect.runPromise(buildPipeline(config));
+
+      expect(pipeline.output.name).toBe("sql-insert-output");
+    });
+  });
+
+  describe("WebSocket", () => {
+    it("should build websocket input and output", async () => {
+      const config = decode({
+        input: {
+          websocket: {
+            url: "wss://stream.example.com/events",
+            headers: { Authorization: "Bearer secret" },
+            open_message: '{"subscribe":"orders"}',
+            reconnect_delay: 500,
+          },
+        },
+        output: {
+          websocket: { url: "ws://localhost:9000/ingest", format: "raw" },
+        },
+      });
+
+      const pipeline = await Effect.runPromise(buildPipeline(config));
+
+      expect(pipeline.input.name).toBe("websocket-input");
+      expect(pipeline.output.name).toBe("websocket-output");
+    });
+  });
+
+  describe("MQTT", () => {
+    it("should build mqtt input and output", async () => {
+      const config = decode({
+        input: {
+          mqtt: {
+            url: "mqtt://localhost:1883",
+            topics: ["sensors/+/telemetry"],
+            qos: 2,
+            client_id: "pipeline",
+            clean_session: false,
+          },
+        },
+        output: {
+          mqtt: {
+            url: "mqtt://localhost:1883",
+            topic: "devices/{{ content.deviceId }}/state",
+            retain: true,
+          },
+        },
+      });
+
+      const pipeline = await Effect.runPromise(buildPipeline(config));
+
+      expect(pipeline.input.name).toBe("mqtt-input");
+      expect(pipeline.output.name).toBe("mqtt-output");
+    });
+
+    it("should reject an unknown QoS", () => {
+      expect(() =>
+        decode({
+          input: { mqtt: { url: "mqtt://localhost", topics: ["a"], qos: 3 } },
+          output: { capture: {} },
+        }),
+      ).toThrow();
+    });
+  });
+
+  describe("NATS", () => {
+    it("should build nats input and output", async () => {
+      const config = decode({
+        input: {
+          nats: {
+            urls: ["nats://localhost:4222"],
+            subjects: ["orders.>"],
+            queue_group: "pipeline",
+          },
+        },
+        output: {
+          nats: {
+            urls: ["nats://localhost:4222"],
+            subject: "enriched.{{ meta.nats_subject }}",
+            request: true,
+          },
+        },
+      });
+
+      const pipeline = await Effect.runPromise(buildPipeline(config));
+
+      expect(pipeline.input.name).toBe("nats-input");
+      expect(pipeline.output.name).toBe("nats-output");
+    });
+
+    it("should build nats_jetstream input and output", async () => {
+      const config = decode({
+        input: {
+          nats_jetstream: {
+            urls: ["nats://localhost:4222"],
+            stream: "ORDERS",
+            durable: "pipeline",
+            filter_subjects: ["orders.created"],
+            deliver_policy: "new",
+          },
+        },
+        output: {
+          nats_jetstream: {
+            urls: ["nats://localhost:4222"],
+            subject: "archive.orders",
+          },
+        },
+      });
+
+      const pipeline = await Effect.runPromise(buildPipeline(config));
+
+      expect(pipeline.input.name).toBe("nats-jetstream-input");
+      expect(pipeline.output.name).toBe("nats-jetstream-output");
+    });
+  });
+
+  describe("SQL select input", () => {
+    it("should build a sql_select input", async () => {
+      const config = decode({
+        input: {
+          sql_select: {
+            driver: "sqlite",
+            dsn: ":memory:",
+            table: "events",
+            cursor_column: "id",
+            initial_cursor: 100,
+            cursor_path: "./data/events.cursor.json",
+          },
+        },
+        output: { capture: {} },
+      });
+
+      const pipeline = await Effect.runPromise(buildPipeline(config));
+
+      expect(pipeline.input.name).toBe("sql-select-input");
+    });
+  });
+
+  describe("SQL select processor", () => {
+    it("should build a sql_select processor", async () => {
+      const config = decode({
+        input: { generate },
+        pipeline: {
+          processors: [
+            {
+              sql_select: {
+                driver: "sqlite",
+                dsn: ":memory:",
+                query: "SELECT name FROM customers WHERE id = ?",
+                args_mapping: "[customerId]",
+                result_key: "customer",
+              },
+            },
+          ],
+        },
+        output: { capture: {} },
+      });
+
+      const pipeline = await Effect.runPromise(buildPipeline(config));
+
+      expect(pipeline.processors[0].name).toBe("sql-select-processor");
+    });
+  });
+
+  describe("File input", () => {
+    it("should build a file input", async () => {
+      const config = decode({
+        input: {
+          file: { paths: ["./data/*.csv"], codec: "csv", delimiter: ";" },
+        },
+        output: { capture: {} },
+      });
+
+      const pipeline = await Effect.runPromise(buildPipeline(config));
+
+      expect(pipeline.input.name).toBe("file-input");
+    });
+
+    it("should reject an unknown codec", () => {
+      expect(() =>
+        decode({
+          input: { file: { paths: "a.txt", codec: "xml" } },
+          output: { capture: {} },
+        }),
+      ).toThrow();
+    });
+  });
+
+  describe("SQS output", () => {
+    it("should nack the messages of a batch that could not be sent", async () => {
+      sqsSend.mockRejectedValue(new Error("Network error"));
+      const config = decode({
+        input: { generate },
+        output: {
+          aws_sqs: {
+            url: "http://localhost:4566/000000000000/test-queue",
+            max_batch_size: 10,
+            batch_timeout: 20,
+            max_retries: 0,
+          },
+        },
+      });
+      const messages = [createMessage({ n: 1 }), createMessage({ n: 2 })];
+      const acked: string[] = [];
+      const nacked: string[] = [];
+      const input: Input = {
+        name: "ack-input",
+        stream: Stream.fromIterable(messages),
+        ack: (msg) => Effect.sync(() => void acked.push(msg.id)),
+        nack: (msg) => Effect.sync(() => void nacked.push(msg.id)),
+      };
+
+      const pipeline = await Effect.runPromise(buildPipeline(config));
+      await Effect.runPromise(run({ ...pipeline, input }));
+
+      // Both messages went out in one batch
+      expect(sqsSend).toHaveBeenCalledTimes(1);
+      expect(sqsSend.mock.calls[0][0].Entries).toHaveLength(2);
+      expect(acked).toEqual([]);
+      expect(nacked.sort()).toEqual(messages.map((m) => m.id).sort());
+    });
+  });
+});
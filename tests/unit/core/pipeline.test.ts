@@ -0,0 +1,594 @@
+import { describe, it, expect, vi } from "vitest";
+import { Effect, Fiber, Stream } from "effect";
+import { create, run } from "../../../src/core/pipeline.js";
+import { createMessage } from "../../../src/core/types.js";
+import { createFilterProcessor } from "../../../src/processors/filter-processor.js";
+import { createWindowProcessor } from "../../../src/processors/window-processor.js";
+import { createBranchProcessor } from "../../../src/processors/branch-processor.js";
+import type { Input, Message, Output } from "../../../src/core/types.js";
+
+const createAckInput = (messages: Message[]) => {
+  const acked: string[] = [];
+  const nacked: string[] = [];
+
+  const input: Input = {
+    name: "ack-input",
+    stream: Stream.fromIterable(messages),
+    ack: (msg) => Effect.sync(() => void acked.push(msg.id)),
+    nack: (msg) => Effect.sync(() => void nacked.push(msg.id)),
+  };
+
+  return { input, acked, nacked };
+};
+
+describe("Pipeline", () => {
+  describe("Acknowledgement", () => {
+    it("should ack messages after the output succeeds", async () => {
+      const messages = [createMessage({ n: 1 }), createMessage({ n: 2 })];
+      const { input, acked, nacked } = createAckInput(messages);
+
+      const sent: string[] = [];
+      const output: Output = {
+        name: "mock-output",
+        send: (msg) => Effect.sync(() => void sent.push(msg.id)),
+      };
+
+      const result = await Effect.runPromise(
+        run(create({ name: "test", input, processors: [], output })),
+      );
+
+      expect(result.success).toBe(true);
+      expect(sent).toHaveLength(2);
+      expect(acked.sort()).toEqual(messages.map((m) => m.id).sort());
+      expect(nacked).toEqual([]);
+    });
+
+    it("should nack messages when the output fails", async () => {
+      const message = createMessage({ n: 1 });
+      const { input, acked, nacked } = createAckInput([message]);
+
+      const output: Output<Error> = {
+        name: "failing-output",
+        send: () => Effect.fail(new Error("Output down")),
+      };
+
+      const result = await Effect.runPromise(
+        run(create({ name: "test", input, processors: [], output })),
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.stats.failed).toBe(1);
+      expect(acked).toEqual([]);
+      expect(nacked).toEqual([message.id]);
+    });
+
+    it("should nack messages when a processor fails", async () => {
+      const message = createMessage({ n: 1 });
+      const { input, acked, nacked } = createAckInput([message]);
+
+      const send = vi.fn().mockReturnValue(Effect.void);
+      const output: Output = { name: "mock-output", send };
+
+      const result = await Effect.runPromise(
+        run(
+          create({
+            name: "test",
+            input,
+            processors: [
+              {
+                name: "failing-processor",
+                process: () => Effect.fail(new Error("Bad data")),
+              },
+            ],
+            output,
+          }),
+        ),
+      );
+
+      expect(result.stats.failed).toBe(1);
+      expect(send).not.toHaveBeenCalled();
+      expect(acked).toEqual([]);
+      expect(nacked).toEqual([message.id]);
+    });
+
+    it("should ack once after all split messages are delivered", async () => {
+      const message = createMessage({ items: [1, 2, 3] });
+      const { input, acked, nacked } = createAckInput([message]);
+
+      const sent: unknown[] = [];
+      const output: Output = {
+        name: "mock-output",
+        send: (msg) => Effect.sync(() => void sent.push(msg.content)),
+      };
+
+      await Effect.runPromise(
+        run(
+          create({
+            name: "test",
+            input,
+            processors: [
+              {
+                name: "split",
+                process: (msg) =>
+                  Effect.succeed(
+                    (msg.content as { items: number[] }).items.map((item) =>
+                      createMessage(item),
+                    ),
+                  ),
+              },
+            ],
+            output,
+          }),
+        ),
+      );
+
+      expect(sent).toEqual([1, 2, 3]);
+      expect(acked).toEqual([message.id]);
+      expect(nacked).toEqual([]);
+    });
+
+    it("should pass the original input message to ack", async () => {
+      const message = createMessage({ n: 1 }, { receiptHandle: "rh-1" });
+      const ack = vi.fn().mockReturnValue(Effect.void);
+      const input: Input = {
+        name: "ack-input",
+        stream: Stream.make(message),
+        ack,
+      };
+
+      await Effect.runPromise(
+        run(
+          create({
+            name: "test",
+            input,
+            processors: [
+              {
+                name: "rewrite",
+                process: (msg) =>
+                  Effect.succeed({ ...msg, content: "x", metadata: {} }),
+              },
+            ],
+            output: { name: "mock-output", send: () => Effect.void },
+          }),
+        ),
+      );
+
+      expect(ack).toHaveBeenCalledWith(message);
+    });
+
+    it("should nack when any split message fails to be delivered", async () => {
+      const message = createMessage({ items: [1, 2] });
+      const { input, acked, nacked } = createAckInput([message]);
+
+      const output: Output<Error> = {
+        name: "partial-output",
+        send: (msg) =>
+          msg.content === 2
+            ? Effect.fail(new Error("Second failed"))
+            : Effect.void,
+      };
+
+      await Effect.runPromise(
+        run(
+          create({
+            name: "test",
+            input,
+            processors: [
+              {
+                name: "split",
+                process: (msg) =>
+                  Effect.succeed(
+                    (msg.content as { items: number[] }).items.map((item) =>
+                      createMessage(item),
+                    ),
+                  ),
+              },
+            ],
+            output,
+          }),
+        ),
+      );
+
+      // Partial delivery is a failure: the source must redeliver
+      expect(acked).toEqual([]);
+      expect(nacked).toEqual([message.id]);
+    });
+  });
+
+  describe("Graceful shutdown", () => {
+    // Emits a message every 10ms until interrupted
+    const createEndlessInput = (acked: string[]): Input => ({
+      name: "endless-input",
+      stream: Stream.repeatEffect(
+        Effect.sleep("10 millis").pipe(
+          Effect.map(() => createMessage({ ts: Date.now() })),
+        ),
+      ),
+      ack: (msg) => Effect.sync(() => void acked.push(msg.id)),
+      close: vi.fn().mockReturnValue(Effect.void),
+    });
+
+    it("should drain in-flight messages and close resources on interrupt", async () => {
+      const acked: string[] = [];
+      const input = createEndlessInput(acked);
+
+      let started = 0;
+      let completed = 0;
+      const output: Output = {
+        name: "slow-output",
+        send: () =>
+          Effect.gen(function* () {
+            started++;
+            yield* Effect.sleep("50 millis");
+            completed++;
+          }),
+        close: vi.fn().mockReturnValue(Effect.void),
+      };
+
+      await Effect.runPromise(
+        Effect.gen(function* () {
+          const fiber = yield* Effect.fork(
+            run(create({ name: "test", input, processors: [], output })),
+          );
+          yield* Effect.sleep("100 millis");
+          yield* Fiber.interrupt(fiber);
+        }),
+      );
+
+      expect(started).toBeGreaterThan(0);
+      expect(completed).toBe(started);
+      expect(acked).toHaveLength(completed);
+      expect(input.close).toHaveBeenCalledTimes(1);
+      expect(output.close).toHaveBeenCalledTimes(1);
+    });
+
+    it("should stop waiting for in-flight messages after the drain timeout", async () => {
+      const acked: string[] = [];
+      const input = createEndlessInput(acked);
+
+      const output: Output = {
+        name: "stuck-output",
+        send: () => Effect.never,
+        close: vi.fn().mockReturnValue(Effect.void),
+      };
+
+      const start = Date.now();
+      await Effect.runPromise(
+        Effect.gen(function* () {
+          const fiber = yield* Effect.fork(
+            run({
+              name: "test",
+              input,
+              processors: [],
+              output,
+              shutdown: { drainTimeout: 100 },
+            }),
+          );
+          yield* Effect.sleep("50 millis");
+          yield* Fiber.interrupt(fiber);
+        }),
+      );
+
+      expect(Date.now() - start).toBeLessThan(2000);
+      expect(acked).toEqual([]);
+      expect(output.close).toHaveBeenCalledTimes(1);
+    });
+
+    it("should close resources when the input never finishes stopping", async () => {
+      const input: Input = {
+        name: "blocked-input",
+        // A finalizer that never completes, like a read blocked on idle stdin
+        stream: Stream.never.pipe(Stream.ensuring(Effect.never)),
+        close: vi.fn().mockReturnValue(Effect.void),
+      };
+      const output: Output = {
+        name: "mock-output",
+        send: () => Effect.void,
+        close: vi.fn().mockReturnValue(Effect.void),
+      };
+
+      const start = Date.now();
+      await Effect.runPromise(
+        Effect.gen(function* () {
+          const fiber = yield* Effect.fork(
+            run({
+              name: "test",
+              input,
+              processors: [],
+              output,
+              shutdown: { drainTimeout: 100 },
+            }),
+          );
+          yield* Effect.sleep("50 millis");
+          yield* Fiber.interrupt(fiber);
+        }),
+      );
+
+      expect(Date.now() - start).toBeLessThan(3000);
+      expect(input.close).toHaveBeenCalledTimes(1);
+      expect(output.close).toHaveBeenCalledTimes(1);
+    });
+
+    it("should shut down and return the result once stop completes", async () => {
+      const acked: string[] = [];
+      const input = createEndlessInput(acked);
+      const output: Output = { name: "mock-output", send: () => Effect.void };
+
+      const result = await Effect.runPromise(
+        run(create({ name: "test", input, processors: [], output }), {
+          stop: Effect.sleep("100 millis"),
+        }),
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.stats.processed).toBeGreaterThan(0);
+      expect(acked).toHaveLength(result.stats.processed);
+      expect(input.close).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not wait for stop when the pipeline dies", async () => {
+      const input = createEndlessInput([]);
+      const output: Output = {
+        name: "broken-output",
+        send: () => Effect.die(new Error("Bug in output")),
+      };
+
+      const exit = await Effect.runPromiseExit(
+        run(create({ name: "test", input, processors: [], output }), {
+          stop: Effect.never,
+        }),
+      );
+
+      expect(exit._tag).toBe("Failure");
+    });
+  });
+
+  describe("Error policies", () => {
+    const failing = (error: unknown) => ({
+      name: "failing-processor",
+      process: () => Effect.fail(error),
+    });
+
+    it("should send failed messages to the error output", async () => {
+      const message = createMessage({ n: 1 });
+      const { input, acked, nacked } = createAckInput([message]);
+
+      const errors: Message[] = [];
+      const send = vi.fn().mockReturnValue(Effect.void);
+
+      const result = await Effect.runPromise(
+        run({
+          name: "test",
+          input,
+          processors: [failing(new Error("Bad data"))],
+          output: { name: "mock-output", send },
+          onError: { action: "error_output" },
+          errorOutput: {
+            name: "error-output",
+            send: (msg) => Effect.sync(() => void errors.push(msg)),
+          },
+        }),
+      );
+
+      expect(result.stats.failed).toBe(1);
+      expect(send).not.toHaveBeenCalled();
+      expect(errors).toHaveLength(1);
+      expect(errors[0].metadata.errorReason).toBe("Bad data");
+      expect(acked).toEqual([message.id]);
+      expect(nacked).toEqual([]);
+    });
+
+    it("should ack dropped messages and nack failures without a policy", async () => {
+      const dropped = createAckInput([createMessage({ n: 1 })]);
+      const unhandled = createAckInput([createMessage({ n: 2 })]);
+      const output = { name: "mock-output", send: () => Effect.void };
+
+      const results = await Effect.runPromise(
+        Effect.all([
+          run({
+            name: "dropping",
+            input: dropped.input,
+            processors: [failing(new Error("Bad data"))],
+            output,
+            onError: { action: "drop" },
+          }),
+          run({
+            name: "unhandled",
+            input: unhandled.input,
+            processors: [failing(new Error("Bad data"))],
+            output,
+          }),
+        ]),
+      );
+
+      expect(results.map((result) => result.stats.failed)).toEqual([1, 1]);
+      expect(dropped.acked).toHaveLength(1);
+      expect(dropped.nacked).toEqual([]);
+      expect(unhandled.acked).toEqual([]);
+      expect(unhandled.nacked).toHaveLength(1);
+    });
+
+    it("should continue with the next processor on skip", async () => {
+      const { input } = createAckInput([createMessage({ n: 1 })]);
+
+      const sent: Message[] = [];
+      const result = await Effect.runPromise(
+        run({
+          name: "test",
+          input,
+          processors: [failing(new Error("Bad data"))],
+          output: {
+            name: "mock-output",
+            send: (msg) => Effect.sync(() => void sent.push(msg)),
+          },
+          onError: { action: "skip" },
+        }),
+      );
+
+      expect(result.success).toBe(true);
+      expect(sent).toHaveLength(1);
+    });
+
+    it("should stop the pipeline on fail", async () => {
+      const messages = Array.from({ length: 20 }, (_, n) =>
+        createMessage({ n }),
+      );
+      const { input } = createAckInput(messages);
+
+      const send = vi.fn().mockReturnValue(Effect.void);
+      const result = await Effect.runPromise(
+        run({
+          name: "test",
+          input,
+          processors: [failing(new Error("Bad data"))],
+          output: { name: "mock-output", send },
+          onError: { action: "fail" },
+          backpressure: { maxConcurrentMessages: 1 },
+        }),
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.stats.failed).toBe(1);
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Filtering", () => {
+    it("should count dropped messages as filtered and ack them", async () => {
+      const messages = [
+        createMessage({ amount: 50 }),
+        createMessage({ amount: 150 }),
+      ];
+      const { input, acked, nacked } = createAckInput(messages);
+      const sent: Message[] = [];
+
+      const result = await Effect.runPromise(
+        run(
+          create({
+            name: "test",
+            input,
+            processors: [createFilterProcessor({ check: "amount > 100" })],
+            output: {
+              name: "mock-output",
+              send: (msg) => Effect.sync(() => void sent.push(msg)),
+            },
+          }),
+        ),
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.stats.processed).toBe(1);
+      expect(result.stats.failed).toBe(0);
+      expect(result.stats.filtered).toBe(1);
+      expect(sent.map((m) => m.content)).toEqual([{ amount: 150 }]);
+      expect(acked.sort()).toEqual(messages.map((m) => m.id).sort());
+      expect(nacked).toEqual([]);
+    });
+  });
+
+  describe("Stateful processors", () => {
+    it("should close processors, including nested ones, on shutdown", async () => {
+      const { input } = createAckInput([createMessage({ n: 1 })]);
+      const closing = (name: string) => ({
+        name,
+        process: (msg: Message) => Effect.succeed(msg),
+        close: vi.fn().mockReturnValue(Effect.void),
+      });
+      const top = closing("top-processor");
+      const nested = closing("nested-processor");
+
+      await Effect.runPromise(
+        run({
+          name: "test",
+          input,
+          processors: [top, createBranchProcessor({ processors: [nested] })],
+          output: { name: "mock-output", send: () => Effect.void },
+          // The pipeline-wide policy wraps every processor
+          onError: { action: "skip" },
+        }),
+      );
+
+      expect(top.close).toHaveBeenCalledTimes(1);
+      expect(nested.close).toHaveBeenCalledTimes(1);
+    });
+
+    it("should flush held messages when the input ends", async () => {
+      const messages = [1, 2, 3].map((n) => createMessage({ amount: n }));
+      const { input } = createAckInput(messages);
+      const sent: Message[] = [];
+
+      const result = await Effect.runPromise(
+        run(
+          create({
+            name: "test",
+            input,
+            processors: [
+              createWindowProcessor({
+                type: "count",
+                count: 10,
+                aggregate: "$sum(amount)",
+              }),
+            ],
+            output: {
+              name: "mock-output",
+              send: (msg) => Effect.sync(() => void sent.push(msg)),
+            },
+          }),
+        ),
+      );
+
+      expect(sent.map((m) => m.content)).toEqual([6]);
+      expect(result.stats.processed).toBe(1);
+      expect(result.stats.filtered).toBe(0);
+    });
+
+    it("should flush closed windows periodically and partial ones on shutdown", async () => {
+      const sent: Message[] = [];
+      const output: Output = {
+        name: "mock-output",
+        send: (msg) => Effect.sync(() => void sent.push(msg)),
+      };
+      let emitted = 0;
+      const input: Input = {
+        name: "endless-input",
+        stream: Stream.repeatEffect(
+          Effect.sleep("10 millis").pipe(
+            Effect.map(() => {
+              emitted++;
+              return createMessage({ n: emitted });
+            }),
+          ),
+        ),
+      };
+
+      await Effect.runPromise(
+        Effect.gen(function* () {
+          const fiber = yield* Effect.fork(
+            run(
+              create({
+                name: "test",
+                input,
+                processors: [
+                  createWindowProcessor({ type: "tumbling", size: 50 }),
+                ],
+                output,
+              }),
+            ),
+          );
+          yield* Effect.sleep("200 millis");
+          const beforeShutdown = sent.length;
+          yield* Fiber.interrupt(fiber);
+
+          expect(beforeShutdown).toBeGreaterThan(0);
+        }),
+      );
+
+      // Windows still open at shutdown are emitted as well
+      const windowed = sent.reduce(
+        (total, m) => total + (m.metadata.window_count as number),
+        0,
+      );
+      expect(windowed).toBe(emitted);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { Effect, Metric, MetricBoundaries } from "effect";
+import { renderPrometheusMetrics } from "../../../src/core/prometheus.js";
+import { MetricsAccumulator } from "../../../src/core/metrics.js";
+import { run } from "../../../src/core/pipeline.js";
+import { createGenerateInput } from "../../../src/testing/generate-input.js";
+
+// Metrics are registered globally, so every test uses its own names
+const family = (name: string) =>
+  renderPrometheusMetrics()
+    .split("\n")
+    .filter((line) => line.includes(name));
+
+describe("Prometheus", () => {
+  it("should render counters, gauges and histograms with labels", () => {
+    const requests = Metric.counter("test_render_requests_total", {
+      description: "Requests handled",
+      incremental: true,
+    });
+    const temperature = Metric.gauge("test_render_temperature");
+    const latency = Metric.histogram(
+      "test_render_latency_seconds",
+      MetricBoundaries.fromIterable([0.1, 1]),
+    );
+
+    const updates = Effect.all([
+      Metric.incrementBy(Metric.tagged(requests, "path", '/say "hi"'), 2),
+      Metric.set(temperature, 21.5),
+      Metric.update(latency, 0.05),
+      Metric.update(latency, 0.5),
+      Metric.update(latency, 5),
+    ]);
+    Effect.runSync(updates);
+
+    expect(family("test_render_requests_total")).toEqual([
+      "# HELP test_render_requests_total Requests handled",
+      "# TYPE test_render_requests_total counter",
+      'test_render_requests_total{path="/say \\"hi\\""} 2',
+    ]);
+    expect(family("test_render_temperature")).toEqual([
+      "# TYPE test_render_temperature gauge",
+      "test_render_temperature 21.5",
+    ]);
+    expect(family("test_render_latency_seconds")).toEqual([
+      "# TYPE test_render_latency_seconds histogram",
+      'test_render_latency_seconds_bucket{le="0.1"} 1',
+      'test_render_latency_seconds_bucket{le="1"} 2',
+      'test_render_latency_seconds_bucket{le="+Inf"} 3',
+      "test_render_latency_seconds_sum 5.55",
+      "test_render_latency_seconds_count 3",
+    ]);
+  });
+
+  it("should record component metrics through MetricsAccumulator", () => {
+    const metrics = new MetricsAccumulator("prometheus-test-output");
+    metrics.recordSent(1, 20);
+    metrics.recordBatch(10, 100);
+    metrics.recordSendError();
+    metrics.recordConnected();
+    metrics.recordConnected();
+    metrics.recordDisconnected();
+
+    const lines = family('component="prometheus-test-output"');
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        'effect_connect_output_sent_total{component="prometheus-test-output"} 11',
+        'effect_connect_output_batches_total{component="prometheus-test-output"} 1',
+        'effect_connect_output_errors_total{component="prometheus-test-output"} 1',
+        'effect_connect_output_latency_seconds_count{component="prometheus-test-output"} 2',
+        'effect_connect_connections{component="prometheus-test-output"} 1',
+      ]),
+    );
+  });
+
+  it("should record pipeline metrics while running", async () => {
+    await Effect.runPromise(
+      run({
+        name: "prometheus-test-pipeline",
+        input: createGenerateInput({ count: 3, template: { n: 1 } }),
+        processors: [],
+        output: { name: "test-output", send: () => Effect.void },
+      }),
+    );
+
+    expect(family('pipeline="prometheus-test-pipeline"')).toEqual(
+      expect.arrayContaining([
+        'effect_connect_pipeline_processed_total{pipeline="prometheus-test-pipeline"} 3',
+        'effect_connect_pipeline_latency_seconds_count{pipeline="prometheus-test-pipeline"} 3',
+        'effect_connect_pipeline_running{pipeline="prometheus-test-pipeline"} 0',
+      ]),
+    );
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import { Effect } from "effect";
+import {
+  createRateLimit,
+  withProcessorRateLimit,
+  withRateLimit,
+  type RedisRateLimitClient,
+} from "../../../src/core/rate-limit.js";
+import { renderPrometheusMetrics } from "../../../src/core/prometheus.js";
+import { createMessage } from "../../../src/core/types.js";
+import type { Message } from "../../../src/core/types.js";
+
+// Elapsed ms of acquiring a rate limit `times` times in a row
+const timeAcquires = async (
+  rateLimit: ReturnType<typeof createRateLimit>,
+  times: number,
+) => {
+  const start = Date.now();
+  for (let i = 0; i < times; i++) {
+    await Effect.runPromise(rateLimit.acquire());
+  }
+  return Date.now() - start;
+};
+
+// Redis stand-in evaluating the fixed window script on shared counters
+const createFakeRedis = () => {
+  const windows = new Map<string, { used: number; expiresAt: number }>();
+  const client = {
+    eval: async (
+      _script: string,
+      _keys: number,
+      key: string,
+      ...args: any[]
+    ) => {
+      const [count, interval] = args.map(Number);
+      const now = Date.now();
+      let window = windows.get(key);
+      if (!window || window.expiresAt <= now) {
+        window = { used: 0, expiresAt: now + interval };
+        windows.set(key, window);
+      }
+      window.used++;
+      return window.used <= count ? 0 : window.expiresAt - now;
+    },
+    quit: async () => "OK",
+  };
+  return { client: client as unknown as RedisRateLimitClient, windows };
+};
+
+describe("RateLimit", () => {
+  it("should reject invalid configuration", () => {
+    expect(() =>
+      createRateLimit({ label: "invalid", count: 0, interval: 1000 }),
+    ).toThrow();
+    expect(() =>
+      createRateLimit({
+        label: "invalid",
+        count: 1,
+        interval: 1000,
+        redis: { url: "http://localhost:6379" },
+      }),
+    ).toThrow();
+  });
+
+  it("should let a token bucket burst, then refill at its rate", async () => {
+    const rateLimit = createRateLimit({
+      label: "test_token_bucket",
+      count: 1,
+      interval: 100,
+      burst: 2,
+    });
+
+    expect(await timeAcquires(rateLimit, 2)).toBeLessThan(50);
+    expect(await timeAcquires(rateLimit, 1)).toBeGreaterThanOrEqual(80);
+  });
+
+  it("should allow count requests per fixed window", async () => {
+    const rateLimit = createRateLimit({
+      label: "test_fixed_window",
+      algorithm: "fixed_window",
+      count: 1,
+      interval: 100,
+    });
+
+    // The third request waits for the rest of the first window and a whole second one
+    expect(await timeAcquires(rateLimit, 3)).toBeGreaterThanOrEqual(90);
+  });
+
+  it("should wait before processors and outputs and record the wait", async () => {
+    const rateLimit = createRateLimit({
+      label: "test_wrappers",
+      count: 1,
+      interval: 60,
+    });
+    const sent: Message[] = [];
+    const processor = withProcessorRateLimit(
+      { name: "test-processor", process: (msg) => Effect.succeed(msg) },
+      rateLimit,
+    );
+    const output = withRateLimit(
+      {
+        name: "test-output",
+        send: (msg) => Effect.sync(() => void sent.push(msg)),
+      },
+      rateLimit,
+    );
+
+    const start = Date.now();
+    await Effect.runPromise(
+      Effect.flatMap(processor.process(createMessage({ n: 1 })), (msg) =>
+        output.send(msg as Message),
+      ),
+    );
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(50);
+    expect(output.name).toBe("test-output");
+    expect(sent).toHaveLength(1);
+
+    const metrics = renderPrometheusMetrics();
+    expect(metrics).toContain(
+      'effect_connect_rate_limit_throttled_total{rate_limit="test_wrappers"} 1',
+    );
+    expect(metrics).toContain(
+      'effect_connect_rate_limit_wait_seconds_count{rate_limit="test_wrappers"} 2',
+    );
+  });
+
+  it("should share a Redis-backed limit between instances", async () => {
+    const { client, windows } = createFakeRedis();
+    const config = {
+      label: "test_redis",
+      algorithm: "fixed_window" as const,
+      count: 1,
+      interval: 100,
+      redis: { client },
+    };
+    const first = createRateLimit(config);
+    const second = createRateLimit(config);
+
+    expect(await timeAcquires(first, 1)).toBeLessThan(50);
+    // The other instance sees the request of the first one
+    expect(await timeAcquires(second, 1)).toBeGreaterThanOrEqual(80);
+    expect([...windows.keys()]).toEqual([
+      "effect-connect:rate-limit:test_redis",
+    ]);
+
+    await Effect.runPromise(first.close());
+  });
+});
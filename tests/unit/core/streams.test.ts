@@ -0,0 +1,221 @@
+import { describe, it, expect } from "vitest";
+import { Deferred, Duration, Effect, Schedule, Stream } from "effect";
+import { mkdtemp, writeFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { runStreams, streamFromConfig } from "../../../src/core/streams.js";
+import { loadStreamConfigs } from "../../../src/core/config-loader.js";
+import { createMessage } from "../../../src/core/types.js";
+import type { Output, Pipeline } from "../../../src/core/types.js";
+
+const createPipeline = (
+  count: number,
+  send: Output<Error>["send"] = () => Effect.void,
+): Pipeline<Error> => ({
+  name: "test",
+  input: {
+    name: "test-input",
+    stream: Stream.range(1, count).pipe(
+      Stream.map((n) => createMessage({ n })),
+    ),
+  },
+  processors: [],
+  output: { name: "test-output", send },
+});
+
+describe("Streams", () => {
+  it("should restart each stream according to its own policy", async () => {
+    let builds = 0;
+    const results = await Effect.runPromise(
+      runStreams([
+        {
+          name: "flaky",
+          build: Effect.sync(() => {
+            builds++;
+            // The first two runs fail one message each
+            return createPipeline(2, (msg) =>
+              builds <= 2 && (msg.content as { n: number }).n === 1
+                ? Effect.fail(new Error("Output down"))
+                : Effect.void,
+            );
+          }),
+          restart: {
+            policy: "on_failure",
+            schedule: Schedule.spaced("10 millis"),
+          },
+        },
+        {
+          name: "broken",
+          build: Effect.fail(new Error("Missing table")),
+          restart: {
+            policy: "always",
+            maxRestarts: 2,
+            schedule: Schedule.spaced("10 millis"),
+          },
+        },
+        { name: "once", build: Effect.succeed(createPipeline(3)) },
+      ]),
+    );
+
+    const [flaky, broken, once] = results;
+    expect(flaky).toMatchObject({
+      name: "flaky",
+      success: false,
+      restarts: 2,
+      stats: { processed: 4, failed: 2 },
+    });
+    expect(flaky.errors).toHaveLength(2);
+    expect(broken).toMatchObject({ success: false, restarts: 2 });
+    expect(broken.errors).toHaveLength(3);
+    expect(once).toMatchObject({
+      success: true,
+      restarts: 0,
+      stats: { processed: 3, failed: 0 },
+    });
+  });
+
+  it("should start restart delays over after a run that stayed up", async () => {
+    let builds = 0;
+    const delays: number[] = [];
+    const failing = (duration: number) =>
+      createPipeline(1, () =>
+        Effect.sleep(duration).pipe(
+          Effect.zipRight(Effect.fail(new Error("Output down"))),
+        ),
+      );
+
+    const [result] = await Effect.runPromise(
+      runStreams([
+        {
+          name: "recovering",
+          build: Effect.sync(() => {
+            builds++;
+            // Two quick failures, one after running for a while, then success
+            return builds <= 2
+              ? failing(0)
+              : builds === 3
+                ? failing(50)
+                : createPipeline(1);
+          }),
+          restart: {
+            policy: "on_failure",
+            schedule: Schedule.exponential("10 millis").pipe(
+              Schedule.tapOutput((delay) =>
+                Effect.sync(() => delays.push(Duration.toMillis(delay))),
+              ),
+            ),
+            resetAfter: 40,
+          },
+        },
+      ]),
+    );
+
+    expect(result).toMatchObject({ restarts: 3 });
+    expect(delays).toEqual([10, 20, 10]);
+  });
+
+  it("should cap exponential restart delays from config", async () => {
+    const stream = streamFromConfig({
+      name: "capped",
+      config: {
+        input: { generate: { count: 1, template: {} } },
+        output: { capture: {} },
+        restart: { policy: "always", restart_delay: 1, restart_max_delay: 4 },
+      },
+    });
+
+    const delays = await Effect.runPromise(
+      Effect.gen(function* () {
+        const driver = yield* Schedule.driver(
+          Schedule.delays(stream.restart!.schedule!),
+        );
+        return yield* Effect.forEach([1, 2, 3, 4, 5], () =>
+          driver.next(undefined).pipe(Effect.map(Duration.toMillis)),
+        );
+      }),
+    );
+
+    expect(delays).toEqual([1, 2, 4, 4, 4]);
+  });
+
+  it("should stop running streams and return their results", async () => {
+    const results = await Effect.runPromise(
+      Effect.gen(function* () {
+        const stop = yield* Deferred.make<void>();
+        const pipeline: Pipeline<Error> = {
+          ...createPipeline(0),
+          input: {
+            name: "ticking-input",
+            stream: Stream.tick("5 millis").pipe(
+              Stream.map(() => createMessage({})),
+            ),
+          },
+        };
+
+        yield* Effect.fork(
+          Effect.sleep("50 millis").pipe(
+            Effect.zipRight(Deferred.succeed(stop, undefined)),
+          ),
+        );
+        return yield* runStreams(
+          [
+            {
+              name: "ticking",
+              build: Effect.succeed(pipeline),
+              restart: { policy: "always" },
+            },
+          ],
+          { stop: Deferred.await(stop) },
+        );
+      }),
+    );
+
+    expect(results).toHaveLength(1);
+    expect(results[0].success).toBe(true);
+    expect(results[0].restarts).toBe(0);
+    expect(results[0].stats.processed).toBeGreaterThan(0);
+  });
+
+  it("should load every pipeline configuration in a directory", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "streams-"));
+    const config = (count: number) => `
+input:
+  generate:
+    count: ${count}
+    template: { n: 1 }
+output:
+  capture: {}
+restart:
+  policy: on_failure
+  restart_schedule: fixed
+`;
+    try {
+      await writeFile(join(dir, "orders.yaml"), config(2));
+      await writeFile(join(dir, "audit.yml"), config(3));
+      await writeFile(join(dir, "README.md"), "# Streams");
+
+      const configs = await Effect.runPromise(loadStreamConfigs(dir));
+      expect(configs.map((c) => c.name)).toEqual(["audit", "orders"]);
+
+      const results = await Effect.runPromise(
+        runStreams(configs.map((c) => streamFromConfig(c))),
+      );
+      expect(results.map((r) => [r.name, r.stats.processed])).toEqual([
+        ["audit", 3],
+        ["orders", 2],
+      ]);
+
+      await writeFile(join(dir, "broken.yaml"), "input: {}\n");
+      const error = await Effect.runPromise(
+        Effect.flip(loadStreamConfigs(dir)),
+      );
+      expect(error._tag).toBe("ConfigValidationError");
+      expect(error).toHaveProperty(
+        "message",
+        expect.stringContaining("broken.yaml: Schema validation failed"),
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { compileTemplate, renderTemplate } from "../../../src/core/template.js";
+import { createMessage } from "../../../src/core/types.js";
+
+describe("Templates", () => {
+  const msg = createMessage({ userId: 42, tags: ["a"] }, { tenant: "acme" });
+
+  it("should evaluate paths and bound variables", async () => {
+    expect(
+      await renderTemplate(
+        "/users/{{ content.userId }}/{{ $meta.tenant }}/{{ $message.id }}",
+        msg,
+      ),
+    ).toBe(`/users/42/acme/${msg.id}`);
+  });
+
+  it("should render missing values as empty and objects as JSON", async () => {
+    expect(await renderTemplate("[{{ meta.missing }}]", msg)).toBe("[]");
+    expect(await renderTemplate("{{ content.tags }}", msg)).toBe('["a"]');
+  });
+
+  it("should render concurrent messages with their own variables", async () => {
+    const render = compileTemplate(
+      "{{ content.i >= 0 ? $content.i : -1 }}-{{ content.i >= 0 ? $meta.region : '' }}",
+    );
+    const messages = Array.from({ length: 20 }, (_, i) =>
+      createMessage({ i }, { region: `r${i}` }),
+    );
+
+    const rendered = await Promise.all(messages.map(render));
+
+    expect(rendered).toEqual(messages.map((_, i) => `${i}-r${i}`));
+  });
+
+  it("should throw on invalid expressions at compile time", () => {
+    expect(() => compileTemplate("{{ content.[ }}")).toThrow();
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { Effect, Stream } from "effect";
+import {
+  extractTraceContext,
+  injectTraceContext,
+  parseTraceparent,
+} from "../../../src/core/trace-context.js";
+import { run } from "../../../src/core/pipeline.js";
+import { createMessage } from "../../../src/core/types.js";
+import type { Message } from "../../../src/core/types.js";
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const SPAN_ID = "00f067aa0ba902b7";
+
+describe("TraceContext", () => {
+  it("should parse valid traceparent headers only", () => {
+    expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01`)).toEqual({
+      traceId: TRACE_ID,
+      spanId: SPAN_ID,
+      sampled: true,
+    });
+    expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-00`)?.sampled).toBe(
+      false,
+    );
+    // Later versions may append fields
+    expect(
+      parseTraceparent(`01-${TRACE_ID}-${SPAN_ID}-01-extra`),
+    ).toBeDefined();
+
+    for (const invalid of [
+      "",
+      `00-${TRACE_ID}-${SPAN_ID}`,
+      `00-${TRACE_ID}-${SPAN_ID}-01-extra`,
+      `ff-${TRACE_ID}-${SPAN_ID}-01`,
+      `00-${"0".repeat(32)}-${SPAN_ID}-01`,
+      `00-${TRACE_ID}-${"0".repeat(16)}-01`,
+      `00-${TRACE_ID.toUpperCase()}-${SPAN_ID}-01`,
+    ]) {
+      expect(parseTraceparent(invalid)).toBeUndefined();
+    }
+  });
+
+  it("should extract and inject headers", () => {
+    const trace = extractTraceContext({
+      TraceParent: Buffer.from(`00-${TRACE_ID}-${SPAN_ID}-01`),
+      tracestate: ["vendor=a", "other=b"],
+    });
+    expect(trace).toEqual({
+      traceId: TRACE_ID,
+      spanId: SPAN_ID,
+      sampled: true,
+      traceState: "vendor=a,other=b",
+    });
+    expect(injectTraceContext(trace)).toEqual({
+      traceparent: `00-${TRACE_ID}-${SPAN_ID}-01`,
+      tracestate: "vendor=a,other=b",
+    });
+
+    expect(extractTraceContext({ traceparent: "invalid" })).toBeUndefined();
+    expect(extractTraceContext(undefined)).toBeUndefined();
+    expect(injectTraceContext(undefined)).toEqual({});
+  });
+
+  it("should hand outputs the trace context of their send span", async () => {
+    const sent: Message[] = [];
+    await Effect.runPromise(
+      run({
+        name: "trace-test",
+        input: {
+          name: "test-input",
+          stream: Stream.make(
+            {
+              ...createMessage({ n: 1 }),
+              trace: { traceId: TRACE_ID, spanId: SPAN_ID, traceState: "a=1" },
+            },
+            createMessage({ n: 2 }),
+          ),
+        },
+        processors: [],
+        output: {
+          name: "test-output",
+          send: (msg) => Effect.sync(() => void sent.push(msg)),
+        },
+      }),
+    );
+
+    const [continued, started] = sent;
+    expect(continued.trace).toMatchObject({
+      traceId: TRACE_ID,
+      sampled: true,
+      traceState: "a=1",
+    });
+    expect(continued.trace?.spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(continued.trace?.spanId).not.toBe(SPAN_ID);
+
+    // Messages without a trace start a new one
+    expect(started.trace?.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(started.trace?.traceId).not.toBe(TRACE_ID);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import { Chunk, Effect, Stream } from "effect";
+import { createBrokerInput } from "../../../src/inputs/broker-input.js";
+import { run, create } from "../../../src/core/pipeline.js";
+import {
+  createMessage,
+  type Input,
+  type Message,
+  type Output,
+} from "../../../src/core/types.js";
+
+const createChildInput = (name: string, messages: Message[]) => {
+  const acked: Message[] = [];
+  const nacked: Message[] = [];
+  let closed = false;
+
+  const input: Input = {
+    name,
+    stream: Stream.fromIterable(messages),
+    ack: (msg) => Effect.sync(() => void acked.push(msg)),
+    nack: (msg) => Effect.sync(() => void nacked.push(msg)),
+    close: () =>
+      Effect.sync(() => {
+        closed = true;
+      }),
+  };
+
+  return { input, acked, nacked, isClosed: () => closed };
+};
+
+describe("BrokerInput", () => {
+  describe("Configuration Validation", () => {
+    it("should reject an empty input list", () => {
+      expect(() => createBrokerInput({ inputs: [] })).toThrow();
+    });
+  });
+
+  describe("Stream", () => {
+    it("should merge messages from all inputs", async () => {
+      const a = createChildInput("a-input", [
+        createMessage({ n: 1 }),
+        createMessage({ n: 2 }),
+      ]);
+      const b = createChildInput("b-input", [createMessage({ n: 3 })]);
+      const broker = createBrokerInput({ inputs: [a.input, b.input] });
+
+      const messages = Chunk.toReadonlyArray(
+        await Effect.runPromise(Stream.runCollect(broker.stream)),
+      );
+
+      expect(messages.map((m) => m.content)).toHaveLength(3);
+      expect(messages.map((m) => m.content)).toEqual(
+        expect.arrayContaining([{ n: 1 }, { n: 2 }, { n: 3 }]),
+      );
+    });
+
+    it("should tag messages with the child input", async () => {
+      const a = createChildInput("same-input", [createMessage({ n: 1 })]);
+      const b = createChildInput("same-input", [createMessage({ n: 2 })]);
+      const broker = createBrokerInput({ inputs: [a.input, b.input] });
+
+      const messages = Chunk.toReadonlyArray(
+        await Effect.runPromise(Stream.runCollect(broker.stream)),
+      );
+
+      const fromB = messages.find((m) => (m.content as any).n === 2)!;
+      expect(fromB.metadata.brokerInput).toBe("same-input");
+      expect(fromB.metadata.brokerInputIndex).toBe(1);
+    });
+  });
+
+  describe("Acknowledgement", () => {
+    it("should route ack and nack to the producing child", async () => {
+      const a = createChildInput("a-input", [createMessage({ ok: true })]);
+      const b = createChildInput("b-input", [createMessage({ ok: false })]);
+      const broker = createBrokerInput({ inputs: [a.input, b.input] });
+
+      const output: Output<Error> = {
+        name: "mock-output",
+        send: (msg) =>
+          (msg.content as any).ok
+            ? Effect.void
+            : Effect.fail(new Error("rejected")),
+      };
+
+      await Effect.runPromise(
+        run(create({ name: "test", input: broker, processors: [], output })),
+      );
+
+      expect(a.acked.map((m) => m.content)).toEqual([{ ok: true }]);
+      expect(a.nacked).toEqual([]);
+      expect(b.acked).toEqual([]);
+      expect(b.nacked.map((m) => m.content)).toEqual([{ ok: false }]);
+      // Children receive the message they emitted, without broker tags
+      expect(a.acked[0].metadata.brokerInput).toBeUndefined();
+    });
+  });
+
+  describe("close", () => {
+    it("should close all inputs", async () => {
+      const a = createChildInput("a-input", []);
+      const b = createChildInput("b-input", []);
+      const broker = createBrokerInput({ inputs: [a.input, b.input] });
+
+      await Effect.runPromise(broker.close!());
+
+      expect(a.isClosed()).toBe(true);
+      expect(b.isClosed()).toBe(true);
+    });
+  });
+});
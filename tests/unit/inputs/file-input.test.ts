@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { Chunk, Effect, Fiber, Stream } from "effect";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { createFileInput } from "../../../src/inputs/file-input.js";
+import type { Message } from "../../../src/core/types.js";
+
+const collect = (input: ReturnType<typeof createFileInput>) =>
+  Effect.runPromise(Stream.runCollect(input.stream)).then((chunk) =>
+    Chunk.toReadonlyArray(chunk),
+  );
+
+describe("FileInput", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "file-input-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe("Configuration Validation", () => {
+    it("should reject tailing with a whole-file codec", () => {
+      expect(() =>
+        createFileInput({ paths: "*.json", codec: "json_array", tail: true }),
+      ).toThrow(/Tailing requires the lines codec/);
+    });
+
+    it("should reject a multi-character delimiter", () => {
+      expect(() =>
+        createFileInput({ paths: "*.csv", codec: "csv", delimiter: ";;" }),
+      ).toThrow(/single character/);
+    });
+  });
+
+  describe("Codecs", () => {
+    it("should read lines from every matched file with metadata", async () => {
+      await fs.writeFile(path.join(dir, "a.jsonl"), '{"n":1}\n\n{"n":2}\n');
+      await fs.writeFile(path.join(dir, "b.jsonl"), "plain text");
+      await fs.writeFile(path.join(dir, "c.txt"), '{"n":3}\n');
+
+      const messages = await collect(
+        createFileInput({ paths: path.join(dir, "*.jsonl") }),
+      );
+
+      expect(messages.map((m) => m.content)).toEqual([
+        { n: 1 },
+        { n: 2 },
+        { raw: "plain text" },
+      ]);
+      expect(messages.map((m) => m.metadata.line_number)).toEqual([1, 3, 1]);
+      expect(messages[2].metadata.path).toBe(path.join(dir, "b.jsonl"));
+    });
+
+    it("should emit one message per JSON array element", async () => {
+      await fs.writeFile(path.join(dir, "items.json"), '[{"a":1},{"a":2}]');
+
+      const messages = await collect(
+        createFileInput({
+          paths: path.join(dir, "items.json"),
+          codec: "json_array",
+        }),
+      );
+
+      expect(messages.map((m) => m.content)).toEqual([{ a: 1 }, { a: 2 }]);
+      expect(messages.map((m) => m.metadata.index)).toEqual([0, 1]);
+    });
+
+    it("should emit CSV rows keyed by the header", async () => {
+      await fs.writeFile(
+        path.join(dir, "users.csv"),
+        'id;name\n1;"Ann; B"\n2;Bob\n',
+      );
+
+      const messages = await collect(
+        createFileInput({
+          paths: path.join(dir, "*.csv"),
+          codec: "csv",
+          delimiter: ";",
+        }),
+      );
+
+      expect(messages.map((m) => m.content)).toEqual([
+        { id: "1", name: "Ann; B" },
+        { id: "2", name: "Bob" },
+      ]);
+      expect(messages.map((m) => m.metadata.line_number)).toEqual([2, 3]);
+    });
+
+    it("should emit whole files with all_bytes", async () => {
+      await fs.writeFile(path.join(dir, "doc.txt"), "line 1\nline 2\n");
+
+      const messages = await collect(
+        createFileInput({
+          paths: path.join(dir, "**/*.txt"),
+          codec: "all_bytes",
+        }),
+      );
+
+      expect(messages.map((m) => m.content)).toEqual(["line 1\nline 2\n"]);
+    });
+
+    it("should skip files that fail to parse", async () => {
+      await fs.writeFile(path.join(dir, "a.json"), "{ not json");
+      await fs.writeFile(path.join(dir, "b.json"), "[1]");
+
+      const messages = await collect(
+        createFileInput({
+          paths: path.join(dir, "*.json"),
+          codec: "json_array",
+        }),
+      );
+
+      expect(messages.map((m) => m.content)).toEqual([1]);
+    });
+  });
+
+  describe("Checkpoints", () => {
+    it("should resume after the last acknowledged line", async () => {
+      const file = path.join(dir, "events.log");
+      const checkpointPath = path.join(dir, "checkpoint.json");
+      await fs.writeFile(file, "1\n2\n3\n");
+
+      const first = createFileInput({ paths: file, checkpointPath });
+      const messages = await collect(first);
+      // The second line is not acknowledged and holds the checkpoint back
+      await Effect.runPromise(first.ack!(messages[0]));
+      await Effect.runPromise(first.nack!(messages[1]));
+      await Effect.runPromise(first.ack!(messages[2]));
+      await Effect.runPromise(first.close!());
+
+      const second = createFileInput({ paths: file, checkpointPath });
+      const resumed = await collect(second);
+
+      expect(resumed.map((m) => m.content)).toEqual([2, 3]);
+      expect(resumed.map((m) => m.metadata.line_number)).toEqual([2, 3]);
+    });
+
+    it("should skip whole files that were fully acknowledged", async () => {
+      const file = path.join(dir, "items.json");
+      const checkpointPath = path.join(dir, "checkpoint.json");
+      await fs.writeFile(file, "[1, 2]");
+
+      const first = createFileInput({
+        paths: file,
+        codec: "json_array",
+        checkpointPath,
+      });
+      for (const msg of await collect(first)) {
+        await Effect.runPromise(first.ack!(msg));
+      }
+      await Effect.runPromise(first.close!());
+
+      const second = createFileInput({
+        paths: file,
+        codec: "json_array",
+        checkpointPath,
+      });
+
+      expect(await collect(second)).toEqual([]);
+    });
+  });
+
+  describe("Tailing", () => {
+    it("should emit appended lines and new files", async () => {
+      const file = path.join(dir, "app.log");
+      await fs.writeFile(file, "first\npart");
+
+      const input = createFileInput({
+        paths: path.join(dir, "*.log"),
+        tail: true,
+        pollInterval: 10,
+      });
+      const received: Message[] = [];
+      const fiber = Effect.runFork(
+        Stream.runForEach(input.stream, (msg) =>
+          Effect.sync(() => void received.push(msg)),
+        ),
+      );
+
+      const waitFor = async (count: number) => {
+        for (let i = 0; i < 200 && received.length < count; i++) {
+          await new Promise((resolve) => setTimeout(resolve, 10));
+        }
+      };
+
+      await waitFor(1);
+      await fs.appendFile(file, "ial\nsecond\n");
+      await fs.writeFile(path.join(dir, "new.log"), "third\n");
+      await waitFor(4);
+      await Effect.runPromise(Fiber.interrupt(fiber));
+
+      expect(received.map((m) => m.content)).toEqual([
+        { raw: "first" },
+        { raw: "partial" },
+        { raw: "second" },
+        { raw: "third" },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import { Chunk, Effect, Stream } from "effect";
+import { createKafkaInput } from "../../../src/inputs/kafka-input.js";
+import {
+  createMockKafka,
+  type MockKafka,
+} from "../../../src/testing/kafka-mock.js";
+import type { Message } from "../../../src/core/types.js";
+
+const createInput = (kafka: MockKafka, commitInterval?: number) =>
+  createKafkaInput({
+    brokers: ["mock:9092"],
+    topics: ["orders"],
+    consumerGroup: "pipeline",
+    fromBeginning: true,
+    commitInterval,
+    client: kafka,
+  });
+
+const take = (input: ReturnType<typeof createInput>, count: number) =>
+  Effect.runPromise(Stream.runCollect(Stream.take(input.stream, count))).then(
+    (chunk) => Chunk.toReadonlyArray(chunk) as Message[],
+  );
+
+describe("KafkaInput", () => {
+  it("should reject a config without topics", () => {
+    expect(() =>
+      createKafkaInput({
+        brokers: ["mock:9092"],
+        topics: [],
+        consumerGroup: "g",
+      }),
+    ).toThrow();
+  });
+
+  it("should map values, keys and headers to messages", async () => {
+    const kafka = createMockKafka();
+    kafka.produce("orders", [
+      { key: "customer-1", value: '{"id":1}', headers: { trace: "abc" } },
+      { value: "not json" },
+      { value: null },
+    ]);
+    const input = createInput(kafka);
+
+    const messages = await take(input, 3);
+    await Effect.runPromise(input.close!());
+
+    expect(messages.map((m) => m.content)).toEqual([
+      { id: 1 },
+      { raw: "not json" },
+      null,
+    ]);
+    expect(messages[0].metadata).toMatchObject({
+      source: "kafka-input",
+      trace: "abc",
+      kafka_topic: "orders",
+      kafka_partition: 0,
+      kafka_offset: "0",
+      kafka_key: "customer-1",
+    });
+    expect(messages[1].metadata.kafka_key).toBeUndefined();
+  });
+
+  it("should commit each partition up to its oldest unacknowledged message", async () => {
+    const kafka = createMockKafka({ partitions: 2 });
+    kafka.produce("orders", [
+      { value: "1", partition: 0 },
+      { value: "2", partition: 0 },
+      { value: "3", partition: 0 },
+      { value: "4", partition: 1 },
+      { value: "5", partition: 1 },
+    ]);
+    const input = createInput(kafka);
+
+    const messages = await take(input, 5);
+    await Effect.runPromise(
+      Effect.forEach(messages, (msg) =>
+        msg.content === 2 ? input.nack!(msg) : input.ack!(msg),
+      ),
+    );
+    await Effect.runPromise(input.close!());
+
+    expect(kafka.committed("pipeline", "orders")).toEqual({ 0: "1", 1: "2" });
+
+    // A restarted consumer continues after the committed offsets
+    const restarted = createInput(kafka);
+    const redelivered = await take(restarted, 2);
+    await Effect.runPromise(restarted.close!());
+
+    expect(redelivered.map((m) => m.content)).toEqual([2, 3]);
+  });
+
+  it("should commit acknowledged offsets within the commit interval", async () => {
+    const kafka = createMockKafka();
+    kafka.produce("orders", [{ value: "1" }, { value: "2" }]);
+    const input = createInput(kafka, 10);
+
+    const messages = await take(input, 2);
+    await Effect.runPromise(Effect.forEach(messages, (msg) => input.ack!(msg)));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(kafka.committed("pipeline", "orders")).toEqual({ 0: "2" });
+    await Effect.runPromise(input.close!());
+  });
+});
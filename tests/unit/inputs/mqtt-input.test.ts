@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { Chunk, Effect, Stream } from "effect";
+import { createServer, type Server } from "node:net";
+import { Aedes } from "aedes";
+import { connectAsync, type MqttClient } from "mqtt";
+import { createMqttInput } from "../../../src/inputs/mqtt-input.js";
+
+describe("MqttInput", () => {
+  let broker: Aedes;
+  let server: Server;
+  let url: string;
+  let publisher: MqttClient;
+
+  beforeEach(async () => {
+    broker = await Aedes.createBroker();
+    server = createServer(broker.handle);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    url = `mqtt://127.0.0.1:${(server.address() as { port: number }).port}`;
+    publisher = await connectAsync(url);
+  });
+
+  afterEach(async () => {
+    await publisher.endAsync();
+    await new Promise((resolve) => broker.close(resolve));
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  // Resolves once the broker registered the input's subscriptions
+  const subscribed = (count: number) =>
+    new Promise<void>((resolve) => {
+      let seen = 0;
+      broker.on("subscribe", (subscriptions) => {
+        seen += subscriptions.length;
+        if (seen >= count) resolve();
+      });
+    });
+
+  it("should require a clientId for persistent sessions", () => {
+    expect(() =>
+      createMqttInput({ url, topics: ["a"], cleanSession: false }),
+    ).toThrow(/require a clientId/);
+  });
+
+  it("should receive messages on wildcard subscriptions", async () => {
+    const input = createMqttInput({
+      url,
+      topics: ["sensors/+/temperature", "alerts/#"],
+      qos: 1,
+    });
+    const ready = subscribed(2);
+    const collecting = Effect.runPromise(
+      Stream.runCollect(Stream.take(input.stream, 3)),
+    );
+    await ready;
+
+    await publisher.publishAsync("sensors/a1/temperature", '{"c":21}', {
+      qos: 1,
+    });
+    await publisher.publishAsync("sensors/a1/humidity", '{"p":40}');
+    await publisher.publishAsync("alerts/a1/fire/now", "smoke", { qos: 2 });
+    await publisher.publishAsync("sensors/b2/temperature", '{"c":19}');
+
+    const messages = Chunk.toReadonlyArray(await collecting);
+    await Effect.runPromise(input.close!());
+
+    // QoS 2 takes an extra round trip, so order differs across QoS levels
+    expect(messages.map((m) => m.metadata.mqtt_topic).sort()).toEqual([
+      "alerts/a1/fire/now",
+      "sensors/a1/temperature",
+      "sensors/b2/temperature",
+    ]);
+    expect(messages.map((m) => m.content)).toContainEqual({ raw: "smoke" });
+    expect(messages[0].metadata).toMatchObject({
+      source: "mqtt-input",
+      mqtt_topic: "sensors/a1/temperature",
+      mqtt_qos: 1,
+      mqtt_retain: false,
+    });
+  });
+
+  it("should receive messages published while a persistent session was offline", async () => {
+    const config = {
+      url,
+      topics: ["jobs/#"],
+      clientId: "pipeline-1",
+      cleanSession: false,
+    };
+
+    // First run creates the session and its subscription
+    const first = createMqttInput(config);
+    const ready = subscribed(1);
+    const firstRun = Effect.runPromise(
+      Stream.runCollect(Stream.take(first.stream, 1)),
+    );
+    await ready;
+    await publisher.publishAsync("jobs/1", '{"job":1}', { qos: 1 });
+    await firstRun;
+    await Effect.runPromise(first.close!());
+
+    // Published while no client of the session is connected
+    await publisher.publishAsync("jobs/2", '{"job":2}', { qos: 1 });
+
+    const second = createMqttInput(config);
+    const messages = Chunk.toReadonlyArray(
+      await Effect.runPromise(Stream.runCollect(Stream.take(second.stream, 1))),
+    );
+    await Effect.runPromise(second.close!());
+
+    expect(messages.map((m) => m.content)).toEqual([{ job: 2 }]);
+  });
+
+  it("should fail the stream when the broker is unreachable", async () => {
+    const input = createMqttInput({
+      url: "mqtt://127.0.0.1:1",
+      topics: ["a"],
+      connectionTimeout: 1000,
+    });
+
+    const result = await Effect.runPromise(
+      Effect.either(Stream.runCollect(input.stream)),
+    );
+    await Effect.runPromise(input.close!());
+
+    expect(result._tag).toBe("Left");
+    const error = result._tag === "Left" ? result.left : undefined;
+    expect(error?.category).toBe("intermittent");
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { Chunk, Effect, Stream } from "effect";
+import { createNatsInput } from "../../../src/inputs/nats-input.js";
+import {
+  createMockNats,
+  type MockNats,
+} from "../../../src/testing/nats-mock.js";
+import type { Message } from "../../../src/core/types.js";
+
+const createInput = (nats: MockNats, queueGroup?: string) =>
+  createNatsInput({
+    urls: ["nats://mock:4222"],
+    subjects: ["orders.*.created", "audit.>"],
+    queueGroup,
+    client: nats,
+  });
+
+const collect = (input: ReturnType<typeof createInput>, count: number) =>
+  Effect.runPromise(Stream.runCollect(Stream.take(input.stream, count))).then(
+    (chunk) => Chunk.toReadonlyArray(chunk) as Message[],
+  );
+
+// Core NATS only delivers to existing subscriptions
+const subscribed = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe("NatsInput", () => {
+  it("should reject a config without subjects", () => {
+    expect(() =>
+      createNatsInput({ urls: ["nats://mock:4222"], subjects: [] }),
+    ).toThrow();
+  });
+
+  it("should receive messages on wildcard subjects with headers", async () => {
+    const nats = createMockNats();
+    const input = createInput(nats);
+    const collecting = collect(input, 3);
+    await subscribed();
+
+    nats.publish("orders.eu.created", '{"id":1}', { tenant: "acme" });
+    nats.publish("orders.eu.shipped", '{"id":1}');
+    nats.publish("audit.orders.eu", "created 1");
+    nats.publish("orders.us.created", '{"id":2}');
+
+    const messages = await collecting;
+    await Effect.runPromise(input.close!());
+
+    expect(messages.map((m) => m.content)).toEqual([
+      { id: 1 },
+      { raw: "created 1" },
+      { id: 2 },
+    ]);
+    expect(messages[0].metadata).toMatchObject({
+      source: "nats-input",
+      nats_subject: "orders.eu.created",
+      tenant: "acme",
+    });
+  });
+
+  it("should split messages between members of a queue group", async () => {
+    const nats = createMockNats();
+    const first = createInput(nats, "pipeline");
+    const second = createInput(nats, "pipeline");
+    const collecting = Promise.all([collect(first, 2), collect(second, 2)]);
+    await subscribed();
+
+    for (const id of [1, 2, 3, 4]) {
+      nats.publish("orders.eu.created", JSON.stringify({ id }));
+    }
+
+    const [a, b] = await collecting;
+    await Effect.runPromise(first.close!());
+    await Effect.runPromise(second.close!());
+
+    expect(
+      [...a, ...b].map((m) => (m.content as { id: number }).id).sort(),
+    ).toEqual([1, 2, 3, 4]);
+  });
+
+  it("should reply to requests once they were delivered", async () => {
+    const nats = createMockNats();
+    const input = createInput(nats);
+    const collecting = collect(input, 2);
+    await subscribed();
+
+    const delivered = nats.request("orders.eu.created", '{"id":1}');
+    const failed = nats.request("orders.eu.created", '{"id":2}');
+    const [ok, notOk] = await collecting;
+    expect(ok.metadata.nats_reply).toMatch(/^_INBOX\./);
+
+    await Effect.runPromise(input.ack!(ok));
+    await Effect.runPromise(input.nack!(notOk));
+    await Effect.runPromise(input.close!());
+
+    expect((await delivered).headers).toEqual({});
+    expect((await failed).headers).toMatchObject({
+      "Nats-Service-Error": "message was not delivered",
+      "Nats-Service-Error-Code": "500",
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { Chunk, Effect, Exit, Stream } from "effect";
+import { createNatsJetStreamInput } from "../../../src/inputs/nats-jetstream-input.js";
+import {
+  createMockNats,
+  type MockNats,
+} from "../../../src/testing/nats-mock.js";
+import type { Message } from "../../../src/core/types.js";
+
+const createInput = (
+  nats: MockNats,
+  options: { filterSubjects?: string[]; ackWait?: number } = {},
+) =>
+  createNatsJetStreamInput({
+    urls: ["nats://mock:4222"],
+    stream: "ORDERS",
+    durable: "pipeline",
+    client: nats,
+    ...options,
+  });
+
+const take = (input: ReturnType<typeof createInput>, count: number) =>
+  Effect.runPromise(Stream.runCollect(Stream.take(input.stream, count))).then(
+    (chunk) => Chunk.toReadonlyArray(chunk) as Message[],
+  );
+
+describe("NatsJetStreamInput", () => {
+  it("should acknowledge delivered messages and redeliver failed ones", async () => {
+    const nats = createMockNats();
+    nats.addStream("ORDERS", { subjects: ["orders.>"] });
+    for (const id of [1, 2, 3]) {
+      nats.publish("orders.created", JSON.stringify({ id }), {
+        tenant: "acme",
+      });
+    }
+
+    const input = createInput(nats);
+    const messages = await take(input, 3);
+    expect(messages[0].metadata).toMatchObject({
+      source: "nats-jetstream-input",
+      nats_subject: "orders.created",
+      nats_stream: "ORDERS",
+      nats_sequence: 1,
+      nats_delivery_count: 1,
+      tenant: "acme",
+    });
+
+    await Effect.runPromise(
+      Effect.forEach(messages, (msg) =>
+        msg.metadata.nats_sequence === 2 ? input.nack!(msg) : input.ack!(msg),
+      ),
+    );
+    await Effect.runPromise(input.close!());
+    expect(nats.consumerState("ORDERS", "pipeline")).toEqual({
+      acknowledged: [1, 3],
+      pending: [2],
+    });
+
+    // A restarted input binds to the durable consumer and continues there
+    const restarted = createInput(nats);
+    const [redelivered] = await take(restarted, 1);
+    await Effect.runPromise(restarted.ack!(redelivered));
+    await Effect.runPromise(restarted.close!());
+
+    expect(redelivered.content).toEqual({ id: 2 });
+    expect(redelivered.metadata.nats_delivery_count).toBeGreaterThan(1);
+    expect(nats.consumerState("ORDERS", "pipeline")?.pending).toEqual([]);
+  });
+
+  it("should redeliver messages not acknowledged within ack wait", async () => {
+    const nats = createMockNats();
+    nats.addStream("ORDERS", { subjects: ["orders.>"] });
+    nats.publish("orders.created", '{"id":1}');
+    nats.publish("orders.shipped", '{"id":1}');
+
+    const input = createInput(nats, {
+      filterSubjects: ["orders.created"],
+      ackWait: 20,
+    });
+    const messages = await take(input, 2);
+    await Effect.runPromise(input.close!());
+
+    expect(messages.map((m) => m.metadata.nats_sequence)).toEqual([1, 1]);
+    expect(messages.map((m) => m.metadata.nats_delivery_count)).toEqual([1, 2]);
+  });
+
+  it("should fail when the stream does not exist", async () => {
+    const input = createInput(createMockNats());
+
+    const exit = await Effect.runPromiseExit(Stream.runDrain(input.stream));
+    await Effect.runPromise(input.close!());
+
+    expect(Exit.isFailure(exit)).toBe(true);
+    if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+      expect(exit.cause.error.category).toBe("fatal");
+      expect(exit.cause.error.message).toMatch(/stream not found/);
+    }
+  });
+});
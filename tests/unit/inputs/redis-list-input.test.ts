@@ -1,13 +1,37 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { Effect } from "effect";
+import { Chunk, Effect, Stream } from "effect";
 import { createRedisListInput } from "../../../src/inputs/redis-list-input.js";
+import { createRedisListOutput } from "../../../src/outputs/redis-list-output.js";
+import { createMessage } from "../../../src/core/types.js";
+
+// Lists shared by every mocked client
+const lists = vi.hoisted(() => new Map<string, string[]>());
 
 // Mock ioredis
 vi.mock("ioredis", () => {
+  // BLPOP/BRPOP without blocking: null when every list is empty
+  const pop =
+    (end: "shift" | "pop") =>
+    async (...args: any[]) => {
+      for (const key of args.slice(0, -1)) {
+        const element = lists.get(key)?.[end]();
+        if (element !== undefined) {
+          return [key, element];
+        }
+      }
+      return null;
+    };
+
   return {
     default: vi.fn(() => ({
-      blpop: vi.fn().mockResolvedValue(null),
-      brpop: vi.fn().mockResolvedValue(null),
+      blpop: vi.fn(pop("shift")),
+      brpop: vi.fn(pop("pop")),
+      rpush: vi.fn(async (key: string, element: string) => {
+        const list = lists.get(key) ?? [];
+        list.push(element);
+        lists.set(key, list);
+        return list.length;
+      }),
       quit: vi.fn().mockResolvedValue("OK"),
     })),
   };
@@ -163,6 +187,36 @@ describe("RedisListInput", () => {
     });
   });
 
+  describe("Trace Context", () => {
+    it("should continue the trace of elements pushed by the Redis list output", async () => {
+      const output = createRedisListOutput({
+        host: "localhost",
+        port: 6379,
+        key: "traced",
+      });
+      const input = createRedisListInput({
+        host: "localhost",
+        port: 6379,
+        key: "traced",
+      });
+      const trace = {
+        traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+        spanId: "00f067aa0ba902b7",
+        sampled: true,
+        traceState: "vendor=abc",
+      };
+
+      await Effect.runPromise(
+        output.send({ ...createMessage({ id: 1 }), trace }),
+      );
+      const received = await Effect.runPromise(
+        Stream.runCollect(input.stream.pipe(Stream.take(1))),
+      );
+
+      expect(Chunk.toReadonlyArray(received)[0].trace).toEqual(trace);
+    });
+  });
+
   describe("Close", () => {
     it("should have close function", async () => {
       const input = createRedisListInput({
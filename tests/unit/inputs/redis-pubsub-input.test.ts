@@ -1,6 +1,13 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { Effect } from "effect";
+import { Chunk, Effect, Fiber, Stream } from "effect";
 import { createRedisPubSubInput } from "../../../src/inputs/redis-pubsub-input.js";
+import { createRedisPubSubOutput } from "../../../src/outputs/redis-pubsub-output.js";
+import { createMessage } from "../../../src/core/types.js";
+
+// "message" handlers of every mocked subscriber
+const handlers = vi.hoisted(
+  () => [] as Array<(channel: string, message: string) => void>,
+);
 
 // Mock ioredis
 vi.mock("ioredis", () => {
@@ -11,7 +18,15 @@ vi.mock("ioredis", () => {
       unsubscribe: vi.fn().mockResolvedValue(null),
       punsubscribe: vi.fn().mockResolvedValue(null),
       quit: vi.fn().mockResolvedValue("OK"),
-      on: vi.fn(),
+      on: vi.fn((event: string, handler: any) => {
+        if (event === "message") {
+          handlers.push(handler);
+        }
+      }),
+      publish: vi.fn(async (channel: string, message: string) => {
+        handlers.forEach((handler) => handler(channel, message));
+        return handlers.length;
+      }),
     })),
   };
 });
@@ -140,6 +155,39 @@ describe("RedisPubSubInput", () => {
     });
   });
 
+  describe("Trace Context", () => {
+    it("should continue the trace of messages published by the Redis Pub/Sub output", async () => {
+      const output = createRedisPubSubOutput({
+        host: "localhost",
+        port: 6379,
+        channel: "traced",
+      });
+      const input = createRedisPubSubInput({
+        host: "localhost",
+        port: 6379,
+        channels: ["traced"],
+      });
+      const trace = {
+        traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+        spanId: "00f067aa0ba902b7",
+        sampled: true,
+        traceState: "vendor=abc",
+      };
+
+      const fiber = Effect.runFork(
+        Stream.runCollect(input.stream.pipe(Stream.take(1))),
+      );
+      // Publish once the input subscribed
+      await vi.waitFor(() => expect(handlers).toHaveLength(1));
+      await Effect.runPromise(
+        output.send({ ...createMessage({ id: 1 }), trace }),
+      );
+      const received = await Effect.runPromise(Fiber.join(fiber));
+
+      expect(Chunk.toReadonlyArray(received)[0].trace).toEqual(trace);
+    });
+  });
+
   describe("Close", () => {
     it("should have close function", async () => {
       const input = createRedisPubSubInput({
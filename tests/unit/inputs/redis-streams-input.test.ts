@@ -220,6 +220,36 @@ describe("RedisStreamsInput", () => {
       expect(input.stream).toBeDefined();
     });
 
+    it("should ACK entries only when the pipeline acknowledges them", async () => {
+      const Redis = (await import("ioredis")).default;
+
+      const input = createRedisStreamsInput({
+        host: "localhost",
+        port: 6379,
+        stream: "test-stream",
+        mode: "consumer-group",
+        consumerGroup: "test-group",
+      });
+
+      const client = (Redis as any).mock.results.at(-1).value;
+      const msg = {
+        id: "msg-1",
+        content: {},
+        metadata: { externalId: "1234567890-0" },
+        timestamp: Date.now(),
+      };
+
+      await Effect.runPromise(input.nack!(msg));
+      expect(client.xack).not.toHaveBeenCalled();
+
+      await Effect.runPromise(input.ack!(msg));
+      expect(client.xack).toHaveBeenCalledWith(
+        "test-stream",
+        "test-group",
+        "1234567890-0",
+      );
+    });
+
     it("should generate consumer name if not provided", () => {
       const input = createRedisStreamsInput({
         host: "localhost",
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { Chunk, Effect, Fiber, Stream } from "effect";
+import Database from "better-sqlite3";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  createSqlSelectInput,
+  type SqlSelectInputConfig,
+} from "../../../src/inputs/sql-select-input.js";
+
+describe("SqlSelectInput", () => {
+  let dir: string;
+  let dsn: string;
+
+  const insert = (...rows: [number, string, string][]) => {
+    const db = new Database(dsn);
+    const statement = db.prepare("INSERT INTO events VALUES (?, ?, ?)");
+    rows.forEach((row) => statement.run(...row));
+    db.close();
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "sql-select-input-"));
+    dsn = path.join(dir, "test.db");
+    const db = new Database(dsn);
+    db.exec("CREATE TABLE events (id INTEGER PRIMARY KEY, type TEXT, at TEXT)");
+    db.close();
+    insert(
+      [1, "created", "2026-01-01T00:00:00Z"],
+      [2, "paid", "2026-01-02T00:00:00Z"],
+      [3, "created", "2026-01-03T00:00:00Z"],
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const createInput = (config: Partial<SqlSelectInputConfig> = {}) =>
+    createSqlSelectInput({
+      driver: "sqlite",
+      dsn,
+      table: "events",
+      cursorColumn: "id",
+      pollInterval: 10,
+      ...config,
+    });
+
+  const take = (input: ReturnType<typeof createInput>, n: number) =>
+    Effect.runPromise(Stream.runCollect(Stream.take(input.stream, n))).then(
+      (chunk) => Chunk.toReadonlyArray(chunk),
+    );
+
+  it("should reject a config without cursor column", () => {
+    expect(() => createInput({ cursorColumn: "" })).toThrow();
+  });
+
+  it("should emit rows in cursor order across batches with metadata", async () => {
+    const input = createInput({ batchSize: 2 });
+    const messages = await take(input, 3);
+    await Effect.runPromise(input.close!());
+
+    expect(messages.map((m) => m.content)).toEqual([
+      { id: 1, type: "created", at: "2026-01-01T00:00:00Z" },
+      { id: 2, type: "paid", at: "2026-01-02T00:00:00Z" },
+      { id: 3, type: "created", at: "2026-01-03T00:00:00Z" },
+    ]);
+    expect(messages[0].metadata).toMatchObject({
+      source: "sql-select-input",
+      sql_table: "events",
+      sql_cursor: 1,
+    });
+  });
+
+  it("should apply columns, where and initial cursor", async () => {
+    const input = createInput({
+      columns: ["id", "at"],
+      cursorColumn: "at",
+      where: "type = 'created'",
+      initialCursor: "2026-01-01T00:00:00Z",
+    });
+    const messages = await take(input, 1);
+    await Effect.runPromise(input.close!());
+
+    expect(messages.map((m) => m.content)).toEqual([
+      { id: 3, at: "2026-01-03T00:00:00Z" },
+    ]);
+  });
+
+  it("should break cursor ties with the key column across batches", async () => {
+    // Rows 3 to 5 share a timestamp; batches of 2 end between them
+    insert(
+      [4, "paid", "2026-01-03T00:00:00Z"],
+      [5, "shipped", "2026-01-03T00:00:00Z"],
+    );
+    const cursorPath = path.join(dir, "cursor.json");
+    const first = createInput({
+      cursorColumn: "at",
+      keyColumn: "id",
+      batchSize: 2,
+      cursorPath,
+    });
+    const messages = await take(first, 3);
+    for (const msg of messages) {
+      await Effect.runPromise(first.ack!(msg));
+    }
+    await Effect.runPromise(first.close!());
+
+    expect(messages.map((m) => m.metadata.sql_key)).toEqual([1, 2, 3]);
+    expect(JSON.parse(fs.readFileSync(cursorPath, "utf8"))).toEqual({
+      cursor: "2026-01-03T00:00:00Z",
+      key: 3,
+    });
+
+    const second = createInput({
+      cursorColumn: "at",
+      keyColumn: "id",
+      batchSize: 2,
+      cursorPath,
+    });
+    const resumed = await take(second, 2);
+    await Effect.runPromise(second.close!());
+
+    expect(resumed.map((m) => m.metadata.sql_key)).toEqual([4, 5]);
+  });
+
+  it("should poll for rows inserted later", async () => {
+    const input = createInput();
+    const fiber = Effect.runFork(
+      Stream.runCollect(Stream.take(input.stream, 4)),
+    );
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    insert([4, "shipped", "2026-01-04T00:00:00Z"]);
+
+    const messages = Chunk.toReadonlyArray(
+      await Effect.runPromise(Fiber.join(fiber)),
+    );
+    await Effect.runPromise(input.close!());
+
+    expect(messages.map((m) => m.metadata.sql_cursor)).toEqual([1, 2, 3, 4]);
+  });
+
+  it("should resume after the last acknowledged row", async () => {
+    const cursorPath = path.join(dir, "cursor.json");
+    const first = createInput({ cursorPath });
+    const messages = await take(first, 3);
+    // Row 2 is not acknowledged, so rows 2 and 3 are read again
+    await Effect.runPromise(first.ack!(messages[0]));
+    await Effect.runPromise(first.nack!(messages[1]));
+    await Effect.runPromise(first.ack!(messages[2]));
+    await Effect.runPromise(first.close!());
+
+    expect(JSON.parse(fs.readFileSync(cursorPath, "utf8"))).toEqual({
+      cursor: 1,
+    });
+
+    const second = createInput({ cursorPath });
+    const resumed = await take(second, 2);
+    await Effect.runPromise(second.close!());
+
+    expect(resumed.map((m) => m.metadata.sql_cursor)).toEqual([2, 3]);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { Chunk, Effect, Fiber, Stream } from "effect";
+import { PassThrough, Readable } from "node:stream";
+import { createStdinInput } from "../../../src/inputs/stdin-input.js";
+
+const collect = (chunks: Array<string | Buffer>, codec?: "json_stream") =>
+  Effect.runPromise(
+    Stream.runCollect(
+      createStdinInput({ codec, source: Readable.from(chunks) }).stream,
+    ),
+  ).then((chunk) => Chunk.toReadonlyArray(chunk));
+
+describe("StdinInput", () => {
+  it("should reject an unknown codec", () => {
+    expect(() => createStdinInput({ codec: "csv" as any })).toThrow();
+  });
+
+  it("should stop reading when interrupted while stdin is idle", async () => {
+    // Held open without data, like a FIFO nobody writes to
+    const source = new PassThrough();
+    source.write('{"n":1}\n');
+
+    const messages = await Effect.runPromise(
+      Effect.gen(function* () {
+        const received: unknown[] = [];
+        const fiber = yield* Effect.fork(
+          Stream.runForEach(createStdinInput({ source }).stream, (msg) =>
+            Effect.sync(() => received.push(msg.content)),
+          ),
+        );
+        yield* Effect.sleep("50 millis");
+        yield* Fiber.interrupt(fiber);
+        return received;
+      }),
+    );
+
+    expect(messages).toEqual([{ n: 1 }]);
+    expect(source.listenerCount("data")).toBe(0);
+    expect(source.destroyed).toBe(false);
+  });
+
+  describe("lines codec", () => {
+    it("should emit one message per line until EOF", async () => {
+      const messages = await collect(['{"n":1}\n\n{"n"', ":2}\r\nplain"]);
+
+      expect(messages.map((m) => m.content)).toEqual([
+        { n: 1 },
+        { n: 2 },
+        { raw: "plain" },
+      ]);
+      expect(messages.map((m) => m.metadata.line_number)).toEqual([1, 3, 4]);
+    });
+
+    it("should decode multi-byte characters split across chunks", async () => {
+      const bytes = Buffer.from('"café"\n');
+      const messages = await collect([bytes.subarray(0, 4), bytes.subarray(4)]);
+
+      expect(messages.map((m) => m.content)).toEqual(["café"]);
+    });
+  });
+
+  describe("json_stream codec", () => {
+    it("should emit concatenated and multi-line JSON values", async () => {
+      const messages = await collect(
+        ['{"a":1}{"b":\n', ' "x}"\n}\n[1, 2] "s" 4', "2 true"],
+        "json_stream",
+      );
+
+      expect(messages.map((m) => m.content)).toEqual([
+        { a: 1 },
+        { b: "x}" },
+        [1, 2],
+        "s",
+        42,
+        true,
+      ]);
+      expect(messages.map((m) => m.metadata.index)).toEqual([0, 1, 2, 3, 4, 5]);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { Chunk, Effect, Stream } from "effect";
+import { createServer } from "node:net";
+import WebSocket, { WebSocketServer } from "ws";
+import { createWebSocketInput } from "../../../src/inputs/websocket-input.js";
+
+const freePort = () =>
+  new Promise<number>((resolve) => {
+    const server = createServer().listen(0, () => {
+      const { port } = server.address() as { port: number };
+      server.close(() => resolve(port));
+    });
+  });
+
+const take = (input: ReturnType<typeof createWebSocketInput>, n: number) =>
+  Effect.runPromise(Stream.runCollect(Stream.take(input.stream, n))).then(
+    (chunk) => Chunk.toReadonlyArray(chunk),
+  );
+
+describe("WebSocketInput", () => {
+  let server: WebSocketServer | undefined;
+
+  afterEach(async () => {
+    if (server) {
+      server.clients.forEach((client) => client.terminate());
+      await new Promise((resolve) => server!.close(resolve));
+      server = undefined;
+    }
+  });
+
+  const startServer = () =>
+    new Promise<number>((resolve) => {
+      server = new WebSocketServer({ port: 0 }, () =>
+        resolve((server!.address() as { port: number }).port),
+      );
+    });
+
+  it("should require a url in client mode and a port in server mode", () => {
+    expect(() => createWebSocketInput({})).toThrow(/requires a url/);
+    expect(() => createWebSocketInput({ mode: "server" })).toThrow(
+      /requires a port/,
+    );
+  });
+
+  it("should connect with headers and send the open message", async () => {
+    const port = await startServer();
+    const handshakes: (string | undefined)[] = [];
+    server!.on("connection", (socket, request) => {
+      handshakes.push(request.headers.authorization);
+      socket.on("message", (data) => {
+        if (data.toString() === "subscribe") {
+          socket.send(JSON.stringify({ n: 1 }));
+          socket.send("not json");
+        }
+      });
+    });
+
+    const input = createWebSocketInput({
+      url: `ws://127.0.0.1:${port}/events`,
+      headers: { Authorization: "Bearer secret" },
+      openMessage: "subscribe",
+    });
+    const messages = await take(input, 2);
+    await Effect.runPromise(input.close!());
+
+    expect(handshakes).toEqual(["Bearer secret"]);
+    expect(messages.map((m) => m.content)).toEqual([
+      { n: 1 },
+      { raw: "not json" },
+    ]);
+    expect(messages[0].metadata).toMatchObject({
+      source: "websocket-input",
+      websocket_url: `ws://127.0.0.1:${port}/events`,
+    });
+  });
+
+  it("should reconnect after the connection closes", async () => {
+    const port = await startServer();
+    let connections = 0;
+    server!.on("connection", (socket) => {
+      connections++;
+      socket.send(JSON.stringify({ connection: connections }));
+      if (connections === 1) {
+        socket.close();
+      }
+    });
+
+    const input = createWebSocketInput({
+      url: `ws://127.0.0.1:${port}`,
+      reconnectDelay: 10,
+    });
+    const messages = await take(input, 2);
+    await Effect.runPromise(input.close!());
+
+    expect(messages.map((m) => m.content)).toEqual([
+      { connection: 1 },
+      { connection: 2 },
+    ]);
+  });
+
+  it("should accept client connections in server mode", async () => {
+    const port = await freePort();
+    const input = createWebSocketInput({
+      mode: "server",
+      port,
+      host: "127.0.0.1",
+      path: "/ingest",
+    });
+
+    const collecting = take(input, 2);
+    // The server listens once the stream starts
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const client = new WebSocket(`ws://127.0.0.1:${port}/ingest`);
+    await new Promise((resolve) => client.once("open", resolve));
+    client.send(JSON.stringify({ a: 1 }));
+    client.send(Buffer.from(JSON.stringify({ a: 2 })));
+
+    const messages = await collecting;
+    await Effect.runPromise(input.close!());
+
+    expect(messages.map((m) => m.content)).toEqual([{ a: 1 }, { a: 2 }]);
+    expect(messages[0].metadata.websocket_url).toBe("/ingest");
+    expect(messages[0].metadata.connectionId).toBe(
+      messages[1].metadata.connectionId,
+    );
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect } from "vitest";
+import { Effect } from "effect";
+import {
+  createBrokerOutput,
+  BrokerOutputError,
+} from "../../../src/outputs/broker-output.js";
+import { ComponentError } from "../../../src/core/errors.js";
+import {
+  createMessage,
+  type Output,
+  type Message,
+} from "../../../src/core/types.js";
+
+class TestOutputError extends ComponentError {
+  readonly _tag = "TestOutputError";
+  readonly category = "intermittent" as const;
+}
+
+const recordingOutput = (name: string, fail = false) => {
+  const sent: Message[] = [];
+  let closed = false;
+  const output: Output<TestOutputError> = {
+    name,
+    send: (msg) =>
+      fail
+        ? Effect.fail(new TestOutputError(`${name} unavailable`))
+        : Effect.sync(() => {
+            sent.push(msg);
+          }),
+    close: () =>
+      Effect.sync(() => {
+        closed = true;
+      }),
+  };
+  return { output, sent, isClosed: () => closed };
+};
+
+describe("BrokerOutput", () => {
+  describe("Configuration Validation", () => {
+    it("should reject an empty output list", () => {
+      expect(() => createBrokerOutput({ outputs: [] })).toThrow();
+    });
+
+    it("should reject an unknown pattern", () => {
+      const a = recordingOutput("a");
+      expect(() =>
+        createBrokerOutput({ outputs: [a.output], pattern: "random" as any }),
+      ).toThrow();
+    });
+  });
+
+  describe("fan_out", () => {
+    it("should send every message to all outputs", async () => {
+      const a = recordingOutput("a");
+      const b = recordingOutput("b");
+      const broker = createBrokerOutput({ outputs: [a.output, b.output] });
+
+      await Effect.runPromise(broker.send(createMessage({ id: 1 })));
+
+      expect(a.sent).toHaveLength(1);
+      expect(b.sent).toHaveLength(1);
+    });
+
+    it("should fail when any output fails, after attempting all", async () => {
+      const a = recordingOutput("a", true);
+      const b = recordingOutput("b");
+      const broker = createBrokerOutput({ outputs: [a.output, b.output] });
+
+      const error = await Effect.runPromise(
+        Effect.flip(broker.send(createMessage({ id: 1 }))),
+      );
+
+      expect(error).toBeInstanceOf(BrokerOutputError);
+      expect(error.category).toBe("intermittent");
+      expect(error.message).toContain("a unavailable");
+      expect(b.sent).toHaveLength(1);
+    });
+  });
+
+  describe("fan_out_sequential", () => {
+    it("should stop at the first failing output", async () => {
+      const a = recordingOutput("a");
+      const b = recordingOutput("b", true);
+      const c = recordingOutput("c");
+      const broker = createBrokerOutput({
+        outputs: [a.output, b.output, c.output],
+        pattern: "fan_out_sequential",
+      });
+
+      const result = await Effect.runPromise(
+        Effect.either(broker.send(createMessage({ id: 1 }))),
+      );
+
+      expect(result._tag).toBe("Left");
+      expect(a.sent).toHaveLength(1);
+      expect(c.sent).toHaveLength(0);
+    });
+  });
+
+  describe("round_robin", () => {
+    it("should rotate messages across outputs", async () => {
+      const a = recordingOutput("a");
+      const b = recordingOutput("b");
+      const broker = createBrokerOutput({
+        outputs: [a.output, b.output],
+        pattern: "round_robin",
+      });
+
+      for (let i = 0; i < 5; i++) {
+        await Effect.runPromise(broker.send(createMessage({ id: i })));
+      }
+
+      expect(a.sent.map((m) => m.content)).toEqual([
+        { id: 0 },
+        { id: 2 },
+        { id: 4 },
+      ]);
+      expect(b.sent.map((m) => m.content)).toEqual([{ id: 1 }, { id: 3 }]);
+    });
+  });
+
+  describe("greedy", () => {
+    it("should prefer the output with the fewest in-flight sends", async () => {
+      const slow: Output = {
+        name: "slow",
+        send: () => Effect.sleep("50 millis"),
+      };
+      const fast = recordingOutput("fast");
+      const broker = createBrokerOutput({
+        outputs: [slow, fast.output],
+        pattern: "greedy",
+      });
+
+      await Effect.runPromise(
+        Effect.all(
+          [
+            broker.send(createMessage({ id: 1 })),
+            broker.send(createMessage({ id: 2 })),
+          ],
+          { concurrency: "unbounded" },
+        ),
+      );
+
+      expect(fast.sent.map((m) => m.content)).toEqual([{ id: 2 }]);
+    });
+  });
+
+  describe("close", () => {
+    it("should close all outputs", async () => {
+      const a = recordingOutput("a");
+      const b = recordingOutput("b");
+      const broker = createBrokerOutput({ outputs: [a.output, b.output] });
+
+      await Effect.runPromise(broker.close!());
+
+      expect(a.isClosed()).toBe(true);
+      expect(b.isClosed()).toBe(true);
+    });
+  });
+});
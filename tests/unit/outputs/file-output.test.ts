@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { Effect } from "effect";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { gunzipSync } from "node:zlib";
+import { createFileOutput } from "../../../src/outputs/file-output.js";
+import { createMessage } from "../../../src/core/types.js";
+
+const sendAll = (
+  output: ReturnType<typeof createFileOutput>,
+  contents: unknown[],
+  metadata: Record<string, unknown> = {},
+) =>
+  Effect.runPromise(
+    Effect.forEach(contents, (content) =>
+      output.send(createMessage(content, metadata)),
+    ),
+  );
+
+const readRecords = async (file: string) =>
+  (await fs.readFile(file, "utf8"))
+    .split("\n")
+    .filter((line) => line !== "")
+    .map((line) => JSON.parse(line).content);
+
+describe("FileOutput", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "file-output-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe("Configuration Validation", () => {
+    it("should reject an invalid path template", () => {
+      expect(() =>
+        createFileOutput({ path: path.join(dir, "{{ meta.[ }}.jsonl") }),
+      ).toThrow(/Failed to compile path template/);
+    });
+
+    it("should reject a non-positive max size", () => {
+      expect(() =>
+        createFileOutput({ path: "out.jsonl", maxSize: 0 }),
+      ).toThrow();
+    });
+  });
+
+  describe("Formats", () => {
+    it("should write one JSON record per line", async () => {
+      const file = path.join(dir, "out.jsonl");
+      const output = createFileOutput({ path: file });
+
+      await sendAll(output, [{ n: 1 }, { n: 2 }]);
+      await Effect.runPromise(output.close!());
+
+      expect(await readRecords(file)).toEqual([{ n: 1 }, { n: 2 }]);
+    });
+
+    it("should write a valid JSON array", async () => {
+      const file = path.join(dir, "out.json");
+      const output = createFileOutput({ path: file, format: "json_array" });
+
+      await sendAll(output, [{ n: 1 }, { n: 2 }]);
+      await Effect.runPromise(output.close!());
+
+      const records = JSON.parse(await fs.readFile(file, "utf8"));
+      expect(records.map((r: any) => r.content)).toEqual([{ n: 1 }, { n: 2 }]);
+    });
+
+    it("should gzip files", async () => {
+      const file = path.join(dir, "out.jsonl.gz");
+      const output = createFileOutput({ path: file, compression: "gzip" });
+
+      await sendAll(output, ["a", "b"]);
+      await Effect.runPromise(output.close!());
+
+      const text = gunzipSync(await fs.readFile(file)).toString("utf8");
+      expect(
+        text
+          .trim()
+          .split("\n")
+          .map((line) => JSON.parse(line).content),
+      ).toEqual(["a", "b"]);
+    });
+  });
+
+  describe("Path templates", () => {
+    it("should partition messages by rendered path", async () => {
+      const output = createFileOutput({
+        path: path.join(dir, "{{ meta.tenant }}/{{ content.type }}.jsonl"),
+      });
+
+      await sendAll(output, [{ type: "click" }, { type: "view" }], {
+        tenant: "acme",
+      });
+      await sendAll(output, [{ type: "click" }], { tenant: "globex" });
+      await Effect.runPromise(output.close!());
+
+      expect(await readRecords(path.join(dir, "acme/click.jsonl"))).toEqual([
+        { type: "click" },
+      ]);
+      expect(await readRecords(path.join(dir, "acme/view.jsonl"))).toHaveLength(
+        1,
+      );
+      expect(
+        await readRecords(path.join(dir, "globex/click.jsonl")),
+      ).toHaveLength(1);
+    });
+
+    it("should fail messages whose path renders empty", async () => {
+      const output = createFileOutput({ path: "{{ meta.missing }}" });
+
+      await expect(sendAll(output, [{}])).rejects.toThrow(/empty path/);
+    });
+  });
+
+  describe("Rotation", () => {
+    it("should rotate by size without overwriting existing files", async () => {
+      const file = path.join(dir, "events.jsonl");
+      await fs.writeFile(file, "existing\n");
+      const output = createFileOutput({ path: file, maxSize: 150 });
+
+      await sendAll(output, [1, 2, 3]);
+      await Effect.runPromise(output.close!());
+
+      expect(await fs.readFile(file, "utf8")).toBe("existing\n");
+      const rotated = (await fs.readdir(dir)).sort();
+      expect(rotated).toEqual([
+        "events.1.jsonl",
+        "events.2.jsonl",
+        "events.3.jsonl",
+        "events.jsonl",
+      ]);
+      expect(await readRecords(path.join(dir, "events.2.jsonl"))).toEqual([2]);
+    });
+
+    it("should close files once they reach their age", async () => {
+      const file = path.join(dir, "out.json");
+      const output = createFileOutput({
+        path: file,
+        format: "json_array",
+        maxAge: 20,
+      });
+
+      await sendAll(output, [1]);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      // Closed by the timer, so the array is complete before close()
+      const records = JSON.parse(await fs.readFile(file, "utf8"));
+      expect(records.map((r: any) => r.content)).toEqual([1]);
+
+      await sendAll(output, [2]);
+      await Effect.runPromise(output.close!());
+      expect(await fs.readdir(dir)).toHaveLength(2);
+    });
+  });
+});
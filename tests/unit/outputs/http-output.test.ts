@@ -1,5 +1,18 @@
 import { describe, it, expect } from "vitest";
+import { Chunk, Effect, Stream } from "effect";
+import { createServer } from "node:net";
 import { createHttpOutput } from "../../../src/outputs/http-output.js";
+import { createHttpInput } from "../../../src/inputs/http-input.js";
+import { createMessage } from "../../../src/core/types.js";
+
+// A port nothing listens on
+const freePort = () =>
+  new Promise<number>((resolve) => {
+    const server = createServer().listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as { port: number };
+      server.close(() => resolve(port));
+    });
+  });
 
 describe("HttpOutput", () => {
   describe("Configuration Validation", () => {
@@ -171,4 +184,37 @@ describe("HttpOutput", () => {
       expect(typeof output.close).toBe("function");
     });
   });
+
+  describe("Trace Context", () => {
+    it("should carry the trace context to the HTTP input as headers", async () => {
+      const port = await freePort();
+      const input = createHttpInput({ port, host: "127.0.0.1" });
+      const output = createHttpOutput({
+        url: `http://127.0.0.1:${port}/webhook`,
+      });
+      const trace = {
+        traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+        spanId: "00f067aa0ba902b7",
+        sampled: true,
+        traceState: "vendor=abc",
+      };
+
+      try {
+        await Effect.runPromise(
+          output.send({ ...createMessage({ id: 1 }), trace }),
+        );
+        const received = await Effect.runPromise(
+          Stream.runCollect(input.stream.pipe(Stream.take(1))),
+        );
+
+        const [msg] = Chunk.toReadonlyArray(received);
+        expect(msg.metadata.headers.traceparent).toBe(
+          "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01",
+        );
+        expect(msg.trace).toEqual(trace);
+      } finally {
+        await Effect.runPromise(input.close!());
+      }
+    });
+  });
 });
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from "vitest";
+import { Effect } from "effect";
+import { CompressionTypes } from "kafkajs";
+import { createKafkaOutput } from "../../../src/outputs/kafka-output.js";
+import { createMockKafka } from "../../../src/testing/kafka-mock.js";
+import { createMessage } from "../../../src/core/types.js";
+
+/**
+ * Mock broker whose producer records every produce request
+ */
+const createSpiedKafka = () => {
+  const kafka = createMockKafka({ partitions: 2 });
+  const producer = kafka.producer();
+  const sendBatch = vi.fn(producer.sendBatch);
+  return {
+    kafka,
+    sendBatch,
+    client: { ...kafka, producer: () => ({ ...producer, sendBatch }) },
+  };
+};
+
+describe("KafkaOutput", () => {
+  it("should reject an invalid topic template", () => {
+    expect(() =>
+      createKafkaOutput({ brokers: ["mock:9092"], topic: "{{ ( }}" }),
+    ).toThrow();
+  });
+
+  it("should produce content with key and metadata headers", async () => {
+    const kafka = createMockKafka();
+    const output = createKafkaOutput({
+      brokers: ["mock:9092"],
+      topic: "orders-{{ meta.region }}",
+      key: "{{ content.customer }}",
+      client: kafka,
+    });
+
+    await Effect.runPromise(
+      output.send(
+        createMessage(
+          { customer: "c-1", total: 5 },
+          { region: "eu", attempt: 2, kafka_offset: "7" },
+        ),
+      ),
+    );
+    await Effect.runPromise(output.close!());
+
+    expect(kafka.records("orders-eu")).toEqual([
+      {
+        partition: 0,
+        offset: "0",
+        key: "c-1",
+        value: '{"customer":"c-1","total":5}',
+        headers: { region: "eu", attempt: "2" },
+      },
+    ]);
+  });
+
+  it("should produce a full batch in one request", async () => {
+    const { kafka, sendBatch, client } = createSpiedKafka();
+    const output = createKafkaOutput({
+      brokers: ["mock:9092"],
+      topic: "orders",
+      maxBatchSize: 3,
+      batchTimeout: 60000,
+      client,
+    });
+
+    await Effect.runPromise(
+      Effect.forEach([1, 2, 3], (n) => output.send(createMessage({ n })), {
+        concurrency: "unbounded",
+      }),
+    );
+
+    expect(sendBatch).toHaveBeenCalledTimes(1);
+    expect(kafka.records("orders")).toHaveLength(3);
+    await Effect.runPromise(output.close!());
+  });
+
+  it("should produce a partial batch after the batch timeout", async () => {
+    const { kafka, sendBatch, client } = createSpiedKafka();
+    const output = createKafkaOutput({
+      brokers: ["mock:9092"],
+      topic: "orders",
+      maxBatchSize: 10,
+      batchTimeout: 20,
+      client,
+    });
+
+    await Effect.runPromise(output.send(createMessage({ n: 1 })));
+
+    expect(sendBatch).toHaveBeenCalledTimes(1);
+    expect(kafka.records("orders")).toHaveLength(1);
+    await Effect.runPromise(output.close!());
+  });
+
+  it("should request the configured compression", async () => {
+    const { client, sendBatch } = createSpiedKafka();
+    const output = createKafkaOutput({
+      brokers: ["mock:9092"],
+      topic: "orders",
+      compression: "gzip",
+      client,
+    });
+
+    await Effect.runPromise(output.send(createMessage({ n: 1 })));
+
+    expect(sendBatch).toHaveBeenCalledWith(
+      expect.objectContaining({ compression: CompressionTypes.GZIP }),
+    );
+    await Effect.runPromise(output.close!());
+  });
+
+  it("should fail the send when producing fails", async () => {
+    const { client, sendBatch } = createSpiedKafka();
+    sendBatch.mockRejectedValue(new Error("broker unavailable"));
+    const output = createKafkaOutput({
+      brokers: ["mock:9092"],
+      topic: "orders",
+      maxRetries: 0,
+      client,
+    });
+
+    const result = await Effect.runPromise(
+      Effect.either(output.send(createMessage({ n: 1 }))),
+    );
+
+    expect(result._tag).toBe("Left");
+    await Effect.runPromise(output.close!());
+  });
+});
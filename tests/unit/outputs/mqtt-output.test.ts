@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { Effect } from "effect";
+import { createServer, type Server } from "node:net";
+import { Aedes } from "aedes";
+import { connectAsync } from "mqtt";
+import { createMqttOutput } from "../../../src/outputs/mqtt-output.js";
+import { createMessage } from "../../../src/core/types.js";
+
+describe("MqttOutput", () => {
+  let broker: Aedes;
+  let server: Server;
+  let url: string;
+  let published: { topic: string; payload: string; retain: boolean }[];
+
+  beforeEach(async () => {
+    published = [];
+    broker = await Aedes.createBroker();
+    // Only messages of clients, not the broker's own $SYS topics
+    broker.on("publish", (packet, client) => {
+      if (client) {
+        published.push({
+          topic: packet.topic,
+          payload: packet.payload.toString(),
+          retain: packet.retain,
+        });
+      }
+    });
+    server = createServer(broker.handle);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    url = `mqtt://127.0.0.1:${(server.address() as { port: number }).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => broker.close(resolve));
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should publish to topics rendered from the message", async () => {
+    const output = createMqttOutput({
+      url,
+      topic: "devices/{{ content.deviceId }}/state",
+    });
+
+    await Effect.runPromise(output.send(createMessage({ deviceId: "d1" })));
+    await Effect.runPromise(output.send(createMessage({ deviceId: "d2" })));
+    await Effect.runPromise(output.close!());
+
+    expect(published).toEqual([
+      {
+        topic: "devices/d1/state",
+        payload: '{"deviceId":"d1"}',
+        retain: false,
+      },
+      {
+        topic: "devices/d2/state",
+        payload: '{"deviceId":"d2"}',
+        retain: false,
+      },
+    ]);
+  });
+
+  it("should retain messages for later subscribers", async () => {
+    const output = createMqttOutput({
+      url,
+      topic: "config/{{ meta.site }}",
+      retain: true,
+    });
+    await Effect.runPromise(
+      output.send(createMessage({ mode: "eco" }, { site: "north" })),
+    );
+    await Effect.runPromise(output.close!());
+
+    const subscriber = await connectAsync(url);
+    const retained = new Promise<string>((resolve) =>
+      subscriber.on("message", (_, payload) => resolve(payload.toString())),
+    );
+    await subscriber.subscribeAsync("config/#");
+
+    expect(await retained).toBe('{"mode":"eco"}');
+    await subscriber.endAsync();
+  });
+
+  it("should reject topics with wildcards as logical errors", async () => {
+    const output = createMqttOutput({ url, topic: "{{ content.topic }}" });
+
+    const result = await Effect.runPromise(
+      Effect.either(output.send(createMessage({ topic: "devices/+/state" }))),
+    );
+    await Effect.runPromise(output.close!());
+
+    expect(result._tag).toBe("Left");
+    const error = result._tag === "Left" ? result.left : undefined;
+    expect(error?.category).toBe("logical");
+    expect(published).toEqual([]);
+  });
+});
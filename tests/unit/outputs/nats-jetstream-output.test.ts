@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { Effect, Exit } from "effect";
+import { createNatsJetStreamOutput } from "../../../src/outputs/nats-jetstream-output.js";
+import { createMockNats } from "../../../src/testing/nats-mock.js";
+import { createMessage } from "../../../src/core/types.js";
+
+describe("NatsJetStreamOutput", () => {
+  it("should store messages once, even when sent again", async () => {
+    const nats = createMockNats();
+    nats.addStream("ORDERS", { subjects: ["orders.>"] });
+    const output = createNatsJetStreamOutput({
+      urls: ["nats://mock:4222"],
+      subject: "orders.{{ content.status }}",
+      client: nats,
+    });
+
+    const msg = createMessage({ id: 1, status: "created" });
+    await Effect.runPromise(output.send(msg));
+    // A retry of a message the stream already stored
+    await Effect.runPromise(output.send(msg));
+    await Effect.runPromise(
+      output.send(createMessage({ id: 2, status: "shipped" })),
+    );
+    await Effect.runPromise(output.close!());
+
+    expect(nats.streamMessages("ORDERS")).toEqual([
+      {
+        seq: 1,
+        subject: "orders.created",
+        data: '{"id":1,"status":"created"}',
+        headers: {},
+      },
+      {
+        seq: 2,
+        subject: "orders.shipped",
+        data: '{"id":2,"status":"shipped"}',
+        headers: {},
+      },
+    ]);
+  });
+
+  it("should fail for subjects without a stream", async () => {
+    const output = createNatsJetStreamOutput({
+      urls: ["nats://mock:4222"],
+      subject: "payments.created",
+      maxRetries: 0,
+      client: createMockNats(),
+    });
+
+    const exit = await Effect.runPromiseExit(
+      output.send(createMessage({ id: 1 })),
+    );
+    await Effect.runPromise(output.close!());
+
+    expect(Exit.isFailure(exit)).toBe(true);
+    if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+      expect(exit.cause.error.category).toBe("intermittent");
+    }
+  });
+});
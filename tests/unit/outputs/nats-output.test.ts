@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import { Effect, Exit, Fiber, Stream } from "effect";
+import { createNatsOutput } from "../../../src/outputs/nats-output.js";
+import { createNatsInput } from "../../../src/inputs/nats-input.js";
+import { createMockNats } from "../../../src/testing/nats-mock.js";
+import { createMessage } from "../../../src/core/types.js";
+
+describe("NatsOutput", () => {
+  it("should reject an invalid subject template", () => {
+    expect(() =>
+      createNatsOutput({ urls: ["nats://mock:4222"], subject: "{{ ( }}" }),
+    ).toThrow();
+  });
+
+  it("should publish content to the templated subject", async () => {
+    const nats = createMockNats();
+    const output = createNatsOutput({
+      urls: ["nats://mock:4222"],
+      subject: "orders.{{ content.region }}.created",
+      client: nats,
+    });
+
+    await Effect.runPromise(
+      output.send(createMessage({ id: 1, region: "eu" })),
+    );
+    const exit = await Effect.runPromiseExit(
+      output.send(createMessage({ id: 2, region: "*" })),
+    );
+    await Effect.runPromise(output.close!());
+
+    expect(nats.published("orders.>")).toEqual([
+      {
+        subject: "orders.eu.created",
+        data: '{"id":1,"region":"eu"}',
+        headers: {},
+        reply: undefined,
+      },
+    ]);
+    expect(Exit.isFailure(exit)).toBe(true);
+    if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+      expect(exit.cause.error.category).toBe("logical");
+    }
+  });
+
+  it("should publish the trace context as headers", async () => {
+    const nats = createMockNats();
+    const output = createNatsOutput({
+      urls: ["nats://mock:4222"],
+      subject: "orders",
+      client: nats,
+    });
+
+    await Effect.runPromise(
+      output.send({
+        ...createMessage({ id: 1 }),
+        trace: {
+          traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+          spanId: "00f067aa0ba902b7",
+          traceState: "vendor=abc",
+        },
+      }),
+    );
+    await Effect.runPromise(output.close!());
+
+    expect(nats.published("orders")[0].headers).toEqual({
+      traceparent: "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01",
+      tracestate: "vendor=abc",
+    });
+  });
+
+  it("should complete requests once the receiving pipeline delivered them", async () => {
+    const nats = createMockNats();
+    const output = createNatsOutput({
+      urls: ["nats://mock:4222"],
+      subject: "orders.created",
+      request: true,
+      requestTimeout: 100,
+      maxRetries: 0,
+      client: nats,
+    });
+
+    // Without a subscriber the request has no responders
+    const unanswered = await Effect.runPromiseExit(
+      output.send(createMessage({ id: 1 })),
+    );
+    expect(Exit.isFailure(unanswered)).toBe(true);
+
+    const input = createNatsInput({
+      urls: ["nats://mock:4222"],
+      subjects: ["orders.>"],
+      client: nats,
+    });
+    // Acknowledges the first message like a pipeline that delivered it,
+    // and fails the second one
+    const receiving = Effect.runFork(
+      Stream.runForEach(input.stream, (msg) =>
+        (msg.content as { id: number }).id === 2
+          ? input.ack!(msg)
+          : input.nack!(msg),
+      ),
+    );
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const delivered = await Effect.runPromiseExit(
+      output.send(createMessage({ id: 2 })),
+    );
+    const rejected = await Effect.runPromiseExit(
+      output.send(createMessage({ id: 3 })),
+    );
+    await Effect.runPromise(Fiber.interrupt(receiving));
+    await Effect.runPromise(input.close!());
+    await Effect.runPromise(output.close!());
+
+    expect(Exit.isSuccess(delivered)).toBe(true);
+    expect(Exit.isFailure(rejected)).toBe(true);
+    if (Exit.isFailure(rejected) && rejected.cause._tag === "Fail") {
+      expect(rejected.cause.error.message).toMatch(/replied with error/);
+    }
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { Effect } from "effect";
+import Database from "better-sqlite3";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  createSqlInsertOutput,
+  type SqlInsertOutputConfig,
+} from "../../../src/outputs/sql-insert-output.js";
+import { createMessage } from "../../../src/core/types.js";
+
+describe("SqlInsertOutput", () => {
+  let dir: string;
+  let dsn: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "sql-insert-"));
+    dsn = path.join(dir, "test.db");
+    const db = new Database(dsn);
+    db.exec(
+      "CREATE TABLE orders (id INTEGER PRIMARY KEY, customer TEXT NOT NULL, total REAL, tags TEXT)",
+    );
+    db.close();
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const rows = () => {
+    const db = new Database(dsn, { readonly: true });
+    const result = db.prepare("SELECT * FROM orders ORDER BY id").all();
+    db.close();
+    return result;
+  };
+
+  const sendAll = async (
+    config: Partial<SqlInsertOutputConfig>,
+    contents: unknown[],
+  ) => {
+    const output = createSqlInsertOutput({
+      driver: "sqlite",
+      dsn,
+      table: "orders",
+      columns: ["id", "customer", "total"],
+      ...config,
+    });
+    const results = await Effect.runPromise(
+      Effect.forEach(
+        contents,
+        (content) =>
+          Effect.either(output.send(createMessage(content, { region: "eu" }))),
+        { concurrency: "unbounded" },
+      ),
+    );
+    await Effect.runPromise(output.close!());
+    return results;
+  };
+
+  it("should reject a config without columns", () => {
+    expect(() =>
+      createSqlInsertOutput({
+        driver: "sqlite",
+        dsn: ":memory:",
+        table: "orders",
+        columns: [],
+      }),
+    ).toThrow();
+  });
+
+  it("should insert content fields named like the columns", async () => {
+    await sendAll({ columns: ["id", "customer", "total", "tags"] }, [
+      { id: 1, customer: "ann", total: 9.5, tags: ["new"], extra: true },
+      { id: 2, customer: "bob" },
+    ]);
+
+    expect(rows()).toEqual([
+      { id: 1, customer: "ann", total: 9.5, tags: '["new"]' },
+      { id: 2, customer: "bob", total: null, tags: null },
+    ]);
+  });
+
+  it("should map columns with a JSONata expression", async () => {
+    await sendAll(
+      {
+        columns: ["id", "customer", "tags"],
+        argsMapping: "[orderId, buyer.name & '@' & $meta.region, null]",
+      },
+      [{ orderId: 7, buyer: { name: "ann" } }],
+    );
+
+    expect(rows()).toEqual([
+      { id: 7, customer: "ann@eu", total: null, tags: null },
+    ]);
+  });
+
+  it("should upsert rows on conflict", async () => {
+    await sendAll({}, [{ id: 1, customer: "ann", total: 1 }]);
+    await sendAll({ onConflict: { columns: ["id"], update: ["total"] } }, [
+      { id: 1, customer: "changed", total: 2 },
+    ]);
+    await sendAll({ onConflict: { columns: ["id"], action: "nothing" } }, [
+      { id: 1, customer: "ignored", total: 3 },
+    ]);
+
+    expect(rows()).toEqual([{ id: 1, customer: "ann", total: 2, tags: null }]);
+  });
+
+  it("should roll back and fail the whole batch when a row fails", async () => {
+    const results = await sendAll({ maxBatchSize: 3 }, [
+      { id: 1, customer: "ann" },
+      { id: 2 }, // customer is NOT NULL
+      { id: 3, customer: "cid" },
+    ]);
+
+    expect(results.map((r) => r._tag)).toEqual(["Left", "Left", "Left"]);
+    const error = results[0]._tag === "Left" ? results[0].left : undefined;
+    expect(error?.category).toBe("logical");
+    expect(rows()).toEqual([]);
+  });
+});
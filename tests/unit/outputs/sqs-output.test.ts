@@ -1,7 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { Effect } from "effect";
+import { Chunk, Effect, Exit, Fiber, Stream } from "effect";
 import { createSqsOutput } from "../../../src/outputs/sqs-output.js";
+import { createSqsInput } from "../../../src/inputs/sqs-input.js";
 import { createMessage } from "../../../src/core/types.js";
+import type { Message, Output } from "../../../src/core/types.js";
 
 // Mock AWS SDK
 vi.mock("@aws-sdk/client-sqs", () => {
@@ -15,9 +17,24 @@ vi.mock("@aws-sdk/client-sqs", () => {
     })),
     SendMessageCommand: vi.fn((params) => params),
     SendMessageBatchCommand: vi.fn((params) => params),
+    ReceiveMessageCommand: vi.fn((params) => params),
+    DeleteMessageCommand: vi.fn((params) => params),
   };
 });
 
+// Send messages concurrently, as the pipeline does, so batches can fill
+const sendAll = (output: Output<any>, messages: Message[]) =>
+  Effect.forEach(messages, output.send, {
+    concurrency: "unbounded",
+    discard: true,
+  });
+
+// SendMessageBatch requests made through the mocked client
+const batchCalls = (client: any): any[] =>
+  client.send.mock.calls
+    .map((call: any[]) => call[0])
+    .filter((command: any) => command.Entries !== undefined);
+
 describe("SQSOutput", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -91,35 +108,30 @@ describe("SQSOutput", () => {
   });
 
   describe("Batch Mode", () => {
-    it("should accumulate messages until batch size reached", async () => {
-      const { SQSClient, SendMessageBatchCommand } = await import(
-        "@aws-sdk/client-sqs"
-      );
+    it("should wait for the batch to fill before sending it", async () => {
+      const { SQSClient } = await import("@aws-sdk/client-sqs");
       const mockClient = new SQSClient({});
 
       const output = createSqsOutput({
         queueUrl: "http://localhost:4566/000000000000/test-queue",
         maxBatchSize: 3,
+        batchTimeout: 5000,
       });
 
-      // Send 2 messages (should not trigger batch send yet)
-      await Effect.runPromise(output.send(createMessage({ id: 1 })));
-      await Effect.runPromise(output.send(createMessage({ id: 2 })));
-
-      // Should not have called batch send yet
-      const batchCalls = (mockClient.send as any).mock.calls.filter(
-        (call: any) => call[0].Entries !== undefined,
+      // Two messages do not fill the batch, their sends keep waiting
+      const first = Effect.runFork(
+        sendAll(output, [createMessage({ id: 1 }), createMessage({ id: 2 })]),
       );
-      expect(batchCalls.length).toBe(0);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(batchCalls(mockClient)).toHaveLength(0);
+      expect(first.unsafePoll()).toBeNull();
 
-      // Send 3rd message (should trigger batch)
+      // The third one fills it
       await Effect.runPromise(output.send(createMessage({ id: 3 })));
+      await Effect.runPromise(Fiber.join(first));
 
-      // Now should have sent batch
-      const newBatchCalls = (mockClient.send as any).mock.calls.filter(
-        (call: any) => call[0].Entries !== undefined,
-      );
-      expect(newBatchCalls.length).toBeGreaterThan(0);
+      expect(batchCalls(mockClient)).toHaveLength(1);
+      expect(batchCalls(mockClient)[0].Entries).toHaveLength(3);
     });
 
     it("should flush remaining messages on close", async () => {
@@ -129,23 +141,25 @@ describe("SQSOutput", () => {
       const output = createSqsOutput({
         queueUrl: "http://localhost:4566/000000000000/test-queue",
         maxBatchSize: 10,
+        batchTimeout: 5000,
       });
 
       // Send 3 messages (less than batch size)
-      await Effect.runPromise(output.send(createMessage({ id: 1 })));
-      await Effect.runPromise(output.send(createMessage({ id: 2 })));
-      await Effect.runPromise(output.send(createMessage({ id: 3 })));
+      const sends = Effect.runFork(
+        sendAll(output, [
+          createMessage({ id: 1 }),
+          createMessage({ id: 2 }),
+          createMessage({ id: 3 }),
+        ]),
+      );
+      await new Promise((resolve) => setTimeout(resolve, 10));
 
-      // Close should flush
-      if (output.close) {
-        await Effect.runPromise(output.close());
-      }
+      // Close should flush and complete the waiting sends
+      await Effect.runPromise(output.close!());
+      await Effect.runPromise(Fiber.join(sends));
 
-      // Should have sent the remaining batch
-      const batchCalls = (mockClient.send as any).mock.calls.filter(
-        (call: any) => call[0].Entries !== undefined,
-      );
-      expect(batchCalls.length).toBeGreaterThan(0);
+      expect(batchCalls(mockClient)).toHaveLength(1);
+      expect(batchCalls(mockClient)[0].Entries).toHaveLength(3);
     });
 
     it("should handle partial batch failures", async () => {
@@ -162,13 +176,58 @@ describe("SQSOutput", () => {
         maxRetries: 0, // Disable retry for error testing
       });
 
-      await Effect.runPromise(output.send(createMessage({ id: 1 })));
-
-      const result = Effect.runPromise(output.send(createMessage({ id: 2 })));
+      const result = Effect.runPromise(
+        sendAll(output, [createMessage({ id: 1 }), createMessage({ id: 2 })]),
+      );
 
       // Should fail due to partial failure
       await expect(result).rejects.toThrow();
     });
+
+    it("should fail every send of a batch that was not delivered", async () => {
+      const { SQSClient } = await import("@aws-sdk/client-sqs");
+      const mockClient = new SQSClient({});
+      (mockClient.send as any).mockRejectedValueOnce(
+        new Error("Network error"),
+      );
+
+      const output = createSqsOutput({
+        queueUrl: "http://localhost:4566/000000000000/test-queue",
+        maxBatchSize: 10,
+        batchTimeout: 20,
+        maxRetries: 0, // Disable retry for error testing
+      });
+
+      // Both messages are sent by the timeout in one failing batch
+      const exits = await Promise.all([
+        Effect.runPromiseExit(output.send(createMessage({ id: 1 }))),
+        Effect.runPromiseExit(output.send(createMessage({ id: 2 }))),
+      ]);
+
+      expect(batchCalls(mockClient)).toHaveLength(1);
+      expect(exits.every(Exit.isFailure)).toBe(true);
+    });
+
+    it("should fail the sends of a batch that failed on close", async () => {
+      const { SQSClient } = await import("@aws-sdk/client-sqs");
+      const mockClient = new SQSClient({});
+      (mockClient.send as any).mockRejectedValueOnce(
+        new Error("Network error"),
+      );
+
+      const output = createSqsOutput({
+        queueUrl: "http://localhost:4566/000000000000/test-queue",
+        maxBatchSize: 10,
+        batchTimeout: 5000,
+        maxRetries: 0, // Disable retry for error testing
+      });
+
+      const send = Effect.runPromiseExit(output.send(createMessage({ id: 1 })));
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      await Effect.runPromise(output.close!());
+
+      expect(Exit.isFailure(await send)).toBe(true);
+    });
   });
 
   describe("Configuration", () => {
@@ -216,19 +275,19 @@ describe("SQSOutput", () => {
       });
 
       // Send 3 messages (less than batch size)
-      await Effect.runPromise(output.send(createMessage({ id: 1 })));
-      await Effect.runPromise(output.send(createMessage({ id: 2 })));
-      await Effect.runPromise(output.send(createMessage({ id: 3 })));
-
-      // Wait for timeout to expire with significant buffer for fiber execution
-      await new Promise((resolve) => setTimeout(resolve, 500));
-
-      // Should have sent the batch due to timeout
-      const batchCalls = (mockClient.send as any).mock.calls.filter(
-        (call: any) => call[0].Entries !== undefined,
+      const start = Date.now();
+      await Effect.runPromise(
+        sendAll(output, [
+          createMessage({ id: 1 }),
+          createMessage({ id: 2 }),
+          createMessage({ id: 3 }),
+        ]),
       );
-      expect(batchCalls.length).toBeGreaterThan(0);
-      expect(batchCalls[0][0].Entries.length).toBe(3);
+
+      // Sent together once the timeout expired
+      expect(Date.now() - start).toBeGreaterThanOrEqual(90);
+      expect(batchCalls(mockClient)).toHaveLength(1);
+      expect(batchCalls(mockClient)[0].Entries).toHaveLength(3);
     });
 
     it("should cancel timeout when batch fills", async () => {
@@ -242,23 +301,21 @@ describe("SQSOutput", () => {
       });
 
       // Send messages to fill batch
-      await Effect.runPromise(output.send(createMessage({ id: 1 })));
-      await Effect.runPromise(output.send(createMessage({ id: 2 })));
-      await Effect.runPromise(output.send(createMessage({ id: 3 })));
+      await Effect.runPromise(
+        sendAll(output, [
+          createMessage({ id: 1 }),
+          createMessage({ id: 2 }),
+          createMessage({ id: 3 }),
+        ]),
+      );
 
       // Should have sent immediately when batch filled
-      const batchCalls = (mockClient.send as any).mock.calls.filter(
-        (call: any) => call[0].Entries !== undefined,
-      );
-      expect(batchCalls.length).toBe(1);
-      expect(batchCalls[0][0].Entries.length).toBe(3);
+      expect(batchCalls(mockClient)).toHaveLength(1);
+      expect(batchCalls(mockClient)[0].Entries).toHaveLength(3);
 
       // Timeout should be cancelled - no additional sends
       await new Promise((resolve) => setTimeout(resolve, 100));
-      const batchCallsAfter = (mockClient.send as any).mock.calls.filter(
-        (call: any) => call[0].Entries !== undefined,
-      );
-      expect(batchCallsAfter.length).toBe(1); // Still only 1 batch
+      expect(batchCalls(mockClient)).toHaveLength(1); // Still only 1 batch
     });
 
     it("should restart timeout for new batch", async () => {
@@ -271,27 +328,22 @@ describe("SQSOutput", () => {
         batchTimeout: 100,
       });
 
-      // First batch - fill it
-      await Effect.runPromise(output.send(createMessage({ id: 1 })));
-      await Effect.runPromise(output.send(createMessage({ id: 2 })));
-      await Effect.runPromise(output.send(createMessage({ id: 3 })));
-
-      // Second batch - partial
-      await Effect.runPromise(output.send(createMessage({ id: 4 })));
-
-      // Wait for timeout with significant buffer for fiber execution
-      await new Promise((resolve) => setTimeout(resolve, 500));
-
-      // Should have 2 batches sent
-      const batchCalls = (mockClient.send as any).mock.calls.filter(
-        (call: any) => call[0].Entries !== undefined,
+      // One full batch and a partial one sent by the timeout
+      await Effect.runPromise(
+        sendAll(output, [
+          createMessage({ id: 1 }),
+          createMessage({ id: 2 }),
+          createMessage({ id: 3 }),
+          createMessage({ id: 4 }),
+        ]),
       );
-      expect(batchCalls.length).toBe(2);
-      expect(batchCalls[0][0].Entries.length).toBe(3);
-      expect(batchCalls[1][0].Entries.length).toBe(1);
+
+      expect(batchCalls(mockClient)).toHaveLength(2);
+      expect(batchCalls(mockClient)[0].Entries).toHaveLength(3);
+      expect(batchCalls(mockClient)[1].Entries).toHaveLength(1);
     });
 
-    it("should work without timeout configured", async () => {
+    it("should send a partial batch after the default timeout", async () => {
       const { SQSClient } = await import("@aws-sdk/client-sqs");
       const mockClient = new SQSClient({});
 
@@ -301,18 +353,12 @@ describe("SQSOutput", () => {
         // No batchTimeout configured
       });
 
-      // Send messages
-      await Effect.runPromise(output.send(createMessage({ id: 1 })));
-      await Effect.runPromise(output.send(createMessage({ id: 2 })));
-
-      // Wait a bit
-      await new Promise((resolve) => setTimeout(resolve, 150));
-
-      // Should NOT have sent batch (no timeout)
-      const batchCalls = (mockClient.send as any).mock.calls.filter(
-        (call: any) => call[0].Entries !== undefined,
+      await Effect.runPromise(
+        sendAll(output, [createMessage({ id: 1 }), createMessage({ id: 2 })]),
       );
-      expect(batchCalls.length).toBe(0);
+
+      expect(batchCalls(mockClient)).toHaveLength(1);
+      expect(batchCalls(mockClient)[0].Entries).toHaveLength(2);
     });
 
     it("should cancel timeout on close", async () => {
@@ -323,14 +369,15 @@ describe("SQSOutput", () => {
       });
 
       // Send message to start timeout
-      await Effect.runPromise(output.send(createMessage({ id: 1 })));
+      const start = Date.now();
+      const send = Effect.runPromise(output.send(createMessage({ id: 1 })));
+      await new Promise((resolve) => setTimeout(resolve, 10));
 
       // Close should cancel timeout and flush
-      if (output.close) {
-        await Effect.runPromise(output.close());
-      }
+      await Effect.runPromise(output.close!());
+      await send;
 
-      // No errors should occur
+      expect(Date.now() - start).toBeLessThan(1000);
     });
   });
 
@@ -379,5 +426,47 @@ describe("SQSOutput", () => {
         "test-correlation-id",
       );
     });
+
+    it("should carry the trace context to the SQS input", async () => {
+      const { SQSClient } = await import("@aws-sdk/client-sqs");
+      const mockClient = new SQSClient({});
+      const queueUrl = "http://localhost:4566/000000000000/test-queue";
+      const trace = {
+        traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+        spanId: "00f067aa0ba902b7",
+        sampled: true,
+        traceState: "vendor=abc",
+      };
+
+      const output = createSqsOutput({ queueUrl });
+      await Effect.runPromise(
+        output.send({ ...createMessage({ test: "data" }), trace }),
+      );
+
+      // Receive what was sent, as SQS returns it without unset attributes
+      const sendCall = (mockClient.send as any).mock.calls[0][0];
+      expect(sendCall.MessageAttributes.traceparent.StringValue).toBe(
+        "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01",
+      );
+      (mockClient.send as any).mockResolvedValueOnce({
+        Messages: [
+          {
+            MessageId: "test-id",
+            ReceiptHandle: "test-receipt",
+            Body: sendCall.MessageBody,
+            MessageAttributes: JSON.parse(
+              JSON.stringify(sendCall.MessageAttributes),
+            ),
+          },
+        ],
+      });
+
+      const input = createSqsInput({ queueUrl });
+      const received = await Effect.runPromise(
+        Stream.runCollect(input.stream.pipe(Stream.take(1))),
+      );
+
+      expect(Chunk.toReadonlyArray(received)[0].trace).toEqual(trace);
+    });
   });
 });
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { Effect } from "effect";
+import { Writable } from "node:stream";
+import { createStdoutOutput } from "../../../src/outputs/stdout-output.js";
+import { createMessage } from "../../../src/core/types.js";
+
+const createSink = () => {
+  const chunks: string[] = [];
+  const sink = new Writable({
+    write(chunk, _encoding, callback) {
+      chunks.push(chunk.toString());
+      callback();
+    },
+  });
+  return { sink, text: () => chunks.join("") };
+};
+
+const sendAll = (
+  format: "compact" | "pretty" | "raw" | undefined,
+  contents: unknown[],
+) => {
+  const { sink, text } = createSink();
+  const output = createStdoutOutput({ format, sink });
+  return Effect.runPromise(
+    Effect.forEach(contents, (content) =>
+      output.send(createMessage(content, { ignored: true })),
+    ),
+  ).then(text);
+};
+
+describe("StdoutOutput", () => {
+  it("should write compact JSON lines of the content by default", async () => {
+    expect(await sendAll(undefined, [{ n: 1 }, "s"])).toBe('{"n":1}\n"s"\n');
+  });
+
+  it("should pretty-print JSON", async () => {
+    expect(await sendAll("pretty", [{ n: 1 }])).toBe('{\n  "n": 1\n}\n');
+  });
+
+  it("should write string content as-is in raw mode", async () => {
+    expect(await sendAll("raw", ["plain text", { n: 1 }])).toBe(
+      'plain text\n{"n":1}\n',
+    );
+  });
+
+  it("should fail when the sink is closed", async () => {
+    const { sink } = createSink();
+    const output = createStdoutOutput({ sink });
+    sink.destroy();
+
+    const result = await Effect.runPromise(
+      Effect.either(output.send(createMessage({}))),
+    );
+
+    expect(result._tag).toBe("Left");
+  });
+});
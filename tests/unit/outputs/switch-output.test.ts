@@ -0,0 +1,172 @@
+import { describe, it, expect } from "vitest";
+import { Effect } from "effect";
+import {
+  createSwitchOutput,
+  SwitchOutputError,
+} from "../../../src/outputs/switch-output.js";
+import { ComponentError } from "../../../src/core/errors.js";
+import {
+  createMessage,
+  type Output,
+  type Message,
+} from "../../../src/core/types.js";
+
+class TestOutputError extends ComponentError {
+  readonly _tag = "TestOutputError";
+  readonly category = "intermittent" as const;
+}
+
+const recordingOutput = (name: string, fail = false) => {
+  const sent: Message[] = [];
+  let closed = false;
+  const output: Output<TestOutputError> = {
+    name,
+    send: (msg) =>
+      fail
+        ? Effect.fail(new TestOutputError(`${name} unavailable`))
+        : Effect.sync(() => {
+            sent.push(msg);
+          }),
+    close: () =>
+      Effect.sync(() => {
+        closed = true;
+      }),
+  };
+  return { output, sent, isClosed: () => closed };
+};
+
+describe("SwitchOutput", () => {
+  describe("Configuration Validation", () => {
+    it("should reject an empty case list", () => {
+      expect(() => createSwitchOutput({ cases: [] })).toThrow(
+        SwitchOutputError,
+      );
+    });
+
+    it("should reject an invalid check expression", () => {
+      const a = recordingOutput("a");
+      expect(() =>
+        createSwitchOutput({
+          cases: [{ check: "type = (", output: a.output }],
+        }),
+      ).toThrow(/Failed to compile switch check/);
+    });
+  });
+
+  describe("Routing", () => {
+    it("should send to the first matching case only", async () => {
+      const orders = recordingOutput("orders");
+      const audit = recordingOutput("audit");
+      const output = createSwitchOutput({
+        cases: [
+          { check: 'type = "order"', output: orders.output },
+          { check: "true", output: audit.output },
+        ],
+      });
+
+      await Effect.runPromise(output.send(createMessage({ type: "order" })));
+      await Effect.runPromise(output.send(createMessage({ type: "login" })));
+
+      expect(orders.sent.map((m) => m.content)).toEqual([{ type: "order" }]);
+      expect(audit.sent.map((m) => m.content)).toEqual([{ type: "login" }]);
+    });
+
+    it("should keep checking cases after a match with continue", async () => {
+      const orders = recordingOutput("orders");
+      const audit = recordingOutput("audit");
+      const output = createSwitchOutput({
+        cases: [
+          { check: 'type = "order"', output: orders.output, continue: true },
+          { check: "true", output: audit.output },
+        ],
+      });
+
+      await Effect.runPromise(output.send(createMessage({ type: "order" })));
+
+      expect(orders.sent).toHaveLength(1);
+      expect(audit.sent).toHaveLength(1);
+    });
+
+    it("should bind $meta for checks", async () => {
+      const audit = recordingOutput("audit");
+      const output = createSwitchOutput({
+        cases: [{ check: '$meta.source = "audit"', output: audit.output }],
+      });
+
+      await Effect.runPromise(
+        output.send(createMessage({ id: 1 }, { source: "audit" })),
+      );
+      await Effect.runPromise(
+        output.send(createMessage({ id: 2 }, { source: "orders" })),
+      );
+
+      expect(audit.sent.map((m) => m.content)).toEqual([{ id: 1 }]);
+    });
+
+    it("should route concurrent sends by their own metadata", async () => {
+      const audit = recordingOutput("audit");
+      const output = createSwitchOutput({
+        cases: [
+          { check: 'id >= 0 and $meta.source = "audit"', output: audit.output },
+        ],
+      });
+      const messages = Array.from({ length: 20 }, (_, id) =>
+        createMessage({ id }, { source: id % 2 === 0 ? "audit" : "orders" }),
+      );
+
+      await Effect.runPromise(
+        Effect.forEach(messages, output.send, { concurrency: "unbounded" }),
+      );
+
+      expect(audit.sent.map((m) => m.metadata.source)).toEqual(
+        Array(10).fill("audit"),
+      );
+    });
+
+    it("should drop messages that match no case", async () => {
+      const orders = recordingOutput("orders");
+      const output = createSwitchOutput({
+        cases: [{ check: 'type = "order"', output: orders.output }],
+      });
+
+      await Effect.runPromise(output.send(createMessage({ type: "login" })));
+
+      expect(orders.sent).toHaveLength(0);
+    });
+  });
+
+  describe("Error Handling", () => {
+    it("should keep the category of a failing case output", async () => {
+      const orders = recordingOutput("orders", true);
+      const output = createSwitchOutput({
+        cases: [{ check: "true", output: orders.output }],
+      });
+
+      const error = await Effect.runPromise(
+        Effect.flip(output.send(createMessage({ type: "order" }))),
+      );
+
+      expect(error).toBeInstanceOf(SwitchOutputError);
+      expect(error.category).toBe("intermittent");
+      expect(error.message).toContain("orders unavailable");
+    });
+  });
+
+  describe("close", () => {
+    it("should close all case outputs", async () => {
+      const a = recordingOutput("a");
+      const b = recordingOutput("b");
+      const output = createSwitchOutput({
+        cases: [
+          { check: "true", output: a.output },
+          { check: "true", output: b.output },
+        ],
+      });
+
+      await Effect.runPromise(output.close!());
+
+      expect(a.isClosed()).toBe(true);
+      expect(b.isClosed()).toBe(true);
+    });
+  });
+});
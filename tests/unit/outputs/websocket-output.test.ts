@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { Effect } from "effect";
+import { WebSocketServer } from "ws";
+import { createWebSocketOutput } from "../../../src/outputs/websocket-output.js";
+import { createMessage } from "../../../src/core/types.js";
+
+describe("WebSocketOutput", () => {
+  let server: WebSocketServer;
+  let url: string;
+  let frames: string[];
+
+  beforeEach(async () => {
+    frames = [];
+    server = new WebSocketServer({ port: 0 });
+    await new Promise((resolve) => server.once("listening", resolve));
+    url = `ws://127.0.0.1:${(server.address() as { port: number }).port}`;
+  });
+
+  afterEach(async () => {
+    server.clients.forEach((client) => client.terminate());
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const received = async (count: number) => {
+    while (frames.length < count) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    return frames;
+  };
+
+  it("should send each message as a frame over one connection", async () => {
+    let connections = 0;
+    server.on("connection", (socket, request) => {
+      connections++;
+      expect(request.headers["x-api-key"]).toBe("secret");
+      socket.on("message", (data) => frames.push(data.toString()));
+    });
+
+    const output = createWebSocketOutput({
+      url,
+      headers: { "X-API-Key": "secret" },
+      format: "raw",
+    });
+    await Effect.runPromise(output.send(createMessage({ id: 1 })));
+    await Effect.runPromise(output.send(createMessage("plain")));
+    await Effect.runPromise(output.close!());
+
+    expect(await received(2)).toEqual(['{"id":1}', "plain"]);
+    expect(connections).toBe(1);
+  });
+
+  it("should reconnect when the connection was lost", async () => {
+    server.on("connection", (socket) => {
+      socket.on("message", (data) => {
+        frames.push(data.toString());
+        // Drop the connection after the first frame
+        if (frames.length === 1) {
+          socket.terminate();
+        }
+      });
+    });
+
+    const output = createWebSocketOutput({ url, maxRetries: 0 });
+    await Effect.runPromise(output.send(createMessage({ n: 1 })));
+    await received(1);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await Effect.runPromise(output.send(createMessage({ n: 2 })));
+    await Effect.runPromise(output.close!());
+
+    expect(await received(2)).toEqual(['{"n":1}', '{"n":2}']);
+  });
+
+  it("should fail with an intermittent error when the server is unreachable", async () => {
+    const output = createWebSocketOutput({
+      url: "ws://127.0.0.1:1",
+      maxRetries: 0,
+    });
+
+    const result = await Effect.runPromise(
+      Effect.either(output.send(createMessage({ n: 1 }))),
+    );
+    await Effect.runPromise(output.close!());
+
+    expect(result._tag).toBe("Left");
+    const error = result._tag === "Left" ? result.left : undefined;
+    expect(error?.category).toBe("intermittent");
+  });
+});
@@ -3,6 +3,7 @@ import { Effect } from "effect";
 import { createBranchProcessor } from "../../../src/processors/branch-processor.js";
 import { createMetadataProcessor } from "../../../src/processors/metadata-processor.js";
 import { createMappingProcessor } from "../../../src/processors/mapping-processor.js";
+import { createFilterProcessor } from "../../../src/processors/filter-processor.js";
 import { createMessage } from "../../../src/core/types.js";
 
 describe("BranchProcessor", () => {
@@ -93,4 +94,20 @@ describe("BranchProcessor", () => {
     // Branch result should have processedAt in its metadata
     expect(result.metadata.branchResult.metadata.processedAt).toBeDefined();
   });
+
+  it("should pass the original message through when the branch is filtered", async () => {
+    const message = createMessage({ amount: 50 });
+
+    const branchProcessor = createBranchProcessor({
+      processors: [
+        createFilterProcessor({ check: "amount > 100" }),
+        createMetadataProcessor(),
+      ],
+    });
+
+    const result = await Effect.runPromise(branchProcessor.process(message));
+
+    expect(result).toBe(message);
+    expect(result.metadata.branchResult).toBeUndefined();
+  });
 });
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { Effect } from "effect";
+import { createFilterProcessor } from "../../../src/processors/filter-processor.js";
+import { createMessage } from "../../../src/core/types.js";
+
+describe("FilterProcessor", () => {
+  it("should keep messages whose check is truthy", async () => {
+    const filter = createFilterProcessor({ check: "amount > 100" });
+    const message = createMessage({ amount: 150 });
+
+    const result = await Effect.runPromise(filter.process(message));
+
+    expect(result).toEqual([message]);
+  });
+
+  it("should drop messages whose check is falsy", async () => {
+    const filter = createFilterProcessor({ check: "amount > 100" });
+
+    const result = await Effect.runPromise(
+      filter.process(createMessage({ amount: 50 })),
+    );
+
+    expect(result).toEqual([]);
+  });
+
+  it("should drop messages when the check yields no value", async () => {
+    const filter = createFilterProcessor({ check: "missing.field" });
+
+    const result = await Effect.runPromise(
+      filter.process(createMessage({ amount: 50 })),
+    );
+
+    expect(result).toEqual([]);
+  });
+
+  it("should bind $meta and wrap primitive content", async () => {
+    const filter = createFilterProcessor({
+      check: '$meta.source = "api" and value = "ok"',
+    });
+
+    const kept = await Effect.runPromise(
+      filter.process(createMessage("ok", { source: "api" })),
+    );
+    const dropped = await Effect.runPromise(
+      filter.process(createMessage("ok", { source: "batch" })),
+    );
+
+    expect(kept).toHaveLength(1);
+    expect(dropped).toHaveLength(0);
+  });
+
+  it("should check concurrent messages against their own metadata", async () => {
+    const filter = createFilterProcessor({
+      check: "i >= 0 and $meta.keep = true",
+    });
+    const messages = Array.from({ length: 20 }, (_, i) =>
+      createMessage({ i }, { keep: i % 2 === 0 }),
+    );
+
+    const results = await Effect.runPromise(
+      Effect.forEach(messages, filter.process, { concurrency: "unbounded" }),
+    );
+
+    expect(results.map((result) => result.length)).toEqual(
+      messages.map((_, i) => (i % 2 === 0 ? 1 : 0)),
+    );
+  });
+
+  it("should throw on an invalid check expression", () => {
+    expect(() => createFilterProcessor({ check: "amount > (" })).toThrow(
+      /Failed to compile filter check expression/,
+    );
+  });
+
+  it("should fail when the check cannot be evaluated", async () => {
+    const filter = createFilterProcessor({ check: '$number("abc") > 1' });
+
+    const result = await Effect.runPromise(
+      Effect.either(filter.process(createMessage({}))),
+    );
+
+    expect(result._tag).toBe("Left");
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect } from "vitest";
+import { Effect } from "effect";
+import { createSplitProcessor } from "../../../src/processors/split-processor.js";
+import { createMessage, type Message } from "../../../src/core/types.js";
+
+const split = (
+  processor: ReturnType<typeof createSplitProcessor>,
+  msg: Message,
+) => Effect.runPromise(processor.process(msg)) as Promise<Message[]>;
+
+describe("SplitProcessor", () => {
+  describe("Configuration Validation", () => {
+    it("should reject a non-positive batch size", () => {
+      expect(() => createSplitProcessor({ batchSize: 0 })).toThrow();
+    });
+
+    it("should reject a multi-character delimiter", () => {
+      expect(() =>
+        createSplitProcessor({ format: "csv", delimiter: ";;" }),
+      ).toThrow();
+    });
+
+    it("should reject an invalid path expression", () => {
+      expect(() => createSplitProcessor({ path: "items[" })).toThrow(
+        /Failed to compile split path/,
+      );
+    });
+  });
+
+  describe("Array splitting", () => {
+    it("should split array content into one message per item", async () => {
+      const processor = createSplitProcessor({});
+      const parent = {
+        ...createMessage([{ n: 1 }, { n: 2 }, { n: 3 }], { source: "test" }),
+        correlationId: "corr-1",
+      };
+
+      const result = await split(processor, parent);
+
+      expect(result.map((m) => m.content)).toEqual([
+        { n: 1 },
+        { n: 2 },
+        { n: 3 },
+      ]);
+      expect(result.map((m) => m.metadata.split_index)).toEqual([0, 1, 2]);
+      expect(result.every((m) => m.metadata.split_count === 3)).toBe(true);
+      expect(result.every((m) => m.metadata.source === "test")).toBe(true);
+      expect(result.every((m) => m.correlationId === "corr-1")).toBe(true);
+      expect(new Set(result.map((m) => m.id)).size).toBe(3);
+    });
+
+    it("should split the array at a JSONata path", async () => {
+      const processor = createSplitProcessor({ path: "order.items" });
+
+      const result = await split(
+        processor,
+        createMessage({ order: { items: [{ sku: "A" }, { sku: "B" }] } }),
+      );
+
+      expect(result.map((m) => m.content)).toEqual([
+        { sku: "A" },
+        { sku: "B" },
+      ]);
+    });
+
+    it("should emit a single message when the path matches one value", async () => {
+      const processor = createSplitProcessor({ path: "order.items" });
+
+      const result = await split(
+        processor,
+        createMessage({ order: { items: [{ sku: "A" }] } }),
+      );
+
+      expect(result.map((m) => m.content)).toEqual([{ sku: "A" }]);
+    });
+
+    it("should split concurrent messages with their own metadata", async () => {
+      const processor = createSplitProcessor({
+        path: "$count(items) > 0 ? items[type = $meta.type]",
+      });
+      const messages = Array.from({ length: 20 }, (_, i) =>
+        createMessage(
+          {
+            items: [
+              { type: "a", i },
+              { type: "b", i },
+            ],
+          },
+          { type: i % 2 === 0 ? "a" : "b" },
+        ),
+      );
+
+      const results = await Promise.all(
+        messages.map((msg) => split(processor, msg)),
+      );
+
+      expect(results.map((result) => result.map((m) => m.content))).toEqual(
+        messages.map((_, i) => [{ type: i % 2 === 0 ? "a" : "b", i }]),
+      );
+    });
+
+    it("should emit no messages when the path matches nothing", async () => {
+      const processor = createSplitProcessor({ path: "missing" });
+
+      const result = await split(processor, createMessage({ items: [] }));
+
+      expect(result).toEqual([]);
+    });
+
+    it("should group items into batches", async () => {
+      const processor = createSplitProcessor({ batchSize: 2 });
+
+      const result = await split(processor, createMessage([1, 2, 3, 4, 5]));
+
+      expect(result.map((m) => m.content)).toEqual([[1, 2], [3, 4], [5]]);
+      expect(result.map((m) => m.metadata.split_count)).toEqual([3, 3, 3]);
+    });
+  });
+
+  describe("Text splitting", () => {
+    it("should split newline-delimited text and skip empty lines", async () => {
+      const processor = createSplitProcessor({ format: "lines" });
+
+      const result = await split(
+        processor,
+        createMessage("first\r\nsecond\n\nthird\n"),
+      );
+
+      expect(result.map((m) => m.content)).toEqual([
+        "first",
+        "second",
+        "third",
+      ]);
+    });
+
+    it("should split CSV text into records keyed by header", async () => {
+      const processor = createSplitProcessor({
+        path: "body",
+        format: "csv",
+        delimiter: ";",
+      });
+
+      const result = await split(
+        processor,
+        createMessage({ body: 'id;name\n1;"Smith; John"\n2;Jane\n' }),
+      );
+
+      expect(result.map((m) => m.content)).toEqual([
+        { id: "1", name: "Smith; John" },
+        { id: "2", name: "Jane" },
+      ]);
+    });
+
+    it("should fail when text formats receive non-text values", async () => {
+      const processor = createSplitProcessor({ format: "lines" });
+
+      const result = await Effect.runPromise(
+        Effect.either(processor.process(createMessage({ a: 1 }))),
+      );
+
+      expect(result._tag).toBe("Left");
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { Effect } from "effect";
+import Database from "better-sqlite3";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  createSqlSelectProcessor,
+  type SqlSelectProcessorConfig,
+} from "../../../src/processors/sql-select-processor.js";
+import { createMessage, type Message } from "../../../src/core/types.js";
+
+describe("SqlSelectProcessor", () => {
+  let dir: string;
+  let dsn: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "sql-select-"));
+    dsn = path.join(dir, "test.db");
+    const db = new Database(dsn);
+    db.exec(
+      "CREATE TABLE customers (id INTEGER PRIMARY KEY, name TEXT, region TEXT)",
+    );
+    db.exec(
+      "INSERT INTO customers VALUES (1, 'ann', 'eu'), (2, 'bob', 'us'), (3, 'cid', 'eu')",
+    );
+    db.close();
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const processWith = (
+    config: Partial<SqlSelectProcessorConfig>,
+    content: unknown,
+  ) => {
+    const processor = createSqlSelectProcessor({
+      driver: "sqlite",
+      dsn,
+      query: "SELECT name FROM customers WHERE id = ?",
+      ...config,
+    });
+    return Effect.runPromise(
+      Effect.either(
+        processor.process(createMessage(content, { region: "eu" })),
+      ),
+    );
+  };
+
+  it("should reject a config without query", () => {
+    expect(() =>
+      createSqlSelectProcessor({ driver: "sqlite", dsn, query: "" }),
+    ).toThrow();
+  });
+
+  it("should store rows under the result key", async () => {
+    const result = await processWith(
+      { argsMapping: "[customerId]", resultKey: "customer" },
+      { customerId: 2 },
+    );
+
+    expect(result._tag).toBe("Right");
+    const msg = result._tag === "Right" ? (result.right as Message) : undefined;
+    expect(msg?.metadata.customer).toEqual([{ name: "bob" }]);
+    expect(msg?.metadata.region).toBe("eu");
+    expect(msg?.content).toEqual({ customerId: 2 });
+  });
+
+  it("should bind $meta in the args mapping and default the result key", async () => {
+    const result = await processWith(
+      {
+        query: "SELECT id FROM customers WHERE region = ? ORDER BY id",
+        argsMapping: "[$meta.region]",
+      },
+      {},
+    );
+
+    const msg = result._tag === "Right" ? (result.right as Message) : undefined;
+    expect(msg?.metadata.sql_result).toEqual([{ id: 1 }, { id: 3 }]);
+  });
+
+  it("should store an empty array when nothing matches", async () => {
+    const result = await processWith({ argsMapping: "[id]" }, { id: 99 });
+
+    const msg = result._tag === "Right" ? (result.right as Message) : undefined;
+    expect(msg?.metadata.sql_result).toEqual([]);
+  });
+
+  it("should close its database connection", async () => {
+    const processor = createSqlSelectProcessor({
+      driver: "sqlite",
+      dsn,
+      query: "SELECT name FROM customers WHERE id = 1",
+      maxRetries: 0,
+    });
+    const query = () =>
+      Effect.runPromise(Effect.either(processor.process(createMessage({}))));
+
+    expect((await query())._tag).toBe("Right");
+    await Effect.runPromise(processor.close!());
+    expect((await query())._tag).toBe("Left");
+  });
+
+  it("should fail with a logical error for an invalid query", async () => {
+    const result = await processWith(
+      { query: "SELECT * FROM missing", maxRetries: 0 },
+      {},
+    );
+
+    expect(result._tag).toBe("Left");
+    const error = result._tag === "Left" ? result.left : undefined;
+    expect(error?.category).toBe("logical");
+  });
+});
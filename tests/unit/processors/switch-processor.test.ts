@@ -3,7 +3,8 @@ import { Effect } from "effect";
 import { createSwitchProcessor } from "../../../src/processors/switch-processor.js";
 import { createMetadataProcessor } from "../../../src/processors/metadata-processor.js";
 import { createMappingProcessor } from "../../../src/processors/mapping-processor.js";
-import { createMessage } from "../../../src/core/types.js";
+import { createFilterProcessor } from "../../../src/processors/filter-processor.js";
+import { createMessage, type Message } from "../../../src/core/types.js";
 
 describe("SwitchProcessor", () => {
   it("should execute the first matching case", async () => {
@@ -165,4 +166,56 @@ describe("SwitchProcessor", () => {
     // Case should match (5 is truthy)
     expect(result.metadata.processedBy).toBe("metadata-processor");
   });
+
+  it("should drop the message when a case filters it out", async () => {
+    const switchProcessor = createSwitchProcessor({
+      cases: [
+        {
+          check: 'type = "order"',
+          processors: [createFilterProcessor({ check: "amount > 100" })],
+        },
+      ],
+    });
+
+    const result = await Effect.runPromise(
+      switchProcessor.process(createMessage({ type: "order", amount: 50 })),
+    );
+
+    expect(result).toEqual([]);
+  });
+
+  it("should keep processing every message after a split", async () => {
+    const split = {
+      name: "test-split",
+      process: (msg: Message) =>
+        Effect.succeed([
+          { ...msg, content: { n: 1 } },
+          { ...msg, content: { n: 2 } },
+        ]),
+    };
+
+    const switchProcessor = createSwitchProcessor({
+      cases: [
+        {
+          check: "true",
+          processors: [split, createMetadataProcessor()],
+        },
+      ],
+    });
+
+    const result = await Effect.runPromise(
+      switchProcessor.process(createMessage({})),
+    );
+
+    expect(Array.isArray(result)).toBe(true);
+    expect((result as Message[]).map((m) => m.content)).toEqual([
+      { n: 1 },
+      { n: 2 },
+    ]);
+    expect(
+      (result as Message[]).every(
+        (m) => m.metadata.processedBy === "metadata-processor",
+      ),
+    ).toBe(true);
+  });
 });
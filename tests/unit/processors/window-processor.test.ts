@@ -0,0 +1,190 @@
+import { describe, it, expect } from "vitest";
+import { Effect } from "effect";
+import { createWindowProcessor } from "../../../src/processors/window-processor.js";
+import { createMessage, type Message } from "../../../src/core/types.js";
+
+const at = (content: unknown, timestamp: number): Message => ({
+  ...createMessage(content),
+  timestamp,
+});
+
+const processAll = (
+  processor: ReturnType<typeof createWindowProcessor>,
+  messages: Message[],
+) =>
+  Effect.runPromise(
+    Effect.forEach(messages, (msg) => processor.process(msg)),
+  ).then((results) => results.flat());
+
+describe("WindowProcessor", () => {
+  describe("Configuration Validation", () => {
+    it("should require size for time windows", () => {
+      expect(() => createWindowProcessor({ type: "tumbling" })).toThrow(
+        /require size/,
+      );
+    });
+
+    it("should require slide for sliding windows", () => {
+      expect(() =>
+        createWindowProcessor({ type: "sliding", size: 100 }),
+      ).toThrow(/require slide/);
+    });
+
+    it("should require count for count windows", () => {
+      expect(() => createWindowProcessor({ type: "count" })).toThrow(
+        /require count/,
+      );
+    });
+
+    it("should reject an invalid key expression", () => {
+      expect(() =>
+        createWindowProcessor({ type: "count", count: 2, key: "customer[" }),
+      ).toThrow(/Failed to compile window key/);
+    });
+
+    it("should only request periodic flushes for time windows", () => {
+      expect(
+        createWindowProcessor({ type: "count", count: 2 }).flushInterval,
+      ).toBeUndefined();
+      expect(
+        createWindowProcessor({ type: "tumbling", size: 60000 }).flushInterval,
+      ).toBe(1000);
+      expect(
+        createWindowProcessor({ type: "sliding", size: 100, slide: 20 })
+          .flushInterval,
+      ).toBe(20);
+    });
+  });
+
+  describe("Count windows", () => {
+    it("should emit an aggregate when a window is full", async () => {
+      const processor = createWindowProcessor({
+        type: "count",
+        count: 2,
+        key: "customer",
+        aggregate: '{ "customer": $key, "total": $sum(amount) }',
+      });
+
+      const emitted = await processAll(processor, [
+        createMessage({ customer: "a", amount: 1 }),
+        createMessage({ customer: "b", amount: 10 }),
+        createMessage({ customer: "a", amount: 2 }),
+      ]);
+
+      expect(emitted.map((m) => m.content)).toEqual([
+        { customer: "a", total: 3 },
+      ]);
+      expect(emitted[0].metadata).toMatchObject({
+        window_type: "count",
+        window_key: "a",
+        window_count: 2,
+      });
+    });
+
+    it("should key and aggregate concurrent messages with their own variables", async () => {
+      const processor = createWindowProcessor({
+        type: "count",
+        count: 1,
+        key: 'i >= 0 ? $meta.customer : ""',
+        aggregate: '$count($) > 0 ? { "customer": $key, "i": i } : {}',
+      });
+      const messages = Array.from({ length: 20 }, (_, i) =>
+        createMessage({ i }, { customer: `c${i}` }),
+      );
+
+      const emitted = await Effect.runPromise(
+        Effect.forEach(messages, processor.process, {
+          concurrency: "unbounded",
+        }),
+      );
+
+      expect(emitted.flat().map((m) => m.content)).toEqual(
+        messages.map((_, i) => ({ customer: `c${i}`, i })),
+      );
+    });
+
+    it("should emit partial windows on the final flush", async () => {
+      const processor = createWindowProcessor({ type: "count", count: 5 });
+
+      await processAll(processor, [createMessage(1), createMessage(2)]);
+      const periodic = await Effect.runPromise(processor.flush!(false));
+      const final = await Effect.runPromise(processor.flush!(true));
+
+      expect(periodic).toEqual([]);
+      expect(final.map((m) => m.content)).toEqual([[1, 2]]);
+    });
+  });
+
+  describe("Tumbling windows", () => {
+    it("should group messages into aligned, non-overlapping windows", async () => {
+      const processor = createWindowProcessor({
+        type: "tumbling",
+        size: 1000,
+        aggregate: "$count($)",
+      });
+
+      const held = await processAll(processor, [
+        at({}, 1000),
+        at({}, 1999),
+        at({}, 2000),
+      ]);
+      const emitted = await Effect.runPromise(processor.flush!(false));
+
+      expect(held).toEqual([]);
+      expect(
+        emitted.map((m) => [m.metadata.window_start, m.metadata.window_end]),
+      ).toEqual([
+        [1000, 2000],
+        [2000, 3000],
+      ]);
+      expect(emitted.map((m) => m.content)).toEqual([2, 1]);
+    });
+
+    it("should keep open windows until they end", async () => {
+      const processor = createWindowProcessor({
+        type: "tumbling",
+        size: 60000,
+      });
+
+      await processAll(processor, [at({ n: 1 }, Date.now())]);
+
+      expect(await Effect.runPromise(processor.flush!(false))).toEqual([]);
+      expect(await Effect.runPromise(processor.flush!(true))).toHaveLength(1);
+    });
+
+    it("should bind $window for aggregates", async () => {
+      const processor = createWindowProcessor({
+        type: "tumbling",
+        size: 100,
+        aggregate: '{ "start": $window.start, "count": $window.count }',
+      });
+
+      await processAll(processor, [at({}, 250), at({}, 260)]);
+      const [emitted] = await Effect.runPromise(processor.flush!(true));
+
+      expect(emitted.content).toEqual({ start: 200, count: 2 });
+    });
+  });
+
+  describe("Sliding windows", () => {
+    it("should add messages to every overlapping window", async () => {
+      const processor = createWindowProcessor({
+        type: "sliding",
+        size: 100,
+        slide: 50,
+      });
+
+      await processAll(processor, [at("x", 120)]);
+      const emitted = await Effect.runPromise(processor.flush!(true));
+
+      expect(
+        emitted
+          .map((m) => m.metadata.window_start as number)
+          .sort((a, b) => a - b),
+      ).toEqual([50, 100]);
+      expect(emitted.every((m) => (m.content as unknown[]).length === 1)).toBe(
+        true,
+      );
+    });
+  });
+});